@@ -39,6 +39,11 @@ jest.mock('sonner', () => ({
   }
 }));
 
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
 // Mock SlideEditor component
 jest.mock('@/components/features/SlideEditor', () => {
   return function MockSlideEditor() {
@@ -0,0 +1,166 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { GET as startLogin, POST as login } from '../login/route';
+import { GET as callback } from '../callback/route';
+import { POST as logout } from '../logout/route';
+import { GET as getSession } from '../session/route';
+import { AUTH_STATE_COOKIE, SESSION_COOKIE, createSessionToken, readSessionToken } from '@/lib/session';
+
+const ENV_KEYS = ['AUTH_PROVIDER', 'LOCAL_AUTH_USERS', 'AUTH0_ISSUER_BASE_URL', 'AUTH0_CLIENT_ID', 'AUTH0_CLIENT_SECRET'];
+
+const loginRequest = (body: Record<string, unknown>) =>
+  new NextRequest('http://localhost:3000/api/auth/login', { method: 'POST', body: JSON.stringify(body) });
+
+// The session cookie a response set, as the browser would send it back
+const sessionCookieFrom = (response: Response) => {
+  const match = response.headers.get('set-cookie')?.match(new RegExp(`${SESSION_COOKIE}=([^;]*)`));
+  return match?.[1];
+};
+
+describe('/api/auth', () => {
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+    jest.restoreAllMocks();
+  });
+
+  describe('local credentials provider', () => {
+    beforeEach(() => {
+      process.env.AUTH_PROVIDER = 'local';
+      process.env.LOCAL_AUTH_USERS = 'ada@example.com:analytical:Ada Lovelace,grace@example.com:cobol';
+    });
+
+    it('signs in with a listed account and starts a session', async () => {
+      const response = await login(loginRequest({ email: 'Ada@Example.com', password: 'analytical' }));
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result.data).toEqual({ sub: 'local|ada@example.com', name: 'Ada Lovelace', email: 'ada@example.com', picture: null });
+      expect(response.headers.get('set-cookie')).toMatch(/HttpOnly/i);
+
+      const session = await getSession(new NextRequest('http://localhost:3000/api/auth/session', {
+        headers: { cookie: `${SESSION_COOKIE}=${sessionCookieFrom(response)}` }
+      }));
+      const sessionResult = await session.json();
+
+      expect(sessionResult.data.user.sub).toBe('local|ada@example.com');
+      expect(sessionResult.data.provider).toEqual({ name: 'local', type: 'credentials', configured: true });
+    });
+
+    it('falls back to the email as the name', async () => {
+      const result = await (await login(loginRequest({ email: 'grace@example.com', password: 'cobol' }))).json();
+
+      expect(result.data.name).toBe('grace@example.com');
+    });
+
+    it('rejects a wrong password or unknown email the same way', async () => {
+      const wrongPassword = await login(loginRequest({ email: 'ada@example.com', password: 'babbage' }));
+      const unknownEmail = await login(loginRequest({ email: 'charles@example.com', password: 'analytical' }));
+
+      expect(wrongPassword.status).toBe(401);
+      expect(unknownEmail.status).toBe(401);
+      expect((await wrongPassword.json()).code).toBe('INVALID_CREDENTIALS');
+      expect((await unknownEmail.json()).code).toBe('INVALID_CREDENTIALS');
+      expect(sessionCookieFrom(wrongPassword)).toBeUndefined();
+    });
+
+    it('is unavailable when no accounts are configured', async () => {
+      delete process.env.LOCAL_AUTH_USERS;
+
+      const response = await login(loginRequest({ email: 'ada@example.com', password: 'analytical' }));
+
+      expect(response.status).toBe(503);
+      expect((await response.json()).code).toBe('AUTH_NOT_CONFIGURED');
+    });
+  });
+
+  describe('sessions', () => {
+    const user = { sub: 'local|ada@example.com', name: 'Ada', email: 'ada@example.com', picture: null };
+
+    it('rejects a tampered or expired session', () => {
+      const token = createSessionToken(user);
+      const [payload, signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ user: { ...user, sub: 'local|admin' }, exp: 9999999999 })).toString('base64url');
+
+      expect(readSessionToken(token)).toEqual(user);
+      expect(readSessionToken(`${forged}.${signature}`)).toBeNull();
+      expect(readSessionToken(`${payload}.`)).toBeNull();
+      expect(readSessionToken(createSessionToken(user, -1))).toBeNull();
+    });
+
+    it('reports no user without a session', async () => {
+      process.env.AUTH_PROVIDER = 'local';
+      const result = await (await getSession(new NextRequest('http://localhost:3000/api/auth/session'))).json();
+
+      expect(result.data.user).toBeNull();
+    });
+
+    it('clears the session on logout', async () => {
+      const response = await logout();
+
+      expect(response.headers.get('set-cookie')).toMatch(new RegExp(`${SESSION_COOKIE}=;.*Max-Age=0`, 'i'));
+    });
+  });
+
+  describe('Auth0 redirect provider', () => {
+    beforeEach(() => {
+      process.env.AUTH_PROVIDER = 'auth0';
+      process.env.AUTH0_ISSUER_BASE_URL = 'https://tenant.auth0.example/';
+      process.env.AUTH0_CLIENT_ID = 'client-id';
+      process.env.AUTH0_CLIENT_SECRET = 'client-secret';
+    });
+
+    it('sends the browser to the hosted login page and back to where it started', async () => {
+      const start = await startLogin(new NextRequest('http://localhost:3000/api/auth/login?returnTo=/viewer/abc'));
+      const location = new URL(start.headers.get('location')!);
+      const state = location.searchParams.get('state')!;
+
+      expect(location.origin + location.pathname).toBe('https://tenant.auth0.example/authorize');
+      expect(location.searchParams.get('redirect_uri')).toBe('http://localhost:3000/api/auth/callback');
+
+      const fetchMock = jest.spyOn(global, 'fetch')
+        .mockResolvedValueOnce(Response.json({ access_token: 'access-token' }))
+        .mockResolvedValueOnce(Response.json({ sub: 'auth0|42', name: 'Ada', email: 'ada@example.com', picture: 'https://cdn.example/ada.png' }));
+
+      const stateCookie = start.headers.get('set-cookie')!.match(new RegExp(`${AUTH_STATE_COOKIE}=([^;]*)`))![1];
+      const done = await callback(new NextRequest(`http://localhost:3000/api/auth/callback?code=abc&state=${state}`, {
+        headers: { cookie: `${AUTH_STATE_COOKIE}=${stateCookie}` }
+      }));
+
+      expect(fetchMock).toHaveBeenCalledWith('https://tenant.auth0.example/oauth/token', expect.objectContaining({ method: 'POST' }));
+      expect(done.headers.get('location')).toBe('http://localhost:3000/viewer/abc');
+      expect(readSessionToken(sessionCookieFrom(done))?.sub).toBe('auth0|42');
+    });
+
+    it('rejects a callback whose state does not match', async () => {
+      const response = await callback(new NextRequest('http://localhost:3000/api/auth/callback?code=abc&state=forged', {
+        headers: { cookie: `${AUTH_STATE_COOKIE}=expected:/` }
+      }));
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).code).toBe('AUTH_STATE_MISMATCH');
+    });
+
+    it('never redirects off-site after sign-in', async () => {
+      const start = await startLogin(new NextRequest('http://localhost:3000/api/auth/login?returnTo=//evil.example'));
+
+      expect(start.headers.get('set-cookie')).toMatch(new RegExp(`${AUTH_STATE_COOKIE}=[\\w-]+%3A%2F;`));
+    });
+
+    it('does not take credentials', async () => {
+      const response = await login(loginRequest({ email: 'ada@example.com', password: 'analytical' }));
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
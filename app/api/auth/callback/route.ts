@@ -0,0 +1,35 @@
+// API route the hosted login page sends the browser back to
+// GET /api/auth/callback?code=...&state=... - starts the session and returns to where sign-in began
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProvider } from '@/lib/auth-provider';
+import { errorResponse } from '@/lib/api-response';
+import { ValidationError } from '@/lib/errors';
+import { clearAuthStateCookie, readAuthState, setSessionCookie } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams, origin } = request.nextUrl;
+    const returnTo = readAuthState(request, searchParams.get('state'));
+
+    const provider = getAuthProvider();
+    const code = searchParams.get('code');
+    if (!provider.handleCallback || !code) {
+      throw new ValidationError('Sign-in callback is missing its authorization code');
+    }
+
+    const user = await provider.handleCallback({
+      code,
+      redirectUri: new URL('/api/auth/callback', origin).toString()
+    });
+
+    const response = NextResponse.redirect(new URL(returnTo, origin));
+    setSessionCookie(response, user);
+    clearAuthStateCookie(response);
+    return response;
+  } catch (error) {
+    return errorResponse(error, 'Failed to complete sign-in');
+  }
+}
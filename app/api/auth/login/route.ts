@@ -0,0 +1,58 @@
+// API route for signing in with the configured auth provider (AUTH_PROVIDER)
+// POST /api/auth/login  - credentials providers: { email, password }, sets the session cookie
+// GET  /api/auth/login  - redirect providers: sends the browser to the hosted login page (?returnTo=/path)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProvider } from '@/lib/auth-provider';
+import { errorResponse } from '@/lib/api-response';
+import { AppError, ValidationError } from '@/lib/errors';
+import { createAuthState, setAuthStateCookie, setSessionCookie } from '@/lib/session';
+import { toSafeReturnPath } from '@/lib/utils';
+import { CredentialsSchema } from '@/utils/validation-schemas';
+
+export const dynamic = 'force-dynamic';
+
+const getConfiguredProvider = () => {
+  const provider = getAuthProvider();
+  if (!provider.isConfigured()) {
+    throw new AppError(`The ${provider.name} auth provider is not configured`, 'AUTH_NOT_CONFIGURED', 503);
+  }
+  return provider;
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const provider = getConfiguredProvider();
+    if (!provider.signInWithCredentials) {
+      throw new ValidationError(`The ${provider.name} provider signs in through its own page - use GET /api/auth/login`);
+    }
+
+    const { email, password } = CredentialsSchema.parse(await request.json());
+    const user = await provider.signInWithCredentials(email, password);
+
+    const response = NextResponse.json({ success: true, data: user });
+    setSessionCookie(response, user);
+    return response;
+  } catch (error) {
+    return errorResponse(error, 'Failed to sign in');
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const provider = getConfiguredProvider();
+    if (!provider.getAuthorizationUrl) {
+      throw new ValidationError(`The ${provider.name} provider signs in with credentials - use POST /api/auth/login`);
+    }
+
+    const state = createAuthState();
+    const redirectUri = new URL('/api/auth/callback', request.nextUrl.origin).toString();
+    const returnTo = toSafeReturnPath(request.nextUrl.searchParams.get('returnTo'));
+
+    const response = NextResponse.redirect(provider.getAuthorizationUrl({ state, redirectUri }));
+    setAuthStateCookie(response, state, returnTo);
+    return response;
+  } catch (error) {
+    return errorResponse(error, 'Failed to start sign-in');
+  }
+}
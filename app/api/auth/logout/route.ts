@@ -0,0 +1,13 @@
+// API route for signing out
+// POST /api/auth/logout - clears the session cookie
+
+import { NextResponse } from 'next/server';
+import { clearSessionCookie } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST() {
+  const response = NextResponse.json({ success: true, data: null });
+  clearSessionCookie(response);
+  return response;
+}
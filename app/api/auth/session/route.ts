@@ -0,0 +1,25 @@
+// API route for the current session
+// GET /api/auth/session - the signed-in user (or null) and how the sign-in page should look
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProvider } from '@/lib/auth-provider';
+import { errorResponse } from '@/lib/api-response';
+import { getSessionUser } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const provider = getAuthProvider();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        user: getSessionUser(request),
+        provider: { name: provider.name, type: provider.type, configured: provider.isConfigured() }
+      }
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to read session');
+  }
+}
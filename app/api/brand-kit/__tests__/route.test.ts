@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { GET, PUT, DELETE } from '../route';
+import { SESSION_COOKIE, createSessionToken } from '@/lib/session';
+import type { AuthUser } from '@/lib/auth-provider';
+
+// Swap the real MongoDB connection for the in-memory stand-in (lib/__mocks__/mongodb.ts)
+jest.mock('@/lib/mongodb');
+const { resetDatabase } = jest.requireMock<typeof import('@/lib/__mocks__/mongodb')>('@/lib/mongodb');
+
+const me: AuthUser = { sub: 'local|me@example.com', name: 'Me', email: 'me@example.com', picture: null };
+const them: AuthUser = { sub: 'local|them@example.com', name: 'Them', email: 'them@example.com', picture: null };
+
+const URL = 'http://localhost:3000/api/brand-kit';
+
+const acmeKit = {
+  name: 'Acme',
+  colors: {
+    primary: '#b91c1c',
+    secondary: '#57534e',
+    accent: '#facc15',
+    background: '#ffffff',
+    text: '#1e293b'
+  },
+  fonts: { heading: 'Georgia, serif', body: 'Inter, sans-serif' },
+  logo: { src: 'data:image/png;base64,iVBORw0KGgo=', placement: 'bottom-right', aspectRatio: 2 }
+};
+
+// A request carrying `user`'s session cookie - pass null to send none
+const authed = (init: ConstructorParameters<typeof NextRequest>[1] = {}, user: AuthUser | null = me) =>
+  new NextRequest(URL, {
+    ...init,
+    headers: user ? { cookie: `${SESSION_COOKIE}=${createSessionToken(user)}` } : {}
+  });
+
+const saveRequest = (kit: Record<string, unknown>, user: AuthUser | null = me) =>
+  authed({ method: 'PUT', body: JSON.stringify(kit) }, user);
+
+describe('/api/brand-kit', () => {
+  beforeEach(() => {
+    resetDatabase();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns null before a brand kit is set up', async () => {
+    const result = await (await GET(authed())).json();
+    expect(result).toEqual({ success: true, data: null });
+  });
+
+  it('saves the brand kit for the signed-in user only', async () => {
+    const response = await PUT(saveRequest(acmeKit));
+    expect(response.status).toBe(200);
+    expect((await response.json()).data).toEqual(acmeKit);
+
+    expect((await (await GET(authed())).json()).data).toEqual(acmeKit);
+    expect((await (await GET(authed({}, them))).json()).data).toBeNull();
+  });
+
+  it('replaces the kit on a second save', async () => {
+    await PUT(saveRequest(acmeKit));
+    await PUT(saveRequest({ ...acmeKit, name: 'Acme 2', logo: null }));
+
+    const result = await (await GET(authed())).json();
+    expect(result.data).toEqual({ ...acmeKit, name: 'Acme 2', logo: null });
+  });
+
+  it('refuses colors that fail WCAG AA contrast', async () => {
+    const response = await PUT(saveRequest({ ...acmeKit, colors: { ...acmeKit.colors, text: '#d4d4d4' } }));
+    const result = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(result.code).toBe('THEME_CONTRAST_TOO_LOW');
+  });
+
+  it('only accepts logos embedded as image data URLs', async () => {
+    const response = await PUT(saveRequest({ ...acmeKit, logo: { ...acmeKit.logo, src: 'https://example.com/logo.png' } }));
+    expect(response.status).toBe(400);
+  });
+
+  it('requires a signed-in user', async () => {
+    expect((await GET(authed({}, null))).status).toBe(401);
+    expect((await PUT(saveRequest(acmeKit, null))).status).toBe(401);
+  });
+
+  it('removes the brand kit', async () => {
+    await PUT(saveRequest(acmeKit));
+
+    expect((await DELETE(authed({ method: 'DELETE' }))).status).toBe(200);
+    expect((await (await GET(authed())).json()).data).toBeNull();
+    expect((await DELETE(authed({ method: 'DELETE' }))).status).toBe(404);
+  });
+});
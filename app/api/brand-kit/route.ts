@@ -0,0 +1,47 @@
+// API route for the signed-in user's brand kit
+// GET    /api/brand-kit - the kit, or null before one is set up
+// PUT    /api/brand-kit - create or replace it (colors must pass WCAG AA contrast)
+// DELETE /api/brand-kit - remove it; new decks go back to the picked theme
+// Colors are extracted from the logo in the browser - this route only stores the result
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteBrandKit, getBrandKit, saveBrandKit } from '@/lib/brand-kit-store';
+import { errorResponse } from '@/lib/api-response';
+import { requireUser } from '@/lib/session';
+import { BrandKitSchema } from '@/utils/validation-schemas';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = requireUser(request);
+    return NextResponse.json({ success: true, data: await getBrandKit(user.sub) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch brand kit');
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = requireUser(request);
+    const input = BrandKitSchema.parse(await request.json());
+    const kit = await saveBrandKit(user.sub, input);
+
+    console.log('🏷️ Brand kit saved');
+    return NextResponse.json({ success: true, data: kit });
+  } catch (error) {
+    return errorResponse(error, 'Failed to save brand kit');
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = requireUser(request);
+    await deleteBrandKit(user.sub);
+
+    console.log('🗑️ Brand kit removed');
+    return NextResponse.json({ success: true, data: null });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete brand kit');
+  }
+}
@@ -0,0 +1,50 @@
+// API route for exporting presentations as a self-contained HTML file
+// The result runs offline - no app, database or network needed to present it
+// Takes the deck itself, or the id of one of the signed-in user's saved presentations
+
+import { NextRequest, NextResponse } from 'next/server';
+import { exportPresentationToHtml } from '@/lib/html-exporter';
+import { errorResponse } from '@/lib/api-response';
+import { getPresentation } from '@/lib/history';
+import { requireUser } from '@/lib/session';
+import { toSafeFilename } from '@/lib/utils';
+import { ExportRequestSchema } from '@/utils/validation-schemas';
+import type { SlidePresentation, SlideTheme } from '@/types/slides';
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = ExportRequestSchema.parse(await request.json());
+    const { options } = input;
+
+    // Saved presentations are only exported for their signed-in owner
+    const presentation = input.historyId
+      ? (await getPresentation(input.historyId, requireUser(request).sub)).presentation
+      : input.presentation as SlidePresentation;
+
+    const html = await exportPresentationToHtml(presentation, {
+      quality: options.quality,
+      ...(options.includeNotes !== undefined && { includeNotes: options.includeNotes }),
+      ...(options.customTheme && { customTheme: options.customTheme as SlideTheme })
+    });
+
+    const filename = toSafeFilename(options.filename?.replace(/\.html?$/i, '') || presentation.title, 'html');
+
+    return new NextResponse(html, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to generate HTML export');
+  }
+}
+
+// Handle other HTTP methods
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed. Use POST to export HTML.' },
+    { status: 405 }
+  );
+}
@@ -0,0 +1,52 @@
+// API route for exporting presentations as PDF
+// Renders every slide with its theme server-side - optionally as notes pages or handouts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { exportPresentationToPdf } from '@/lib/pdf-exporter';
+import { errorResponse } from '@/lib/api-response';
+import { getPresentation } from '@/lib/history';
+import { requireUser } from '@/lib/session';
+import { toSafeFilename } from '@/lib/utils';
+import { ExportRequestSchema } from '@/utils/validation-schemas';
+import type { SlidePresentation, SlideTheme } from '@/types/slides';
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = ExportRequestSchema.parse(await request.json());
+    const { options } = input;
+
+    // Saved presentations are only exported for their signed-in owner
+    const presentation = input.historyId
+      ? (await getPresentation(input.historyId, requireUser(request).sub)).presentation
+      : input.presentation as SlidePresentation;
+
+    const buffer = await exportPresentationToPdf(presentation, {
+      quality: options.quality,
+      includeNotes: options.includeNotes ?? false,
+      notesLayout: options.notesLayout,
+      ...(options.customTheme && { customTheme: options.customTheme as SlideTheme }),
+      ...(options.compression !== undefined && { compression: options.compression })
+    });
+
+    const filename = toSafeFilename(options.filename?.replace(/\.pdf$/i, '') || presentation.title, 'pdf');
+
+    return new NextResponse(buffer, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': buffer.length.toString(),
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to generate PDF');
+  }
+}
+
+// Handle other HTTP methods
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed. Use POST to export a PDF.' },
+    { status: 405 }
+  );
+}
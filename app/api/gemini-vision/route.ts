@@ -1,99 +1,84 @@
-// API route for Gemini vision analysis
-// This endpoint handles image analysis using Google's Gemini AI
+// API route for vision analysis
+// This endpoint handles image analysis using the configured vision provider (Gemini by default)
 
 import { NextRequest, NextResponse } from 'next/server';
-import { analyzeImageWithGeminiPro } from '@/lib/gemini-vision-enhanced';
+import { mockVisionProvider } from '@/lib/mock-vision-provider';
+import { getConfiguredVisionProvider, getImageContext } from '@/lib/vision-provider';
+import { mergeAnalyses } from '@/lib/slide-generator';
+import { getUploadPages, type UploadPage } from '@/lib/pdf-pages';
+import { ValidationError } from '@/lib/errors';
+import { GeminiInputSchema, getImageEntries } from '@/utils/validation-schemas';
+import type { GeminiAnalysisResult } from '@/types/slides';
 
 export async function POST(request: NextRequest) {
   try {
-    // Check if Gemini API key is available
-    if (!process.env.GEMINI_API_KEY) {
-      return NextResponse.json(
-        { error: 'Gemini API key not configured' },
-        { status: 500 }
-      );
-    }
+    // Fails when the vision provider (e.g. the Gemini API key) isn't available
+    const provider = getConfiguredVisionProvider();
 
-    // Parse the FormData from the request
+    // Parse the FormData from the request - `images` is an ordered list
     const formData = await request.formData();
-    const imageFile = formData.get('image') as File;
-    const prompt = formData.get('prompt') as string;
-    const theme = formData.get('theme') as string;
+    const prompt = formData.get('prompt');
+    const theme = formData.get('theme');
+    const pageRange = formData.get('pages');
+    const input = GeminiInputSchema.pick({ images: true }).safeParse({ images: getImageEntries(formData) });
 
-    if (!imageFile) {
+    if (!input.success) {
       return NextResponse.json(
-        { error: 'Image file is required' },
+        { error: input.error.issues[0]?.message ?? 'Image file is required' },
         { status: 400 }
       );
     }
+    const { images } = input.data;
 
-    // Convert the image file to a buffer for Gemini
-    console.log('🔍 Starting Gemini analysis for uploaded image');
-    console.log('📁 Image file details:', {
-      name: imageFile.name,
-      size: imageFile.size,
-      type: imageFile.type
-    });
-    
-    const imageBuffer = Buffer.from(await imageFile.arrayBuffer());
-    const mimeType = imageFile.type || 'image/jpeg';
+    let pages: UploadPage[];
+    try {
+      // PDFs are split into pages, each analyzed like a separate image
+      pages = await getUploadPages(images, typeof pageRange === 'string' && pageRange.trim() ? { range: pageRange } : {});
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    console.log(`🔍 Starting ${provider.name} analysis for ${pages.length} page(s) from ${images.length} upload(s)`);
     
     // Build context from prompt and theme
     const additionalContext = `User prompt: ${prompt || 'Generate presentation slides'}. Theme: ${theme || 'professional'}`;
     
     console.log('🎯 Analysis context:', additionalContext);
-    console.log('🔑 API Key present:', process.env.GEMINI_API_KEY ? 'Yes' : 'No');
-    
-    const analysis = await analyzeImageWithGeminiPro(imageBuffer, mimeType, additionalContext);
-    
-    console.log('✅ Gemini analysis completed successfully');
+
+    // Analyze the pages in order, then merge them into one structure
+    const parts: { analysis: GeminiAnalysisResult; image: number; name: string; page?: number }[] = [];
+    let usedFallback = false;
+    for (const [index, page] of pages.entries()) {
+      const context = getImageContext(additionalContext, index, pages.length);
+      const source = { image: page.image, name: page.name, ...(page.page && { page: page.page }) };
+
+      try {
+        parts.push({ analysis: await provider.analyzeImage(page.data, page.mimeType, context), ...source });
+      } catch (error) {
+        // When the quota runs out, answer from the offline fixtures so development can continue
+        if (error instanceof Error && error.message.includes('exceeded your current quota')) {
+          console.log('🚫 Quota exceeded, returning mock analysis for development');
+          usedFallback = true;
+          parts.push({ analysis: await mockVisionProvider.analyzeImage(page.data, page.mimeType, context), ...source });
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    console.log('✅ Vision analysis completed successfully');
 
     return NextResponse.json({
       success: true,
-      analysis
+      analysis: mergeAnalyses(parts),
+      ...(usedFallback && { provider: mockVisionProvider.name })
     });
 
   } catch (error) {
-    console.error('❌ Gemini vision analysis failed:', error);
-    
-    // Check if it's a quota error
-    if (error instanceof Error && error.message.includes('exceeded your current quota')) {
-      console.log('🚫 Quota exceeded, returning mock response for development');
-      
-      // Return a mock response for development when quota is exceeded
-      return NextResponse.json({
-        success: true,
-        analysis: {
-          structuredContent: {
-            title: "Sample Presentation from Image",
-            introduction: "This is a demo response due to API quota limits.",
-            sections: [
-              {
-                title: "Key Insights",
-                content: "The uploaded image contains visual elements that would make great slide content.",
-                bulletPoints: [
-                  "Visual analysis requires API quota",
-                  "Switch to paid tier for full functionality", 
-                  "This is a placeholder response"
-                ]
-              }
-            ],
-            conclusion: "Upgrade your Gemini API plan to unlock full image analysis capabilities."
-          },
-          slideMetadata: {
-            totalSlides: 3,
-            suggestedDuration: "5-7 minutes",
-            complexity: "beginner",
-            audience: "general"
-          },
-          designSuggestions: {
-            colorScheme: "minimalist",
-            fontStyle: "modern",
-            layoutPreference: "clean"
-          }
-        }
-      });
-    }
+    console.error('❌ Vision analysis failed:', error);
     
     return NextResponse.json(
       { 
@@ -0,0 +1,52 @@
+// API route for a single saved presentation
+// GET    /api/history/<id> - full record including slides
+// PATCH  /api/history/<id> - update summary, theme, presentation, etc.
+// DELETE /api/history/<id> - remove it for good
+// Every method needs the signed-in owner of the presentation
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deletePresentation, getPresentation, toHistoryView, updatePresentation } from '@/lib/history';
+import { errorResponse } from '@/lib/api-response';
+import { requireUser } from '@/lib/session';
+import { HistoryUpdateSchema } from '@/utils/validation-schemas';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = requireUser(request);
+    const record = await getPresentation(params.id, user.sub);
+    return NextResponse.json({ success: true, data: await toHistoryView(record) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch presentation');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = requireUser(request);
+    const update = HistoryUpdateSchema.parse(await request.json());
+    const record = await updatePresentation(params.id, user.sub, update);
+
+    console.log('✏️ Presentation updated in history');
+    return NextResponse.json({ success: true, data: await toHistoryView(record) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update presentation');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = requireUser(request);
+    await deletePresentation(params.id, user.sub);
+
+    console.log('🗑️ Presentation removed from history');
+    return NextResponse.json({ success: true, data: { _id: params.id } });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete presentation');
+  }
+}
@@ -0,0 +1,52 @@
+// API route for the share settings of a saved presentation
+// GET    /api/history/<id>/share - current visibility, link, password and expiry
+// PUT    /api/history/<id>/share - change visibility, set or clear a password or expiry date
+// DELETE /api/history/<id>/share - revoke the link for good
+// Only the signed-in owner can change how a presentation is shared
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPresentation, revokeSharing, toHistoryView, updateSharing } from '@/lib/history';
+import { errorResponse } from '@/lib/api-response';
+import { requireUser } from '@/lib/session';
+import { ShareUpdateSchema } from '@/utils/validation-schemas';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = requireUser(request);
+    const { sharing } = await toHistoryView(await getPresentation(params.id, user.sub));
+    return NextResponse.json({ success: true, data: sharing });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch share settings');
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = requireUser(request);
+    const update = ShareUpdateSchema.parse(await request.json());
+    const { sharing } = await toHistoryView(await updateSharing(params.id, user.sub, update));
+
+    console.log(`🔗 Presentation sharing set to ${sharing.visibility}`);
+    return NextResponse.json({ success: true, data: sharing });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update share settings');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = requireUser(request);
+    const { sharing } = await toHistoryView(await revokeSharing(params.id, user.sub));
+
+    console.log('🔒 Presentation share link revoked');
+    return NextResponse.json({ success: true, data: sharing });
+  } catch (error) {
+    return errorResponse(error, 'Failed to revoke share link');
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { GET as listHistory } from '../route';
+import { POST as saveHistory } from '../save/route';
+import { GET as getRecord, PATCH as updateRecord, DELETE as deleteRecord } from '../[id]/route';
+import { SESSION_COOKIE, createSessionToken } from '@/lib/session';
+import type { AuthUser } from '@/lib/auth-provider';
+
+// Swap the real MongoDB connection for the in-memory stand-in (lib/__mocks__/mongodb.ts)
+jest.mock('@/lib/mongodb');
+const { resetDatabase } = jest.requireMock<typeof import('@/lib/__mocks__/mongodb')>('@/lib/mongodb');
+
+// Mock nanoid with unique, predictable IDs
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
+const theme = {
+  id: 'modern',
+  name: 'Modern Professional',
+  colors: {
+    primary: '#2563eb',
+    secondary: '#64748b',
+    accent: '#06b6d4',
+    background: '#ffffff',
+    text: '#1e293b'
+  },
+  fonts: { heading: 'Inter, sans-serif', body: 'Inter, sans-serif' },
+  layout: 'modern'
+};
+
+const buildPresentation = (title: string) => ({
+  id: `pres-${title}`,
+  title,
+  theme,
+  slides: [
+    {
+      id: 'slide-1',
+      title,
+      theme,
+      contents: [
+        { id: 'c-1', type: 'title', content: title, position: { x: 50, y: 20 } },
+        { id: 'c-2', type: 'bullet', content: 'First point', position: { x: 20, y: 40 } }
+      ]
+    }
+  ],
+  metadata: {
+    created: '2024-01-15T10:00:00.000Z',
+    updated: '2024-01-15T10:00:00.000Z'
+  },
+  settings: { autoAdvance: false, showControls: true }
+});
+
+const me: AuthUser = { sub: 'local|me@example.com', name: 'Me', email: 'me@example.com', picture: null };
+const them: AuthUser = { sub: 'local|them@example.com', name: 'Them', email: 'them@example.com', picture: null };
+
+// A request carrying `user`'s session cookie - pass null to send none
+const authed = (url: string, init: ConstructorParameters<typeof NextRequest>[1] = {}, user: AuthUser | null = me) =>
+  new NextRequest(url, {
+    ...init,
+    headers: user ? { cookie: `${SESSION_COOKIE}=${createSessionToken(user)}` } : {}
+  });
+
+const saveRequest = (title: string, overrides: Record<string, unknown> = {}, user: AuthUser | null = me) =>
+  authed('http://localhost:3000/api/history/save', {
+    method: 'POST',
+    body: JSON.stringify({
+      summary: `${title} summary`,
+      themeUsed: 'modern',
+      outputType: 'interactive',
+      presentation: buildPresentation(title),
+      ...overrides
+    })
+  }, user);
+
+const save = async (title: string, overrides: Record<string, unknown> = {}, user: AuthUser = me) => {
+  const response = await saveHistory(saveRequest(title, overrides, user));
+  return (await response.json()).data;
+};
+
+const context = (id: string) => ({ params: { id } });
+
+describe('/api/history', () => {
+  beforeEach(() => {
+    resetDatabase();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('POST /api/history/save', () => {
+    it('persists the full presentation', async () => {
+      const response = await saveHistory(saveRequest('Q4 Review'));
+      const result = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(result.success).toBe(true);
+      expect(result.data._id).toEqual(expect.any(String));
+      expect(result.data.presentation.slides[0].contents).toHaveLength(2);
+      expect(result.data.userId).toBe(me.sub);
+    });
+
+    it('takes the owner from the session, not the request body', async () => {
+      const saved = await save('Spoofed', { userId: them.sub });
+
+      expect(saved.userId).toBe(me.sub);
+    });
+
+    it('requires a signed-in user', async () => {
+      const response = await saveHistory(saveRequest('Anonymous', {}, null));
+      const result = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(result.code).toBe('AUTHENTICATION_ERROR');
+    });
+
+    it('answers a body that is not JSON with a 400', async () => {
+      const response = await saveHistory(authed('http://localhost:3000/api/history/save', { method: 'POST', body: '{"summary":' }));
+      const result = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(result.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('rejects a record without a presentation', async () => {
+      const response = await saveHistory(saveRequest('Broken', { presentation: undefined }));
+      const result = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(result.success).toBe(false);
+      expect(result.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('rejects slides with unknown content types', async () => {
+      const presentation = buildPresentation('Bad content');
+      presentation.slides[0]!.contents[0]!.type = 'video';
+
+      const response = await saveHistory(saveRequest('Bad content', { presentation }));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('rejects a theme logo that is not an embedded image', async () => {
+      const presentation = buildPresentation('Tracking logo');
+      const logo = { src: 'https://tracker.example/pixel.png', placement: 'top-right', aspectRatio: 1 };
+
+      const response = await saveHistory(saveRequest('Tracking logo', { presentation: { ...presentation, theme: { ...theme, logo } } }));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/history', () => {
+    it('lists saved presentations newest first with pagination', async () => {
+      await save('First');
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await save('Second');
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await save('Third');
+
+      const response = await listHistory(authed('http://localhost:3000/api/history?page=1&limit=2'));
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result.data.map((item: any) => item.title)).toEqual(['Third', 'Second']);
+      expect(result.data[0].slideCount).toBe(1);
+      expect(result.data[0].presentation).toBeUndefined();
+      expect(result.pagination).toEqual({ page: 1, limit: 2, total: 3, totalPages: 2 });
+
+      const secondPage = await (await listHistory(authed('http://localhost:3000/api/history?page=2&limit=2'))).json();
+      expect(secondPage.data.map((item: any) => item.title)).toEqual(['First']);
+    });
+
+    it('only lists the signed-in user\'s presentations', async () => {
+      await save('Mine');
+      await save('Theirs', {}, them);
+
+      const result = await (await listHistory(authed(`http://localhost:3000/api/history?userId=${them.sub}`))).json();
+
+      expect(result.data.map((item: any) => item.title)).toEqual(['Mine']);
+    });
+
+    it('requires a signed-in user', async () => {
+      const response = await listHistory(authed('http://localhost:3000/api/history', {}, null));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('returns a single record when called with ?id=', async () => {
+      const saved = await save('Viewer deck');
+
+      const response = await listHistory(authed(`http://localhost:3000/api/history?id=${saved._id}`));
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result.data.presentation.title).toBe('Viewer deck');
+    });
+
+    it('returns 404 for an unknown id', async () => {
+      const response = await listHistory(authed('http://localhost:3000/api/history?id=missing'));
+
+      expect(response.status).toBe(404);
+    });
+
+    it('rejects an out-of-range limit', async () => {
+      const response = await listHistory(authed('http://localhost:3000/api/history?limit=500'));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('/api/history/[id]', () => {
+    it('fetches, updates and deletes a record', async () => {
+      const saved = await save('Lifecycle');
+
+      const fetched = await (await getRecord(authed('http://localhost:3000'), context(saved._id))).json();
+      expect(fetched.data.summary).toBe('Lifecycle summary');
+
+      const patchResponse = await updateRecord(
+        authed('http://localhost:3000', {
+          method: 'PATCH',
+          body: JSON.stringify({ summary: 'Renamed', presentation: buildPresentation('Renamed deck') })
+        }),
+        context(saved._id)
+      );
+      const patched = await patchResponse.json();
+
+      expect(patchResponse.status).toBe(200);
+      expect(patched.data.summary).toBe('Renamed');
+      expect(patched.data.presentation.title).toBe('Renamed deck');
+      expect(new Date(patched.data.updatedAt).getTime()).toBeGreaterThanOrEqual(new Date(saved.updatedAt).getTime());
+
+      const deleteResponse = await deleteRecord(authed('http://localhost:3000'), context(saved._id));
+      expect(deleteResponse.status).toBe(200);
+
+      const afterDelete = await getRecord(authed('http://localhost:3000'), context(saved._id));
+      expect(afterDelete.status).toBe(404);
+    });
+
+    it('rejects an empty update', async () => {
+      const saved = await save('Untouched');
+
+      const response = await updateRecord(
+        authed('http://localhost:3000', { method: 'PATCH', body: JSON.stringify({}) }),
+        context(saved._id)
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('keeps other users out of a presentation', async () => {
+      const saved = await save('Private', {}, them);
+
+      const fetched = await getRecord(authed('http://localhost:3000'), context(saved._id));
+      expect(fetched.status).toBe(403);
+      expect((await fetched.json()).code).toBe('AUTHORIZATION_ERROR');
+
+      const patched = await updateRecord(
+        authed('http://localhost:3000', { method: 'PATCH', body: JSON.stringify({ summary: 'Mine now' }) }),
+        context(saved._id)
+      );
+      expect(patched.status).toBe(403);
+
+      const deleted = await deleteRecord(authed('http://localhost:3000'), context(saved._id));
+      expect(deleted.status).toBe(403);
+
+      const stillThere = await getRecord(authed('http://localhost:3000', {}, them), context(saved._id));
+      expect((await stillThere.json()).data.summary).toBe('Private summary');
+    });
+
+    it('returns 404 when deleting something that does not exist', async () => {
+      const response = await deleteRecord(authed('http://localhost:3000'), context('nope'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
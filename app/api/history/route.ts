@@ -1,47 +1,41 @@
+// API route for browsing presentation history
+// GET /api/history           - the signed-in user's presentations, newest first (?page=1&limit=20)
+// GET /api/history?id=<id>   - one full presentation (used by the owner's viewer)
+
 import { NextRequest, NextResponse } from 'next/server';
+import { getPresentation, listPresentations, toHistoryView } from '@/lib/history';
+import { errorResponse } from '@/lib/api-response';
+import { requireUser } from '@/lib/session';
+import { HistoryListQuerySchema } from '@/utils/validation-schemas';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
 
-interface HistoryItem {
-  id: string;
-  title: string;
-  timestamp: string;
-  slideCount: number;
-  thumbnail?: string;
-}
-
-// Mock history data for development
-const mockHistory: HistoryItem[] = [
-  {
-    id: '1',
-    title: 'Project Kickoff Meeting',
-    timestamp: '2024-01-15T10:00:00Z',
-    slideCount: 8,
-    thumbnail: '/api/placeholder/200/150'
-  },
-  {
-    id: '2', 
-    title: 'Q4 Financial Review',
-    timestamp: '2024-01-10T14:30:00Z',
-    slideCount: 12,
-    thumbnail: '/api/placeholder/200/150'
-  }
-];
-
 export async function GET(request: NextRequest) {
   try {
-    // In production, this would query your database
-    // For now, return mock data
-    return NextResponse.json({ 
-      success: true, 
-      history: mockHistory 
+    const user = requireUser(request);
+    const { searchParams } = request.nextUrl;
+    const id = searchParams.get('id');
+
+    if (id) {
+      const record = await getPresentation(id, user.sub);
+      return NextResponse.json({ success: true, data: await toHistoryView(record) });
+    }
+
+    const query = HistoryListQuerySchema.parse({
+      page: searchParams.get('page') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined
+    });
+
+    const { items, pagination } = await listPresentations({ ...query, userId: user.sub });
+
+    return NextResponse.json({
+      success: true,
+      data: items,
+      pagination
     });
   } catch (error) {
     console.error('Error fetching history:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to fetch history' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to fetch history');
   }
 }
@@ -1,50 +1,37 @@
 // API route for saving presentation history
-// This endpoint saves completed presentations to the database
+// This endpoint saves completed presentations to the signed-in user's history
 
 import { NextRequest, NextResponse } from 'next/server';
+import { savePresentation, toHistoryView } from '@/lib/history';
+import { errorResponse } from '@/lib/api-response';
+import { requireUser } from '@/lib/session';
+import { HistorySaveSchema } from '@/utils/validation-schemas';
 
 export async function POST(request: NextRequest) {
   try {
-    // Parse the request body
-    const { presentation, imageUrl } = await request.json();
+    const user = requireUser(request);
 
-    if (!presentation) {
-      return NextResponse.json(
-        { error: 'Presentation data is required' },
-        { status: 400 }
-      );
-    }
+    // Parse and validate the request body - the full deck has to be valid before it hits the database
+    const input = HistorySaveSchema.parse(await request.json());
 
     console.log('💾 Saving presentation to history...');
-    
-    // For now, just return success
-    // In a real implementation, you'd save to MongoDB
-    const savedPresentation = {
-      id: presentation.id || `pres_${Date.now()}`,
-      title: presentation.title,
-      createdAt: new Date(),
-      imageUrl,
-      slideCount: presentation.slides?.length || 0
-    };
-    
-    console.log('✅ Presentation saved to history successfully');
 
-    return NextResponse.json({
-      success: true,
-      presentation: savedPresentation,
-      message: 'Presentation saved to history'
-    });
+    const record = await savePresentation(input, user.sub);
+
+    console.log('✅ Presentation saved to history successfully');
 
-  } catch (error) {
-    console.error('❌ Failed to save presentation:', error);
-    
     return NextResponse.json(
-      { 
-        error: 'Failed to save presentation',
-        details: error instanceof Error ? error.message : 'Unknown error'
+      {
+        success: true,
+        data: await toHistoryView(record),
+        message: 'Presentation saved to history'
       },
-      { status: 500 }
+      { status: 201 }
     );
+
+  } catch (error) {
+    console.error('❌ Failed to save presentation:', error);
+    return errorResponse(error, 'Failed to save presentation');
   }
 }
 
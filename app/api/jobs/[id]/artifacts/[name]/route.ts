@@ -0,0 +1,37 @@
+// API route for downloading a file made by a background job
+// GET /api/jobs/<id>/artifacts/<name> - e.g. the PowerPoint file of a job submitted with output=pptx
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob } from '@/lib/job-queue';
+import { errorResponse } from '@/lib/api-response';
+import { getSessionUser } from '@/lib/session';
+import { NotFoundError } from '@/lib/errors';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string; name: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const job = await getJob(params.id, getSessionUser(request)?.sub ?? null);
+    const artifact = Object.hasOwn(job.artifacts, params.name) ? job.artifacts[params.name] : undefined;
+    if (!artifact) {
+      throw new NotFoundError(`Job ${params.id} has no ${params.name} file`);
+    }
+
+    // Loaded on demand - the storage client needs credentials that tests and builds don't have
+    const { downloadFile } = await import('@/lib/gcs');
+    const file = await downloadFile(artifact.path);
+    return new NextResponse(file, {
+      headers: {
+        'Content-Type': artifact.contentType,
+        'Content-Disposition': `attachment; filename="${artifact.fileName}"`,
+        'Content-Length': file.length.toString(),
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to download file');
+  }
+}
@@ -0,0 +1,29 @@
+// API route for one background presentation job
+// GET /api/jobs/<id> - its status (draft while queued, then processing, completed or error),
+// the latest progress, and once completed the presentation and links to its files
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, toJobView } from '@/lib/job-queue';
+import { startJobWorker } from '@/lib/job-worker';
+import { errorResponse } from '@/lib/api-response';
+import { getSessionUser } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const job = await getJob(params.id, getSessionUser(request)?.sub ?? null);
+
+    // Checking in also wakes the worker, so a job whose worker died is picked up again once
+    // its lease runs out instead of waiting for the next submission
+    void startJobWorker();
+
+    return NextResponse.json({ success: true, data: toJobView(job) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load job');
+  }
+}
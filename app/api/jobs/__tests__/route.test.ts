@@ -0,0 +1,133 @@
+/** @jest-environment node */
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { GET as getJob } from '../[id]/route';
+import { GET as getArtifact } from '../[id]/artifacts/[name]/route';
+import { startJobWorker } from '@/lib/job-worker';
+import { submitJob } from '@/lib/job-queue';
+import { SlidePresentationSchema } from '@/utils/validation-schemas';
+import { SESSION_COOKIE, createSessionToken } from '@/lib/session';
+
+// Signed-in users' brand kits and themes are looked up in the in-memory stand-in (lib/__mocks__/mongodb.ts)
+jest.mock('@/lib/mongodb');
+
+// Job files go to the upload bucket - kept in a map here
+const mockObjects = new Map<string, Buffer>();
+jest.mock('@/lib/gcs', () => ({
+  uploadFile: jest.fn(async (file: Buffer, fileName: string) => {
+    mockObjects.set(fileName, file);
+    return fileName;
+  }),
+  downloadFile: jest.fn(async (path: string) => mockObjects.get(path))
+}));
+
+// The slide generator needs nanoid
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
+// Multipart bodies are written by hand - jest's FormData doesn't carry File parts through a Request
+const BOUNDARY = 'snap2slides-test-boundary';
+
+const submitRequest = (fields: Record<string, string> = {}, cookie?: string) => {
+  const parts = Object.entries(fields).map(([key, value]) =>
+    `--${BOUNDARY}\r\nContent-Disposition: form-data; name="${key}"\r\n\r\n${value}\r\n`
+  );
+  parts.push(
+    `--${BOUNDARY}\r\nContent-Disposition: form-data; name="images"; filename="whiteboard.png"\r\n` +
+    'Content-Type: image/png\r\n\r\nimage-bytes\r\n'
+  );
+  return new NextRequest('http://localhost:3000/api/jobs', {
+    method: 'POST',
+    body: Buffer.from(`${parts.join('')}--${BOUNDARY}--\r\n`),
+    headers: { 'content-type': `multipart/form-data; boundary=${BOUNDARY}`, ...(cookie && { cookie }) }
+  });
+};
+
+const jobRequest = (path: string, cookie?: string) =>
+  new NextRequest(`http://localhost:3000/api/jobs/${path}`, { headers: { ...(cookie && { cookie }) } });
+
+const fetchJob = async (id: string, cookie?: string) => getJob(jobRequest(id, cookie), { params: { id } });
+
+describe('/api/jobs', () => {
+  const originalKey = process.env.GEMINI_API_KEY;
+
+  beforeAll(() => {
+    // The whole pipeline runs offline against the mock provider's fixtures
+    delete process.env.GEMINI_API_KEY;
+    process.env.VISION_PROVIDER = 'mock';
+  });
+
+  afterAll(() => {
+    process.env.GEMINI_API_KEY = originalKey;
+    delete process.env.VISION_PROVIDER;
+  });
+
+  it('queues a job and reports it completed once the worker is done', async () => {
+    const response = await POST(submitRequest({ prompt: 'Board update' }));
+    const { data: queued } = await response.json();
+
+    expect(response.status).toBe(202);
+    expect(response.headers.get('location')).toBe(`/api/jobs/${queued.id}`);
+    expect(queued).toMatchObject({ status: 'draft', artifacts: [] });
+
+    await startJobWorker();
+
+    const body = await (await fetchJob(queued.id)).json();
+    expect(body.data).toMatchObject({ id: queued.id, status: 'completed', progress: { stage: 'complete', progress: 100 } });
+    expect(SlidePresentationSchema.safeParse(body.data.result.presentation).success).toBe(true);
+    expect(body.data.input).toBeUndefined();
+  });
+
+  it('wakes the worker when a job is checked on', async () => {
+    // Queued without a submission to start the worker, like a job whose worker died
+    const job = await submitJob({
+      pages: [{ data: Buffer.from('image-bytes'), mimeType: 'image/png', image: 1, name: 'whiteboard.png' }],
+      fileNames: ['whiteboard.png'],
+      context: 'User prompt: Board update. Theme: professional',
+      userId: null
+    }, 'interactive');
+
+    // Polling alone is enough to get it done
+    let status = 'draft';
+    for (let check = 0; check < 100 && status !== 'completed'; check++) {
+      status = (await (await fetchJob(job.id)).json()).data.status;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(status).toBe('completed');
+  });
+
+  it('keeps the PowerPoint file for download when asked for one', async () => {
+    const { data: queued } = await (await POST(submitRequest({ output: 'pptx' }))).json();
+    await startJobWorker();
+
+    const { data: job } = await (await fetchJob(queued.id)).json();
+    expect(job.artifacts).toEqual([expect.objectContaining({ name: 'pptx', url: `/api/jobs/${queued.id}/artifacts/pptx` })]);
+
+    const file = await getArtifact(jobRequest(`${queued.id}/artifacts/pptx`), { params: { id: queued.id, name: 'pptx' } });
+    expect(file.status).toBe(200);
+    expect(file.headers.get('content-disposition')).toMatch(/\.pptx"$/);
+    expect(Buffer.from(await file.arrayBuffer()).subarray(0, 2).toString()).toBe('PK'); // A zip, like every .pptx
+
+    const missing = await getArtifact(jobRequest(`${queued.id}/artifacts/pdf`), { params: { id: queued.id, name: 'pdf' } });
+    expect(missing.status).toBe(404);
+  });
+
+  it("keeps a signed-in user's jobs to themselves", async () => {
+    const cookie = `${SESSION_COOKIE}=${createSessionToken({ sub: 'local|me@example.com', name: 'Me', email: 'me@example.com', picture: null })}`;
+    const { data: queued } = await (await POST(submitRequest({}, cookie))).json();
+    await startJobWorker();
+
+    const own = await fetchJob(queued.id, cookie);
+    expect(own.status).toBe(200);
+    expect((await own.json()).data.status).toBe('completed');
+    expect((await fetchJob(queued.id)).status).toBe(403);
+  });
+
+  it('rejects bad uploads before queueing anything', async () => {
+    const response = await POST(submitRequest({ output: 'keynote' }));
+    expect(response.status).toBe(400);
+    expect((await fetchJob('test-id-unknown')).status).toBe(404);
+  });
+});
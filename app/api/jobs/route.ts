@@ -0,0 +1,38 @@
+// API route for background presentation jobs
+// POST /api/jobs - the same form as /api/presentations, plus `output` ('interactive' or 'pptx').
+// Answers straight away with the job's id; follow it at GET /api/jobs/<id>.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfiguredVisionProvider } from '@/lib/vision-provider';
+import { readPresentationForm } from '@/lib/presentation-pipeline';
+import { submitJob, toJobView } from '@/lib/job-queue';
+import { startJobWorker } from '@/lib/job-worker';
+import { errorResponse } from '@/lib/api-response';
+import { getSessionUser } from '@/lib/session';
+import { JobOutputSchema } from '@/utils/validation-schemas';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30; // Only the upload is handled here - the worker does the rest
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const provider = getConfiguredVisionProvider();
+
+    const input = await readPresentationForm(formData, getSessionUser(request)?.sub ?? null);
+    const output = JobOutputSchema.parse(formData.get('output') ?? undefined);
+    const job = await submitJob(input, output);
+
+    // Not awaited - the worker carries on after this response
+    void startJobWorker();
+
+    console.log(`🧾 Presentation job ${job.id} queued`);
+    return NextResponse.json(
+      { success: true, data: toJobView(job) },
+      { status: 202, headers: { Location: `/api/jobs/${job.id}` } }
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to queue presentation');
+  }
+}
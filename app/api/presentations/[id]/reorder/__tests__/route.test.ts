@@ -0,0 +1,111 @@
+/** @jest-environment node */
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { optimizeSlideFlow } from '@/lib/gemini-vision-enhanced';
+
+jest.mock('@/lib/gemini-vision-enhanced', () => ({
+  optimizeSlideFlow: jest.fn()
+}));
+
+// The mock provider pulls in the slide generator, which needs nanoid
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
+const mockFlow = optimizeSlideFlow as jest.MockedFunction<typeof optimizeSlideFlow>;
+
+const theme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: { primary: '#2563eb', secondary: '#64748b', accent: '#f59e0b', background: '#ffffff', text: '#1e293b' },
+  fonts: { heading: 'Inter', body: 'Inter' },
+  layout: 'modern'
+};
+
+const slide = (id: string, title: string) => ({
+  id,
+  title,
+  theme,
+  contents: [{ id: `${id}-title`, type: 'title', content: title, position: { x: 50, y: 15 } }]
+});
+
+const presentation = {
+  id: 'deck-1',
+  title: 'Launch',
+  slides: [slide('s1', 'Results'), slide('s2', 'Problem'), slide('s3', 'Results')],
+  theme,
+  metadata: { created: new Date(0).toISOString(), updated: new Date(0).toISOString() },
+  settings: {}
+};
+
+const buildRequest = (body: unknown, id = 'deck-1') =>
+  new NextRequest(`http://localhost:3000/api/presentations/${id}/reorder`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'content-type': 'application/json' }
+  });
+
+const reorder = (body: unknown, id = 'deck-1') => POST(buildRequest(body, id), { params: { id } });
+
+describe('/api/presentations/[id]/reorder', () => {
+  const originalKey = process.env.GEMINI_API_KEY;
+
+  beforeEach(() => {
+    process.env.GEMINI_API_KEY = 'test-key';
+    mockFlow.mockReset();
+  });
+
+  afterAll(() => {
+    process.env.GEMINI_API_KEY = originalKey;
+  });
+
+  it('returns the proposed order of slide ids for the chosen mode', async () => {
+    mockFlow.mockResolvedValue(['s2', 's3', 's1']);
+
+    const response = await reorder({ presentation, mode: 'sales' });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual({ order: ['s2', 's3', 's1'], source: 'ai', mode: 'sales' });
+    expect(mockFlow).toHaveBeenCalledWith(expect.arrayContaining([expect.objectContaining({ id: 's1' })]), 'sales');
+  });
+
+  it('keeps the current order when the AI answer is unusable', async () => {
+    mockFlow.mockRejectedValue(new Error('AI response was not in the expected format'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const body = await (await reorder({ presentation })).json();
+    expect(body.data).toEqual({ order: ['s1', 's2', 's3'], source: 'fallback', mode: 'pitch' });
+  });
+
+  it('rejects a deck sent to another id', async () => {
+    const response = await reorder({ presentation }, 'deck-2');
+    expect(response.status).toBe(400);
+    expect(mockFlow).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown modes', async () => {
+    const response = await reorder({ presentation, mode: 'keynote' });
+    expect(response.status).toBe(400);
+  });
+
+  it('maps quota errors to 429', async () => {
+    mockFlow.mockRejectedValue(new Error('You exceeded your current quota'));
+
+    const response = await reorder({ presentation });
+    expect(response.status).toBe(429);
+  });
+
+  it('reports a provider without its API key as not configured', async () => {
+    delete process.env.GEMINI_API_KEY;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await reorder({ presentation });
+    const body = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(body).toMatchObject({ error: 'Vision provider "gemini" is not configured', code: 'PROVIDER_NOT_CONFIGURED' });
+    expect(mockFlow).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,44 @@
+// API route for reordering a deck's slides to suit its story
+// POST /api/presentations/<id>/reorder - { presentation, mode } -> { order, source, mode }
+// Nothing is changed here: the editor shows the proposed order and applies it only
+// when the user accepts. An unusable AI answer falls back to the current order.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfiguredVisionProvider, isQuotaError, toProviderError } from '@/lib/vision-provider';
+import { resolveSlideOrder } from '@/lib/slide-flow';
+import { errorResponse } from '@/lib/api-response';
+import { ValidationError } from '@/lib/errors';
+import { ReorderRequestSchema } from '@/utils/validation-schemas';
+import type { Slide } from '@/types/slides';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { presentation, mode } = ReorderRequestSchema.parse(await request.json());
+    if (presentation.id !== params.id) {
+      throw new ValidationError(`Presentation ${presentation.id} was sent to the reorder route for ${params.id}`, 'presentation');
+    }
+
+    const provider = getConfiguredVisionProvider();
+
+    const slides = presentation.slides as Slide[];
+    let proposed: string[] | null = null;
+    try {
+      proposed = await provider.optimizeSlideFlow(slides, mode);
+    } catch (error) {
+      if (isQuotaError(error)) throw toProviderError(error, provider, 'Failed to reorder slides');
+      console.error(`Slide flow failed (${provider.name}), keeping the current order:`, error);
+    }
+
+    const { order, source } = resolveSlideOrder(slides, proposed);
+    return NextResponse.json({ success: true, data: { order, source, mode } });
+  } catch (error) {
+    return errorResponse(error, 'Failed to reorder slides');
+  }
+}
@@ -0,0 +1,397 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { PDFDocument } from 'pdf-lib';
+import { POST } from '../route';
+import { analyzeImageWithGeminiPro, generateSpeakerNotes } from '@/lib/gemini-vision-enhanced';
+import { SlidePresentationSchema } from '@/utils/validation-schemas';
+import { createTheme } from '@/lib/theme-store';
+import { saveBrandKit } from '@/lib/brand-kit-store';
+import { BRAND_THEME_ID } from '@/lib/brand-kit';
+import { SESSION_COOKIE, createSessionToken } from '@/lib/session';
+import { readEventStream, type AnalysisStreamEvent } from '@/lib/analysis-progress';
+
+// Custom themes and brand kits are looked up in the in-memory stand-in (lib/__mocks__/mongodb.ts)
+jest.mock('@/lib/mongodb');
+
+jest.mock('@/lib/gemini-vision-enhanced', () => ({
+  analyzeImageWithGeminiPro: jest.fn(),
+  generateSpeakerNotes: jest.fn()
+}));
+
+// Mock nanoid with unique, predictable IDs
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
+const mockAnalyze = analyzeImageWithGeminiPro as jest.MockedFunction<typeof analyzeImageWithGeminiPro>;
+const mockNotes = generateSpeakerNotes as jest.MockedFunction<typeof generateSpeakerNotes>;
+
+// Multipart bodies are written by hand - jest's FormData doesn't carry File parts through a Request
+const BOUNDARY = 'snap2slides-test-boundary';
+const PNG = { name: 'whiteboard.png', type: 'image/png', data: 'image-bytes' };
+
+type TestImage = { name: string; type: string; data: string | Buffer };
+
+const buildRequest = (
+  fields: Record<string, string> = {},
+  images: TestImage[] = [PNG],
+  field: 'image' | 'images' = 'image',
+  cookie?: string
+) => {
+  const parts: Buffer[] = Object.entries(fields).map(([key, value]) =>
+    Buffer.from(`--${BOUNDARY}\r\nContent-Disposition: form-data; name="${key}"\r\n\r\n${value}\r\n`)
+  );
+  images.forEach(image => {
+    parts.push(
+      Buffer.from(
+        `--${BOUNDARY}\r\nContent-Disposition: form-data; name="${field}"; filename="${image.name}"\r\n` +
+        `Content-Type: ${image.type}\r\n\r\n`
+      ),
+      Buffer.from(image.data),
+      Buffer.from('\r\n')
+    );
+  });
+
+  return new NextRequest('http://localhost:3000/api/presentations', {
+    method: 'POST',
+    body: Buffer.concat([...parts, Buffer.from(`--${BOUNDARY}--\r\n`)]),
+    headers: { 'content-type': `multipart/form-data; boundary=${BOUNDARY}`, ...(cookie && { cookie }) }
+  });
+};
+
+const streamRequest = (...args: Parameters<typeof buildRequest>) => {
+  const request = buildRequest(...args);
+  request.headers.set('accept', 'text/event-stream');
+  return request;
+};
+
+const readEvents = async (response: Response) => {
+  const events: AnalysisStreamEvent[] = [];
+  await readEventStream(response.body!, event => events.push(event));
+  return events;
+};
+
+const analysis = {
+  structuredContent: {
+    title: 'Quarterly Review',
+    introduction: 'How the quarter went',
+    sections: [
+      { heading: 'Revenue', content: 'Up across regions', bullets: ['EMEA +12%', 'APAC +8%'] }
+    ]
+  },
+  suggestedTheme: 'classic',
+  colorPalette: [],
+  confidence: 0.9
+};
+
+describe('/api/presentations', () => {
+  const originalKey = process.env.GEMINI_API_KEY;
+
+  beforeEach(() => {
+    process.env.GEMINI_API_KEY = 'test-key';
+    mockAnalyze.mockReset();
+    mockNotes.mockReset();
+  });
+
+  afterAll(() => {
+    process.env.GEMINI_API_KEY = originalKey;
+  });
+
+  it('returns a fully typed presentation built by the generator', async () => {
+    mockAnalyze.mockResolvedValue(analysis);
+
+    const response = await POST(buildRequest({ prompt: 'Board update' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.success).toBe(true);
+    expect(mockAnalyze).toHaveBeenCalledWith(expect.any(Buffer), 'image/png', expect.stringContaining('Board update'));
+
+    const presentation = SlidePresentationSchema.parse(body.data.presentation);
+    expect(presentation.title).toBe('Quarterly Review');
+    expect(presentation.theme.id).toBe('classic');
+    expect(presentation.metadata.originalImageName).toBe('whiteboard.png');
+    expect(presentation.slides).toHaveLength(2);
+
+    const [titleSlide, contentSlide] = presentation.slides;
+    expect(titleSlide?.contents.map(content => content.type)).toEqual(['title', 'subtitle']);
+    expect(contentSlide?.contents.map(content => content.type)).toEqual(['title', 'text', 'bullet', 'bullet']);
+    expect(body.data.quality).toEqual({ overflowingSlides: [] });
+  });
+
+  it('uses the theme chosen in the form over the AI suggestion', async () => {
+    mockAnalyze.mockResolvedValue({ ...analysis, colorPalette: ['#111111', '#222222', '#333333'] });
+
+    const response = await POST(buildRequest({ theme: 'minimalist' }));
+    const body = await response.json();
+
+    expect(body.data.presentation.theme.id).toBe('minimal');
+    expect(body.data.presentation.slides[1].theme.id).toBe('minimal');
+  });
+
+  it("uses the signed-in user's own theme", async () => {
+    mockAnalyze.mockResolvedValue(analysis);
+    const user = { sub: 'local|me@example.com', name: 'Me', email: 'me@example.com', picture: null };
+    const theme = await createTheme({
+      name: 'Acme Brand',
+      colors: { primary: '#b91c1c', secondary: '#57534e', accent: '#facc15', background: '#fafaf9', text: '#1c1917' },
+      fonts: { heading: 'Georgia, serif', body: 'Inter, sans-serif' },
+      layout: 'classic'
+    }, user.sub);
+
+    const signedIn = await (await POST(buildRequest({ theme: theme._id }, [PNG], 'image', `${SESSION_COOKIE}=${createSessionToken(user)}`))).json();
+    const signedOut = await (await POST(buildRequest({ theme: theme._id }))).json();
+
+    expect(signedIn.data.presentation.theme).toMatchObject({ id: theme._id, name: 'Acme Brand' });
+    expect(signedOut.data.presentation.theme.id).toBe('classic');
+  });
+
+  it("applies the user's brand kit unless it is switched off", async () => {
+    mockAnalyze.mockResolvedValue(analysis);
+    const user = { sub: 'local|brand@example.com', name: 'Brand', email: 'brand@example.com', picture: null };
+    const logo = { src: 'data:image/png;base64,iVBORw0KGgo=', placement: 'top-right' as const, aspectRatio: 2 };
+    await saveBrandKit(user.sub, {
+      name: 'Acme',
+      colors: { primary: '#b91c1c', secondary: '#57534e', accent: '#facc15', background: '#ffffff', text: '#1e293b' },
+      fonts: { heading: 'Georgia, serif', body: 'Inter, sans-serif' },
+      logo
+    });
+    const cookie = `${SESSION_COOKIE}=${createSessionToken(user)}`;
+
+    const branded = await (await POST(buildRequest({ theme: 'modern' }, [PNG], 'image', cookie))).json();
+    const unbranded = await (await POST(buildRequest({ theme: 'modern', brandKit: 'off' }, [PNG], 'image', cookie))).json();
+
+    expect(branded.data.presentation.theme).toMatchObject({ id: BRAND_THEME_ID, name: 'Acme', logo });
+    expect(branded.data.presentation.slides[0].theme.logo).toEqual(logo);
+    expect(unbranded.data.presentation.theme.id).toBe('modern');
+  });
+
+  it('writes speaker notes for every slide only when asked', async () => {
+    mockAnalyze.mockResolvedValue(analysis);
+    mockNotes.mockImplementation(async slide => ({
+      opening: `Open ${slide.title}`,
+      mainPoints: ['Point'],
+      timing: 'One minute',
+      transition: 'Next',
+      questions: []
+    }));
+
+    const without = await (await POST(buildRequest())).json();
+    expect(mockNotes).not.toHaveBeenCalled();
+    expect(without.data.presentation.slides[0].notes).toBeUndefined();
+
+    const body = await (await POST(buildRequest({ speakerNotes: 'on' }))).json();
+    const presentation = SlidePresentationSchema.parse(body.data.presentation);
+    expect(mockNotes).toHaveBeenCalledTimes(presentation.slides.length);
+    expect(presentation.slides.map(slide => typeof slide.notes === 'object' && slide.notes.opening))
+      .toEqual(presentation.slides.map(slide => `Open ${slide.title}`));
+  });
+
+  it('keeps the deck when notes fail for one slide', async () => {
+    mockAnalyze.mockResolvedValue(analysis);
+    mockNotes
+      .mockRejectedValueOnce(new Error('model overloaded'))
+      .mockResolvedValue({ opening: 'Hi', mainPoints: ['Point'], timing: 'Quick', transition: 'Next', questions: [] });
+
+    const response = await POST(buildRequest({ speakerNotes: 'on' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.data.presentation.slides.filter((slide: { notes?: unknown }) => slide.notes)).toHaveLength(1);
+  });
+
+  it('normalizes alternate section field names', async () => {
+    mockAnalyze.mockResolvedValue({
+      structuredContent: {
+        title: 'Fallback',
+        sections: [{ title: 'Key Insights', bulletPoints: ['One', 'Two'] }]
+      }
+    } as never);
+
+    const response = await POST(buildRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.data.analysis.structuredContent.sections[0]).toEqual({
+      heading: 'Key Insights',
+      bullets: ['One', 'Two'],
+      source: { image: 1, name: 'whiteboard.png' }
+    });
+    expect(body.data.presentation.slides[1].title).toBe('Key Insights');
+    expect(body.data.presentation.slides[1].contents).toHaveLength(3);
+  });
+
+  it('merges several images into one deck in upload order', async () => {
+    mockAnalyze
+      .mockResolvedValueOnce(analysis)
+      .mockResolvedValueOnce({
+        structuredContent: {
+          title: 'Second shot',
+          sections: [{ heading: 'Costs', bullets: ['Flat'] }],
+          conclusion: 'On track'
+        },
+        suggestedTheme: 'minimal',
+        colorPalette: [],
+        confidence: 0.7
+      });
+
+    const response = await POST(buildRequest({}, [
+      PNG,
+      { name: 'whiteboard-2.png', type: 'image/png', data: 'more-bytes' }
+    ], 'images'));
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(mockAnalyze).toHaveBeenCalledTimes(2);
+    expect(mockAnalyze.mock.calls[1]?.[2]).toContain('image 2 of 2');
+
+    const presentation = SlidePresentationSchema.parse(body.data.presentation);
+    expect(presentation.title).toBe('Quarterly Review');
+    expect(presentation.metadata.originalImageName).toBe('whiteboard.png, whiteboard-2.png');
+    expect(presentation.slides.map(slide => slide.title)).toEqual(['Quarterly Review', 'Revenue', 'Costs']);
+    expect(presentation.slides[1]?.metadata?.tags).toEqual(['image:1', 'image-name:whiteboard.png']);
+    expect(presentation.slides[2]?.metadata?.tags).toEqual(['image:2', 'image-name:whiteboard-2.png']);
+    expect(body.data.analysis.structuredContent.conclusion).toBe('On track');
+  });
+
+  it('splits PDFs into pages and honours the page range', async () => {
+    const doc = await PDFDocument.create();
+    for (let i = 0; i < 3; i++) doc.addPage();
+    const pdf = { name: 'report.pdf', type: 'application/pdf', data: Buffer.from(await doc.save()) };
+    mockAnalyze.mockResolvedValue(analysis);
+
+    const response = await POST(buildRequest({ pages: '2-3' }, [pdf], 'images'));
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(mockAnalyze).toHaveBeenCalledTimes(2);
+    expect(mockAnalyze).toHaveBeenCalledWith(expect.any(Buffer), 'application/pdf', expect.stringContaining('image 1 of 2'));
+    expect(body.data.presentation.slides[1].metadata.tags).toEqual(['image:1', 'image-name:report.pdf', 'page:2']);
+    expect(body.data.presentation.slides[2].metadata.tags).toEqual(['image:1', 'image-name:report.pdf', 'page:3']);
+  });
+
+  it('caps the number of PDF pages on the server', async () => {
+    const doc = await PDFDocument.create();
+    for (let i = 0; i < 25; i++) doc.addPage();
+    const pdf = { name: 'long.pdf', type: 'application/pdf', data: Buffer.from(await doc.save()) };
+
+    const response = await POST(buildRequest({}, [pdf], 'images'));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toContain('at most 20');
+    expect(mockAnalyze).not.toHaveBeenCalled();
+  });
+
+  it('rejects requests without a supported image', async () => {
+    const missing = await POST(buildRequest({}, []));
+    expect(missing.status).toBe(400);
+
+    const wrongType = await POST(buildRequest({}, [{ name: 'notes.txt', type: 'text/plain', data: 'text' }]));
+    expect(wrongType.status).toBe(400);
+    expect(mockAnalyze).not.toHaveBeenCalled();
+  });
+
+  it('reports unusable AI output as an upstream failure', async () => {
+    mockAnalyze.mockResolvedValue({ structuredContent: { sections: [] } } as never);
+
+    const response = await POST(buildRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(502);
+    expect(body.code).toBe('AI_RESPONSE_INVALID');
+  });
+
+  it('runs the whole pipeline offline with the mock provider', async () => {
+    delete process.env.GEMINI_API_KEY;
+    process.env.VISION_PROVIDER = 'mock';
+
+    try {
+      const response = await POST(buildRequest());
+      const body = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(mockAnalyze).not.toHaveBeenCalled();
+      expect(SlidePresentationSchema.safeParse(body.data.presentation).success).toBe(true);
+    } finally {
+      delete process.env.VISION_PROVIDER;
+    }
+  });
+
+  it('maps quota errors to 429', async () => {
+    mockAnalyze.mockRejectedValue(new Error('You exceeded your current quota'));
+
+    const response = await POST(buildRequest());
+    expect(response.status).toBe(429);
+  });
+
+  describe('as an event stream', () => {
+    it('streams each stage and the sections of every page before the result', async () => {
+      mockAnalyze.mockResolvedValue(analysis);
+      mockNotes.mockResolvedValue({ opening: 'Hello', mainPoints: ['Point'], timing: 'One minute', transition: 'Next', questions: [] });
+      const images = [PNG, { ...PNG, name: 'notes.png' }];
+
+      const response = await POST(streamRequest({ speakerNotes: 'on' }, images, 'images'));
+      expect(response.headers.get('content-type')).toContain('text/event-stream');
+      const events = await readEvents(response);
+
+      const progress = events.flatMap(event => (event.event === 'progress' ? [event.data] : []));
+      expect([...new Set(progress.map(update => update.stage))]).toEqual([
+        'uploading', 'analyzing', 'theme', 'generating', 'notes', 'optimizing', 'complete'
+      ]);
+      expect(progress.map(update => update.progress)).toEqual([...progress.map(update => update.progress)].sort((a, b) => a - b));
+      expect(progress.at(-1)?.details).toEqual({ totalSteps: 7, completedSteps: 7 });
+
+      const sections = events.flatMap(event => (event.event === 'section' ? [event.data] : []));
+      expect(sections.map(found => [found.name, found.sections[0]?.heading])).toEqual([
+        ['whiteboard.png', 'Revenue'],
+        ['notes.png', 'Revenue']
+      ]);
+
+      const result = events.at(-1);
+      expect(result?.event).toBe('result');
+      const presentation = SlidePresentationSchema.parse(result?.event === 'result' && result.data.presentation);
+      expect(presentation.slides.every(slide => typeof slide.notes === 'object' && slide.notes.opening === 'Hello')).toBe(true);
+    });
+
+    it('sends failures as an error event with their status', async () => {
+      mockAnalyze.mockRejectedValue(new Error('You exceeded your current quota'));
+
+      const events = await readEvents(await POST(streamRequest()));
+      expect(events.at(-1)).toEqual({
+        event: 'error',
+        data: expect.objectContaining({ error: 'AI quota exceeded. Please try again later.', status: 429 })
+      });
+    });
+
+    it('still rejects bad input with a JSON error', async () => {
+      const response = await POST(streamRequest({}, []));
+      expect(response.status).toBe(400);
+    });
+
+    it('stops analyzing pages once the client disconnects', async () => {
+      let finishSecond: (value: typeof analysis) => void = () => {};
+      mockAnalyze
+        .mockResolvedValueOnce(analysis)
+        .mockReturnValueOnce(new Promise(resolve => { finishSecond = resolve; }))
+        .mockResolvedValue(analysis);
+      const images = [PNG, { ...PNG, name: 'two.png' }, { ...PNG, name: 'three.png' }];
+
+      const response = await POST(streamRequest({}, images, 'images'));
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let text = '';
+      while (!text.includes('event: section')) {
+        text += decoder.decode((await reader.read()).value, { stream: true });
+      }
+      await reader.cancel();
+      finishSecond(analysis);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockAnalyze).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+// API route for creating presentations from one or more images or PDFs
+// Runs the presentation pipeline while the client waits - for uploads that may take
+// longer than a request allows, submit a background job to /api/jobs instead.
+// Send "Accept: text/event-stream" to follow progress live instead of waiting for JSON.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfiguredVisionProvider, type VisionProvider } from '@/lib/vision-provider';
+import { buildPresentation, readPresentationForm, type PresentationInput } from '@/lib/presentation-pipeline';
+import { formatEvent, type AnalysisStreamEvent } from '@/lib/analysis-progress';
+import { errorResponse } from '@/lib/api-response';
+import { getSessionUser } from '@/lib/session';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // Multi-page PDFs are analyzed one page at a time
+export const dynamic = 'force-dynamic';
+
+// Server-sent events: progress and sections as they happen, then the result (or an error).
+// Closing the connection cancels the remaining AI calls.
+function streamPresentation(provider: VisionProvider, input: PresentationInput, request: NextRequest): Response {
+  const cancelled = new AbortController();
+  request.signal.addEventListener('abort', () => cancelled.abort(), { once: true });
+  const encoder = new TextEncoder();
+
+  const run = async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+    const send = (event: AnalysisStreamEvent) => {
+      if (!cancelled.signal.aborted) controller.enqueue(encoder.encode(formatEvent(event)));
+    };
+    try {
+      const data = await buildPresentation(provider, input, {
+        signal: cancelled.signal,
+        onProgress: progress => send({ event: 'progress', data: progress }),
+        onSection: sections => send({ event: 'section', data: sections })
+      });
+      send({ event: 'result', data });
+    } catch (error) {
+      if (cancelled.signal.aborted) return;
+      // Headers are already sent, so the status travels with the error event
+      const response = errorResponse(error, 'Failed to create presentation');
+      send({ event: 'error', data: { ...(await response.json()), status: response.status } });
+    }
+    if (!cancelled.signal.aborted) controller.close();
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      void run(controller);
+    },
+    cancel() {
+      cancelled.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: { 'Content-Type': 'text/event-stream; charset=utf-8', 'Cache-Control': 'no-store' }
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const provider = getConfiguredVisionProvider();
+
+    const input = await readPresentationForm(formData, getSessionUser(request)?.sub ?? null);
+
+    // Clients that ask for an event stream get live progress; everyone else gets JSON
+    if (request.headers.get('accept')?.includes('text/event-stream')) {
+      return streamPresentation(provider, input, request);
+    }
+
+    return NextResponse.json({ success: true, data: await buildPresentation(provider, input) }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create presentation');
+  }
+}
+
+// Handle other HTTP methods
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed. Use POST to create a presentation.' },
+    { status: 405 }
+  );
+}
@@ -0,0 +1,78 @@
+/** @jest-environment node */
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { rewriteSlideContent } from '@/lib/gemini-vision-enhanced';
+
+jest.mock('@/lib/gemini-vision-enhanced', () => ({
+  rewriteSlideContent: jest.fn()
+}));
+
+// The mock provider pulls in the slide generator, which needs nanoid
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
+const mockRewrite = rewriteSlideContent as jest.MockedFunction<typeof rewriteSlideContent>;
+
+const buildRequest = (body: unknown) =>
+  new NextRequest('http://localhost:3000/api/rewrite', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'content-type': 'application/json' }
+  });
+
+async function* pieces(...chunks: string[]) {
+  for (const chunk of chunks) yield chunk;
+}
+
+describe('/api/rewrite', () => {
+  const originalKey = process.env.GEMINI_API_KEY;
+
+  beforeEach(() => {
+    process.env.GEMINI_API_KEY = 'test-key';
+    mockRewrite.mockReset();
+  });
+
+  afterAll(() => {
+    process.env.GEMINI_API_KEY = originalKey;
+  });
+
+  it('streams the rewritten text', async () => {
+    mockRewrite.mockReturnValue(pieces('- Revenue ', 'up 12%'));
+
+    const response = await POST(buildRequest({ text: '- Up 12%', action: 'expand', audience: 'Board' }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    expect(await response.text()).toBe('- Revenue up 12%');
+    expect(mockRewrite).toHaveBeenCalledWith({ text: '- Up 12%', action: 'expand', audience: 'Board' });
+  });
+
+  it('rewrites offline with the mock provider', async () => {
+    delete process.env.GEMINI_API_KEY;
+    process.env.VISION_PROVIDER = 'mock';
+
+    try {
+      const response = await POST(buildRequest({ text: 'Sales grew. Costs fell.', action: 'bullets' }));
+      expect(await response.text()).toBe('- Sales grew.\n- Costs fell.');
+    } finally {
+      delete process.env.VISION_PROVIDER;
+    }
+  });
+
+  it('needs a language to translate into', async () => {
+    const response = await POST(buildRequest({ text: 'Hello', action: 'translate' }));
+    expect(response.status).toBe(400);
+    expect(mockRewrite).not.toHaveBeenCalled();
+  });
+
+  it('maps quota errors to 429 before anything is streamed', async () => {
+    mockRewrite.mockImplementation(async function* () {
+      throw new Error('You exceeded your current quota');
+    });
+
+    const response = await POST(buildRequest({ text: 'Hello', action: 'shorten' }));
+    expect(response.status).toBe(429);
+  });
+});
@@ -0,0 +1,59 @@
+// API route for rewriting slide text with AI
+// POST /api/rewrite - { text, action, audience?, language?, slideTitle? } -> the rewritten
+// text as a plain-text stream. Nothing is saved: the editor shows a diff and applies the
+// result as an ordinary edit, so it can be undone.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfiguredVisionProvider, toProviderError } from '@/lib/vision-provider';
+import type { RewriteRequest } from '@/lib/rewrite';
+import { errorResponse } from '@/lib/api-response';
+import { RewriteRequestSchema } from '@/utils/validation-schemas';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = RewriteRequestSchema.parse(await request.json());
+
+    const provider = getConfiguredVisionProvider();
+
+    // Wait for the first piece, so failures to start still get a proper status code
+    const chunks = provider.rewriteContent(input as RewriteRequest)[Symbol.asyncIterator]();
+    let first: IteratorResult<string>;
+    try {
+      first = await chunks.next();
+    } catch (error) {
+      throw toProviderError(error, provider, 'Failed to rewrite the text');
+    }
+
+    const encoder = new TextEncoder();
+    let pending: IteratorResult<string> | null = first;
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const result = pending ?? await chunks.next();
+          pending = null;
+          if (result.done) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(result.value));
+          }
+        } catch (error) {
+          // Headers are gone by now - the client sees the stream fail and keeps the old text
+          console.error(`Rewrite stream failed (${provider.name}):`, error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await chunks.return?.();
+      }
+    });
+
+    return new Response(stream, {
+      headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to rewrite the text');
+  }
+}
@@ -0,0 +1,30 @@
+// API route for opening a share link
+// GET /api/share/<token> - the shared presentation (used by the share viewer)
+// Password-protected links take the password in the X-Share-Password header
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSharedPresentation } from '@/lib/history';
+import { errorResponse } from '@/lib/api-response';
+
+export const dynamic = 'force-dynamic';
+
+const SHARE_PASSWORD_HEADER = 'x-share-password';
+
+interface RouteContext {
+  params: { token: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const password = request.headers.get(SHARE_PASSWORD_HEADER);
+    const shared = await getSharedPresentation(params.token, password);
+
+    return NextResponse.json(
+      { success: true, data: shared },
+      // Never let a shared cache keep a copy past revocation or expiry
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to open shared presentation');
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { GET as listShared } from '../route';
+import { GET as openShared } from '../[token]/route';
+import { GET as getRecord } from '../../history/[id]/route';
+import { POST as saveHistory } from '../../history/save/route';
+import {
+  DELETE as revokeShare,
+  GET as getShare,
+  PUT as updateShare
+} from '../../history/[id]/share/route';
+import { SESSION_COOKIE, createSessionToken } from '@/lib/session';
+
+// Swap the real MongoDB connection for the in-memory stand-in (lib/__mocks__/mongodb.ts)
+jest.mock('@/lib/mongodb');
+const { resetDatabase } = jest.requireMock<typeof import('@/lib/__mocks__/mongodb')>('@/lib/mongodb');
+
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
+// Uploads are private objects - every read gets a signed link
+jest.mock('@/lib/gcs', () => ({
+  getSignedReadUrl: jest.fn(async (path: string) => `https://storage.example.com/${path}?signature=abc`)
+}));
+
+const theme = {
+  id: 'modern',
+  name: 'Modern Professional',
+  colors: { primary: '#2563eb', secondary: '#64748b', accent: '#06b6d4', background: '#ffffff', text: '#1e293b' },
+  fonts: { heading: 'Inter, sans-serif', body: 'Inter, sans-serif' },
+  layout: 'modern'
+};
+
+// Requests from the presentation's owner
+const owner = { sub: 'local|owner@example.com', name: 'Owner', email: 'owner@example.com', picture: null };
+const asOwner = (url: string, init: ConstructorParameters<typeof NextRequest>[1] = {}) =>
+  new NextRequest(url, { ...init, headers: { cookie: `${SESSION_COOKIE}=${createSessionToken(owner)}` } });
+
+const save = async (title: string) => {
+  const response = await saveHistory(asOwner('http://localhost:3000/api/history/save', {
+    method: 'POST',
+    body: JSON.stringify({
+      summary: `${title} summary`,
+      themeUsed: 'modern',
+      outputType: 'interactive',
+      inputImagePath: 'uploads/123-source.png',
+      presentation: {
+        id: `pres-${title}`,
+        title,
+        theme,
+        slides: [{ id: 'slide-1', title, theme, contents: [{ id: 'c-1', type: 'title', content: title, position: { x: 50, y: 20 } }] }],
+        metadata: { created: '2024-01-15T10:00:00.000Z', updated: '2024-01-15T10:00:00.000Z' },
+        settings: {}
+      }
+    })
+  }));
+  return (await response.json()).data;
+};
+
+const recordContext = (id: string) => ({ params: { id } });
+
+const share = async (id: string, body: Record<string, unknown>) => {
+  const response = await updateShare(
+    asOwner('http://localhost:3000', { method: 'PUT', body: JSON.stringify(body) }),
+    recordContext(id)
+  );
+  return { status: response.status, result: await response.json() };
+};
+
+// Token is the last segment of the share URL
+const open = (url: string, password?: string) => {
+  const token = url.split('/').pop()!;
+  return openShared(
+    new NextRequest(`http://localhost:3000/api/share/${token}`, {
+      ...(password && { headers: { 'X-Share-Password': password } })
+    }),
+    { params: { token } }
+  );
+};
+
+describe('share links', () => {
+  beforeEach(() => {
+    resetDatabase();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('saves presentations as private, with no share link', async () => {
+    const saved = await save('Private deck');
+
+    expect(saved.sharing).toEqual({
+      visibility: 'private',
+      url: null,
+      hasPassword: false,
+      expiresAt: null,
+      revokedAt: null
+    });
+  });
+
+  it('signs the input image instead of returning a permanent URL', async () => {
+    const saved = await save('Signed');
+
+    const fetched = await (await getRecord(asOwner('http://localhost:3000'), recordContext(saved._id))).json();
+
+    expect(fetched.data.inputImageUrl).toBe('https://storage.example.com/uploads/123-source.png?signature=abc');
+  });
+
+  it('opens an unlisted link without exposing the owner record', async () => {
+    const saved = await save('Unlisted');
+    const { status, result } = await share(saved._id, { visibility: 'unlisted' });
+
+    expect(status).toBe(200);
+    expect(result.data.url).toMatch(/^\/viewer\/share\/[\w-]+$/);
+    expect(result.data.url).not.toContain(saved._id);
+
+    const response = await open(result.data.url);
+    const shared = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('private, no-store');
+    expect(shared.data.presentation.title).toBe('Unlisted');
+    expect(shared.data).not.toHaveProperty('_id');
+    expect(shared.data).not.toHaveProperty('userId');
+    expect(shared.data).not.toHaveProperty('sharing');
+  });
+
+  it('hides a link again when the presentation goes back to private', async () => {
+    const saved = await save('Paused');
+    const { result: shared } = await share(saved._id, { visibility: 'unlisted' });
+    await share(saved._id, { visibility: 'private' });
+
+    expect((await open(shared.data.url)).status).toBe(404);
+
+    const { result: reshared } = await share(saved._id, { visibility: 'unlisted' });
+    expect(reshared.data.url).toBe(shared.data.url);
+  });
+
+  it('asks for the password on protected links and never returns the hash', async () => {
+    const saved = await save('Protected');
+    const { result } = await share(saved._id, { visibility: 'unlisted', password: 'open sesame' });
+
+    expect(result.data.hasPassword).toBe(true);
+    expect(JSON.stringify(result.data)).not.toContain('passwordHash');
+
+    const missing = await open(result.data.url);
+    expect(missing.status).toBe(401);
+    expect((await missing.json()).code).toBe('SHARE_PASSWORD_REQUIRED');
+
+    const wrong = await open(result.data.url, 'let me in');
+    expect(wrong.status).toBe(403);
+    expect((await wrong.json()).code).toBe('SHARE_PASSWORD_INCORRECT');
+
+    expect((await open(result.data.url, 'open sesame')).status).toBe(200);
+
+    const { result: cleared } = await share(saved._id, { password: null });
+    expect(cleared.data.hasPassword).toBe(false);
+    expect((await open(result.data.url)).status).toBe(200);
+  });
+
+  it('stops serving a link once it expires', async () => {
+    const saved = await save('Expiring');
+    const { result } = await share(saved._id, {
+      visibility: 'unlisted',
+      expiresAt: new Date(Date.now() + 60_000).toISOString()
+    });
+
+    expect((await open(result.data.url)).status).toBe(200);
+
+    jest.useFakeTimers({ now: Date.now() + 120_000 });
+    try {
+      expect((await open(result.data.url)).status).toBe(404);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('only lets the owner change share settings', async () => {
+    const saved = await save('Owned');
+
+    const anonymous = await updateShare(
+      new NextRequest('http://localhost:3000', { method: 'PUT', body: JSON.stringify({ visibility: 'public' }) }),
+      recordContext(saved._id)
+    );
+    expect(anonymous.status).toBe(401);
+
+    const stranger = { ...owner, sub: 'local|stranger@example.com' };
+    const other = await updateShare(
+      new NextRequest('http://localhost:3000', {
+        method: 'PUT',
+        body: JSON.stringify({ visibility: 'public' }),
+        headers: { cookie: `${SESSION_COOKIE}=${createSessionToken(stranger)}` }
+      }),
+      recordContext(saved._id)
+    );
+    expect(other.status).toBe(403);
+  });
+
+  it('rejects an expiry date in the past', async () => {
+    const saved = await save('Past');
+    const { status } = await share(saved._id, { visibility: 'unlisted', expiresAt: '2000-01-01T00:00:00.000Z' });
+
+    expect(status).toBe(400);
+  });
+
+  it('kills a revoked link for good and issues a new one when shared again', async () => {
+    const saved = await save('Revoked');
+    const { result } = await share(saved._id, { visibility: 'public' });
+
+    const revoked = await (await revokeShare(asOwner('http://localhost:3000'), recordContext(saved._id))).json();
+    expect(revoked.data.visibility).toBe('private');
+    expect(revoked.data.revokedAt).toEqual(expect.any(String));
+    expect((await open(result.data.url)).status).toBe(404);
+
+    const { result: reshared } = await share(saved._id, { visibility: 'unlisted' });
+    expect(reshared.data.url).not.toBe(result.data.url);
+
+    const settings = await (await getShare(asOwner('http://localhost:3000'), recordContext(saved._id))).json();
+    expect(settings.data.url).toBe(reshared.data.url);
+  });
+
+  it('lists only public links that open without a password in the gallery', async () => {
+    const publicDeck = await save('Public');
+    const unlisted = await save('Unlisted');
+    const protectedDeck = await save('Protected');
+    await save('Private');
+
+    await share(publicDeck._id, { visibility: 'public' });
+    await share(unlisted._id, { visibility: 'unlisted' });
+    await share(protectedDeck._id, { visibility: 'public', password: 'secret' });
+
+    const response = await listShared(new NextRequest('http://localhost:3000/api/share'));
+    const result = await response.json();
+
+    expect(result.data.map((item: any) => item.title)).toEqual(['Public']);
+    expect(result.data[0]).not.toHaveProperty('_id');
+    expect(result.pagination.total).toBe(1);
+  });
+
+  it('returns 404 for an unknown token', async () => {
+    expect((await open('/viewer/share/unknown-token')).status).toBe(404);
+  });
+});
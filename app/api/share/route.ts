@@ -0,0 +1,24 @@
+// API route for the public gallery
+// GET /api/share - presentations shared as public, newest first (?page=1&limit=20)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listPublicPresentations } from '@/lib/history';
+import { errorResponse } from '@/lib/api-response';
+import { HistoryListQuerySchema } from '@/utils/validation-schemas';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const { page, limit } = HistoryListQuerySchema.parse({
+      page: searchParams.get('page') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined
+    });
+
+    const { items, pagination } = await listPublicPresentations({ page, limit });
+    return NextResponse.json({ success: true, data: items, pagination });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch shared presentations');
+  }
+}
@@ -0,0 +1,93 @@
+/** @jest-environment node */
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { generateSpeakerNotes } from '@/lib/gemini-vision-enhanced';
+import { SpeakerNotesSchema } from '@/utils/validation-schemas';
+
+jest.mock('@/lib/gemini-vision-enhanced', () => ({
+  generateSpeakerNotes: jest.fn()
+}));
+
+// The mock provider pulls in the slide generator, which needs nanoid
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
+const mockNotes = generateSpeakerNotes as jest.MockedFunction<typeof generateSpeakerNotes>;
+
+const slide = {
+  id: 'slide-1',
+  title: 'Revenue',
+  theme: {
+    id: 'modern',
+    name: 'Modern',
+    colors: { primary: '#2563eb', secondary: '#64748b', accent: '#f59e0b', background: '#ffffff', text: '#1e293b' },
+    fonts: { heading: 'Inter', body: 'Inter' },
+    layout: 'modern'
+  },
+  contents: [
+    { id: 'title', type: 'title', content: 'Revenue', position: { x: 50, y: 15 } },
+    { id: 'b1', type: 'bullet', content: 'EMEA +12%', position: { x: 8, y: 30 } },
+    { id: 'b2', type: 'bullet', content: 'APAC +8%', position: { x: 8, y: 40 } }
+  ]
+};
+
+const buildRequest = (body: unknown) =>
+  new NextRequest('http://localhost:3000/api/speaker-notes', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'content-type': 'application/json' }
+  });
+
+describe('/api/speaker-notes', () => {
+  const originalKey = process.env.GEMINI_API_KEY;
+
+  beforeEach(() => {
+    process.env.GEMINI_API_KEY = 'test-key';
+    mockNotes.mockReset();
+  });
+
+  afterAll(() => {
+    process.env.GEMINI_API_KEY = originalKey;
+  });
+
+  it('writes structured notes for the slide', async () => {
+    const notes = { opening: 'Start with the headline', mainPoints: ['EMEA led'], timing: 'Two minutes', transition: 'Costs next', questions: ['Why APAC?'] };
+    mockNotes.mockResolvedValue(notes);
+
+    const response = await POST(buildRequest({ slide, presentationType: 'report' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.notes).toEqual(notes);
+    expect(mockNotes).toHaveBeenCalledWith(expect.objectContaining({ title: 'Revenue' }), 'report');
+  });
+
+  it('writes notes offline with the mock provider', async () => {
+    delete process.env.GEMINI_API_KEY;
+    process.env.VISION_PROVIDER = 'mock';
+
+    try {
+      const body = await (await POST(buildRequest({ slide }))).json();
+
+      expect(mockNotes).not.toHaveBeenCalled();
+      const notes = SpeakerNotesSchema.parse(body.data.notes);
+      expect(notes.mainPoints).toEqual(['EMEA +12%', 'APAC +8%']);
+    } finally {
+      delete process.env.VISION_PROVIDER;
+    }
+  });
+
+  it('rejects requests without a slide', async () => {
+    const response = await POST(buildRequest({}));
+    expect(response.status).toBe(400);
+  });
+
+  it('maps quota errors to 429', async () => {
+    mockNotes.mockRejectedValue(new Error('You exceeded your current quota'));
+
+    const response = await POST(buildRequest({ slide }));
+    expect(response.status).toBe(429);
+  });
+});
@@ -0,0 +1,29 @@
+// API route for rewriting one slide's speaker notes
+// POST /api/speaker-notes - { slide, presentationType? } -> fresh structured notes
+// Decks get notes for every slide at creation (opt-in); this is the editor's per-slide redo
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfiguredVisionProvider, toProviderError } from '@/lib/vision-provider';
+import { errorResponse } from '@/lib/api-response';
+import { SpeakerNotesRequestSchema } from '@/utils/validation-schemas';
+import type { Slide } from '@/types/slides';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { slide, presentationType } = SpeakerNotesRequestSchema.parse(await request.json());
+
+    const provider = getConfiguredVisionProvider();
+
+    try {
+      const notes = await provider.generateSpeakerNotes(slide as Slide, presentationType);
+      return NextResponse.json({ success: true, data: { notes } });
+    } catch (error) {
+      throw toProviderError(error, provider, 'Failed to write speaker notes');
+    }
+  } catch (error) {
+    return errorResponse(error, 'Failed to write speaker notes');
+  }
+}
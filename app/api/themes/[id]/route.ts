@@ -0,0 +1,41 @@
+// API route for one custom theme
+// PUT    /api/themes/<id> - replace it with the editor's current version
+// DELETE /api/themes/<id> - remove it (decks already made with it keep their copy)
+// Only the signed-in owner can change a theme
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteTheme, toSlideTheme, updateTheme } from '@/lib/theme-store';
+import { errorResponse } from '@/lib/api-response';
+import { requireUser } from '@/lib/session';
+import { ThemeInputSchema } from '@/utils/validation-schemas';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = requireUser(request);
+    const input = ThemeInputSchema.parse(await request.json());
+    const record = await updateTheme(params.id, user.sub, input);
+
+    console.log('🎨 Custom theme updated');
+    return NextResponse.json({ success: true, data: toSlideTheme(record) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update theme');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = requireUser(request);
+    await deleteTheme(params.id, user.sub);
+
+    console.log('🗑️ Custom theme removed');
+    return NextResponse.json({ success: true, data: { id: params.id } });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete theme');
+  }
+}
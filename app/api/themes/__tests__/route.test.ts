@@ -0,0 +1,162 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { GET as listThemes, POST as createTheme } from '../route';
+import { PUT as updateTheme, DELETE as deleteTheme } from '../[id]/route';
+import { DEFAULT_THEMES } from '@/lib/themes';
+import { SESSION_COOKIE, createSessionToken } from '@/lib/session';
+import type { AuthUser } from '@/lib/auth-provider';
+
+// Swap the real MongoDB connection for the in-memory stand-in (lib/__mocks__/mongodb.ts)
+jest.mock('@/lib/mongodb');
+const { resetDatabase } = jest.requireMock<typeof import('@/lib/__mocks__/mongodb')>('@/lib/mongodb');
+
+// Mock nanoid with unique, predictable IDs
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
+const me: AuthUser = { sub: 'local|me@example.com', name: 'Me', email: 'me@example.com', picture: null };
+const them: AuthUser = { sub: 'local|them@example.com', name: 'Them', email: 'them@example.com', picture: null };
+
+const brandTheme = {
+  name: 'Acme Brand',
+  colors: {
+    primary: '#b91c1c',
+    secondary: '#57534e',
+    accent: '#facc15',
+    background: '#fafaf9',
+    text: '#1c1917'
+  },
+  fonts: { heading: 'Georgia, serif', body: 'Inter, sans-serif' },
+  layout: 'classic',
+  spacing: { small: '0.25rem', medium: '1rem', large: '3rem' }
+};
+
+// A request carrying `user`'s session cookie - pass null to send none
+const authed = (url: string, init: ConstructorParameters<typeof NextRequest>[1] = {}, user: AuthUser | null = me) =>
+  new NextRequest(url, {
+    ...init,
+    headers: user ? { cookie: `${SESSION_COOKIE}=${createSessionToken(user)}` } : {}
+  });
+
+const saveRequest = (theme: Record<string, unknown>, user: AuthUser | null = me) =>
+  authed('http://localhost:3000/api/themes', { method: 'POST', body: JSON.stringify(theme) }, user);
+
+const save = async (theme: Record<string, unknown> = brandTheme, user: AuthUser = me) =>
+  (await (await createTheme(saveRequest(theme, user))).json()).data;
+
+const context = (id: string) => ({ params: { id } });
+
+describe('/api/themes', () => {
+  beforeEach(() => {
+    resetDatabase();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lists only the built-in themes when signed out', async () => {
+    await save();
+
+    const result = await (await listThemes(authed('http://localhost:3000/api/themes', {}, null))).json();
+
+    expect(result.data.builtIn.map((theme: { id: string }) => theme.id)).toEqual(DEFAULT_THEMES.map(theme => theme.id));
+    expect(result.data.custom).toEqual([]);
+  });
+
+  it('saves a custom theme for the signed-in user only', async () => {
+    const response = await createTheme(saveRequest(brandTheme));
+    const result = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(result.data).toEqual({ id: expect.any(String), ...brandTheme });
+
+    const mine = await (await listThemes(authed('http://localhost:3000/api/themes'))).json();
+    const theirs = await (await listThemes(authed('http://localhost:3000/api/themes', {}, them))).json();
+
+    expect(mine.data.custom).toEqual([result.data]);
+    expect(theirs.data.custom).toEqual([]);
+  });
+
+  it('requires a session to save', async () => {
+    const response = await createTheme(saveRequest(brandTheme, null));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects text that fails WCAG AA contrast', async () => {
+    const response = await createTheme(saveRequest({
+      ...brandTheme,
+      colors: { ...brandTheme.colors, text: '#a8a29e' }
+    }));
+    const result = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(result.code).toBe('THEME_CONTRAST_TOO_LOW');
+    expect(result.error).toMatch(/Body text contrast is 2\.\d\d:1 - WCAG AA needs at least 4\.5:1/);
+  });
+
+  it('holds titles to the large-text minimum', async () => {
+    // 3.8:1 - too low for body text, fine for headings
+    const readable = await createTheme(saveRequest({ ...brandTheme, colors: { ...brandTheme.colors, primary: '#ef4444' } }));
+    const unreadable = await createTheme(saveRequest({ ...brandTheme, colors: { ...brandTheme.colors, primary: '#fca5a5' } }));
+
+    expect(readable.status).toBe(201);
+    expect(unreadable.status).toBe(400);
+    expect((await unreadable.json()).error).toMatch(/^Titles contrast/);
+  });
+
+  it('rejects colors that are not six-digit hex', async () => {
+    const response = await createTheme(saveRequest({ ...brandTheme, colors: { ...brandTheme.colors, background: 'white' } }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe('VALIDATION_ERROR');
+  });
+
+  it('updates a theme in place and checks contrast again', async () => {
+    const saved = await save();
+    const update = (theme: Record<string, unknown>) => updateTheme(
+      authed(`http://localhost:3000/api/themes/${saved.id}`, { method: 'PUT', body: JSON.stringify(theme) }),
+      context(saved.id)
+    );
+
+    const renamed = await (await update({ ...brandTheme, name: 'Acme Dark', colors: { ...brandTheme.colors, background: '#0c0a09', text: '#fafaf9', primary: '#f87171', secondary: '#d6d3d1' } })).json();
+    const rejected = await update({ ...brandTheme, colors: { ...brandTheme.colors, background: '#0c0a09' } });
+
+    expect(renamed.data).toMatchObject({ id: saved.id, name: 'Acme Dark' });
+    expect(rejected.status).toBe(400);
+
+    const mine = await (await listThemes(authed('http://localhost:3000/api/themes'))).json();
+    expect(mine.data.custom).toHaveLength(1);
+    expect(mine.data.custom[0].name).toBe('Acme Dark');
+  });
+
+  it("does not let other users change or delete someone's theme", async () => {
+    const saved = await save();
+
+    const update = await updateTheme(
+      authed(`http://localhost:3000/api/themes/${saved.id}`, { method: 'PUT', body: JSON.stringify(brandTheme) }, them),
+      context(saved.id)
+    );
+    const remove = await deleteTheme(authed(`http://localhost:3000/api/themes/${saved.id}`, { method: 'DELETE' }, them), context(saved.id));
+
+    expect(update.status).toBe(403);
+    expect(remove.status).toBe(403);
+  });
+
+  it('deletes a theme', async () => {
+    const saved = await save();
+
+    const response = await deleteTheme(authed(`http://localhost:3000/api/themes/${saved.id}`, { method: 'DELETE' }), context(saved.id));
+    const missing = await deleteTheme(authed(`http://localhost:3000/api/themes/${saved.id}`, { method: 'DELETE' }), context(saved.id));
+
+    expect(response.status).toBe(200);
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,38 @@
+// API route for slide themes
+// GET  /api/themes - the built-in themes, plus the signed-in user's own
+// POST /api/themes - save a new custom theme (text must pass WCAG AA contrast)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_THEMES } from '@/lib/themes';
+import { createTheme, listThemes, toSlideTheme, type ThemeCatalog } from '@/lib/theme-store';
+import { errorResponse } from '@/lib/api-response';
+import { getSessionUser, requireUser } from '@/lib/session';
+import { ThemeInputSchema } from '@/utils/validation-schemas';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = getSessionUser(request);
+    const catalog: ThemeCatalog = {
+      builtIn: DEFAULT_THEMES,
+      custom: user ? await listThemes(user.sub) : []
+    };
+    return NextResponse.json({ success: true, data: catalog });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch themes');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = requireUser(request);
+    const input = ThemeInputSchema.parse(await request.json());
+    const record = await createTheme(input, user.sub);
+
+    console.log('🎨 Custom theme saved');
+    return NextResponse.json({ success: true, data: toSlideTheme(record) }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to save theme');
+  }
+}
@@ -11,17 +11,17 @@ jest.mock('formidable', () => {
 
 // Mock Google Cloud Storage
 const mockSave = jest.fn();
-const mockMakePublic = jest.fn();
 const mockFile = jest.fn(() => ({
-  save: mockSave,
-  makePublic: mockMakePublic
+  save: mockSave
 }));
+const mockGetSignedReadUrl = jest.fn();
 
 jest.mock('@/lib/gcs', () => ({
   bucket: {
     file: mockFile,
     name: 'test-bucket'
-  }
+  },
+  getSignedReadUrl: mockGetSignedReadUrl
 }));
 
 // Mock nanoid
@@ -45,7 +45,9 @@ describe('/api/upload-image', () => {
     });
     
     mockSave.mockResolvedValue(undefined);
-    mockMakePublic.mockResolvedValue(undefined);
+    mockGetSignedReadUrl.mockImplementation(async (path: string) =>
+      `https://storage.googleapis.com/test-bucket/${path}?X-Goog-Signature=abc`
+    );
   });
 
   it('successfully uploads a valid image', async () => {
@@ -63,7 +65,8 @@ describe('/api/upload-image', () => {
     expect(response.status).toBe(200);
     expect(result.success).toBe(true);
     expect(result.url).toContain('https://storage.googleapis.com/test-bucket/');
-    expect(result.url).toContain('test-id-123');
+    expect(result.url).toContain('X-Goog-Signature');
+    expect(result.path).toMatch(/^uploads\/\d+-test-id-123\.jpg$/);
   });
 
   it('rejects request with no image file', async () => {
@@ -157,8 +160,8 @@ describe('/api/upload-image', () => {
     expect(result.error).toBe('Storage error');
   });
 
-  it('handles make public failure', async () => {
-    mockMakePublic.mockRejectedValue(new Error('Permission error'));
+  it('handles signing failure', async () => {
+    mockGetSignedReadUrl.mockRejectedValue(new Error('Permission error'));
 
     const formData = new FormData();
     formData.append('image', new Blob(['test'], { type: 'image/jpeg' }), 'test.jpg');
@@ -2,14 +2,20 @@ import { NextRequest, NextResponse } from 'next/server';
 import formidable, { File as FormidableFile } from 'formidable';
 import { Readable } from 'stream';
 import { nanoid } from 'nanoid';
+import {
+  ALLOWED_DOCUMENT_TYPES,
+  ALLOWED_IMAGE_TYPES,
+  MAX_DOCUMENT_SIZE,
+  getMaxUploadSize,
+} from '@/utils/validation-schemas';
 
 // Modern Next.js 14 configuration
 export const runtime = 'nodejs';
 export const maxDuration = 30;
 export const dynamic = 'force-dynamic'; // Prevent static generation
 
-const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
-const MAX_SIZE = 5 * 1024 * 1024;
+// PDFs are stored as-is - they're split into pages when the presentation is built
+const ALLOWED_TYPES = [...ALLOWED_IMAGE_TYPES, ...ALLOWED_DOCUMENT_TYPES];
 
 async function parseForm(req: NextRequest): Promise<{ fields: any; files: { image: FormidableFile } }> {
   const buffers: Buffer[] = [];
@@ -56,7 +62,8 @@ async function parseForm(req: NextRequest): Promise<{ fields: any; files: { imag
   }
   const mockReq = new MockReq(buffer, headersObj);
   return new Promise((resolve, reject) => {
-    const form = formidable({ maxFileSize: MAX_SIZE });
+    // The per-type limit is checked after parsing; this only caps the largest allowed upload
+    const form = formidable({ maxFileSize: MAX_DOCUMENT_SIZE });
     form.parse(mockReq as any, (err, fields, files) => {
       if (err) return reject(err);
       // Extract image file
@@ -80,22 +87,22 @@ export async function POST(req: NextRequest) {
     }
 
     // Dynamic import to avoid build-time issues
-    const { bucket } = await import('@/lib/gcs');
+    const { bucket, getSignedReadUrl } = await import('@/lib/gcs');
 
     const { files } = await parseForm(req);
     const file = files.image;
     if (!file) throw new Error('No image uploaded');
     if (!file.mimetype || !ALLOWED_TYPES.includes(file.mimetype)) throw new Error('Invalid file type');
-    if (file.size > MAX_SIZE) throw new Error('File too large');
+    if (file.size > getMaxUploadSize(file.mimetype)) throw new Error('File too large');
 
     const originalFilename = file.originalFilename || 'upload';
     const ext = originalFilename.split('.').pop() || 'jpg';
     const filename = `uploads/${Date.now()}-${nanoid()}.${ext}`;
     const blob = bucket.file(filename);
     await blob.save(file.filepath);
-    await blob.makePublic();
-    const publicUrl = `https://storage.googleapis.com/${bucket.name}/${filename}`;
-    return NextResponse.json({ success: true, url: publicUrl });
+    // The object stays private - callers keep the path and get short-lived links to it
+    const url = await getSignedReadUrl(filename);
+    return NextResponse.json({ success: true, path: filename, url });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     return NextResponse.json({ success: false, error: errorMessage }, { status: 400 });
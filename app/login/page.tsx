@@ -0,0 +1,113 @@
+// app/login/page.tsx
+// Sign-in page - an email and password form for credentials providers (local accounts),
+// or a single button for providers that sign in on their own hosted page (Auth0)
+'use client';
+
+import { Suspense, useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useSession } from '@/hooks/useSession';
+import { toSafeReturnPath } from '@/lib/utils';
+
+function LoginForm() {
+  const router = useRouter();
+  const returnTo = toSafeReturnPath(useSearchParams().get('returnTo'));
+  const { user, provider, isLoading, error: sessionError, signIn } = useSession();
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await signIn(email, password);
+      router.push(returnTo);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-gray-500 dark:text-gray-400">Loading...</p>;
+  }
+
+  if (user) {
+    return (
+      <div className="text-center space-y-4">
+        <p className="text-gray-700 dark:text-gray-200">Signed in as <strong>{user.name}</strong>.</p>
+        <Link href={returnTo} className="inline-block px-6 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors font-semibold">
+          Continue
+        </Link>
+      </div>
+    );
+  }
+
+  if (sessionError || !provider) {
+    return <p role="alert" className="text-red-600">{sessionError ?? 'Sign-in is unavailable.'}</p>;
+  }
+
+  if (!provider.configured) {
+    return (
+      <p role="alert" className="text-gray-700 dark:text-gray-200 text-center">
+        Sign-in is not set up yet. Configure the <code>{provider.name}</code> auth provider (AUTH_PROVIDER) and try again.
+      </p>
+    );
+  }
+
+  if (provider.type === 'redirect') {
+    return (
+      <a
+        href={`/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`}
+        className="block w-full text-center px-6 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors font-semibold"
+      >
+        Continue with {provider.name === 'auth0' ? 'Auth0' : provider.name}
+      </a>
+    );
+  }
+
+  const fieldClass = 'w-full px-4 py-3 border border-gray-300 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:outline-none focus:ring-4 focus:ring-blue-500/30';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-200">Email</span>
+        <input type="email" value={email} onChange={event => setEmail(event.target.value)} autoComplete="email" required className={fieldClass} />
+      </label>
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-200">Password</span>
+        <input type="password" value={password} onChange={event => setPassword(event.target.value)} autoComplete="current-password" required className={fieldClass} />
+      </label>
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full px-6 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 disabled:opacity-50 transition-colors font-semibold"
+      >
+        {isSubmitting ? 'Signing in...' : 'Sign in'}
+      </button>
+    </form>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-black p-6">
+      <div className="w-full max-w-sm bg-white dark:bg-gray-950 border border-gray-200 dark:border-gray-800 rounded-2xl shadow-lg p-8 space-y-6">
+        <div className="text-center">
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Sign in to Snap2Slides</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Your saved presentations are waiting.</p>
+        </div>
+        {/* useSearchParams needs a Suspense boundary in the App Router */}
+        <Suspense fallback={null}>
+          <LoginForm />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
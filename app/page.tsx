@@ -3,20 +3,34 @@
 // Main home page for Snap2Slides - where users upload images and create presentations
 // This is the heart of our app, designed to be simple but powerful
 
-import { useState, useCallback, useEffect, useMemo, memo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef, memo } from 'react';
 import dynamic from 'next/dynamic';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'sonner';
 
 // Types and interfaces
-import type { SlidePresentation, ThemeVariant, PresentationFormat } from '@/types/slides';
+import type { AnalysisProgress, SlidePresentation, SlideTheme, ThemeVariant, PresentationFormat } from '@/types/slides';
 
 // Custom hooks for features
 import { useKeyboardShortcuts, SHORTCUTS } from '@/hooks/useKeyboardShortcuts';
+import { usePresentationHistory } from '@/hooks/usePresentationHistory';
+import { useSession } from '@/hooks/useSession';
+import { useThemes, type ThemeDraft } from '@/hooks/useThemes';
+import { useBrandKit } from '@/hooks/useBrandKit';
+import { getPresentationConfig } from '@/lib/presenter-channel';
+import { createPresentation } from '@/utils/createPresentation';
+import type { PartialSections } from '@/lib/analysis-progress';
+import { toSafeFilename } from '@/lib/utils';
+import type { BrandKit } from '@/lib/brand-kit';
+import { MAX_IMAGES, MAX_PDF_PAGES, getMaxUploadSize, isDocumentType } from '@/utils/validation-schemas';
 
 // UI Components
 import ProgressBar from '@/components/ui/ProgressBar';
+import AIProcessingNotification from '@/components/ui/AIProcessingNotification';
 import HelpModal from '@/components/ui/HelpModal';
+import AccountMenu from '@/components/features/AccountMenu';
+import ThemeSelector from '@/components/features/ThemeSelector';
+import BrandKitPanel from '@/components/features/BrandKitPanel';
 
 // Dynamic imports for better performance and code splitting
 const AIFeaturesShowcase = dynamic(() => import('@/components/features/AIFeaturesShowcase'), {
@@ -24,6 +38,9 @@ const AIFeaturesShowcase = dynamic(() => import('@/components/features/AIFeature
   ssr: false
 });
 
+const ThemeEditor = dynamic(() => import('@/components/features/ThemeEditor'), { ssr: false });
+const BrandKitEditor = dynamic(() => import('@/components/features/BrandKitEditor'), { ssr: false });
+
 const SlideEditor = dynamic(() => import('@/components/features/SlideEditor'), {
   loading: () => (
     <div className="flex items-center justify-center p-8">
@@ -33,6 +50,10 @@ const SlideEditor = dynamic(() => import('@/components/features/SlideEditor'), {
   ssr: false
 });
 
+const PresentationMode = dynamic(() => import('@/components/features/PresentationMode'), {
+  ssr: false
+});
+
 // ===================
 // PERFORMANCE OPTIMIZED COMPONENTS
 // ===================
@@ -93,64 +114,61 @@ const useTheme = () => {
  */
 const SimpleHeader = memo(() => (
   <div className="fixed top-4 right-4 z-50">
-    <div className="bg-white/90 dark:bg-gray-800/90 backdrop-blur border border-gray-200 dark:border-gray-700 px-4 py-2 rounded-lg shadow">
+    <div className="flex items-center gap-4 bg-white/90 dark:bg-gray-800/90 backdrop-blur border border-gray-200 dark:border-gray-700 px-4 py-2 rounded-lg shadow">
       <span className="text-sm text-gray-900 dark:text-white font-medium">
         ✨ Snap2Slides
       </span>
+      <AccountMenu />
     </div>
   </div>
 ));
 
 SimpleHeader.displayName = 'SimpleHeader';
 
-// Simple dropzone component
+// Simple dropzone component - accepts several images or PDFs, appended in the order they're picked
 const EnhancedDropzone: React.FC<{
-  onFileSelect: (file: File) => void;
-  selectedFile: File | null;
+  onFilesSelect: (files: File[]) => void;
+  selectedFiles: File[];
   disabled?: boolean;
-}> = ({ onFileSelect, selectedFile, disabled }) => {
+}> = ({ onFilesSelect, selectedFiles, disabled }) => {
   const [isDragOver, setIsDragOver] = useState(false);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDragOver(false);
-    
-    const files = Array.from(e.dataTransfer.files);
-    const imageFile = files.find(file => {
+  const acceptFiles = useCallback((files: File[]) => {
+    const imageFiles = files.filter(file => {
       // More permissive image type checking
-      return file.type.startsWith('image/') || 
-             /\.(jpg|jpeg|png|webp|gif|bmp|tiff)$/i.test(file.name);
+      return file.type.startsWith('image/') || isDocumentType(file.type) ||
+             /\.(jpg|jpeg|png|webp|gif|bmp|tiff|pdf)$/i.test(file.name);
     });
-    
-    if (imageFile) {
-      // Simplified validation - just check size
-      const maxSize = 10 * 1024 * 1024; // 10MB
-      
-      if (imageFile.size > maxSize) {
-        toast.error('File size too large. Please upload an image smaller than 10MB.');
-        return;
-      }
-      
-      onFileSelect(imageFile);
-    } else {
-      toast.error('Please drop an image file');
+
+    if (imageFiles.length === 0) {
+      toast.error('Please drop an image or PDF file');
+      return;
     }
-  }, [onFileSelect]);
 
-  const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      // Simplified validation - just check size
-      const maxSize = 10 * 1024 * 1024; // 10MB
-      
-      if (file.size > maxSize) {
-        toast.error('File size too large. Please upload an image smaller than 10MB.');
-        return;
-      }
-      
-      onFileSelect(file);
+    // Simplified validation - just check size
+    const validFiles = imageFiles.filter(file => file.size <= getMaxUploadSize(file.type));
+    if (validFiles.length < imageFiles.length) {
+      toast.error('Some files were too large. Images can be up to 5MB and PDFs up to 20MB.');
     }
-  }, [onFileSelect]);
+
+    if (validFiles.length > 0) {
+      onFilesSelect(validFiles);
+    }
+  }, [onFilesSelect]);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    acceptFiles(Array.from(e.dataTransfer.files));
+  }, [acceptFiles]);
+
+  const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    acceptFiles(Array.from(e.target.files ?? []));
+    // Reset so picking the same file again still fires a change event
+    e.target.value = '';
+  }, [acceptFiles]);
+
+  const totalSize = selectedFiles.reduce((sum, file) => sum + file.size, 0);
 
   return (
     <div
@@ -165,13 +183,14 @@ const EnhancedDropzone: React.FC<{
     >
       <input
         type="file"
-        accept="image/*,.jpg,.jpeg,.png,.webp,.gif"
+        multiple
+        accept="image/*,.jpg,.jpeg,.png,.webp,.gif,application/pdf,.pdf"
         onChange={handleFileInput}
         disabled={disabled}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
       />
       
-      {selectedFile ? (
+      {selectedFiles.length > 0 ? (
         <div className="space-y-3 sm:space-y-4">
           <div className="w-12 h-12 sm:w-16 sm:h-16 bg-green-100 dark:bg-green-900/20 rounded-full flex items-center justify-center mx-auto">
             <svg className="w-6 h-6 sm:w-8 sm:h-8 text-green-600 dark:text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -179,9 +198,11 @@ const EnhancedDropzone: React.FC<{
             </svg>
           </div>
           <div>
-            <p className="font-medium text-gray-900 dark:text-white text-sm sm:text-base truncate">{selectedFile.name}</p>
+            <p className="font-medium text-gray-900 dark:text-white text-sm sm:text-base truncate">
+              {selectedFiles.length === 1 ? selectedFiles[0]?.name : `${selectedFiles.length} files selected`}
+            </p>
             <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">
-              {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+              {(totalSize / 1024 / 1024).toFixed(2)} MB · drop more to add pages
             </p>
           </div>
         </div>
@@ -194,10 +215,10 @@ const EnhancedDropzone: React.FC<{
           </div>
           <div>
             <p className="text-base sm:text-lg font-medium text-gray-900 dark:text-white mb-1 sm:mb-2">
-              Drop your image here
+              Drop your images or PDF here
             </p>
             <p className="text-sm sm:text-base text-gray-500 dark:text-gray-400">
-              or tap to browse
+              or tap to browse · several shots or pages become one deck
             </p>
           </div>
         </div>
@@ -206,150 +227,52 @@ const EnhancedDropzone: React.FC<{
   );
 };
 
-// Helper function to get theme data by ID
-const getThemeData = (themeId: string) => {
-  const themeMap = {
-    minimalist: {
-      colors: {
-        primary: '#374151',
-        secondary: '#6B7280',
-        accent: '#10B981',
-        background: '#FFFFFF',
-        text: '#1F2937'
-      },
-      fonts: {
-        heading: 'Inter',
-        body: 'Inter'
-      },
-      layout: 'minimal' as const
-    },
-    corporate: {
-      colors: {
-        primary: '#1E40AF',
-        secondary: '#3B82F6',
-        accent: '#F59E0B',
-        background: '#FFFFFF',
-        text: '#1F2937'
-      },
-      fonts: {
-        heading: 'Inter',
-        body: 'Inter'
-      },
-      layout: 'modern' as const
-    },
-    creative: {
-      colors: {
-        primary: '#7C3AED',
-        secondary: '#A855F7',
-        accent: '#EC4899',
-        background: '#FFFFFF',
-        text: '#1F2937'
-      },
-      fonts: {
-        heading: 'Inter',
-        body: 'Inter'
-      },
-      layout: 'creative' as const
-    }
-  };
-  
-  return themeMap[themeId as keyof typeof themeMap] || themeMap.minimalist;
-};
-
-// Simple theme selector with actual theme data
-const ThemeSelector: React.FC<{
-  selectedTheme: string;
-  onThemeChange: (theme: string) => void;
+// Ordered list of the selected images - the deck follows this order
+const SelectedImageList: React.FC<{
+  files: File[];
+  onMove: (index: number, offset: -1 | 1) => void;
+  onRemove: (index: number) => void;
   disabled?: boolean;
-}> = ({ selectedTheme, onThemeChange, disabled }) => {
-  const themes = [
-    { 
-      id: 'minimalist', 
-      name: 'Minimalist', 
-      color: 'bg-gray-100',
-      theme: {
-        colors: {
-          primary: '#374151',
-          secondary: '#6B7280',
-          accent: '#10B981',
-          background: '#FFFFFF',
-          text: '#1F2937'
-        },
-        fonts: {
-          heading: 'Inter',
-          body: 'Inter'
-        },
-        layout: 'minimal' as const
-      }
-    },
-    { 
-      id: 'corporate', 
-      name: 'Corporate', 
-      color: 'bg-blue-100',
-      theme: {
-        colors: {
-          primary: '#1E40AF',
-          secondary: '#3B82F6',
-          accent: '#F59E0B',
-          background: '#FFFFFF',
-          text: '#1F2937'
-        },
-        fonts: {
-          heading: 'Inter',
-          body: 'Inter'
-        },
-        layout: 'modern' as const
-      }
-    },
-    { 
-      id: 'creative', 
-      name: 'Creative', 
-      color: 'bg-purple-100',
-      theme: {
-        colors: {
-          primary: '#7C3AED',
-          secondary: '#A855F7',
-          accent: '#EC4899',
-          background: '#FFFFFF',
-          text: '#1F2937'
-        },
-        fonts: {
-          heading: 'Inter',
-          body: 'Inter'
-        },
-        layout: 'creative' as const
-      }
-    },
-  ];
-
-  return (
-    <div className="space-y-3">
-      <label className="block text-sm font-medium text-gray-900 dark:text-white">
-        Theme
-      </label>
-      <div className="grid grid-cols-3 gap-2">
-        {themes.map((theme) => (
-          <button
-            key={theme.id}
-            type="button"
-            onClick={() => onThemeChange(theme.id)}
-            disabled={disabled}
-            className={`p-2 sm:p-3 rounded-lg border-2 transition-all duration-200 touch-manipulation ${
-              selectedTheme === theme.id
-                ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/20'
-                : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
-            }`}
-          >
-            <div className={`w-full h-6 sm:h-8 ${theme.color} rounded mb-1 sm:mb-2`} />
-            <span className="text-xs font-medium text-gray-900 dark:text-white">
-              {theme.name}
-            </span>
-          </button>
-        ))}
-      </div>
-    </div>
-  );
-};
+}> = ({ files, onMove, onRemove, disabled }) => (
+  <ol className="space-y-2" aria-label="Selected images">
+    {files.map((file, index) => (
+      <li
+        key={`${file.name}-${file.size}-${file.lastModified}`}
+        className="flex items-center gap-3 px-3 py-2 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl text-sm"
+      >
+        <span className="w-6 text-center font-medium text-gray-500 dark:text-gray-400">{index + 1}</span>
+        <span className="flex-1 truncate text-gray-900 dark:text-white">{file.name}</span>
+        <button
+          type="button"
+          onClick={() => onMove(index, -1)}
+          disabled={disabled || index === 0}
+          className="px-2 text-gray-500 hover:text-gray-900 dark:hover:text-white disabled:opacity-30"
+          aria-label={`Move ${file.name} up`}
+        >
+          ↑
+        </button>
+        <button
+          type="button"
+          onClick={() => onMove(index, 1)}
+          disabled={disabled || index === files.length - 1}
+          className="px-2 text-gray-500 hover:text-gray-900 dark:hover:text-white disabled:opacity-30"
+          aria-label={`Move ${file.name} down`}
+        >
+          ↓
+        </button>
+        <button
+          type="button"
+          onClick={() => onRemove(index)}
+          disabled={disabled}
+          className="px-2 text-gray-500 hover:text-red-600 disabled:opacity-30"
+          aria-label={`Remove ${file.name}`}
+        >
+          ×
+        </button>
+      </li>
+    ))}
+  </ol>
+);
 
 // Simple output format selector
 const OutputFormatSelector: React.FC<{
@@ -393,27 +316,75 @@ const OutputFormatSelector: React.FC<{
 
 export default function HomePage() {
   // Form state
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [prompt, setPrompt] = useState<string>('');
-  const [slideTheme, setSlideTheme] = useState<string>('minimalist');
+  const [pageRange, setPageRange] = useState<string>('');
+  const [slideTheme, setSlideTheme] = useState<string>('minimal');
   const [outputFormat, setOutputFormat] = useState<'pptx' | 'interactive'>('interactive');
   const [theme, setTheme] = useTheme();
 
   // App state
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [currentPresentation, setCurrentPresentation] = useState<SlidePresentation | null>(null);
+  const {
+    presentation: currentPresentation,
+    applyEdit: handleEdit,
+    replace: replacePresentation,
+    reset: resetPresentation,
+    undo,
+    redo,
+    canUndo,
+    canRedo
+  } = usePresentationHistory();
   const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
   const [viewMode, setViewMode] = useState<'upload' | 'editor'>('upload');
-  const [analysisProgress, setAnalysisProgress] = useState(0);
+  // Live progress streamed from the server, and the sections found so far
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const [foundSections, setFoundSections] = useState<PartialSections[]>([]);
+  const analysisAbortRef = useRef<AbortController | null>(null);
   const [showHelpModal, setShowHelpModal] = useState(false);
+  const [isPresenting, setIsPresenting] = useState(false);
+
+  // Themes - the built-in ones plus, once signed in, the user's own
+  const { user } = useSession();
+  const { builtIn: builtInThemes, custom: customThemes, saveTheme, deleteTheme } = useThemes();
+  const [themeEditor, setThemeEditor] = useState<{ theme: SlideTheme; isOwn: boolean } | null>(null);
+
+  // The brand kit styles new decks in place of the picked theme, unless switched off
+  const { brandKit, saveBrandKit, deleteBrandKit } = useBrandKit({ enabled: Boolean(user) });
+  const [applyBrandKit, setApplyBrandKit] = useState(true);
+  const [writeNotes, setWriteNotes] = useState(false);
+  const [showBrandKitEditor, setShowBrandKitEditor] = useState(false);
 
   // Handlers
-  const handleFileSelect = useCallback((file: File) => {
-    setSelectedFile(file);
+  const handleFilesSelect = useCallback((files: File[]) => {
+    setSelectedFiles(current => {
+      const isNew = (file: File) => !current.some(existing =>
+        existing.name === file.name && existing.size === file.size && existing.lastModified === file.lastModified
+      );
+      const combined = [...current, ...files.filter(isNew)];
+      if (combined.length > MAX_IMAGES) {
+        toast.error(`You can combine up to ${MAX_IMAGES} images into one presentation`);
+      }
+      return combined.slice(0, MAX_IMAGES);
+    });
     setError(null);
-    setCurrentPresentation(null);
+    resetPresentation();
     setViewMode('upload');
+  }, [resetPresentation]);
+
+  const handleMoveFile = useCallback((index: number, offset: -1 | 1) => {
+    setSelectedFiles(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const reordered = [...current];
+      [reordered[index], reordered[target]] = [reordered[target]!, reordered[index]!];
+      return reordered;
+    });
+  }, []);
+
+  const handleRemoveFile = useCallback((index: number) => {
+    setSelectedFiles(current => current.filter((_, i) => i !== index));
   }, []);
 
   const handlePromptChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -422,281 +393,194 @@ export default function HomePage() {
 
   const handleAnalyze = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedFile) {
+    if (selectedFiles.length === 0) {
       toast.error('Please select an image file first');
       return;
     }
     
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsAnalyzing(true);
     setError(null);
-    setAnalysisProgress(0);
+    setFoundSections([]);
+    setAnalysisProgress({ stage: 'uploading', progress: 0, message: 'Uploading...' });
     
     try {
-      // Progress tracking
-      setAnalysisProgress(10);
-      toast.loading('Analyzing your image...', { id: 'analysis' });
-      
-      const formData = new FormData();
-      formData.append('image', selectedFile);
-      formData.append('prompt', prompt);
-      formData.append('theme', slideTheme);
-      
-      setAnalysisProgress(30);
-      
-      const response = await fetch('/api/gemini-vision', {
-        method: 'POST',
-        body: formData,
+      toast.loading(selectedFiles.length > 1 ? `Analyzing ${selectedFiles.length} images...` : 'Analyzing your image...', { id: 'analysis' });
+
+      // One server-side pipeline builds the deck for every output format, streaming its stages
+      const { presentation, quality } = await createPresentation({
+        files: selectedFiles,
+        pages: pageRange,
+        prompt,
+        theme: slideTheme,
+        useBrandKit: applyBrandKit,
+        speakerNotes: writeNotes,
+        onProgress: setAnalysisProgress,
+        onSection: sections => setFoundSections(current => [...current, sections]),
+        signal: controller.signal
       });
-      
-      setAnalysisProgress(60);
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Analysis failed');
-      }
-      
-      setAnalysisProgress(80);
-      
-      const result = await response.json();
-      console.log('🎯 Analysis result:', result);
-      
-      if (result.success) {
-        setAnalysisProgress(100);
-        
-        // Check output format and handle accordingly
-        if (outputFormat === 'pptx') {
-          console.log('🎯 PowerPoint format selected - generating PPTX download');
-          
-          // Convert analysis to presentation format for PowerPoint
-          const analysisData = result.analysis;
-          const sections = analysisData?.structuredContent?.sections || [];
-          
-          // Convert sections to slides
-          const slides = sections.map((section: any, index: number) => {
-            const contents: any[] = [];
-            
-            // Add title content (API returns 'heading', not 'title')
-            contents.push({
-              id: `title-${index}`,
-              type: 'title',
-              content: section.heading || section.title || `Slide ${index + 1}`,
-              position: { x: 0, y: 0 },
-              style: { fontSize: '2rem', fontWeight: 'bold', alignment: 'center' }
-            });
-            
-            // Add main content if available
-            if (section.content) {
-              contents.push({
-                id: `content-${index}`,
-                type: 'text',
-                content: section.content,
-                position: { x: 0, y: 100 },
-                style: { fontSize: '1.2rem', alignment: 'left' }
-              });
-            }
-            
-            // Add bullet points if available (API returns 'bullets', not 'bulletPoints')
-            const bulletPoints = section.bullets || section.bulletPoints || [];
-            if (bulletPoints && bulletPoints.length > 0) {
-              bulletPoints.forEach((point: string, bulletIndex: number) => {
-                contents.push({
-                  id: `bullet-${index}-${bulletIndex}`,
-                  type: 'bullet',
-                  content: point,
-                  position: { x: 20, y: 200 + (bulletIndex * 40) },
-                  style: { fontSize: '1rem', alignment: 'left' }
-                });
-              });
-            }
-
-            return {
-              id: `slide-${index}`,
-              title: section.heading || section.title || `Slide ${index + 1}`,
-              contents: contents,
-              theme: {
-                id: slideTheme || 'minimalist',
-                name: slideTheme || 'minimalist',
-                ...getThemeData(slideTheme || 'minimalist')
-              }
-            };
-          });
-
-          const presentationData = {
-            id: Date.now().toString(),
-            title: analysisData?.structuredContent?.title || 'My Presentation',
-            slides: slides,
-            theme: {
-              id: slideTheme || 'minimalist',
-              name: slideTheme || 'minimalist',
-              ...getThemeData(slideTheme || 'minimalist')
-            },
-            metadata: {
-              created: new Date(),
-              updated: new Date(),
-              author: 'Snap2Slides User',
-              description: analysisData?.structuredContent?.introduction || 'Generated presentation'
-            },
-            settings: {
-              autoAdvance: false,
-              timing: 5000
-            }
-          };
-
-          console.log('📦 Calling PowerPoint generation API...');
-          
-          // Call PowerPoint generation API
-          const pptxResponse = await fetch('/api/generate-pptx-slides', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              presentation: presentationData,
-            }),
-          });
-
-          console.log('� PowerPoint API response status:', pptxResponse.status);
-
-          if (!pptxResponse.ok) {
-            const errorData = await pptxResponse.json();
-            console.error('❌ PowerPoint generation error:', errorData);
-            throw new Error(errorData.error || 'PPTX generation failed');
-          }
-
-          console.log('📦 Converting response to blob...');
-          const pptxBlob = await pptxResponse.blob();
-          console.log('📊 Blob size:', pptxBlob.size, 'bytes');
-          
-          // Create download link and trigger download
-          const downloadUrl = URL.createObjectURL(pptxBlob);
-          const downloadLink = document.createElement('a');
-          downloadLink.href = downloadUrl;
-          downloadLink.download = `${presentationData.title}.pptx`;
-          document.body.appendChild(downloadLink);
-          downloadLink.click();
-          document.body.removeChild(downloadLink);
-          
-          // Clean up the URL object
-          setTimeout(() => URL.revokeObjectURL(downloadUrl), 1000);
-          
-          console.log('📥 PowerPoint download triggered successfully!');
-          toast.success('PowerPoint presentation downloaded!', { id: 'analysis' });
-          
-        } else {
-          console.log('🎯 Interactive format selected - generating web presentation');
-          
-          // Convert analysis to presentation format for interactive viewing
-          const analysisData = result.analysis;
-          console.log('�📊 Analysis data:', analysisData);
-          
-          const sections = analysisData?.structuredContent?.sections || [];
-          console.log('📑 Sections found:', sections.length);
-          console.log('🔍 First section structure:', sections[0]);
-          console.log('🗃️ Full analysis data structure:', JSON.stringify(analysisData, null, 2));
-          // Convert sections to slides
-          const slides = sections.map((section: any, index: number) => {
-            const contents: any[] = [];
-            
-            // Add title content (API returns 'heading', not 'title')
-            contents.push({
-              id: `title-${index}`,
-              type: 'title',
-              content: section.heading || section.title || `Slide ${index + 1}`,
-              position: { x: 0, y: 0 },
-              style: { fontSize: '2rem', fontWeight: 'bold', alignment: 'center' }
-            });
-            
-            // Add main content if available
-            if (section.content) {
-              contents.push({
-                id: `content-${index}`,
-                type: 'text',
-                content: section.content,
-                position: { x: 0, y: 100 },
-                style: { fontSize: '1.2rem', alignment: 'left' }
-              });
-            }
-            
-            // Add bullet points if available (API returns 'bullets', not 'bulletPoints')
-            const bulletPoints = section.bullets || section.bulletPoints || [];
-            if (bulletPoints && bulletPoints.length > 0) {
-              bulletPoints.forEach((point: string, bulletIndex: number) => {
-                contents.push({
-                  id: `bullet-${index}-${bulletIndex}`,
-                  type: 'bullet',
-                  content: point,
-                  position: { x: 20, y: 200 + (bulletIndex * 40) },
-                  style: { fontSize: '1rem', alignment: 'left' }
-                });
-              });
-            }
-            
-            return {
-              id: `slide-${index}`,
-              title: section.heading || section.title || `Slide ${index + 1}`,
-              contents: contents,
-              theme: {
-                id: slideTheme || 'minimalist',
-                name: slideTheme || 'minimalist',
-                ...getThemeData(slideTheme || 'minimalist')
-              }
-            };
-          });
-
-          console.log('🎬 Generated slides:', slides);
-
-          setCurrentPresentation({
-            id: Date.now().toString(),
-            title: analysisData?.structuredContent?.title || 'My Presentation',
-            slides: slides,
-            theme: {
-              id: slideTheme || 'minimalist',
-              name: slideTheme || 'minimalist',
-              ...getThemeData(slideTheme || 'minimalist')
-            },
-            metadata: {
-              created: new Date(),
-              updated: new Date(),
-              author: 'Snap2Slides User',
-              description: analysisData?.structuredContent?.introduction || 'Generated presentation'
-            },
-            settings: {
-              autoAdvance: false,
-              timing: 5000
-            }
-          });
-          setCurrentSlideIndex(0);
-          setViewMode('editor');
-          toast.success('Presentation created successfully', { id: 'analysis' });
+
+      console.log('🎬 Generated presentation:', presentation);
+
+      // Check output format and handle accordingly
+      if (outputFormat === 'pptx') {
+        console.log('🎯 PowerPoint format selected - generating PPTX download');
+        console.log('📦 Calling PowerPoint generation API...');
+
+        // Call PowerPoint generation API
+        const pptxResponse = await fetch('/api/generate-pptx-slides', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ presentation }),
+        });
+
+        console.log('📡 PowerPoint API response status:', pptxResponse.status);
+
+        if (!pptxResponse.ok) {
+          const errorData = await pptxResponse.json();
+          console.error('❌ PowerPoint generation error:', errorData);
+          throw new Error(errorData.error || 'PPTX generation failed');
         }
+
+        console.log('📦 Converting response to blob...');
+        const pptxBlob = await pptxResponse.blob();
+        console.log('📊 Blob size:', pptxBlob.size, 'bytes');
+
+        // Create download link and trigger download
+        const downloadUrl = URL.createObjectURL(pptxBlob);
+        const downloadLink = document.createElement('a');
+        downloadLink.href = downloadUrl;
+        downloadLink.download = toSafeFilename(presentation.title, 'pptx');
+        document.body.appendChild(downloadLink);
+        downloadLink.click();
+        document.body.removeChild(downloadLink);
+
+        // Clean up the URL object
+        setTimeout(() => URL.revokeObjectURL(downloadUrl), 1000);
+
+        console.log('📥 PowerPoint download triggered successfully!');
+        toast.success('PowerPoint presentation downloaded!', { id: 'analysis' });
+
       } else {
-        throw new Error(result.error || 'Analysis failed');
+        console.log('🎯 Interactive format selected - opening the editor');
+
+        replacePresentation(presentation);
+        setCurrentSlideIndex(0);
+        setViewMode('editor');
+        toast.success('Presentation created successfully', { id: 'analysis' });
+      }
+
+      // Fitting shrinks fonts and splits long sections, but some text can still be too long
+      if (quality.overflowingSlides.length > 0) {
+        const numbers = quality.overflowingSlides.map(entry => entry.slideNumber).join(', ');
+        toast.warning(`Text doesn't fit on slide ${numbers} - try shortening it`);
       }
     } catch (error) {
+      if (controller.signal.aborted) {
+        toast('Presentation cancelled', { id: 'analysis' });
+        return;
+      }
       console.error('Analysis error:', error);
       const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
       setError(errorMessage);
       toast.error(`Analysis failed: ${errorMessage}`, { id: 'analysis' });
     } finally {
+      if (analysisAbortRef.current === controller) analysisAbortRef.current = null;
       setIsAnalyzing(false);
-      setAnalysisProgress(0);
+      setAnalysisProgress(null);
+      setFoundSections([]);
     }
-  }, [selectedFile, prompt, slideTheme, outputFormat]);
+  }, [selectedFiles, pageRange, prompt, slideTheme, applyBrandKit, writeNotes, outputFormat, replacePresentation]);
+
+  // Closing the connection stops the server's remaining AI calls
+  const handleCancelAnalysis = useCallback(() => {
+    analysisAbortRef.current?.abort();
+  }, []);
+
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
 
   const handleNewPresentation = useCallback(() => {
-    setCurrentPresentation(null);
-    setSelectedFile(null);
+    resetPresentation();
+    setSelectedFiles([]);
     setPrompt('');
+    setPageRange('');
     setError(null);
     setViewMode('upload');
     setCurrentSlideIndex(0);
+  }, [resetPresentation]);
+
+  // Undoing an added slide can leave the index past the end
+  const slideCount = currentPresentation?.slides.length ?? 0;
+  useEffect(() => {
+    if (slideCount > 0 && currentSlideIndex >= slideCount) {
+      setCurrentSlideIndex(slideCount - 1);
+    }
+  }, [slideCount, currentSlideIndex]);
+
+  const presentationConfig = useMemo(
+    () => (currentPresentation ? getPresentationConfig(currentPresentation) : null),
+    [currentPresentation]
+  );
+
+  const handleStartPresenting = useCallback(() => {
+    if (viewMode === 'editor' && currentPresentation) setIsPresenting(true);
+  }, [viewMode, currentPresentation]);
+
+  // Come back to the editor on the slide the show ended on
+  const handleStopPresenting = useCallback((lastIndex: number) => {
+    setIsPresenting(false);
+    setCurrentSlideIndex(lastIndex);
   }, []);
 
-  // Keyboard shortcuts
+  // New themes start as a copy of the one currently picked
+  const handleCreateTheme = useCallback(() => {
+    const base = [...builtInThemes, ...customThemes].find(theme => theme.id === slideTheme) ?? builtInThemes[0];
+    if (base) setThemeEditor({ theme: { ...base, name: `${base.name} (copy)` }, isOwn: false });
+  }, [builtInThemes, customThemes, slideTheme]);
+
+  const handleSaveTheme = useCallback(async (draft: ThemeDraft) => {
+    if (!themeEditor) return;
+    const saved = await saveTheme(draft, themeEditor.isOwn ? themeEditor.theme.id : undefined);
+    setSlideTheme(saved.id);
+    setThemeEditor(null);
+    toast.success(`Theme "${saved.name}" saved`);
+  }, [themeEditor, saveTheme]);
+
+  const handleDeleteTheme = useCallback(async () => {
+    if (!themeEditor) return;
+    await deleteTheme(themeEditor.theme.id);
+    if (slideTheme === themeEditor.theme.id) setSlideTheme('minimal');
+    setThemeEditor(null);
+  }, [themeEditor, deleteTheme, slideTheme]);
+
+  const handleSaveBrandKit = useCallback(async (kit: BrandKit) => {
+    const saved = await saveBrandKit(kit);
+    setApplyBrandKit(true);
+    setShowBrandKitEditor(false);
+    toast.success(`Brand kit "${saved.name}" saved`);
+  }, [saveBrandKit]);
+
+  const handleDeleteBrandKit = useCallback(async () => {
+    await deleteBrandKit();
+    setShowBrandKitEditor(false);
+  }, [deleteBrandKit]);
+
+  // Keyboard shortcuts - presentation mode handles its own keys
   useKeyboardShortcuts({
     [SHORTCUTS.NEW]: handleNewPresentation,
     [SHORTCUTS.SAVE]: () => currentPresentation && toast.info('Auto-save enabled'),
-    [SHORTCUTS.PRESENT]: () => viewMode === 'editor' && toast.info('Press F5 in editor to present'),
+    [SHORTCUTS.PRESENT]: handleStartPresenting,
     [SHORTCUTS.HELP]: () => setShowHelpModal(true)
-  }, { enabled: !isAnalyzing });
+  }, { enabled: !isAnalyzing && !isPresenting });
+
+  // Undo/redo stay out of text fields, which have their own native undo
+  const historyShortcuts = useMemo(() => ({
+    [SHORTCUTS.UNDO]: undo,
+    [SHORTCUTS.REDO]: redo,
+    [SHORTCUTS.REDO_ALT]: redo
+  }), [undo, redo]);
+  useKeyboardShortcuts(historyShortcuts, { enabled: viewMode === 'editor' && !isPresenting, ignoreWhileTyping: true });
 
   // Editor view - Apple-style presentation editor
   if (viewMode === 'editor' && currentPresentation) {
@@ -724,6 +608,34 @@ export default function HomePage() {
                 {currentPresentation.title}
               </h1>
             </div>
+
+            <div className="flex items-center space-x-1 ml-auto mr-2">
+              <button
+                onClick={undo}
+                disabled={!canUndo}
+                aria-label="Undo"
+                title="Undo (Ctrl+Z)"
+                className="p-1.5 sm:p-2 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-all duration-200 disabled:opacity-40 disabled:pointer-events-none"
+              >
+                ↶
+              </button>
+              <button
+                onClick={redo}
+                disabled={!canRedo}
+                aria-label="Redo"
+                title="Redo (Ctrl+Y)"
+                className="p-1.5 sm:p-2 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-all duration-200 disabled:opacity-40 disabled:pointer-events-none"
+              >
+                ↷
+              </button>
+              <button
+                onClick={handleStartPresenting}
+                title="Present (F5)"
+                className="px-2 sm:px-3 py-1.5 text-xs sm:text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors duration-200"
+              >
+                ▶ Present
+              </button>
+            </div>
             
             <button
               onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
@@ -736,28 +648,33 @@ export default function HomePage() {
 
         {/* Slide Editor */}
         <div className="h-[calc(100vh-60px)] sm:h-[calc(100vh-80px)] flex items-center justify-center p-3 sm:p-6">
-          <AnimatePresence mode="wait">
-            <motion.div
-              key={currentSlideIndex}
-              initial={{ opacity: 0, scale: 0.95 }}
-              animate={{ opacity: 1, scale: 1 }}
-              exit={{ opacity: 0, scale: 0.95 }}
-              transition={{ duration: 0.4, ease: [0.16, 1, 0.3, 1] }}
-              className="w-full max-w-5xl"
-            >
-              <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-2xl rounded-xl sm:rounded-3xl p-4 sm:p-8 min-h-[500px] sm:min-h-[600px]">
-                <SlideEditor
-                  presentation={currentPresentation}
-                  currentSlideIndex={currentSlideIndex}
-                  onSlideChange={setCurrentSlideIndex}
-                  onContentUpdate={() => {}}
-                  onPresentationUpdate={() => {}}
-                />
-              </div>
-            </motion.div>
-          </AnimatePresence>
+          {/* Slide changes animate inside the editor, using each slide's own transition */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ duration: 0.4, ease: [0.16, 1, 0.3, 1] }}
+            className="w-full max-w-5xl"
+          >
+            <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 shadow-2xl rounded-xl sm:rounded-3xl p-4 sm:p-8 min-h-[500px] sm:min-h-[600px]">
+              <SlideEditor
+                presentation={currentPresentation}
+                currentSlideIndex={currentSlideIndex}
+                onSlideChange={setCurrentSlideIndex}
+                onEdit={handleEdit}
+              />
+            </div>
+          </motion.div>
         </div>
         
+        {isPresenting && presentationConfig && (
+          <PresentationMode
+            presentation={currentPresentation}
+            config={presentationConfig}
+            startIndex={currentSlideIndex}
+            onExit={handleStopPresenting}
+          />
+        )}
+
         {/* Help Modal */}
         <HelpModal 
           isOpen={showHelpModal} 
@@ -808,14 +725,14 @@ export default function HomePage() {
               className="relative group"
             >
               <EnhancedDropzone
-                onFileSelect={handleFileSelect}
-                selectedFile={selectedFile}
+                onFilesSelect={handleFilesSelect}
+                selectedFiles={selectedFiles}
                 disabled={isAnalyzing}
               />
             </motion.div>
 
             <AnimatePresence>
-              {selectedFile && (
+              {selectedFiles.length > 0 && (
                 <motion.div
                   initial={{ opacity: 0, height: 0 }}
                   animate={{ opacity: 1, height: 'auto' }}
@@ -823,6 +740,35 @@ export default function HomePage() {
                   transition={{ duration: 0.4, ease: [0.16, 1, 0.3, 1] }}
                   className="space-y-4 sm:space-y-6"
                 >
+                  {/* Page order for multi-image uploads */}
+                  {selectedFiles.length > 1 && (
+                    <SelectedImageList
+                      files={selectedFiles}
+                      onMove={handleMoveFile}
+                      onRemove={handleRemoveFile}
+                      disabled={isAnalyzing}
+                    />
+                  )}
+
+                  {/* PDF page range - the server caps how many pages one deck can use */}
+                  {selectedFiles.some(file => isDocumentType(file.type)) && (
+                    <div className="space-y-3">
+                      <label htmlFor="pages" className="block text-base sm:text-lg font-medium text-gray-900 dark:text-white">
+                        PDF pages (optional)
+                      </label>
+                      <input
+                        id="pages"
+                        type="text"
+                        value={pageRange}
+                        onChange={(e) => setPageRange(e.target.value)}
+                        placeholder={`e.g., 1-5, 8 - up to ${MAX_PDF_PAGES} pages`}
+                        className="w-full px-3 sm:px-4 py-3 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 transition-all duration-200 text-sm sm:text-base"
+                        maxLength={100}
+                        disabled={isAnalyzing}
+                      />
+                    </div>
+                  )}
+
                   {/* Context Input */}
                   <div className="space-y-3">
                     <label htmlFor="prompt" className="block text-base sm:text-lg font-medium text-gray-900 dark:text-white">
@@ -843,39 +789,89 @@ export default function HomePage() {
                   {/* Theme & Format Selectors */}
                   <div className="grid grid-cols-1 gap-3 sm:gap-4">
                     <ThemeSelector
+                      themes={builtInThemes}
+                      customThemes={customThemes}
                       selectedTheme={slideTheme}
                       onThemeChange={setSlideTheme}
+                      {...(user && {
+                        onCreateTheme: handleCreateTheme,
+                        onEditTheme: (theme: SlideTheme) => setThemeEditor({ theme, isOwn: true })
+                      })}
                       disabled={isAnalyzing}
                     />
+                    {user && (
+                      <BrandKitPanel
+                        brandKit={brandKit}
+                        applyBrandKit={applyBrandKit}
+                        onApplyChange={setApplyBrandKit}
+                        onEdit={() => setShowBrandKitEditor(true)}
+                        disabled={isAnalyzing}
+                      />
+                    )}
                     <OutputFormatSelector
                       selectedFormat={outputFormat}
                       onFormatChange={setOutputFormat}
                       disabled={isAnalyzing}
                     />
+                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={writeNotes}
+                        onChange={(e) => setWriteNotes(e.target.checked)}
+                        disabled={isAnalyzing}
+                      />
+                      Write speaker notes for every slide (takes a little longer)
+                    </label>
                   </div>
 
                   {/* Analysis Progress */}
-                  {isAnalyzing && analysisProgress > 0 && (
+                  {isAnalyzing && analysisProgress && (
                     <motion.div
                       initial={{ opacity: 0, y: 20 }}
                       animate={{ opacity: 1, y: 0 }}
                       className="mb-4"
                     >
                       <ProgressBar 
-                        progress={analysisProgress} 
-                        label="Creating your presentation" 
+                        progress={analysisProgress.progress} 
+                        label={analysisProgress.message} 
                         className="w-full"
                       />
+                      <div className="mt-2 flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                        <span aria-live="polite">
+                          {analysisProgress.details?.totalSteps !== undefined &&
+                            `Step ${Math.min((analysisProgress.details.completedSteps ?? 0) + 1, analysisProgress.details.totalSteps)} of ${analysisProgress.details.totalSteps}`}
+                          {analysisProgress.estimatedTimeRemaining !== undefined &&
+                            ` · about ${Math.max(analysisProgress.estimatedTimeRemaining, 1)}s left`}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={handleCancelAnalysis}
+                          className="px-2 py-1 rounded-lg text-gray-600 dark:text-gray-300 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                      {foundSections.length > 0 && (
+                        <ul aria-label="Sections found so far" className="mt-2 space-y-1 text-sm text-gray-600 dark:text-gray-300">
+                          {foundSections.flatMap(found =>
+                            found.sections.map((section, index) => (
+                              <li key={`${found.image}-${found.page ?? 0}-${index}`} className="truncate">
+                                {section.heading}
+                              </li>
+                            ))
+                          )}
+                        </ul>
+                      )}
                     </motion.div>
                   )}
 
                   {/* Generate Button */}
                   <motion.button
                     type="submit"
-                    disabled={!selectedFile || isAnalyzing}
+                    disabled={selectedFiles.length === 0 || isAnalyzing}
                     className="w-full py-4 sm:py-4 bg-gradient-to-r from-purple-500 to-indigo-600 hover:from-purple-600 hover:to-indigo-700 disabled:bg-gray-300 dark:disabled:bg-gray-700 text-white font-medium rounded-xl transition-all duration-200 disabled:cursor-not-allowed shadow-lg hover:shadow-xl text-base sm:text-base"
-                    whileHover={{ scale: !selectedFile || isAnalyzing ? 1 : 1.02 }}
-                    whileTap={{ scale: !selectedFile || isAnalyzing ? 1 : 0.98 }}
+                    whileHover={{ scale: selectedFiles.length === 0 || isAnalyzing ? 1 : 1.02 }}
+                    whileTap={{ scale: selectedFiles.length === 0 || isAnalyzing ? 1 : 0.98 }}
                     transition={{ type: "spring", stiffness: 400, damping: 25 }}
                   >
                     {isAnalyzing ? (
@@ -955,6 +951,31 @@ export default function HomePage() {
         isOpen={showHelpModal} 
         onClose={() => setShowHelpModal(false)} 
       />
+
+      {/* Current stage of the analysis, as streamed from the server */}
+      <AIProcessingNotification
+        stage={analysisProgress && analysisProgress.stage !== 'error' ? analysisProgress.stage : 'uploading'}
+        isVisible={isAnalyzing && analysisProgress !== null}
+        {...(analysisProgress && { message: analysisProgress.message })}
+      />
+
+      {themeEditor && (
+        <ThemeEditor
+          theme={themeEditor.theme}
+          onSave={handleSaveTheme}
+          {...(themeEditor.isOwn && { onDelete: handleDeleteTheme })}
+          onClose={() => setThemeEditor(null)}
+        />
+      )}
+
+      {showBrandKitEditor && (
+        <BrandKitEditor
+          brandKit={brandKit}
+          onSave={handleSaveBrandKit}
+          {...(brandKit && { onDelete: handleDeleteBrandKit })}
+          onClose={() => setShowBrandKitEditor(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,178 @@
+// app/presenter/[id]/page.tsx
+// Presenter view - opened as a second window from presentation mode. Shows the current
+// and next slide, speaker notes and timers, and drives the audience window.
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import type { SlidePresentation } from '@/types/slides';
+import SlideCanvas from '@/components/features/SlideCanvas';
+import { usePresenterChannel } from '@/hooks/usePresenterChannel';
+import { formatClock } from '@/lib/presenter-channel';
+import { getNotesText } from '@/lib/speaker-notes';
+
+export default function PresenterViewPage() {
+  const params = useParams();
+  const presentationId = params.id as string;
+
+  const [presentation, setPresentation] = useState<SlidePresentation | null>(null);
+  const [index, setIndex] = useState(0);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [slideStartedAt, setSlideStartedAt] = useState(() => Date.now());
+  const [hasEnded, setHasEnded] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // The per-slide countdown restarts whenever the slide changes
+  useEffect(() => {
+    setSlideStartedAt(Date.now());
+  }, [index]);
+
+  const { post, isSupported } = usePresenterChannel(presentationId, message => {
+    switch (message.type) {
+      case 'state':
+        setPresentation(message.presentation);
+        setStartedAt(message.startedAt);
+        setHasEnded(false);
+        setIndex(message.index);
+        break;
+      case 'goto':
+        setIndex(message.index);
+        break;
+      case 'end':
+        setHasEnded(true);
+        break;
+    }
+  });
+
+  // Ask the audience window for the deck
+  useEffect(() => {
+    post({ type: 'hello' });
+  }, [post]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const slideCount = presentation?.slides.length ?? 0;
+
+  const goTo = useCallback((target: number) => {
+    if (slideCount === 0) return;
+    const next = Math.max(0, Math.min(slideCount - 1, target));
+    setIndex(next);
+    post({ type: 'goto', index: next });
+  }, [slideCount, post]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || event.ctrlKey || event.metaKey) return;
+      switch (event.key) {
+        case 'ArrowRight': case 'ArrowDown': case 'PageDown': case ' ': case 'Enter':
+          goTo(index + 1); break;
+        case 'ArrowLeft': case 'ArrowUp': case 'PageUp': case 'Backspace':
+          goTo(index - 1); break;
+        case 'Home':
+          goTo(0); break;
+        case 'End':
+          goTo(slideCount - 1); break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [goTo, index, slideCount]);
+
+  if (!isSupported) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-950 text-gray-300 p-6 text-center">
+        This browser can&apos;t link windows together. Use the controls in the presentation window instead.
+      </div>
+    );
+  }
+
+  if (!presentation) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-950 text-gray-300 p-6 text-center">
+        <div className="w-10 h-10 border-4 border-white/20 border-t-white rounded-full animate-spin mb-4"></div>
+        <p>Waiting for the presentation window…</p>
+        <p className="text-sm text-gray-500 mt-2">Start presenting from the editor, then press P or choose Presenter view.</p>
+      </div>
+    );
+  }
+
+  const slide = presentation.slides[index];
+  const nextSlide = presentation.slides[index + 1];
+  const notes = slide && getNotesText(slide);
+  const elapsed = startedAt === null ? 0 : (now - startedAt) / 1000;
+  const slideDuration = slide?.metadata?.duration;
+  const remaining = slideDuration ? slideDuration - (now - slideStartedAt) / 1000 : null;
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-gray-100 p-4 sm:p-6 flex flex-col gap-4">
+      <header className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-lg font-semibold truncate">{presentation.title}</h1>
+        <div className="flex items-center gap-6 font-mono text-lg">
+          <span title="Elapsed">⏱ {formatClock(elapsed)}</span>
+          {remaining !== null && (
+            <span title="Time left on this slide" className={remaining < 0 ? 'text-red-400' : 'text-emerald-400'}>
+              ⏳ {formatClock(remaining)}
+            </span>
+          )}
+          <span className="text-gray-400">{index + 1} / {slideCount}</span>
+        </div>
+      </header>
+
+      {hasEnded && (
+        <p className="rounded-lg bg-yellow-500/10 border border-yellow-500/30 px-4 py-2 text-sm text-yellow-200">
+          The presentation window has stopped presenting.
+        </p>
+      )}
+
+      <main className="flex-1 grid gap-4 lg:grid-cols-[2fr_1fr]">
+        <section aria-label="Current slide">
+          {slide && <SlideCanvas slide={slide} className="rounded-lg shadow-2xl" label={`Current slide: ${slide.title}`} />}
+        </section>
+
+        <div className="flex flex-col gap-4 min-h-0">
+          <section aria-label="Next slide">
+            <h2 className="text-xs uppercase tracking-wide text-gray-400 mb-2">Next</h2>
+            {nextSlide ? (
+              <SlideCanvas slide={nextSlide} className="rounded-lg opacity-90" label={`Next slide: ${nextSlide.title}`} />
+            ) : (
+              <div className="aspect-video rounded-lg border border-dashed border-gray-700 flex items-center justify-center text-gray-500">
+                End of presentation
+              </div>
+            )}
+          </section>
+
+          <section aria-label="Speaker notes" className="flex-1 min-h-0 flex flex-col">
+            <h2 className="text-xs uppercase tracking-wide text-gray-400 mb-2">Notes</h2>
+            <div className="flex-1 overflow-auto rounded-lg bg-gray-900 p-4 text-lg leading-relaxed whitespace-pre-wrap">
+              {notes || <span className="text-gray-500">No notes for this slide.</span>}
+            </div>
+          </section>
+        </div>
+      </main>
+
+      <footer className="flex justify-center gap-3">
+        <button
+          onClick={() => goTo(index - 1)}
+          disabled={index === 0}
+          className="px-5 py-2 bg-gray-800 rounded-lg hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          ← Previous
+        </button>
+        <button
+          onClick={() => goTo(index + 1)}
+          disabled={index === slideCount - 1}
+          className="px-5 py-2 bg-blue-600 rounded-lg hover:bg-blue-500 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Next →
+        </button>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import PresentationViewerPage from '../page';
+
+jest.mock('next/navigation', () => ({
+  useParams: () => ({ id: 'record-1' })
+}));
+
+jest.mock('next/dynamic', () => () => function MockPresentationMode() {
+  return <div data-testid="presentation-mode" />;
+});
+
+const theme = {
+  id: 'custom',
+  name: 'Brand',
+  colors: { primary: '#7c3aed', secondary: '#64748b', accent: '#f59e0b', background: '#0f172a', text: '#f8fafc' },
+  fonts: { heading: 'Georgia, serif', body: 'Inter, sans-serif' },
+  layout: 'creative'
+};
+
+const HERO_URL = 'https://storage.googleapis.com/snap2slides-uploads/123-hero.png';
+
+// Shaped like GET /api/history?id=... - dates are ISO strings after JSON
+const storedPresentation = {
+  id: 'deck-1',
+  title: 'Launch plan',
+  theme,
+  metadata: { created: '2024-01-01T00:00:00.000Z', updated: '2024-01-01T00:00:00.000Z' },
+  settings: {},
+  slides: [
+    {
+      id: 'slide-1',
+      title: 'Launch plan',
+      theme,
+      layout: 'image-focus',
+      background: { type: 'gradient', value: 'linear-gradient(135deg, #0f172a, #312e81)' },
+      contents: [
+        { id: 'title', type: 'title', content: 'Launch plan', position: { x: 50, y: 15 }, style: { alignment: 'center' } },
+        { id: 'hero', type: 'image', content: HERO_URL, position: { x: 10, y: 24 }, size: { width: 80, height: 52 } },
+        { id: 'tracker', type: 'image', content: 'https://tracker.example/pixel.png', position: { x: 90, y: 90 }, size: { width: 1, height: 1 } }
+      ]
+    },
+    {
+      id: 'slide-2',
+      title: 'API',
+      theme,
+      contents: [
+        { id: 'code', type: 'code', content: 'await launch()', position: { x: 10, y: 30 } }
+      ]
+    }
+  ]
+};
+
+const mockFetch = (body: unknown, ok = true) => {
+  (global.fetch as jest.Mock).mockResolvedValue({ ok, json: async () => body });
+};
+
+describe('PresentationViewerPage', () => {
+  it('renders the stored slides with their content, fonts and background', async () => {
+    mockFetch({ success: true, data: { presentation: storedPresentation, summary: 'Go-to-market', themeUsed: 'Brand' } });
+    const user = userEvent.setup();
+    render(<PresentationViewerPage />);
+
+    const slide = await screen.findByLabelText('Slide 1 of 2: Launch plan');
+    expect(slide).toHaveStyle({ fontFamily: 'Inter, sans-serif' });
+    expect(slide.style.backgroundImage).toContain('linear-gradient');
+    // Uploaded images load; links to anywhere else are shown as text, never fetched
+    expect(slide.querySelectorAll('img')).toHaveLength(1);
+    expect(slide.querySelector('img')).toHaveAttribute('src', HERO_URL);
+    expect(screen.getByText('Go-to-market')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Next slide' }));
+    expect(await screen.findByText('await launch()')).toBeInTheDocument();
+  });
+
+  it('explains when the saved item has no displayable presentation', async () => {
+    mockFetch({ success: true, data: { slideContentDetails: [{ title: 'Old', bulletPoints: ['a'] }] } });
+    render(<PresentationViewerPage />);
+
+    expect(await screen.findByText('This saved item has no presentation that can be displayed.')).toBeInTheDocument();
+  });
+});
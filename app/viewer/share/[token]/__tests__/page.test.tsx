@@ -0,0 +1,85 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import SharedPresentationPage from '../page';
+
+jest.mock('next/navigation', () => ({
+  useParams: () => ({ token: 'share-token' })
+}));
+
+jest.mock('next/dynamic', () => () => function MockPresentationMode() {
+  return <div data-testid="presentation-mode" />;
+});
+
+const theme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: { primary: '#2563eb', secondary: '#64748b', accent: '#06b6d4', background: '#ffffff', text: '#1e293b' },
+  fonts: { heading: 'Inter, sans-serif', body: 'Inter, sans-serif' },
+  layout: 'modern'
+};
+
+// Shaped like GET /api/share/<token>
+const shared = {
+  presentation: {
+    id: 'deck-1',
+    title: 'Board update',
+    theme,
+    metadata: { created: '2024-01-01T00:00:00.000Z', updated: '2024-01-01T00:00:00.000Z' },
+    settings: {},
+    slides: [
+      { id: 'slide-1', title: 'Board update', theme, contents: [{ id: 'title', type: 'title', content: 'Board update', position: { x: 50, y: 15 } }] }
+    ]
+  },
+  summary: 'Quarterly numbers',
+  themeUsed: 'Modern'
+};
+
+const respond = (status: number, body: unknown) => ({ ok: status < 400, status, json: async () => body });
+
+describe('SharedPresentationPage', () => {
+  const fetchMock = global.fetch as jest.Mock;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('asks for the password and sends it with the retry', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(401, { success: false, error: 'This presentation is password protected', code: 'SHARE_PASSWORD_REQUIRED' }))
+      .mockResolvedValueOnce(respond(403, { success: false, error: 'Incorrect password', code: 'SHARE_PASSWORD_INCORRECT' }))
+      .mockResolvedValueOnce(respond(200, { success: true, data: shared }));
+    const user = userEvent.setup();
+    render(<SharedPresentationPage />);
+
+    const input = await screen.findByLabelText('Password');
+    await user.type(input, 'guess');
+    await user.click(screen.getByRole('button', { name: 'View presentation' }));
+    expect(await screen.findByRole('alert')).toHaveTextContent('Incorrect password');
+
+    await user.clear(screen.getByLabelText('Password'));
+    await user.type(screen.getByLabelText('Password'), 'open sesame');
+    await user.click(screen.getByRole('button', { name: 'View presentation' }));
+
+    expect(await screen.findByLabelText('Slide 1 of 1: Board update')).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenLastCalledWith('/api/share/share-token', {
+      headers: { 'X-Share-Password': 'open sesame' }
+    });
+  });
+
+  it('shows revoked and expired links as unavailable', async () => {
+    fetchMock.mockResolvedValue(respond(404, {
+      success: false,
+      error: 'This share link does not exist or is no longer active',
+      code: 'NOT_FOUND'
+    }));
+    render(<SharedPresentationPage />);
+
+    expect(await screen.findByText('This share link does not exist or is no longer active')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,100 @@
+// app/viewer/share/[token]/page.tsx
+// This page opens a presentation through a share link. Password-protected links
+// ask for the password first; revoked and expired links show as not found.
+'use client';
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { useParams } from 'next/navigation';
+import PresentationViewer, {
+  ViewerStatusScreen,
+  parseStoredPresentation,
+  type StoredPresentation
+} from '@/components/features/PresentationViewer';
+
+type PasswordPrompt = { error: string | null } | null;
+
+export default function SharedPresentationPage() {
+  const params = useParams();
+  const token = params.token as string;
+
+  const [stored, setStored] = useState<StoredPresentation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [passwordPrompt, setPasswordPrompt] = useState<PasswordPrompt>(null);
+  const [password, setPassword] = useState('');
+
+  const fetchShared = useCallback(async (withPassword: string | null) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/share/${encodeURIComponent(token)}`, {
+        ...(withPassword && { headers: { 'X-Share-Password': withPassword } })
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (result.code === 'SHARE_PASSWORD_REQUIRED' || result.code === 'SHARE_PASSWORD_INCORRECT') {
+        setPasswordPrompt({ error: withPassword ? result.error : null });
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to open the shared presentation.');
+      }
+
+      setStored(parseStoredPresentation(result.data));
+      setPasswordPrompt(null);
+    } catch (err) {
+      console.error('Error opening shared presentation:', err);
+      setError(err instanceof Error ? err.message : 'Could not load presentation data.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (!token) {
+      setError('Share link is missing its token.');
+      setIsLoading(false);
+      return;
+    }
+    fetchShared(null);
+  }, [token, fetchShared]);
+
+  const handleUnlock = (event: FormEvent) => {
+    event.preventDefault();
+    if (password) fetchShared(password);
+  };
+
+  if (error) {
+    return <ViewerStatusScreen title="Presentation Unavailable" message={error} />;
+  }
+
+  if (passwordPrompt) {
+    return (
+      <ViewerStatusScreen title="Password Required" message="This presentation is password protected.">
+        <form onSubmit={handleUnlock} className="flex flex-col items-center gap-3 w-full max-w-xs">
+          <input
+            type="password"
+            value={password}
+            onChange={event => setPassword(event.target.value)}
+            aria-label="Password"
+            autoFocus
+            className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-4 focus:ring-blue-500/50"
+          />
+          {passwordPrompt.error && <p role="alert" className="text-sm text-red-400">{passwordPrompt.error}</p>}
+          <button
+            type="submit"
+            disabled={!password || isLoading}
+            className="w-full px-6 py-3 bg-blue-600 text-white rounded-xl shadow-lg hover:bg-blue-700 disabled:opacity-50 transition-colors font-semibold"
+          >
+            {isLoading ? 'Checking...' : 'View presentation'}
+          </button>
+        </form>
+      </ViewerStatusScreen>
+    );
+  }
+
+  if (isLoading || !stored) {
+    return <ViewerStatusScreen title="Loading Presentation" message="Preparing your slides..." spinner />;
+  }
+
+  return <PresentationViewer {...stored} />;
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { useSession } from '@/hooks/useSession';
+
+/**
+ * Who is signed in, with sign in / sign out - sits in the page header
+ */
+export default function AccountMenu() {
+  const pathname = usePathname();
+  const { user, isLoading, signOut } = useSession();
+
+  if (isLoading) {
+    return <span className="text-sm text-gray-500 dark:text-gray-400">Loading</span>;
+  }
+
+  if (!user) {
+    return (
+      <Link
+        href={`/login?returnTo=${encodeURIComponent(pathname || '/')}`}
+        className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+      >
+        Sign in
+      </Link>
+    );
+  }
+
+  return (
+    <span className="flex items-center gap-3 text-sm">
+      {user.picture && (
+        // eslint-disable-next-line @next/next/no-img-element -- avatars come from the identity provider's CDN
+        <img src={user.picture} alt="" className="w-6 h-6 rounded-full" />
+      )}
+      <span className="text-gray-900 dark:text-white font-medium">{user.name}</span>
+      <button type="button" onClick={signOut} className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white">
+        Sign out
+      </button>
+    </span>
+  );
+}
@@ -0,0 +1,221 @@
+// components/features/BrandKitEditor.tsx
+'use client';
+
+import { useMemo, useState, type ChangeEvent, type FormEvent } from 'react';
+import { motion } from 'framer-motion';
+import SlideCanvas from '@/components/features/SlideCanvas';
+import { buildPreviewSlide } from '@/components/features/ThemeEditor';
+import { LOGO_PLACEMENTS, pickBrandColors, toBrandTheme, type BrandKit, type PaletteColor } from '@/lib/brand-kit';
+import { THEME_FONT_OPTIONS, checkThemeContrast, formatContrastRatio } from '@/lib/themes';
+import { readBrandImage } from '@/utils/readBrandImage';
+import type { LogoPlacement } from '@/types/slides';
+
+/**
+ * Set up the user's brand kit from a logo or brand guide. The image's colors are
+ * extracted right here in the browser; the user can then adjust them, pick fonts and
+ * say where the logo goes. The kit styles every new deck until it's removed.
+ */
+
+interface BrandKitEditorProps {
+  brandKit: BrandKit | null;
+  onSave: (kit: BrandKit) => Promise<void>;
+  onDelete?: () => Promise<void>;
+  onClose: () => void;
+}
+
+const COLOR_FIELDS: { key: keyof BrandKit['colors']; label: string }[] = [
+  { key: 'primary', label: 'Primary' },
+  { key: 'secondary', label: 'Secondary' },
+  { key: 'accent', label: 'Accent' },
+  { key: 'background', label: 'Background' },
+  { key: 'text', label: 'Text' }
+];
+
+const NEW_BRAND_KIT: BrandKit = {
+  name: 'My brand',
+  colors: pickBrandColors([]),
+  fonts: { heading: 'Inter, sans-serif', body: 'Inter, sans-serif' },
+  logo: null
+};
+
+const fieldClass = 'w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+const labelClass = 'block text-xs font-medium text-gray-600 dark:text-gray-300 space-y-1';
+
+export default function BrandKitEditor({ brandKit, onSave, onDelete, onClose }: BrandKitEditorProps) {
+  const [draft, setDraft] = useState<BrandKit>(brandKit ?? NEW_BRAND_KIT);
+  const [palette, setPalette] = useState<PaletteColor[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useMemo(() => toBrandTheme(draft), [draft]);
+  const checks = useMemo(() => checkThemeContrast(draft.colors), [draft.colors]);
+  const isReadable = checks.every(check => check.passes);
+  const previewSlide = useMemo(() => buildPreviewSlide(theme), [theme]);
+
+  const handleImage = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsReading(true);
+    setError(null);
+    try {
+      const image = await readBrandImage(file);
+      setPalette(image.palette);
+      setDraft(current => ({
+        ...current,
+        colors: pickBrandColors(image.palette),
+        logo: { ...image.logo, placement: current.logo?.placement ?? 'bottom-right' }
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read that image.');
+    } finally {
+      setIsReading(false);
+      event.target.value = '';
+    }
+  };
+
+  const setColor = (key: keyof BrandKit['colors'], value: string) =>
+    setDraft(current => ({ ...current, colors: { ...current.colors, [key]: value } }));
+
+  const setPlacement = (placement: LogoPlacement) =>
+    setDraft(current => ({ ...current, logo: current.logo && { ...current.logo, placement } }));
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save brand kit.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    run(() => onSave(draft));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.form
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        onSubmit={handleSubmit}
+        onClick={event => event.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Brand kit"
+        className="bg-white dark:bg-gray-900 rounded-2xl p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto shadow-2xl border border-gray-200 dark:border-gray-700 grid gap-6 md:grid-cols-[18rem_1fr]"
+      >
+        <div className="space-y-4">
+          <label className={labelClass}>
+            <span>Name</span>
+            <input value={draft.name} onChange={event => setDraft(current => ({ ...current, name: event.target.value }))} maxLength={60} required className={fieldClass} />
+          </label>
+
+          <label className={labelClass}>
+            <span>Logo or brand guide</span>
+            <input type="file" accept="image/png,image/jpeg,image/webp" onChange={handleImage} disabled={isReading} className="block w-full text-sm text-gray-600 dark:text-gray-300" />
+            <span className="block text-gray-500 dark:text-gray-400 font-normal">
+              {isReading ? 'Reading colors...' : 'Colors are picked out on your device - the image is not sent for analysis.'}
+            </span>
+          </label>
+
+          {palette.length > 0 && (
+            <div aria-label="Colors found in the image" className="flex flex-wrap gap-1">
+              {palette.map(entry => (
+                <span key={entry.color} title={entry.color} className="w-5 h-5 rounded border border-black/10" style={{ backgroundColor: entry.color }} />
+              ))}
+            </div>
+          )}
+
+          <fieldset className="grid grid-cols-2 gap-3">
+            <legend className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Colors</legend>
+            {COLOR_FIELDS.map(field => (
+              <label key={field.key} className={labelClass}>
+                <span>{field.label}</span>
+                <input
+                  type="color"
+                  value={draft.colors[field.key]}
+                  onChange={event => setColor(field.key, event.target.value)}
+                  className="block w-full h-9 rounded-lg border border-gray-200 dark:border-gray-700 bg-transparent cursor-pointer"
+                />
+              </label>
+            ))}
+          </fieldset>
+
+          <fieldset className="space-y-3">
+            <legend className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Fonts &amp; logo</legend>
+            {(['heading', 'body'] as const).map(key => (
+              <label key={key} className={labelClass}>
+                <span>{key === 'heading' ? 'Heading font' : 'Body font'}</span>
+                <select
+                  value={draft.fonts[key]}
+                  onChange={event => setDraft(current => ({ ...current, fonts: { ...current.fonts, [key]: event.target.value } }))}
+                  className={fieldClass}
+                >
+                  {(THEME_FONT_OPTIONS.includes(draft.fonts[key]) ? THEME_FONT_OPTIONS : [draft.fonts[key], ...THEME_FONT_OPTIONS]).map(font => (
+                    <option key={font} value={font}>{font.split(',')[0]}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            {draft.logo && (
+              <div className="flex items-end gap-2">
+                <label className={`${labelClass} flex-1`}>
+                  <span>Logo position</span>
+                  <select value={draft.logo.placement} onChange={event => setPlacement(event.target.value as LogoPlacement)} className={`${fieldClass} capitalize`}>
+                    {LOGO_PLACEMENTS.map(placement => <option key={placement} value={placement}>{placement.replace('-', ' ')}</option>)}
+                  </select>
+                </label>
+                {/* A brand guide gives good colors but makes a poor logo */}
+                <button type="button" onClick={() => setDraft(current => ({ ...current, logo: null }))} className="px-3 py-2 rounded-lg text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800">
+                  No logo
+                </button>
+              </div>
+            )}
+          </fieldset>
+        </div>
+
+        <div className="space-y-4">
+          <SlideCanvas slide={previewSlide} className="rounded-xl shadow-lg border border-gray-200 dark:border-gray-700" label="Brand kit preview" />
+
+          <ul aria-label="Contrast checks" className="space-y-1 text-sm">
+            {checks.map(check => (
+              <li key={check.label} className={`flex justify-between ${check.passes ? 'text-gray-600 dark:text-gray-300' : 'text-red-600 font-medium'}`}>
+                <span>{check.passes ? '✓' : '✗'} {check.label}</span>
+                <span>{formatContrastRatio(check.ratio)} (AA needs {check.minimum}:1)</span>
+              </li>
+            ))}
+          </ul>
+
+          {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex items-center justify-between gap-2">
+            {onDelete ? (
+              <button type="button" onClick={() => run(onDelete)} disabled={isSaving} className="px-4 py-2 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 dark:hover:bg-red-950/30 disabled:opacity-50">
+                Remove brand kit
+              </button>
+            ) : <span />}
+            <div className="flex gap-2">
+              <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800">
+                Cancel
+              </button>
+              <button type="submit" disabled={isSaving || isReading || !isReadable} className="px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50">
+                {isSaving ? 'Saving...' : 'Save brand kit'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+}
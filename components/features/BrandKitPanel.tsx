@@ -0,0 +1,62 @@
+// components/features/BrandKitPanel.tsx
+'use client';
+
+import { memo } from 'react';
+import type { BrandKit } from '@/lib/brand-kit';
+
+interface BrandKitPanelProps {
+  brandKit: BrandKit | null;
+  applyBrandKit: boolean;
+  onApplyChange: (apply: boolean) => void;
+  onEdit: () => void;
+  disabled?: boolean;
+}
+
+// The saved brand kit at a glance, and whether the next deck should use it
+const BrandKitPanel = memo<BrandKitPanelProps>(({
+  brandKit,
+  applyBrandKit,
+  onApplyChange,
+  onEdit,
+  disabled
+}) => (
+  <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+    <div className="flex items-center gap-2 min-w-0">
+      {brandKit && (
+        <span className="flex gap-1" aria-hidden="true">
+          {[brandKit.colors.primary, brandKit.colors.secondary, brandKit.colors.accent].map((color, index) => (
+            <span key={index} className="w-3 h-3 rounded-full border border-black/10" style={{ backgroundColor: color }} />
+          ))}
+        </span>
+      )}
+      <span className="truncate text-sm font-medium text-gray-900 dark:text-white">
+        {brandKit ? brandKit.name : 'No brand kit yet'}
+      </span>
+    </div>
+    <div className="flex items-center gap-3 shrink-0">
+      {brandKit && (
+        <label className="flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={applyBrandKit}
+            onChange={event => onApplyChange(event.target.checked)}
+            disabled={disabled}
+          />
+          Apply to new decks
+        </label>
+      )}
+      <button
+        type="button"
+        onClick={onEdit}
+        disabled={disabled}
+        className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+      >
+        {brandKit ? 'Edit brand kit' : 'Set up brand kit'}
+      </button>
+    </div>
+  </div>
+));
+
+BrandKitPanel.displayName = 'BrandKitPanel';
+
+export default BrandKitPanel;
@@ -0,0 +1,178 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PresentationConfig, SlidePresentation } from '@/types/slides';
+import SlideCanvas from '@/components/features/SlideCanvas';
+import SlideTransition from '@/components/features/SlideTransition';
+import { usePresenterChannel } from '@/hooks/usePresenterChannel';
+import { getAutoAdvanceDelay, getPresenterUrl, type PresenterMessage } from '@/lib/presenter-channel';
+
+/**
+ * Audience view - the deck full screen, one slide at a time
+ * Opens the presenter view in a second window and follows it over the presenter channel
+ */
+
+interface PresentationModeProps {
+  presentation: SlidePresentation;
+  config: PresentationConfig;
+  startIndex?: number;
+  onExit: (lastIndex: number) => void;
+}
+
+const CONTROL_POSITIONS: Record<NonNullable<PresentationConfig['controlsPosition']>, string> = {
+  bottom: 'bottom-6 left-1/2 -translate-x-1/2',
+  top: 'top-6 left-1/2 -translate-x-1/2',
+  side: 'right-6 top-1/2 -translate-y-1/2 flex-col',
+  floating: 'bottom-6 right-6'
+};
+
+// Tells the presenter window the show is over when this view goes away
+const END_MESSAGE: PresenterMessage = { type: 'end' };
+
+const controlButton = 'px-3 py-1 text-white/90 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed';
+
+export default function PresentationMode({
+  presentation,
+  config,
+  startIndex = 0,
+  onExit
+}: PresentationModeProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [index, setIndex] = useState(() => Math.min(startIndex, presentation.slides.length - 1));
+  const [startedAt] = useState(() => Date.now());
+  const slideCount = presentation.slides.length;
+  const slide = presentation.slides[index];
+
+  // Latest values for the channel handler and exit
+  const indexRef = useRef(index);
+  indexRef.current = index;
+
+  const { post } = usePresenterChannel(presentation.id, message => {
+    if (message.type === 'hello') {
+      post({ type: 'state', presentation, index: indexRef.current, startedAt });
+    } else if (message.type === 'goto') {
+      setIndex(Math.max(0, Math.min(slideCount - 1, message.index)));
+    }
+  }, { closeMessage: END_MESSAGE });
+
+  const goTo = useCallback((target: number) => {
+    const next = Math.max(0, Math.min(slideCount - 1, target));
+    setIndex(next);
+    post({ type: 'goto', index: next });
+  }, [slideCount, post]);
+
+  const exit = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined);
+    }
+    onExit(indexRef.current);
+  }, [onExit]);
+
+  // Send the (possibly edited) deck to a presenter window that is already open
+  useEffect(() => {
+    post({ type: 'state', presentation, index: indexRef.current, startedAt });
+  }, [presentation, startedAt, post]);
+
+  // Full screen on start; leaving full screen (Escape in most browsers) ends the show
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!config.fullscreenMode || !container?.requestFullscreen) return;
+
+    let entered = false;
+    const handleChange = () => {
+      if (document.fullscreenElement === container) {
+        entered = true;
+      } else if (entered) {
+        onExit(indexRef.current);
+      }
+    };
+
+    document.addEventListener('fullscreenchange', handleChange);
+    container.requestFullscreen().catch(() => undefined); // Denied - present in the window instead
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, [config.fullscreenMode, onExit]);
+
+  // Auto-advance on the slide's own duration or the deck delay, stopping at the end
+  useEffect(() => {
+    const delay = getAutoAdvanceDelay(slide, config);
+    if (delay === null || index >= slideCount - 1) return;
+    const timer = setTimeout(() => goTo(index + 1), delay * 1000);
+    return () => clearTimeout(timer);
+  }, [slide, config, index, slideCount, goTo]);
+
+  const openPresenterView = useCallback(() => {
+    window.open(getPresenterUrl(presentation.id), `s2s-presenter-${presentation.id}`, 'popup,width=1280,height=800');
+  }, [presentation.id]);
+
+  useEffect(() => {
+    if (config.enableKeyboardShortcuts === false) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || event.ctrlKey || event.metaKey) return;
+      switch (event.key) {
+        case 'ArrowRight': case 'ArrowDown': case 'PageDown': case ' ': case 'Enter':
+          goTo(indexRef.current + 1); break;
+        case 'ArrowLeft': case 'ArrowUp': case 'PageUp': case 'Backspace':
+          goTo(indexRef.current - 1); break;
+        case 'Home':
+          goTo(0); break;
+        case 'End':
+          goTo(slideCount - 1); break;
+        case 'p': case 'P':
+          openPresenterView(); break;
+        case 'Escape':
+          exit(); break;
+        default:
+          return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+    };
+
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, [config.enableKeyboardShortcuts, goTo, exit, openPresenterView, slideCount]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="fixed inset-0 z-50 bg-black flex items-center justify-center"
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Presenting ${presentation.title}`}
+    >
+      {slide && (
+        <div className="w-full max-h-full overflow-hidden" style={{ maxWidth: 'calc(100vh * 16 / 9)' }}>
+          <SlideTransition slide={slide}>
+            <SlideCanvas slide={slide} animate label={`Slide ${index + 1} of ${slideCount}: ${slide.title}`} />
+          </SlideTransition>
+        </div>
+      )}
+
+      {config.showProgress && (
+        <div
+          className="fixed top-0 left-0 h-1 bg-blue-500 transition-all duration-300"
+          style={{ width: `${((index + 1) / slideCount) * 100}%` }}
+        />
+      )}
+
+      {config.controlsPosition && (
+        <div className={`fixed flex items-center gap-2 px-3 py-1.5 rounded-full bg-black/60 text-sm text-white ${CONTROL_POSITIONS[config.controlsPosition]}`}>
+          <button type="button" className={controlButton} onClick={() => goTo(index - 1)} disabled={index === 0} aria-label="Previous slide">
+            ←
+          </button>
+          <span aria-live="polite">{index + 1} / {slideCount}</span>
+          <button type="button" className={controlButton} onClick={() => goTo(index + 1)} disabled={index === slideCount - 1} aria-label="Next slide">
+            →
+          </button>
+          <button type="button" className={controlButton} onClick={openPresenterView} title="Open presenter view (P)">
+            Presenter view
+          </button>
+          <button type="button" className={controlButton} onClick={exit} title="Exit (Esc)">
+            Exit
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import dynamic from 'next/dynamic';
+import Link from 'next/link';
+import { z } from 'zod';
+import type { SlidePresentation } from '@/types/slides';
+import SlideCanvas from '@/components/features/SlideCanvas';
+import SlideTransition from '@/components/features/SlideTransition';
+import { SlidePresentationSchema } from '@/utils/validation-schemas';
+import { getPresentationConfig } from '@/lib/presenter-channel';
+
+/**
+ * Read-only viewer for a saved presentation - the owner's viewer and share links both use it
+ * Slides are drawn with the same renderer as the editor and presentation mode,
+ * so what was saved is what is shown
+ */
+
+const PresentationMode = dynamic(() => import('@/components/features/PresentationMode'), {
+  ssr: false
+});
+
+// The parts of a saved presentation the viewer reads - see HistoryView and SharedPresentation (lib/history.ts)
+export interface StoredPresentation {
+  presentation: SlidePresentation;
+  summary: string;
+  themeUsed: string;
+}
+
+const StoredPresentationSchema = z.object({
+  presentation: SlidePresentationSchema,
+  summary: z.string().nullish(),
+  themeUsed: z.string().nullish()
+});
+
+/**
+ * Read a presentation out of an API response body's `data`
+ * Dates arrive as strings over JSON - the schema turns them back into Dates
+ */
+export function parseStoredPresentation(data: unknown): StoredPresentation {
+  const parsed = StoredPresentationSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error('This saved item has no presentation that can be displayed.');
+  }
+
+  const { presentation, summary, themeUsed } = parsed.data;
+  return {
+    presentation: presentation as SlidePresentation,
+    summary: summary ?? '',
+    themeUsed: themeUsed ?? presentation.theme.name
+  };
+}
+
+export function ViewerStatusScreen({
+  title,
+  message,
+  spinner,
+  children
+}: {
+  title: string;
+  message: string;
+  spinner?: boolean;
+  children?: ReactNode;
+}) {
+  return (
+    <div className="min-h-screen bg-gray-950 flex flex-col items-center justify-center text-white p-6 text-center">
+      {spinner && <div className="w-16 h-16 border-4 border-white/30 border-t-white rounded-full animate-spin mb-6"></div>}
+      <h2 className="text-2xl font-bold mb-2">{title}</h2>
+      <p className="text-white/80 mb-6 max-w-md">{message}</p>
+      {children}
+      {!spinner && !children && (
+        <Link href="/" className="inline-block px-6 py-3 bg-blue-600 text-white rounded-xl shadow-lg hover:bg-blue-700 transition-colors font-semibold">
+          ← Back to Home
+        </Link>
+      )}
+    </div>
+  );
+}
+
+interface PresentationViewerProps extends StoredPresentation {
+  actions?: ReactNode; // Extra header controls, e.g. the owner's share settings
+}
+
+export default function PresentationViewer({ presentation, summary, themeUsed, actions }: PresentationViewerProps) {
+  const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
+  const [isPresenting, setIsPresenting] = useState(false);
+
+  const slideCount = presentation.slides.length;
+  const presentationConfig = useMemo(() => getPresentationConfig(presentation), [presentation]);
+
+  const goTo = useCallback((index: number) => {
+    setCurrentSlideIndex(Math.max(0, Math.min(slideCount - 1, index)));
+  }, [slideCount]);
+
+  const stopPresenting = useCallback((lastIndex: number) => {
+    setIsPresenting(false);
+    setCurrentSlideIndex(lastIndex);
+  }, []);
+
+  // Arrow keys step through slides (presentation mode handles its own keys)
+  useEffect(() => {
+    if (isPresenting) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'ArrowRight') goTo(currentSlideIndex + 1);
+      else if (event.key === 'ArrowLeft') goTo(currentSlideIndex - 1);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [goTo, currentSlideIndex, isPresenting]);
+
+  const currentSlide = presentation.slides[currentSlideIndex];
+
+  if (!currentSlide) {
+    return (
+      <ViewerStatusScreen
+        title="No Content Found"
+        message="Could not find presentation data for this ID. It might have been removed or the link is invalid."
+      />
+    );
+  }
+
+  const navButton = 'p-3 bg-white/10 border border-white/20 text-white rounded-full hover:bg-white/20 disabled:opacity-30 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-4 focus:ring-blue-500/50';
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white">
+      {/* Header */}
+      <header className="flex items-center justify-between gap-4 p-4 sm:p-6">
+        <Link href="/" className="inline-flex items-center px-4 py-2 bg-white/10 border border-white/20 rounded-xl hover:bg-white/15 transition-colors font-semibold">
+          ← Back to Home
+        </Link>
+        <h1 className="text-lg sm:text-xl font-semibold truncate">{presentation.title}</h1>
+        <div className="flex items-center gap-3">
+          <span className="text-white/70 text-sm">{currentSlideIndex + 1} / {slideCount}</span>
+          {actions}
+          <button
+            onClick={() => setIsPresenting(true)}
+            className="px-4 py-2 bg-blue-600 rounded-xl hover:bg-blue-700 transition-colors font-semibold"
+          >
+            ▶ Present
+          </button>
+        </div>
+      </header>
+
+      {/* Slide */}
+      <main className="flex flex-col items-center px-4 sm:px-6 pb-10">
+        <div className="w-full max-w-6xl flex items-center gap-3 sm:gap-6">
+          <button onClick={() => goTo(currentSlideIndex - 1)} disabled={currentSlideIndex === 0} className={navButton} aria-label="Previous slide">
+            ←
+          </button>
+          <div className="flex-1 overflow-hidden rounded-2xl shadow-2xl">
+            <SlideTransition slide={currentSlide}>
+              <SlideCanvas
+                slide={currentSlide}
+                animate
+                label={`Slide ${currentSlideIndex + 1} of ${slideCount}: ${currentSlide.title}`}
+              />
+            </SlideTransition>
+          </div>
+          <button onClick={() => goTo(currentSlideIndex + 1)} disabled={currentSlideIndex === slideCount - 1} className={navButton} aria-label="Next slide">
+            →
+          </button>
+        </div>
+
+        {/* Slide Navigation Dots */}
+        <div className="flex justify-center mt-6 space-x-3">
+          {presentation.slides.map((slide, index) => (
+            <button
+              key={slide.id}
+              onClick={() => goTo(index)}
+              aria-label={`Go to slide ${index + 1}`}
+              className={`w-3 h-3 rounded-full transition-colors ${index === currentSlideIndex ? 'bg-blue-500' : 'bg-white/30 hover:bg-white/50'}`}
+            />
+          ))}
+        </div>
+
+        {/* Presentation Info */}
+        {summary && (
+          <div className="mt-10 max-w-2xl text-center bg-white/5 border border-white/10 p-6 rounded-2xl">
+            <h3 className="text-xl font-semibold mb-3">Presentation Summary</h3>
+            <p className="text-white/80 leading-relaxed">{summary}</p>
+            <span className="inline-block mt-4 px-4 py-2 bg-blue-500/20 border border-blue-500/30 text-blue-200 rounded-full text-sm font-medium">
+              Theme: {themeUsed}
+            </span>
+          </div>
+        )}
+      </main>
+
+      {isPresenting && (
+        <PresentationMode
+          presentation={presentation}
+          config={presentationConfig}
+          startIndex={currentSlideIndex}
+          onExit={stopPresenting}
+        />
+      )}
+    </div>
+  );
+}
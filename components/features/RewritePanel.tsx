@@ -0,0 +1,157 @@
+// components/features/RewritePanel.tsx
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { Slide } from '@/types/slides';
+import type { PresentationEdit } from '@/lib/presentation-edits';
+import {
+  REWRITE_ACTION_LABELS,
+  diffWords,
+  getRewriteSource,
+  parseRewrite,
+  type RewriteAction
+} from '@/lib/rewrite';
+import { rewriteWithAI } from '@/utils/rewriteWithAI';
+
+interface RewritePanelProps {
+  slide: Slide;
+  contentId?: string; // One element, or the whole slide body when missing
+  onEdit: (edit: PresentationEdit) => void;
+  onClose: () => void;
+}
+
+const ACTIONS = Object.keys(REWRITE_ACTION_LABELS) as RewriteAction[];
+// Titles and subtitles stay one line, so they can't become bullets or prose
+const HEADING_ACTIONS = ACTIONS.filter(action => action !== 'bullets' && action !== 'prose');
+
+const buttonClass = 'px-3 py-1.5 text-sm rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+const inputClass = 'px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-sm text-gray-700';
+
+/**
+ * Rewrite text with AI: pick an action, watch the answer stream in, then review a
+ * word diff before applying it as an ordinary (undoable) edit
+ */
+export default function RewritePanel({ slide, contentId, onEdit, onClose }: RewritePanelProps) {
+  const source = getRewriteSource(slide, contentId);
+  const target = contentId ? slide.contents.find(content => content.id === contentId) : undefined;
+  const isHeading = target?.type === 'title' || target?.type === 'subtitle';
+  const actions = isHeading ? HEADING_ACTIONS : ACTIONS;
+
+  const [action, setAction] = useState<RewriteAction>('shorten');
+  const [audience, setAudience] = useState('');
+  const [language, setLanguage] = useState('');
+  const [output, setOutput] = useState('');
+  const [status, setStatus] = useState<'idle' | 'streaming' | 'done'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a rewrite that's still streaming when the panel closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  if (!source) return null;
+
+  const run = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('streaming');
+    setOutput('');
+    setError(null);
+    try {
+      const text = await rewriteWithAI({
+        text: source.text,
+        action,
+        slideTitle: slide.title,
+        ...(audience.trim() && { audience: audience.trim() }),
+        ...(action === 'translate' && { language: language.trim() })
+      }, setOutput, controller.signal);
+      setOutput(text);
+      setStatus(text ? 'done' : 'idle');
+      if (!text) setError('The AI came back empty - try again or pick another action.');
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setStatus('idle');
+      setError(err instanceof Error ? err.message : 'Could not rewrite the text');
+    }
+  };
+
+  const apply = () => {
+    const contents = parseRewrite(output, slide, source.contentIds);
+    if (contents.length > 0) {
+      onEdit({ type: 'rewriteContent', slideId: slide.id, contentIds: source.contentIds, contents });
+    }
+    onClose();
+  };
+
+  return (
+    <div role="group" aria-label="Rewrite with AI" className="mt-2 rounded-lg border border-purple-200 bg-purple-50/60 p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as RewriteAction)}
+          disabled={status === 'streaming'}
+          aria-label="Rewrite action"
+          className={inputClass}
+        >
+          {actions.map(value => <option key={value} value={value}>{REWRITE_ACTION_LABELS[value]}</option>)}
+        </select>
+        {action === 'translate' && (
+          <input
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            placeholder="Language, e.g. Spanish"
+            aria-label="Language"
+            maxLength={50}
+            className={inputClass}
+          />
+        )}
+        <input
+          value={audience}
+          onChange={(e) => setAudience(e.target.value)}
+          placeholder="Audience (optional)"
+          aria-label="Audience"
+          maxLength={200}
+          className={`${inputClass} flex-1 min-w-[8rem]`}
+        />
+        <button
+          type="button"
+          onClick={run}
+          disabled={status === 'streaming' || (action === 'translate' && !language.trim())}
+          className={`${buttonClass} bg-purple-600 text-white hover:bg-purple-700`}
+        >
+          {status === 'streaming' ? 'Writing…' : status === 'done' ? 'Try again' : 'Rewrite'}
+        </button>
+        <button type="button" onClick={onClose} className={`${buttonClass} text-gray-600 hover:text-gray-900`}>
+          Cancel
+        </button>
+      </div>
+
+      {error && <p role="alert" className="mt-2 text-red-600">{error}</p>}
+
+      {status === 'streaming' && (
+        <p aria-live="polite" className="mt-2 whitespace-pre-wrap text-gray-700">{output || '…'}</p>
+      )}
+
+      {status === 'done' && (
+        <>
+          <p aria-label="Changes" className="mt-2 whitespace-pre-wrap text-gray-800">
+            {diffWords(source.text, output).map((part, index) =>
+              part.type === 'same' ? (
+                <span key={index}>{part.text}</span>
+              ) : part.type === 'added' ? (
+                <ins key={index} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+              ) : (
+                <del key={index} className="bg-red-100 text-red-700">{part.text}</del>
+              )
+            )}
+          </p>
+          <div className="mt-2 flex justify-end">
+            <button type="button" onClick={apply} className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}>
+              Apply
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+
+/**
+ * Owner controls for sharing a saved presentation - visibility, password, expiry,
+ * copying the link and revoking it. Talks to /api/history/<id>/share.
+ */
+
+type ShareVisibility = 'private' | 'unlisted' | 'public';
+
+// Mirrors ShareSummary from lib/sharing.ts, with dates as they arrive over JSON
+export interface ShareState {
+  visibility: ShareVisibility;
+  url: string | null;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+}
+
+interface SharePanelProps {
+  recordId: string;
+  initialSharing: ShareState;
+}
+
+const VISIBILITY_OPTIONS: { value: ShareVisibility; label: string; description: string }[] = [
+  { value: 'private', label: 'Private', description: 'Only you can open it' },
+  { value: 'unlisted', label: 'Unlisted', description: 'Anyone with the link' },
+  { value: 'public', label: 'Public', description: 'Anyone with the link, and listed in the gallery' }
+];
+
+// <input type="datetime-local"> wants local time without a zone
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fieldClass = 'w-full px-3 py-2 bg-gray-900 border border-white/20 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+const smallButton = 'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-50';
+
+export default function SharePanel({ recordId, initialSharing }: SharePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sharing, setSharing] = useState(initialSharing);
+  const [password, setPassword] = useState('');
+  const [expiresAt, setExpiresAt] = useState(toLocalInput(initialSharing.expiresAt));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const shareLink = sharing.url && typeof window !== 'undefined'
+    ? new URL(sharing.url, window.location.origin).toString()
+    : sharing.url;
+
+  const send = async (method: 'PUT' | 'DELETE', body?: Record<string, unknown>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/history/${encodeURIComponent(recordId)}/share`, {
+        method,
+        ...(body && { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update share settings.');
+      }
+      setSharing(result.data);
+      setExpiresAt(toLocalInput(result.data.expiresAt));
+      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update share settings.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault();
+    send('PUT', {
+      visibility: sharing.visibility,
+      expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+      ...(password && { password })
+    });
+  };
+
+  const copyLink = async () => {
+    if (!shareLink) return;
+    await navigator.clipboard?.writeText(shareLink);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="px-4 py-2 bg-white/10 border border-white/20 rounded-xl hover:bg-white/15 transition-colors font-semibold"
+      >
+        🔗 Share
+      </button>
+
+      {isOpen && (
+        <form
+          onSubmit={handleSave}
+          aria-label="Share settings"
+          className="absolute right-0 z-20 mt-2 w-80 space-y-4 p-4 bg-gray-900 border border-white/20 rounded-2xl shadow-2xl text-left"
+        >
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-semibold mb-1">Who can view</legend>
+            {VISIBILITY_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-start gap-2 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  name="visibility"
+                  value={option.value}
+                  checked={sharing.visibility === option.value}
+                  onChange={() => setSharing(current => ({ ...current, visibility: option.value }))}
+                  className="mt-1"
+                />
+                <span>
+                  {option.label}
+                  <span className="block text-white/60 text-xs">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          {sharing.visibility !== 'private' && (
+            <>
+              <label className="block text-sm space-y-1">
+                <span>Password {sharing.hasPassword && <span className="text-white/60">(set - type to replace)</span>}</span>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={event => setPassword(event.target.value)}
+                  autoComplete="new-password"
+                  className={fieldClass}
+                />
+              </label>
+              {sharing.hasPassword && (
+                <button type="button" onClick={() => send('PUT', { password: null })} disabled={isSaving} className={`${smallButton} bg-white/10 hover:bg-white/20`}>
+                  Remove password
+                </button>
+              )}
+              <label className="block text-sm space-y-1">
+                <span>Link expires</span>
+                <input
+                  type="datetime-local"
+                  value={expiresAt}
+                  onChange={event => setExpiresAt(event.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+            </>
+          )}
+
+          {error && <p role="alert" className="text-sm text-red-400">{error}</p>}
+
+          <div className="flex items-center justify-between gap-2">
+            <button type="submit" disabled={isSaving} className={`${smallButton} bg-blue-600 hover:bg-blue-700`}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+            {sharing.url && (
+              <button type="button" onClick={() => send('DELETE')} disabled={isSaving} className={`${smallButton} bg-red-600/80 hover:bg-red-600`}>
+                Revoke link
+              </button>
+            )}
+          </div>
+
+          {shareLink && sharing.visibility !== 'private' && (
+            <div className="flex items-center gap-2">
+              <input readOnly value={shareLink} aria-label="Share link" className={fieldClass} onFocus={event => event.target.select()} />
+              <button type="button" onClick={copyLink} className={`${smallButton} bg-white/10 hover:bg-white/20`}>
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import { memo, type CSSProperties } from 'react';
+import { motion } from 'framer-motion';
+import type { Slide, SlideContent, SlideTheme } from '@/types/slides';
+import {
+  REFERENCE_SLIDE_HEIGHT_PX,
+  REFERENCE_SLIDE_WIDTH_PX,
+  getContentBox,
+  getDefaultTextColor,
+  getFontSizePx,
+  getLogoBox,
+  isBoldWeight
+} from '@/lib/slide-geometry';
+import { mixColors, parseColor, type RGBA } from '@/lib/colors';
+import { parseChartData } from '@/lib/chart-data';
+import { getSeriesColor, layoutChart } from '@/lib/chart-layout';
+import { getEmptyRegions } from '@/lib/slide-layouts';
+import { toDisplayImageUrl } from '@/lib/image-source';
+import { ELEMENT_DISTANCE, getAnimationVariants, getContentAnimation } from '@/lib/slide-animation';
+import { useReducedMotion } from '@/lib/accessibility';
+
+/**
+ * Read-only slide renderer - draws a Slide at its stored positions on a 16:9 stage
+ * Sizes are in container units, so the same slide renders at any width
+ * (full screen, presenter view, thumbnails) with identical proportions
+ */
+
+interface SlideCanvasProps {
+  slide: Slide;
+  className?: string;
+  label?: string; // Accessible name, defaults to the slide title
+  animate?: boolean; // Play element build animations when the slide mounts
+  showLayoutGuides?: boolean; // Outline the layout regions the slide leaves empty (editor only)
+}
+
+// Chart layout units are points on a 720pt-wide slide
+const CHART_UNIT = REFERENCE_SLIDE_WIDTH_PX / 720;
+
+const WHITE: RGBA = { r: 255, g: 255, b: 255, a: 1 };
+
+const rgb = (color: RGBA) => `rgb(${Math.round(color.r)},${Math.round(color.g)},${Math.round(color.b)})`;
+
+// Reference pixels to container width units
+const cqw = (px: number) => `${Math.round((px / REFERENCE_SLIDE_WIDTH_PX) * 100000) / 1000}cqw`;
+
+function ChartView({ content, theme, background }: { content: SlideContent; theme: SlideTheme; background: RGBA }) {
+  const chart = parseChartData(content.content);
+  if (!chart) return <Placeholder text={content.content} />;
+
+  const box = getContentBox(content);
+  const width = (box.width / 100) * REFERENCE_SLIDE_WIDTH_PX;
+  const height = (box.height / 100) * REFERENCE_SLIDE_HEIGHT_PX;
+  const textColor = parseColor(theme.colors.text) ?? { r: 30, g: 41, b: 59, a: 1 };
+  const shapes = layoutChart(chart, { x: 0, y: 0, width, height }, { unit: CHART_UNIT, curveSegments: 48 });
+  const points = (list: readonly [number, number][]) => list.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width.toFixed(1)} ${height.toFixed(1)}`} role="img" aria-label={chart.title ?? `${chart.type} chart`} className="w-full h-full">
+      {shapes.map((shape, index) => {
+        switch (shape.kind) {
+          case 'rect':
+            return <rect key={index} x={shape.box.x} y={shape.box.y} width={shape.box.width} height={shape.box.height} fill={rgb(getSeriesColor(theme, shape.series))} />;
+          case 'polygon': {
+            const color = getSeriesColor(theme, shape.series);
+            return <polygon key={index} points={points(shape.points)} fill={rgb(shape.faded ? mixColors(color, background, 0.5) : color)} />;
+          }
+          case 'line':
+            return <polyline key={index} points={points(shape.points)} fill="none" stroke={rgb(getSeriesColor(theme, shape.series))} strokeWidth={shape.width} strokeLinejoin="round" />;
+          case 'axis':
+            return <line key={index} x1={shape.from[0]} y1={shape.from[1]} x2={shape.to[0]} y2={shape.to[1]} stroke={rgb(mixColors(textColor, background, 0.6))} strokeWidth={shape.width} />;
+          case 'hole':
+            return <circle key={index} cx={shape.center[0]} cy={shape.center[1]} r={shape.radius} fill={rgb(background)} />;
+          case 'label': {
+            const x = shape.align === 'center' ? shape.box.x + shape.box.width / 2 : shape.box.x;
+            return (
+              <text
+                key={index}
+                x={x}
+                y={shape.box.y + shape.box.height / 2}
+                textAnchor={shape.align === 'center' ? 'middle' : 'start'}
+                dominantBaseline="central"
+                fontSize={shape.fontSize}
+                fontWeight={shape.role === 'title' ? 'bold' : undefined}
+                fill={rgb(textColor)}
+              >
+                {shape.text}
+              </text>
+            );
+          }
+        }
+      })}
+    </svg>
+  );
+}
+
+function Placeholder({ text }: { text: string }) {
+  return (
+    <div className="flex-1 flex items-center justify-center text-center italic border border-dashed border-current opacity-60 p-2 break-all">
+      {text}
+    </div>
+  );
+}
+
+function ContentView({ content, theme, background, animate }: { content: SlideContent; theme: SlideTheme; background: RGBA; animate: boolean }) {
+  const box = getContentBox(content);
+  const style = content.style;
+  const isHeading = content.type === 'title' || content.type === 'subtitle';
+
+  const boxStyle = {
+    left: `${box.x}%`,
+    top: `${box.y}%`,
+    width: `${box.width}%`,
+    height: `${box.height}%`,
+    ...(content.metadata?.order !== undefined && { zIndex: content.metadata.order })
+  };
+
+  const elementStyle: CSSProperties = {
+    fontSize: cqw(getFontSizePx(content)),
+    fontWeight: isBoldWeight(style?.fontWeight) || content.type === 'title' ? 'bold' : undefined,
+    fontFamily: isHeading ? theme.fonts.heading : content.type === 'code' ? theme.fonts.code : undefined,
+    color: style?.color ?? getDefaultTextColor(content, theme),
+    backgroundColor: style?.backgroundColor ?? (content.type === 'code' ? theme.colors.surface ?? '#f3f4f6' : undefined),
+    textAlign: style?.alignment ?? (content.type === 'title' ? 'center' : 'left'),
+    justifyContent: isHeading ? 'center' : undefined,
+    padding: style?.padding,
+    borderRadius: style?.borderRadius
+  };
+
+  let body: React.ReactNode;
+  switch (content.type) {
+    case 'image': {
+      // The AI often only describes the image it would use - show that like the exports do
+      const src = toDisplayImageUrl(content.content);
+      body = src
+        // eslint-disable-next-line @next/next/no-img-element -- slide images are data URLs or signed upload links
+        ? <img src={src} alt="" className="w-full h-full object-contain" />
+        : <Placeholder text={content.content} />;
+      break;
+    }
+    case 'chart':
+      body = <ChartView content={content} theme={theme} background={background} />;
+      break;
+    case 'code':
+      body = <pre className="whitespace-pre-wrap font-mono"><code>{content.content}</code></pre>;
+      break;
+    case 'bullet':
+      body = <div className="relative pl-[1.2em] before:content-['•'] before:absolute before:left-0">{content.content}</div>;
+      break;
+    default:
+      body = <div>{content.content}</div>;
+  }
+
+  const variants = animate ? getAnimationVariants(getContentAnimation(content), ELEMENT_DISTANCE) : null;
+
+  return (
+    <motion.div className="absolute" style={boxStyle} {...(variants && { variants, initial: 'hidden', animate: 'visible' })}>
+      <div className="w-full h-full flex flex-col overflow-hidden leading-tight whitespace-pre-wrap break-words" style={elementStyle}>
+        {body}
+      </div>
+    </motion.div>
+  );
+}
+
+// The brand kit logo, in the same corner box every export uses
+function BrandLogo({ logo }: { logo: NonNullable<SlideTheme['logo']> }) {
+  const box = getLogoBox(logo);
+  const src = toDisplayImageUrl(logo.src);
+  if (!src) return null;
+  return (
+    // eslint-disable-next-line @next/next/no-img-element -- logos are data URLs from the brand kit
+    <img
+      src={src}
+      alt=""
+      className="absolute pointer-events-none"
+      style={{ left: `${box.x}%`, top: `${box.y}%`, width: `${box.width}%`, height: `${box.height}%` }}
+    />
+  );
+}
+
+const SlideCanvas = memo<SlideCanvasProps>(({ slide, className, label, animate = false, showLayoutGuides = false }) => {
+  const reducedMotion = useReducedMotion();
+  const theme = slide.theme;
+  const background = slide.background;
+  const base = parseColor(theme.colors.background) ?? WHITE;
+  // Charts need a solid color for doughnut holes and faded areas
+  const solidBackground = background?.type === 'color' ? parseColor(background.value) ?? base : base;
+  // Only inline or uploaded images - any other host would learn who opened the deck
+  const backgroundImage = background?.type === 'image' ? toDisplayImageUrl(background.value) : null;
+
+  const stageStyle: CSSProperties = {
+    containerType: 'inline-size',
+    aspectRatio: `${REFERENCE_SLIDE_WIDTH_PX} / ${REFERENCE_SLIDE_HEIGHT_PX}`,
+    backgroundColor: background?.type === 'color' ? background.value : theme.colors.background,
+    ...(background?.type === 'gradient' && !/url\s*\(/i.test(background.value) && { backgroundImage: background.value }),
+    ...(backgroundImage && { backgroundImage: `url("${backgroundImage}")`, backgroundSize: 'cover', backgroundPosition: 'center' }),
+    color: theme.colors.text,
+    fontFamily: theme.fonts.body
+  };
+
+  // Draw in the order the editor stacks them
+  const contents = [...slide.contents].sort((a, b) => (a.metadata?.order ?? 0) - (b.metadata?.order ?? 0));
+
+  return (
+    <section
+      className={`relative w-full overflow-hidden ${className ?? ''}`}
+      style={stageStyle}
+      aria-label={label ?? slide.title}
+    >
+      {showLayoutGuides && getEmptyRegions(slide).map((region, index) => (
+        <div
+          key={index}
+          aria-hidden="true"
+          className="absolute border border-dashed border-current opacity-30 rounded pointer-events-none"
+          style={{ left: `${region.x}%`, top: `${region.y}%`, width: `${region.width}%`, height: `${region.height}%` }}
+        />
+      ))}
+      {contents.map(content => (
+        <ContentView key={content.id} content={content} theme={theme} background={solidBackground} animate={animate && !reducedMotion} />
+      ))}
+      {theme.logo && <BrandLogo logo={theme.logo} />}
+    </section>
+  );
+});
+
+SlideCanvas.displayName = 'SlideCanvas';
+
+export default SlideCanvas;
@@ -1,29 +1,182 @@
 'use client';
 
-import type { SlidePresentation } from '@/types/slides';
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { Slide, SlideContent, SlidePresentation } from '@/types/slides';
+import { EDITABLE_CONTENT_TYPES, type PresentationEdit, type SlideLayout } from '@/lib/presentation-edits';
+import { ELEMENT_DISTANCE, getAnimationVariants, getContentAnimation } from '@/lib/slide-animation';
+import { useReducedMotion } from '@/lib/accessibility';
+import { getQualityReport } from '@/lib/text-fit';
+import { getRewriteSource, isRewritable } from '@/lib/rewrite';
+import { writeSpeakerNotes } from '@/utils/writeSpeakerNotes';
+import SlideTransition from '@/components/features/SlideTransition';
+import SlideCanvas from '@/components/features/SlideCanvas';
+import SlideFlowPanel from '@/components/features/SlideFlowPanel';
+import RewritePanel from '@/components/features/RewritePanel';
 
 /**
  * Slide editor component for customizing presentation content
  * This is where users can fine-tune their AI-generated slides
+ * Every change goes out as a PresentationEdit - the owner applies it with applyEdit
  */
 
 interface SlideEditorProps {
   presentation: SlidePresentation;
   currentSlideIndex: number;
   onSlideChange: (index: number) => void;
-  onContentUpdate: () => void;
-  onPresentationUpdate: () => void;
+  onEdit: (edit: PresentationEdit) => void;
+}
+
+const LAYOUT_OPTIONS: { value: SlideLayout; label: string }[] = [
+  { value: 'title', label: 'Title' },
+  { value: 'content', label: 'Content' },
+  { value: 'two-column', label: 'Two columns' },
+  { value: 'image-focus', label: 'Image focus' }
+];
+
+const toolbarButton = 'px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-200 transition-colors';
+const iconButton = 'px-2 text-gray-500 hover:text-gray-900 disabled:opacity-30 disabled:cursor-not-allowed';
+
+/**
+ * The slide's speaker notes, and a button to have the AI write them afresh
+ */
+function SpeakerNotesPanel({ slide, onEdit }: { slide: Slide; onEdit: (edit: PresentationEdit) => void }) {
+  const [writing, setWriting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const notes = slide.notes ?? slide.speakerNotes;
+
+  const regenerate = async () => {
+    setWriting(true);
+    setError(null);
+    try {
+      onEdit({ type: 'setNotes', slideId: slide.id, notes: await writeSpeakerNotes(slide) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not write speaker notes');
+    } finally {
+      setWriting(false);
+    }
+  };
+
+  return (
+    <section aria-label="Speaker notes" className="mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs uppercase tracking-wide text-gray-500">Speaker notes</h4>
+        <button type="button" className={toolbarButton} onClick={regenerate} disabled={writing}>
+          {writing ? 'Writing…' : notes ? 'Regenerate notes' : 'Write notes'}
+        </button>
+      </div>
+      {error && <p role="alert" className="mb-2 text-sm text-red-600">{error}</p>}
+      {!notes ? (
+        <p className="text-sm text-gray-500">No notes for this slide yet.</p>
+      ) : typeof notes === 'string' ? (
+        <p className="text-sm text-gray-700 whitespace-pre-wrap">{notes}</p>
+      ) : (
+        <dl className="grid gap-2 text-sm text-gray-700 sm:grid-cols-[8rem_1fr]">
+          <dt className="font-medium text-gray-900">Opening</dt>
+          <dd>{notes.opening}</dd>
+          <dt className="font-medium text-gray-900">Main points</dt>
+          <dd>
+            <ul className="list-disc pl-5">
+              {notes.mainPoints.map((point, index) => <li key={index}>{point}</li>)}
+            </ul>
+          </dd>
+          <dt className="font-medium text-gray-900">Timing</dt>
+          <dd>{notes.timing}</dd>
+          <dt className="font-medium text-gray-900">Transition</dt>
+          <dd>{notes.transition}</dd>
+          {notes.questions.length > 0 && (
+            <>
+              <dt className="font-medium text-gray-900">Q&amp;A prep</dt>
+              <dd>
+                <ul className="list-disc pl-5">
+                  {notes.questions.map((question, index) => <li key={index}>{question}</li>)}
+                </ul>
+              </dd>
+            </>
+          )}
+        </dl>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Text that turns into a textarea when clicked
+ * Enter commits (Shift+Enter for a new line in paragraphs), Escape cancels
+ */
+function InlineText({
+  value,
+  label,
+  multiline,
+  className,
+  onCommit,
+  onEnter
+}: {
+  value: string;
+  label: string;
+  multiline?: boolean;
+  className?: string;
+  onCommit: (value: string) => void;
+  onEnter?: () => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft !== null && draft.trim() && draft !== value) onCommit(draft.trim());
+    setDraft(null);
+  };
+
+  if (draft === null) {
+    return (
+      <button
+        type="button"
+        onClick={() => setDraft(value)}
+        className={`w-full text-left rounded hover:ring-2 hover:ring-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500 ${className ?? ''}`}
+        aria-label={`Edit ${label}`}
+      >
+        {value}
+      </button>
+    );
+  }
+
+  return (
+    <textarea
+      autoFocus
+      value={draft}
+      onFocus={(e) => e.currentTarget.select()}
+      rows={multiline ? 3 : 1}
+      aria-label={label}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          setDraft(null);
+        } else if (e.key === 'Enter' && !(multiline && e.shiftKey)) {
+          e.preventDefault();
+          commit();
+          onEnter?.();
+        }
+      }}
+      className={`w-full resize-none rounded bg-white px-1 ring-2 ring-blue-500 focus:outline-none ${className ?? ''}`}
+    />
+  );
 }
 
 export default function SlideEditor({
   presentation,
   currentSlideIndex,
   onSlideChange,
-  onContentUpdate,
-  onPresentationUpdate
+  onEdit
 }: SlideEditorProps) {
+  const reducedMotion = useReducedMotion();
+  // Bumped by "Preview animations" to remount the elements and replay their builds
+  const [previewRun, setPreviewRun] = useState(0);
   const currentSlide = presentation.slides[currentSlideIndex];
-  
+  // Re-measured after every edit, so the warning clears once the text fits
+  const quality = useMemo(() => getQualityReport(presentation), [presentation]);
+  // The element (or, without a contentId, the whole slide) being rewritten with AI
+  const [rewriting, setRewriting] = useState<{ slideId: string; contentId?: string } | null>(null);
+
   if (!currentSlide) {
     return (
       <div className="flex items-center justify-center h-64 text-gray-500">
@@ -32,6 +185,147 @@ export default function SlideEditor({
     );
   }
 
+  const slideId = currentSlide.id;
+  const slideCount = presentation.slides.length;
+  const bullets = currentSlide.contents.filter(content => content.type === 'bullet');
+
+  const updateText = (content: SlideContent) => (value: string) =>
+    onEdit({ type: 'updateContent', slideId, contentId: content.id, content: value });
+
+  const moveSlide = (offset: -1 | 1) => {
+    const toIndex = currentSlideIndex + offset;
+    onEdit({ type: 'moveSlide', slideId, toIndex });
+    onSlideChange(toIndex);
+  };
+
+  const isRewriting = (contentId?: string) => rewriting?.slideId === slideId && rewriting.contentId === contentId;
+
+  const rewriteButton = (content: SlideContent, label: string) => (
+    <button
+      type="button"
+      className={iconButton}
+      onClick={() => setRewriting(isRewriting(content.id) ? null : { slideId, contentId: content.id })}
+      aria-label={`Rewrite ${label} with AI`}
+      aria-expanded={isRewriting(content.id)}
+      title="Rewrite with AI"
+    >
+      ✨
+    </button>
+  );
+
+  const rewritePanel = (contentId?: string) => isRewriting(contentId) && (
+    <RewritePanel
+      slide={currentSlide}
+      {...(contentId && { contentId })}
+      onEdit={onEdit}
+      onClose={() => setRewriting(null)}
+    />
+  );
+
+  // Each element plays its build animation when the slide comes in
+  const renderAnimated = (content: SlideContent) => {
+    const variants = reducedMotion ? null : getAnimationVariants(getContentAnimation(content), ELEMENT_DISTANCE);
+    return (
+      <motion.div
+        key={`${content.id}:${previewRun}`}
+        {...(variants && { variants, initial: 'hidden', animate: 'visible' })}
+      >
+        {renderContent(content)}
+      </motion.div>
+    );
+  };
+
+  const renderContent = (content: SlideContent) => {
+    if (!EDITABLE_CONTENT_TYPES.has(content.type)) {
+      return (
+        <div className="bg-white/70 rounded-lg p-4 text-sm text-gray-500">
+          {content.type === 'image' ? '🖼️ Image' : '📊 Chart'}
+        </div>
+      );
+    }
+
+    switch (content.type) {
+      case 'title':
+        return (
+          <div className="mb-4">
+            <div className="flex items-start justify-center">
+              <InlineText
+                value={content.content}
+                label="slide title"
+                onCommit={updateText(content)}
+                className="text-3xl font-bold text-gray-900 text-center"
+              />
+              {rewriteButton(content, 'slide title')}
+            </div>
+            {rewritePanel(content.id)}
+          </div>
+        );
+
+      case 'bullet': {
+        const bulletIndex = bullets.indexOf(content);
+        return (
+          <div className="bg-white/70 rounded-lg p-2 ml-4">
+            <div className="flex items-start">
+              <span className="inline-block w-2 h-2 bg-blue-500 rounded-full mt-2 mr-3 flex-shrink-0"></span>
+              <InlineText
+                value={content.content}
+                label={`bullet ${bulletIndex + 1}`}
+                onCommit={updateText(content)}
+                onEnter={() => onEdit({ type: 'addBullet', slideId, afterContentId: content.id })}
+                className="text-gray-800"
+              />
+              {rewriteButton(content, `bullet ${bulletIndex + 1}`)}
+              <button
+                type="button"
+                className={iconButton}
+                disabled={bulletIndex === 0}
+                onClick={() => onEdit({ type: 'moveContent', slideId, contentId: content.id, offset: -1 })}
+                aria-label={`Move bullet ${bulletIndex + 1} up`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className={iconButton}
+                disabled={bulletIndex === bullets.length - 1}
+                onClick={() => onEdit({ type: 'moveContent', slideId, contentId: content.id, offset: 1 })}
+                aria-label={`Move bullet ${bulletIndex + 1} down`}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                className={`${iconButton} hover:text-red-600`}
+                onClick={() => onEdit({ type: 'removeContent', slideId, contentId: content.id })}
+                aria-label={`Delete bullet ${bulletIndex + 1}`}
+              >
+                ×
+              </button>
+            </div>
+            {rewritePanel(content.id)}
+          </div>
+        );
+      }
+
+      default:
+        return (
+          <div className="bg-white/70 rounded-lg p-4">
+            <div className="flex items-start">
+              <InlineText
+                value={content.content}
+                label={content.type}
+                multiline
+                onCommit={updateText(content)}
+                className={`text-gray-800 leading-relaxed ${content.type === 'code' ? 'font-mono text-sm' : ''}`}
+              />
+              {isRewritable(content) && rewriteButton(content, content.type)}
+            </div>
+            {rewritePanel(content.id)}
+          </div>
+        );
+    }
+  };
+
   return (
     <div className="bg-white rounded-xl shadow-lg p-6 max-w-4xl mx-auto">
       <div className="text-center mb-6">
@@ -39,54 +333,143 @@ export default function SlideEditor({
           Slide Editor
         </h3>
         <p className="text-sm text-gray-600">
-          Slide {currentSlideIndex + 1} of {presentation.slides.length}
+          Slide {currentSlideIndex + 1} of {slideCount} · click any text to edit it
         </p>
       </div>
-      
-      {/* Current Slide Content */}
-      <div className="bg-gradient-to-br from-blue-50 to-indigo-100 rounded-lg p-8 min-h-[400px]">
-        <div className="space-y-6">
-          {currentSlide.contents.map((content) => {
-            switch (content.type) {
-              case 'title':
-                return (
-                  <div key={content.id}>
-                    <h1 className="text-3xl font-bold text-gray-900 mb-4 text-center">
-                      {content.content}
-                    </h1>
-                  </div>
-                );
-              
-              case 'text':
-                return (
-                  <div key={content.id} className="bg-white/70 rounded-lg p-4">
-                    <p className="text-gray-800 leading-relaxed">
-                      {content.content}
-                    </p>
-                  </div>
-                );
-              
-              case 'bullet':
-                return (
-                  <div key={content.id} className="bg-white/70 rounded-lg p-2 ml-4">
-                    <div className="flex items-start">
-                      <span className="inline-block w-2 h-2 bg-blue-500 rounded-full mt-2 mr-3 flex-shrink-0"></span>
-                      <span className="text-gray-800">{content.content}</span>
-                    </div>
-                  </div>
-                );
-              
-              default:
-                return (
-                  <div key={content.id} className="bg-white/70 rounded-lg p-4">
-                    <p className="text-gray-800">{content.content}</p>
-                  </div>
-                );
-            }
-          })}
+
+      {/* Slide toolbar */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <button
+          type="button"
+          className={toolbarButton}
+          onClick={() => {
+            onEdit({ type: 'addSlide', afterSlideId: slideId });
+            onSlideChange(currentSlideIndex + 1);
+          }}
+        >
+          + New slide
+        </button>
+        <button
+          type="button"
+          className={toolbarButton}
+          onClick={() => {
+            onEdit({ type: 'duplicateSlide', slideId });
+            onSlideChange(currentSlideIndex + 1);
+          }}
+        >
+          Duplicate
+        </button>
+        <button
+          type="button"
+          className={`${toolbarButton} hover:text-red-600`}
+          disabled={slideCount === 1}
+          onClick={() => {
+            onEdit({ type: 'removeSlide', slideId });
+            onSlideChange(Math.min(currentSlideIndex, slideCount - 2));
+          }}
+        >
+          Delete
+        </button>
+        <button
+          type="button"
+          className={toolbarButton}
+          disabled={currentSlideIndex === 0}
+          onClick={() => moveSlide(-1)}
+          aria-label="Move slide earlier"
+        >
+          ← Move
+        </button>
+        <button
+          type="button"
+          className={toolbarButton}
+          disabled={currentSlideIndex === slideCount - 1}
+          onClick={() => moveSlide(1)}
+          aria-label="Move slide later"
+        >
+          Move →
+        </button>
+        <button
+          type="button"
+          className={toolbarButton}
+          disabled={!getRewriteSource(currentSlide)}
+          onClick={() => setRewriting(isRewriting() ? null : { slideId })}
+          aria-expanded={isRewriting()}
+        >
+          ✨ Rewrite slide
+        </button>
+        <label className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+          Layout
+          <select
+            value={currentSlide.layout ?? ''}
+            onChange={(e) => onEdit({ type: 'setLayout', slideId, layout: e.target.value as SlideLayout })}
+            className="px-2 py-1.5 bg-gray-100 rounded-lg text-gray-700"
+          >
+            {!currentSlide.layout && <option value="" disabled>Choose…</option>}
+            {LAYOUT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {rewritePanel()}
+
+      {/* Current Slide Content - plays the slide's transition when switching slides */}
+      <div className="overflow-hidden rounded-lg">
+        <SlideTransition slide={currentSlide} className="bg-gradient-to-br from-blue-50 to-indigo-100 p-8 min-h-[400px]">
+          <div className="space-y-6">
+            {currentSlide.contents.map(renderAnimated)}
+          </div>
+          <div className="mt-4 ml-4 flex items-center gap-4 text-sm">
+            <button
+              type="button"
+              className="text-blue-600 hover:text-blue-800"
+              onClick={() => onEdit({ type: 'addBullet', slideId })}
+            >
+              + Add bullet
+            </button>
+            <button
+              type="button"
+              className="text-gray-600 hover:text-gray-900"
+              onClick={() => setPreviewRun(run => run + 1)}
+              disabled={reducedMotion}
+              title={reducedMotion ? 'Animations are off because your system asks for reduced motion' : undefined}
+            >
+              ▶ Preview animations
+            </button>
+          </div>
+        </SlideTransition>
+      </div>
+
+      {/* Live preview - the same renderer the viewer and presentation mode use */}
+      <div className="mt-6">
+        <h4 className="text-xs uppercase tracking-wide text-gray-500 mb-2">Preview</h4>
+        {quality.overflowingSlides.length > 0 && (
+          <div role="status" className="mb-3 flex flex-wrap items-center gap-2 text-sm text-amber-700">
+            <span>Text doesn&apos;t fit on slide{quality.overflowingSlides.length > 1 ? 's' : ''}</span>
+            {quality.overflowingSlides.map(entry => (
+              <button
+                key={entry.slideId}
+                type="button"
+                onClick={() => onSlideChange(entry.slideNumber - 1)}
+                className="px-2 py-0.5 rounded bg-amber-100 hover:bg-amber-200"
+                aria-label={`Go to slide ${entry.slideNumber}: ${entry.title}`}
+              >
+                {entry.slideNumber}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="max-w-md mx-auto rounded-lg overflow-hidden shadow border border-gray-200">
+          <SlideCanvas slide={currentSlide} label={`Preview of slide ${currentSlideIndex + 1}`} showLayoutGuides />
         </div>
       </div>
-      
+
+      {/* Keyed by slide so a late answer or error doesn't show up on the next slide */}
+      <SpeakerNotesPanel key={slideId} slide={currentSlide} onEdit={onEdit} />
+
+      <SlideFlowPanel presentation={presentation} onEdit={onEdit} />
+
       {/* Navigation */}
       <div className="flex justify-between items-center mt-6">
         <button
@@ -96,12 +479,13 @@ export default function SlideEditor({
         >
           ← Previous
         </button>
-        
+
         <div className="flex space-x-2">
-          {presentation.slides.map((_, index) => (
+          {presentation.slides.map((slide, index) => (
             <button
-              key={index}
+              key={slide.id}
               onClick={() => onSlideChange(index)}
+              aria-label={`Go to slide ${index + 1}`}
               className={`w-3 h-3 rounded-full transition-colors ${
                 index === currentSlideIndex
                   ? 'bg-blue-500'
@@ -110,10 +494,10 @@ export default function SlideEditor({
             />
           ))}
         </div>
-        
+
         <button
-          onClick={() => onSlideChange(Math.min(presentation.slides.length - 1, currentSlideIndex + 1))}
-          disabled={currentSlideIndex === presentation.slides.length - 1}
+          onClick={() => onSlideChange(Math.min(slideCount - 1, currentSlideIndex + 1))}
+          disabled={currentSlideIndex === slideCount - 1}
           className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-200 transition-colors"
         >
           Next →
@@ -121,4 +505,4 @@ export default function SlideEditor({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,118 @@
+// components/features/SlideFlowPanel.tsx
+'use client';
+
+import { useState } from 'react';
+import type { FlowMode, SlidePresentation } from '@/types/slides';
+import type { PresentationEdit } from '@/lib/presentation-edits';
+import { FLOW_MODE_LABELS, getOrderChanges, type SlideOrder } from '@/lib/slide-flow';
+import { reorderSlides } from '@/utils/reorderSlides';
+
+interface SlideFlowPanelProps {
+  presentation: SlidePresentation;
+  onEdit: (edit: PresentationEdit) => void;
+}
+
+const FLOW_MODES = Object.keys(FLOW_MODE_LABELS) as FlowMode[];
+
+const buttonClass = 'px-3 py-1.5 text-sm rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+/**
+ * Ask the AI for a better slide order, then show before and after side by side
+ * so the user can accept or reject it
+ */
+export default function SlideFlowPanel({ presentation, onEdit }: SlideFlowPanelProps) {
+  const [mode, setMode] = useState<FlowMode>('pitch');
+  const [loading, setLoading] = useState(false);
+  const [proposal, setProposal] = useState<SlideOrder | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const suggest = async () => {
+    setLoading(true);
+    setError(null);
+    setProposal(null);
+    try {
+      setProposal(await reorderSlides(presentation, mode));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reorder the slides');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changes = proposal ? getOrderChanges(presentation.slides, proposal.order) : [];
+  const moved = new Set(changes.map(change => change.slideId));
+  const titleOf = (id: string) => presentation.slides.find(slide => slide.id === id)?.title ?? id;
+
+  return (
+    <section aria-label="Slide order" className="mt-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <h4 className="text-xs uppercase tracking-wide text-gray-500 mr-auto">Story flow</h4>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as FlowMode)}
+          disabled={loading}
+          aria-label="Presentation type"
+          className="px-2 py-1.5 bg-gray-100 rounded-lg text-sm text-gray-700"
+        >
+          {FLOW_MODES.map(value => <option key={value} value={value}>{FLOW_MODE_LABELS[value]}</option>)}
+        </select>
+        <button type="button" onClick={suggest} disabled={loading} className={`${buttonClass} bg-gray-100 text-gray-700 hover:bg-gray-200`}>
+          {loading ? 'Thinking…' : 'Suggest slide order'}
+        </button>
+      </div>
+
+      {error && <p role="alert" className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {proposal && changes.length === 0 && (
+        <p role="status" className="mt-2 text-sm text-gray-600">
+          {proposal.source === 'fallback'
+            ? "The AI couldn't suggest a usable order, so the slides stay as they are."
+            : 'The slides are already in a good order for this kind of deck.'}
+        </p>
+      )}
+
+      {proposal && changes.length > 0 && (
+        <div className="mt-3 rounded-lg border border-gray-200 p-3">
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <h5 className="font-medium text-gray-900 mb-1">Current</h5>
+              <ol className="list-decimal pl-5 space-y-0.5 text-gray-600">
+                {presentation.slides.map(slide => <li key={slide.id}>{slide.title}</li>)}
+              </ol>
+            </div>
+            <div>
+              <h5 className="font-medium text-gray-900 mb-1">Suggested</h5>
+              <ol className="list-decimal pl-5 space-y-0.5">
+                {proposal.order.map(id => (
+                  <li key={id} className={moved.has(id) ? 'text-blue-700 font-medium' : 'text-gray-600'}>
+                    {titleOf(id)}
+                    {moved.has(id) && (
+                      <span className="ml-1 text-xs text-blue-500">
+                        (was {changes.find(change => change.slideId === id)!.from + 1})
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+          <div className="mt-3 flex justify-end gap-2">
+            <button type="button" onClick={() => setProposal(null)} className={`${buttonClass} bg-gray-100 text-gray-700 hover:bg-gray-200`}>
+              Keep current order
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                onEdit({ type: 'reorderSlides', slideIds: proposal.order });
+                setProposal(null);
+              }}
+              className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}
+            >
+              Use suggested order
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import type { Slide } from '@/types/slides';
+import { getSlideVariants } from '@/lib/slide-animation';
+import { useReducedMotion } from '@/lib/accessibility';
+
+/**
+ * Plays slide transitions when `slide` changes: the outgoing slide runs its exit
+ * animation, then the new one its enter animation. Instant with reduced motion.
+ */
+
+interface SlideTransitionProps {
+  slide: Slide;
+  children: ReactNode;
+  className?: string;
+}
+
+export default function SlideTransition({ slide, children, className }: SlideTransitionProps) {
+  const reducedMotion = useReducedMotion();
+  const variants = reducedMotion ? null : getSlideVariants(slide);
+
+  return (
+    <AnimatePresence mode="wait" initial={false}>
+      <motion.div
+        key={slide.id}
+        className={className}
+        {...(variants && { variants, initial: 'hidden', animate: 'visible', exit: 'exit' })}
+      >
+        {children}
+      </motion.div>
+    </AnimatePresence>
+  );
+}
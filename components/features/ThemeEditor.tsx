@@ -0,0 +1,208 @@
+// components/features/ThemeEditor.tsx
+'use client';
+
+import { useMemo, useState, type FormEvent } from 'react';
+import { motion } from 'framer-motion';
+import SlideCanvas from '@/components/features/SlideCanvas';
+import {
+  DEFAULT_THEME_SPACING,
+  THEME_FONT_OPTIONS,
+  THEME_LAYOUTS,
+  checkThemeContrast,
+  formatContrastRatio
+} from '@/lib/themes';
+import type { ThemeDraft } from '@/hooks/useThemes';
+import type { Slide, SlideTheme } from '@/types/slides';
+
+/**
+ * Build or edit a custom theme - colors, fonts, layout and spacing, with a live
+ * slide preview and a WCAG AA contrast check for every text color. Themes that fail
+ * the check can't be saved (the server enforces the same rule).
+ */
+
+interface ThemeEditorProps {
+  theme: SlideTheme; // Starting point - a built-in theme to copy, or one of the user's own
+  onSave: (draft: ThemeDraft) => Promise<void>;
+  onDelete?: () => Promise<void>; // Only for the user's own themes
+  onClose: () => void;
+}
+
+const COLOR_FIELDS: { key: 'primary' | 'secondary' | 'accent' | 'background' | 'text'; label: string }[] = [
+  { key: 'background', label: 'Background' },
+  { key: 'text', label: 'Body text' },
+  { key: 'primary', label: 'Titles' },
+  { key: 'secondary', label: 'Subtitles' },
+  { key: 'accent', label: 'Accent' }
+];
+
+const SPACING_FIELDS = ['small', 'medium', 'large'] as const;
+
+const toDraft = ({ id: _id, ...theme }: SlideTheme): ThemeDraft => ({
+  ...theme,
+  spacing: theme.spacing ?? DEFAULT_THEME_SPACING
+});
+
+// A representative slide for the preview - one of each kind of text the theme colors
+export const buildPreviewSlide = (theme: SlideTheme): Slide => ({
+  id: 'theme-preview',
+  title: 'Theme preview',
+  theme,
+  contents: [
+    { id: 'preview-title', type: 'title', content: 'Quarterly Review', position: { x: 50, y: 22 }, style: { fontSize: '3rem', fontWeight: 'bold', alignment: 'center' } },
+    { id: 'preview-subtitle', type: 'subtitle', content: 'Highlights and next steps', position: { x: 50, y: 38 }, style: { fontSize: '1.5rem', alignment: 'center' } },
+    { id: 'preview-bullet-1', type: 'bullet', content: 'Revenue up 12% across regions', position: { x: 50, y: 58 }, style: { alignment: 'left' } },
+    { id: 'preview-bullet-2', type: 'bullet', content: 'Two new enterprise customers', position: { x: 50, y: 70 }, style: { alignment: 'left' } }
+  ]
+});
+
+const fieldClass = 'w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+const labelClass = 'block text-xs font-medium text-gray-600 dark:text-gray-300 space-y-1';
+
+export default function ThemeEditor({ theme, onSave, onDelete, onClose }: ThemeEditorProps) {
+  const [draft, setDraft] = useState<ThemeDraft>(() => toDraft(theme));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const checks = useMemo(() => checkThemeContrast(draft.colors), [draft.colors]);
+  const isReadable = checks.every(check => check.passes);
+  const previewSlide = useMemo(() => buildPreviewSlide({ ...draft, id: 'theme-preview' }), [draft]);
+
+  const setColor = (key: keyof SlideTheme['colors'], value: string) =>
+    setDraft(current => ({ ...current, colors: { ...current.colors, [key]: value } }));
+
+  const setFont = (key: 'heading' | 'body', value: string) =>
+    setDraft(current => ({ ...current, fonts: { ...current.fonts, [key]: value } }));
+
+  const setSpacing = (key: typeof SPACING_FIELDS[number], value: string) =>
+    setDraft(current => ({ ...current, spacing: { ...DEFAULT_THEME_SPACING, ...current.spacing, [key]: value } }));
+
+  // Keep a theme's current font selectable even when it isn't one we offer
+  const fontOptions = (current: string) => THEME_FONT_OPTIONS.includes(current) ? THEME_FONT_OPTIONS : [current, ...THEME_FONT_OPTIONS];
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save theme.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    run(() => onSave(draft));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.form
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        onSubmit={handleSubmit}
+        onClick={event => event.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Theme editor"
+        className="bg-white dark:bg-gray-900 rounded-2xl p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto shadow-2xl border border-gray-200 dark:border-gray-700 grid gap-6 md:grid-cols-[18rem_1fr]"
+      >
+        <div className="space-y-4">
+          <label className={labelClass}>
+            <span>Name</span>
+            <input value={draft.name} onChange={event => setDraft(current => ({ ...current, name: event.target.value }))} maxLength={60} required className={fieldClass} />
+          </label>
+
+          <fieldset className="grid grid-cols-2 gap-3">
+            <legend className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Colors</legend>
+            {COLOR_FIELDS.map(field => (
+              <label key={field.key} className={labelClass}>
+                <span>{field.label}</span>
+                <input
+                  type="color"
+                  value={draft.colors[field.key]}
+                  onChange={event => setColor(field.key, event.target.value)}
+                  className="block w-full h-9 rounded-lg border border-gray-200 dark:border-gray-700 bg-transparent cursor-pointer"
+                />
+              </label>
+            ))}
+          </fieldset>
+
+          <fieldset className="space-y-3">
+            <legend className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Fonts &amp; layout</legend>
+            {(['heading', 'body'] as const).map(key => (
+              <label key={key} className={labelClass}>
+                <span>{key === 'heading' ? 'Heading font' : 'Body font'}</span>
+                <select value={draft.fonts[key]} onChange={event => setFont(key, event.target.value)} className={fieldClass}>
+                  {fontOptions(draft.fonts[key]).map(font => <option key={font} value={font}>{font.split(',')[0]}</option>)}
+                </select>
+              </label>
+            ))}
+            <label className={labelClass}>
+              <span>Layout</span>
+              <select
+                value={draft.layout}
+                onChange={event => setDraft(current => ({ ...current, layout: event.target.value as SlideTheme['layout'] }))}
+                className={`${fieldClass} capitalize`}
+              >
+                {THEME_LAYOUTS.map(layout => <option key={layout} value={layout}>{layout}</option>)}
+              </select>
+            </label>
+          </fieldset>
+
+          <fieldset className="grid grid-cols-3 gap-2">
+            <legend className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Spacing</legend>
+            {SPACING_FIELDS.map(key => (
+              <label key={key} className={`${labelClass} capitalize`}>
+                <span>{key}</span>
+                <input value={draft.spacing?.[key] ?? ''} onChange={event => setSpacing(key, event.target.value)} placeholder={DEFAULT_THEME_SPACING[key]} className={fieldClass} />
+              </label>
+            ))}
+          </fieldset>
+        </div>
+
+        <div className="space-y-4">
+          <SlideCanvas slide={previewSlide} className="rounded-xl shadow-lg border border-gray-200 dark:border-gray-700" label="Theme preview" />
+
+          <ul aria-label="Contrast checks" className="space-y-1 text-sm">
+            {checks.map(check => (
+              <li key={check.label} className={`flex justify-between ${check.passes ? 'text-gray-600 dark:text-gray-300' : 'text-red-600 font-medium'}`}>
+                <span>{check.passes ? '✓' : '✗'} {check.label}</span>
+                <span>{formatContrastRatio(check.ratio)} (AA needs {check.minimum}:1)</span>
+              </li>
+            ))}
+          </ul>
+
+          {!isReadable && (
+            <p role="status" className="text-sm text-red-600">
+              Some text is too hard to read against the background. Adjust the colors marked ✗ to save this theme.
+            </p>
+          )}
+          {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex items-center justify-between gap-2">
+            {onDelete ? (
+              <button type="button" onClick={() => run(onDelete)} disabled={isSaving} className="px-4 py-2 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 dark:hover:bg-red-950/30 disabled:opacity-50">
+                Delete theme
+              </button>
+            ) : <span />}
+            <div className="flex gap-2">
+              <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800">
+                Cancel
+              </button>
+              <button type="submit" disabled={isSaving || !isReadable} className="px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50">
+                {isSaving ? 'Saving...' : 'Save theme'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+}
@@ -0,0 +1,101 @@
+// components/features/ThemeSelector.tsx
+'use client';
+
+import { memo } from 'react';
+import type { SlideTheme } from '@/types/slides';
+
+interface ThemeSelectorProps {
+  themes: SlideTheme[];        // Built-in themes
+  customThemes?: SlideTheme[]; // The signed-in user's own
+  selectedTheme: string;
+  onThemeChange: (themeId: string) => void;
+  onCreateTheme?: () => void;  // Leave out to hide theme building (e.g. when signed out)
+  onEditTheme?: (theme: SlideTheme) => void;
+  disabled?: boolean;
+}
+
+// The theme's own colors, so the choice looks like the slides it will make
+const ThemeSwatch = ({ theme }: { theme: SlideTheme }) => (
+  <div
+    className="w-full h-6 sm:h-8 rounded mb-1 sm:mb-2 flex items-center justify-center gap-1 border border-black/5"
+    style={{ backgroundColor: theme.colors.background }}
+    aria-hidden="true"
+  >
+    {[theme.colors.primary, theme.colors.secondary, theme.colors.accent].map((color, index) => (
+      <span key={index} className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />
+    ))}
+  </div>
+);
+
+const ThemeSelector = memo<ThemeSelectorProps>(({
+  themes,
+  customThemes = [],
+  selectedTheme,
+  onThemeChange,
+  onCreateTheme,
+  onEditTheme,
+  disabled
+}) => {
+  const optionClass = (themeId: string) =>
+    `w-full p-2 sm:p-3 rounded-lg border-2 transition-all duration-200 touch-manipulation ${
+      selectedTheme === themeId
+        ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/20'
+        : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+    }`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-900 dark:text-white">
+          Theme
+        </label>
+        {onCreateTheme && (
+          <button
+            type="button"
+            onClick={onCreateTheme}
+            disabled={disabled}
+            className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+          >
+            + New theme
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {[...themes, ...customThemes].map((theme) => {
+          const isCustom = customThemes.includes(theme);
+          return (
+            <div key={theme.id} className="relative">
+              <button
+                type="button"
+                onClick={() => onThemeChange(theme.id)}
+                disabled={disabled}
+                aria-pressed={selectedTheme === theme.id}
+                className={optionClass(theme.id)}
+              >
+                <ThemeSwatch theme={theme} />
+                <span className="block truncate text-xs font-medium text-gray-900 dark:text-white">
+                  {theme.name}
+                </span>
+              </button>
+              {isCustom && onEditTheme && (
+                <button
+                  type="button"
+                  onClick={() => onEditTheme(theme)}
+                  disabled={disabled}
+                  aria-label={`Edit ${theme.name}`}
+                  className="absolute top-1 right-1 px-1.5 text-xs rounded bg-white/80 dark:bg-gray-900/80 text-gray-600 dark:text-gray-300 hover:text-blue-600"
+                >
+                  ✎
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
+
+ThemeSelector.displayName = 'ThemeSelector';
+
+export default ThemeSelector;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import PresentationMode from '../PresentationMode';
+import type { Slide, SlidePresentation, SlideTheme } from '@/types/slides';
+
+const theme: SlideTheme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: { primary: '#2563eb', secondary: '#64748b', accent: '#f59e0b', background: '#ffffff', text: '#1e293b' },
+  fonts: { heading: 'Inter', body: 'Inter' },
+  layout: 'modern'
+};
+
+const makeSlide = (id: string, title: string): Slide => ({
+  id,
+  title,
+  theme,
+  contents: [{ id: `${id}-title`, type: 'title', content: title, position: { x: 50, y: 20 }, style: { alignment: 'center' } }]
+});
+
+const presentation: SlidePresentation = {
+  id: 'deck-1',
+  title: 'Quarterly review',
+  slides: [makeSlide('a', 'Intro'), makeSlide('b', 'Results'), makeSlide('c', 'Next steps')],
+  theme,
+  metadata: { created: new Date(), updated: new Date() },
+  settings: {}
+};
+
+describe('PresentationMode', () => {
+  it('steps through slides with the keyboard and exits on the current slide', () => {
+    const onExit = jest.fn();
+    render(<PresentationMode presentation={presentation} config={{ controlsPosition: 'bottom' }} startIndex={1} onExit={onExit} />);
+
+    expect(screen.getByLabelText('Slide 2 of 3: Results')).toBeInTheDocument();
+
+    fireEvent.keyDown(document, { key: 'ArrowRight' });
+    expect(screen.getByLabelText('Slide 3 of 3: Next steps')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Next slide' })).toBeDisabled();
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+    expect(onExit).toHaveBeenCalledWith(2);
+  });
+
+  it('auto-advances on the deck delay', () => {
+    jest.useFakeTimers();
+    render(<PresentationMode presentation={presentation} config={{ autoAdvance: true, autoAdvanceDelay: 5 }} onExit={jest.fn()} />);
+
+    act(() => {
+      jest.advanceTimersByTime(5000);
+    });
+    expect(screen.getByLabelText('Slide 2 of 3: Results')).toBeInTheDocument();
+    jest.useRealTimers();
+  });
+
+  it('tells the presenter window the show is over when it closes', () => {
+    // A stand-in BroadcastChannel that, like the real one, refuses to post once closed
+    const received: unknown[] = [];
+    class FakeChannel {
+      closed = false;
+      onmessage: ((event: MessageEvent) => void) | null = null;
+      constructor(readonly name: string) {}
+      postMessage(message: unknown) {
+        if (this.closed) throw new Error('InvalidStateError: channel is closed');
+        received.push(message);
+      }
+      close() {
+        this.closed = true;
+      }
+    }
+    (globalThis as any).BroadcastChannel = FakeChannel;
+
+    try {
+      const { unmount } = render(<PresentationMode presentation={presentation} config={{}} onExit={jest.fn()} />);
+      unmount();
+
+      expect(received.at(-1)).toEqual({ type: 'end' });
+    } finally {
+      delete (globalThis as any).BroadcastChannel;
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import SlideEditor from '../SlideEditor';
+import { rewriteWithAI } from '@/utils/rewriteWithAI';
+import type { SlidePresentation, SlideTheme } from '@/types/slides';
+
+jest.mock('@/utils/rewriteWithAI', () => ({
+  rewriteWithAI: jest.fn()
+}));
+
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
+const theme: SlideTheme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: { primary: '#2563eb', secondary: '#64748b', accent: '#f59e0b', background: '#ffffff', text: '#1e293b' },
+  fonts: { heading: 'Inter', body: 'Inter' },
+  layout: 'modern'
+};
+
+const presentation: SlidePresentation = {
+  id: 'presentation-1',
+  title: 'Deck',
+  theme,
+  metadata: { created: new Date(), updated: new Date() },
+  settings: {},
+  slides: [{
+    id: 'slide-1',
+    title: 'Revenue',
+    theme,
+    contents: [
+      { id: 'title-1', type: 'title', content: 'Revenue', position: { x: 50, y: 20 } },
+      { id: 'bullet-1', type: 'bullet', content: 'Up 12%', position: { x: 20, y: 40 } }
+    ]
+  }]
+};
+
+describe('SlideEditor', () => {
+  it('sends inline text edits as presentation edits', async () => {
+    const user = userEvent.setup();
+    const onEdit = jest.fn();
+    render(<SlideEditor presentation={presentation} currentSlideIndex={0} onSlideChange={jest.fn()} onEdit={onEdit} />);
+
+    await user.click(screen.getByRole('button', { name: 'Edit slide title' }));
+    const input = screen.getByRole('textbox', { name: 'slide title' });
+    await user.clear(input);
+    await user.type(input, 'Revenue by region{Enter}');
+
+    expect(onEdit).toHaveBeenCalledWith({
+      type: 'updateContent',
+      slideId: 'slide-1',
+      contentId: 'title-1',
+      content: 'Revenue by region'
+    });
+  });
+
+  it('adds a slide after the current one and moves to it', async () => {
+    const user = userEvent.setup();
+    const onEdit = jest.fn();
+    const onSlideChange = jest.fn();
+    render(<SlideEditor presentation={presentation} currentSlideIndex={0} onSlideChange={onSlideChange} onEdit={onEdit} />);
+
+    await user.click(screen.getByRole('button', { name: '+ New slide' }));
+
+    expect(onEdit).toHaveBeenCalledWith({ type: 'addSlide', afterSlideId: 'slide-1' });
+    expect(onSlideChange).toHaveBeenCalledWith(1);
+    expect(screen.getByRole('button', { name: 'Delete' })).toBeDisabled();
+  });
+
+  it('previews an AI rewrite as a diff and applies it as an edit', async () => {
+    const user = userEvent.setup();
+    const onEdit = jest.fn();
+    (rewriteWithAI as jest.Mock).mockImplementation(async (_request, onText) => {
+      onText('- Revenue');
+      onText('- Revenue up 12%');
+      return '- Revenue up 12%';
+    });
+    render(<SlideEditor presentation={presentation} currentSlideIndex={0} onSlideChange={jest.fn()} onEdit={onEdit} />);
+
+    await user.click(screen.getByRole('button', { name: 'Rewrite bullet 1 with AI' }));
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Rewrite action' }), 'expand');
+    await user.click(screen.getByRole('button', { name: 'Rewrite' }));
+
+    expect(rewriteWithAI).toHaveBeenCalledWith(
+      expect.objectContaining({ text: '- Up 12%', action: 'expand', slideTitle: 'Revenue' }),
+      expect.any(Function),
+      expect.any(AbortSignal)
+    );
+    expect(screen.getByText('Up', { selector: 'del' })).toBeInTheDocument();
+    expect(screen.getByText('Revenue up', { selector: 'ins' })).toBeInTheDocument();
+    expect(onEdit).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Apply' }));
+    expect(onEdit).toHaveBeenCalledWith({
+      type: 'rewriteContent',
+      slideId: 'slide-1',
+      contentIds: ['bullet-1'],
+      contents: [{ type: 'bullet', content: 'Revenue up 12%' }]
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import ThemeSelector from '../ThemeSelector';
+import { DEFAULT_THEMES } from '@/lib/themes';
+import type { SlideTheme } from '@/types/slides';
+
+const brandTheme: SlideTheme = {
+  id: 'brand-1',
+  name: 'Acme Brand',
+  colors: { primary: '#b91c1c', secondary: '#57534e', accent: '#facc15', background: '#fafaf9', text: '#1c1917' },
+  fonts: { heading: 'Georgia, serif', body: 'Inter, sans-serif' },
+  layout: 'classic'
+};
+
+describe('ThemeSelector', () => {
+  it('lists built-in and custom themes and marks the selected one', () => {
+    const onThemeChange = jest.fn();
+    render(<ThemeSelector themes={DEFAULT_THEMES} customThemes={[brandTheme]} selectedTheme="minimal" onThemeChange={onThemeChange} />);
+
+    expect(screen.getByRole('button', { name: 'Clean Minimal' })).toHaveAttribute('aria-pressed', 'true');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Acme Brand' }));
+    expect(onThemeChange).toHaveBeenCalledWith('brand-1');
+  });
+
+  it('only offers theme building when given the handlers', () => {
+    const onEditTheme = jest.fn();
+    const { rerender } = render(<ThemeSelector themes={DEFAULT_THEMES} customThemes={[brandTheme]} selectedTheme="modern" onThemeChange={jest.fn()} />);
+
+    expect(screen.queryByRole('button', { name: '+ New theme' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Edit Acme Brand' })).not.toBeInTheDocument();
+
+    rerender(
+      <ThemeSelector
+        themes={DEFAULT_THEMES}
+        customThemes={[brandTheme]}
+        selectedTheme="modern"
+        onThemeChange={jest.fn()}
+        onCreateTheme={jest.fn()}
+        onEditTheme={onEditTheme}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Acme Brand' }));
+    expect(onEditTheme).toHaveBeenCalledWith(brandTheme);
+    // Built-in themes can be copied, not edited
+    expect(screen.queryByRole('button', { name: 'Edit Clean Minimal' })).not.toBeInTheDocument();
+  });
+});
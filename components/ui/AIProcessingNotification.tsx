@@ -2,29 +2,45 @@
 'use client';
 
 import { motion, AnimatePresence } from 'framer-motion';
-import { SparklesIcon, BeakerIcon, BoltIcon } from '@heroicons/react/24/outline';
+import { SparklesIcon, BeakerIcon, BoltIcon, ArrowUpTrayIcon, Squares2X2Icon } from '@heroicons/react/24/outline';
+import type { AnalysisProgress } from '@/types/slides';
 
 interface AIProcessingNotificationProps {
-  stage: 'analyzing' | 'generating-theme' | 'creating-notes' | 'optimizing' | 'complete';
+  stage: Exclude<AnalysisProgress['stage'], 'error'>;
   isVisible: boolean;
+  message?: string; // Live detail from the server, in place of the stage description
 }
 
 const STAGE_CONFIG = {
+  uploading: {
+    icon: ArrowUpTrayIcon,
+    title: 'Uploading',
+    description: 'Sending your images to the AI...',
+    color: 'from-slate-500 to-blue-500',
+    particles: 6
+  },
   analyzing: {
     icon: BeakerIcon,
     title: 'Advanced AI Analysis',
-    description: 'Gemini 1.5 Pro is analyzing your image with enhanced prompts...',
+    description: 'The AI is reading your image with enhanced prompts...',
     color: 'from-blue-500 to-cyan-500',
     particles: 12
   },
-  'generating-theme': {
+  theme: {
     icon: SparklesIcon,
     title: 'Smart Theme Generation',
     description: 'Creating custom theme using color psychology...',
     color: 'from-purple-500 to-pink-500',
     particles: 8
   },
-  'creating-notes': {
+  generating: {
+    icon: Squares2X2Icon,
+    title: 'Building Slides',
+    description: 'Laying out your slides...',
+    color: 'from-indigo-500 to-purple-500',
+    particles: 10
+  },
+  notes: {
     icon: BoltIcon,
     title: 'Speaker Notes Creation',
     description: 'Generating intelligent presentation coaching notes...',
@@ -34,7 +50,7 @@ const STAGE_CONFIG = {
   optimizing: {
     icon: SparklesIcon,
     title: 'Content Optimization',
-    description: 'Optimizing slide flow and cognitive load...',
+    description: 'Fitting text to every slide...',
     color: 'from-orange-500 to-red-500',
     particles: 15
   },
@@ -47,7 +63,7 @@ const STAGE_CONFIG = {
   }
 };
 
-export default function AIProcessingNotification({ stage, isVisible }: AIProcessingNotificationProps) {
+export default function AIProcessingNotification({ stage, isVisible, message }: AIProcessingNotificationProps) {
   const config = STAGE_CONFIG[stage];
 
   return (
@@ -109,7 +125,7 @@ export default function AIProcessingNotification({ stage, isVisible }: AIProcess
                   {config.title}
                 </h3>
                 <p className="text-white/90 text-sm leading-relaxed">
-                  {config.description}
+                  {message ?? config.description}
                 </p>
                 
                 {/* Progress indicator for non-complete stages */}
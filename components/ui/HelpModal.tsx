@@ -13,7 +13,10 @@ const HelpModal = memo<HelpModalProps>(({ isOpen, onClose }) => {
   const shortcuts = [
     { key: 'Ctrl + N', description: 'New presentation' },
     { key: 'Ctrl + S', description: 'Save (auto-save enabled)' },
+    { key: 'Ctrl + Z', description: 'Undo last edit' },
+    { key: 'Ctrl + Y', description: 'Redo' },
     { key: 'F5', description: 'Start presentation' },
+    { key: 'P', description: 'Open presenter view (while presenting)' },
     { key: 'Escape', description: 'Exit presentation' },
     { key: '← →', description: 'Navigate slides' },
     { key: 'Ctrl + /', description: 'Show this help' },
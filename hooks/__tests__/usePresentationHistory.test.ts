@@ -0,0 +1,109 @@
+import { act, renderHook } from '@testing-library/react';
+import { MAX_HISTORY, usePresentationHistory } from '../usePresentationHistory';
+import type { SlidePresentation, SlideTheme } from '@/types/slides';
+
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
+const theme: SlideTheme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: { primary: '#2563eb', secondary: '#64748b', accent: '#f59e0b', background: '#ffffff', text: '#1e293b' },
+  fonts: { heading: 'Inter', body: 'Inter' },
+  layout: 'modern'
+};
+
+const makePresentation = (title = 'Deck'): SlidePresentation => ({
+  id: 'presentation-1',
+  title,
+  theme,
+  metadata: { created: new Date(0), updated: new Date(0), totalSlides: 1 },
+  settings: {},
+  slides: [{
+    id: 'slide-1',
+    title: 'Revenue',
+    theme,
+    contents: [{ id: 'title-1', type: 'title', content: 'Revenue', position: { x: 50, y: 20 } }]
+  }]
+});
+
+const rename = (content: string) =>
+  ({ type: 'updateContent', slideId: 'slide-1', contentId: 'title-1', content } as const);
+
+const titleOf = (presentation: SlidePresentation | null) => presentation?.slides[0]?.title;
+
+describe('usePresentationHistory', () => {
+  let now: jest.SpyInstance;
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(10_000);
+  });
+  afterEach(() => now.mockRestore());
+
+  it('undoes and redoes edits', () => {
+    const { result } = renderHook(() => usePresentationHistory(makePresentation()));
+
+    act(() => result.current.applyEdit({ type: 'addSlide', afterSlideId: 'slide-1' }));
+    expect(result.current.presentation?.slides).toHaveLength(2);
+    expect(result.current.canUndo).toBe(true);
+
+    act(() => result.current.undo());
+    expect(result.current.presentation?.slides).toHaveLength(1);
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => result.current.redo());
+    expect(result.current.presentation?.slides).toHaveLength(2);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('coalesces rapid text edits to the same element', () => {
+    const { result } = renderHook(() => usePresentationHistory(makePresentation()));
+
+    act(() => result.current.applyEdit(rename('R')));
+    now.mockReturnValue(10_500);
+    act(() => result.current.applyEdit(rename('Re')));
+    now.mockReturnValue(20_000);
+    act(() => result.current.applyEdit(rename('Results')));
+
+    act(() => result.current.undo());
+    expect(titleOf(result.current.presentation)).toBe('Re');
+    act(() => result.current.undo());
+    expect(titleOf(result.current.presentation)).toBe('Revenue');
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it('records replacements and drops the redo stack on a new change', () => {
+    const { result } = renderHook(() => usePresentationHistory(makePresentation('First')));
+
+    act(() => result.current.replace(makePresentation('Regenerated')));
+    act(() => result.current.undo());
+    expect(result.current.presentation?.title).toBe('First');
+
+    act(() => result.current.applyEdit(rename('Changed')));
+    expect(result.current.canRedo).toBe(false);
+
+    act(() => result.current.reset());
+    expect(result.current.presentation).toBeNull();
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it('keeps at most MAX_HISTORY undo steps', () => {
+    const { result } = renderHook(() => usePresentationHistory(makePresentation()));
+
+    for (let i = 0; i < MAX_HISTORY + 5; i++) {
+      act(() => result.current.applyEdit({ type: 'addSlide' }));
+    }
+    for (let i = 0; i < MAX_HISTORY + 5; i++) {
+      act(() => result.current.undo());
+    }
+    expect(result.current.presentation?.slides).toHaveLength(6);
+  });
+
+  it('ignores edits that change nothing', () => {
+    const { result } = renderHook(() => usePresentationHistory(makePresentation()));
+
+    act(() => result.current.applyEdit({ type: 'removeSlide', slideId: 'slide-1' }));
+    expect(result.current.canUndo).toBe(false);
+  });
+});
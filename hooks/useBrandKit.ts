@@ -0,0 +1,71 @@
+// hooks/useBrandKit.ts
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { BrandKit } from '@/lib/brand-kit';
+
+// Brand kits belong to an account - pass enabled: false while signed out
+export const useBrandKit = ({ enabled }: { enabled: boolean }) => {
+  const [brandKit, setBrandKit] = useState<BrandKit | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/brand-kit');
+      if (!response.ok) {
+        throw new Error('Failed to load brand kit');
+      }
+
+      const result = await response.json();
+      setBrandKit(result.data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load brand kit');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) {
+      refresh();
+    } else {
+      setBrandKit(null);
+    }
+  }, [enabled, refresh]);
+
+  const saveBrandKit = useCallback(async (kit: BrandKit) => {
+    const response = await fetch('/api/brand-kit', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(kit)
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to save brand kit');
+    }
+    setBrandKit(result.data);
+    return result.data as BrandKit;
+  }, []);
+
+  const deleteBrandKit = useCallback(async () => {
+    const response = await fetch('/api/brand-kit', { method: 'DELETE' });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to delete brand kit');
+    }
+    setBrandKit(null);
+  }, []);
+
+  return {
+    brandKit,
+    isLoading,
+    error,
+    saveBrandKit,
+    deleteBrandKit,
+    refresh
+  };
+};
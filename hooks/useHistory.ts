@@ -3,13 +3,19 @@
 
 import { useState, useEffect, useCallback } from 'react';
 
+// Mirrors HistorySummary from lib/history.ts, with dates as they arrive over JSON
 interface Conversion {
   _id: string;
+  title: string;
   summary: string;
-  timestamp: string;
   themeUsed: string;
   outputType: 'pptx' | 'interactive';
-  generatedSlidesUrl?: string;
+  slideCount: number;
+  inputImageUrl: string | null;
+  generatedSlidesUrl: string | null;
+  visibility: 'private' | 'unlisted' | 'public';
+  createdAt: string;
+  updatedAt: string;
 }
 
 export const useHistory = () => {
@@ -11,17 +11,24 @@ interface KeyboardShortcuts {
 interface UseKeyboardShortcutsOptions {
   enabled?: boolean;      // Turn shortcuts on/off
   preventDefault?: boolean; // Stop browser from handling the key
+  ignoreWhileTyping?: boolean; // Leave keys alone in text fields (e.g. native Ctrl+Z there)
 }
 
+// True when the key press lands in something the user is typing into
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
 export const useKeyboardShortcuts = (
   shortcuts: KeyboardShortcuts,
   options: UseKeyboardShortcutsOptions = {}
 ) => {
-  const { enabled = true, preventDefault = true } = options;
+  const { enabled = true, preventDefault = true, ignoreWhileTyping = false } = options;
 
   // Handle when user presses keys
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     if (!enabled) return; // Shortcuts are disabled
+    if (ignoreWhileTyping && isTypingTarget(event.target)) return;
 
     // Figure out what key combination was pressed
     const key = event.key.toLowerCase();
@@ -49,7 +56,7 @@ export const useKeyboardShortcuts = (
       // Run our custom function
       handler();
     }
-  }, [shortcuts, enabled, preventDefault]);
+  }, [shortcuts, enabled, preventDefault, ignoreWhileTyping]);
 
   // Set up the keyboard listener when component mounts
   useEffect(() => {
@@ -70,6 +77,7 @@ export const SHORTCUTS = {
   PASTE: 'ctrl+v',
   UNDO: 'ctrl+z',
   REDO: 'ctrl+y',
+  REDO_ALT: 'ctrl+shift+z', // Redo on Mac
   PRESENT: 'f5',
   EXIT_PRESENT: 'escape',
   NEXT_SLIDE: 'arrowright',
@@ -0,0 +1,130 @@
+// hooks/usePresentationHistory.ts
+'use client';
+
+import { useReducer, useCallback } from 'react';
+import type { SlidePresentation } from '@/types/slides';
+import { applyEdit, type PresentationEdit } from '@/lib/presentation-edits';
+
+// Keep this many undo steps. applyEdit shares untouched slides between versions,
+// so each step only costs the slides it changed
+export const MAX_HISTORY = 50;
+
+// Text edits to the same element this close together undo as one step
+export const COALESCE_WINDOW_MS = 1000;
+
+interface HistoryState {
+  past: SlidePresentation[];
+  present: SlidePresentation | null;
+  future: SlidePresentation[];
+  coalesceKey: string | null; // Element the last text edit touched
+  lastEditAt: number;
+}
+
+type HistoryAction =
+  | { type: 'edit'; edit: PresentationEdit; at: number }
+  | { type: 'replace'; presentation: SlidePresentation | null }
+  | { type: 'reset'; presentation: SlidePresentation | null }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const initialState = (presentation: SlidePresentation | null): HistoryState => ({
+  past: [],
+  present: presentation,
+  future: [],
+  coalesceKey: null,
+  lastEditAt: 0
+});
+
+const getCoalesceKey = (edit: PresentationEdit) =>
+  edit.type === 'updateContent' ? `${edit.slideId}:${edit.contentId}` : null;
+
+// Push the current version onto the undo stack, dropping the oldest beyond the cap
+const record = (state: HistoryState, next: SlidePresentation | null): HistoryState => ({
+  past: state.present ? [...state.past, state.present].slice(-MAX_HISTORY) : state.past,
+  present: next,
+  future: [],
+  coalesceKey: null,
+  lastEditAt: 0
+});
+
+function historyReducer(state: HistoryState, action: HistoryAction): HistoryState {
+  switch (action.type) {
+    case 'edit': {
+      if (!state.present) return state;
+      const next = applyEdit(state.present, action.edit);
+      if (next === state.present) return state;
+
+      const key = getCoalesceKey(action.edit);
+      if (key && key === state.coalesceKey && action.at - state.lastEditAt < COALESCE_WINDOW_MS) {
+        return { ...state, present: next, future: [], lastEditAt: action.at };
+      }
+      return { ...record(state, next), coalesceKey: key, lastEditAt: action.at };
+    }
+
+    case 'replace':
+      return action.presentation === state.present ? state : record(state, action.presentation);
+
+    case 'reset':
+      return initialState(action.presentation);
+
+    case 'undo': {
+      const previous = state.past[state.past.length - 1];
+      if (!previous) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: previous,
+        future: state.present ? [state.present, ...state.future] : state.future,
+        coalesceKey: null,
+        lastEditAt: 0
+      };
+    }
+
+    case 'redo': {
+      const [next, ...future] = state.future;
+      if (!next) return state;
+      return {
+        past: state.present ? [...state.past, state.present].slice(-MAX_HISTORY) : state.past,
+        present: next,
+        future,
+        coalesceKey: null,
+        lastEditAt: 0
+      };
+    }
+  }
+}
+
+/**
+ * Presentation state with undo/redo
+ * - applyEdit: record an editor change (rapid text edits to one element coalesce)
+ * - replace: swap in a whole new version, e.g. an AI regeneration, as one undoable step
+ * - reset: start over with no history (new presentation)
+ */
+export const usePresentationHistory = (initial: SlidePresentation | null = null) => {
+  const [state, dispatch] = useReducer(historyReducer, initial, initialState);
+
+  const applyPresentationEdit = useCallback((edit: PresentationEdit) => {
+    dispatch({ type: 'edit', edit, at: Date.now() });
+  }, []);
+
+  const replace = useCallback((presentation: SlidePresentation | null) => {
+    dispatch({ type: 'replace', presentation });
+  }, []);
+
+  const reset = useCallback((presentation: SlidePresentation | null = null) => {
+    dispatch({ type: 'reset', presentation });
+  }, []);
+
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  return {
+    presentation: state.present,
+    applyEdit: applyPresentationEdit,
+    replace,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+};
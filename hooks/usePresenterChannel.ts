@@ -0,0 +1,40 @@
+// hooks/usePresenterChannel.ts
+'use client';
+
+import { useEffect, useRef, useCallback } from 'react';
+import { openPresenterChannel, type PresenterChannel, type PresenterMessage } from '@/lib/presenter-channel';
+
+/**
+ * Subscribe to the presenter channel for a presentation while mounted
+ * The handler can change every render; the channel is only reopened when the id changes
+ * `closeMessage` is posted just before the channel closes, so the other window hears it
+ */
+export const usePresenterChannel = (
+  presentationId: string | null,
+  onMessage: (message: PresenterMessage) => void,
+  { closeMessage }: { closeMessage?: PresenterMessage } = {}
+) => {
+  const channelRef = useRef<PresenterChannel | null>(null);
+  const handlerRef = useRef(onMessage);
+  handlerRef.current = onMessage;
+  const closeMessageRef = useRef(closeMessage);
+  closeMessageRef.current = closeMessage;
+
+  useEffect(() => {
+    if (!presentationId) return;
+
+    const channel = openPresenterChannel(presentationId, message => handlerRef.current(message));
+    channelRef.current = channel;
+    return () => {
+      if (closeMessageRef.current) channel?.post(closeMessageRef.current);
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, [presentationId]);
+
+  const post = useCallback((message: PresenterMessage) => {
+    channelRef.current?.post(message);
+  }, []);
+
+  return { post, isSupported: typeof BroadcastChannel !== 'undefined' };
+};
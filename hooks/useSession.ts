@@ -0,0 +1,79 @@
+// hooks/useSession.ts
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+
+// Mirrors AuthUser from lib/auth-provider.ts
+export interface SessionUser {
+  sub: string;
+  name: string;
+  email: string | null;
+  picture: string | null;
+}
+
+export interface SessionProvider {
+  name: string;
+  type: 'credentials' | 'redirect';
+  configured: boolean;
+}
+
+export const useSession = () => {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [provider, setProvider] = useState<SessionProvider | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/auth/session');
+      if (!response.ok) {
+        throw new Error('Failed to load session');
+      }
+
+      const result = await response.json();
+      setUser(result.data.user);
+      setProvider(result.data.provider);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load session');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Credentials providers only - redirect providers sign in at /api/auth/login
+  const signIn = useCallback(async (email: string, password: string) => {
+    const response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password })
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to sign in');
+    }
+    setUser(result.data);
+    return result.data as SessionUser;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    setUser(null);
+  }, []);
+
+  return {
+    user,
+    provider,
+    isLoading,
+    error,
+    signIn,
+    signOut,
+    refresh
+  };
+};
@@ -2,6 +2,9 @@
 'use client';
 
 import { useState, useCallback } from 'react';
+import { createPresentation } from '@/utils/createPresentation';
+import { uploadImage } from '@/utils/uploadImage';
+import { toSafeFilename } from '@/lib/utils';
 
 // Simple input sanitization function
 function sanitizeInput(input: string): string {
@@ -23,11 +26,11 @@ interface GenerationState {
 }
 
 interface GenerationData {
-  file: File;
+  files: File[];
+  pages?: string;
   prompt: string;
   theme: string;
   outputFormat: 'pptx' | 'interactive';
-  user: any;
 }
 
 export const useSlideGeneration = () => {
@@ -42,11 +45,11 @@ export const useSlideGeneration = () => {
   }, []);
 
   const generateSlides = useCallback(async ({ 
-    file, 
+    files, 
+    pages,
     prompt, 
     theme, 
-    outputFormat, 
-    user 
+    outputFormat
   }: GenerationData) => {
     setState({ isLoading: true, error: null, outputLink: null });
 
@@ -54,139 +57,25 @@ export const useSlideGeneration = () => {
       // Sanitize inputs
       const sanitizedPrompt = sanitizeInput(prompt);
       
-      // Step 1: Upload Image to Google Cloud Storage
-      const imageFormData = new FormData();
-      imageFormData.append('file', file);
-
-      const uploadResponse = await fetch('/api/upload-image', {
-        method: 'POST',
-        body: imageFormData,
-      });
-
-      if (!uploadResponse.ok) {
-        const errorData = await uploadResponse.json();
-        throw new Error(errorData.error || 'Image upload failed');
+      if (files.length === 0) {
+        throw new Error('Please select at least one image');
       }
 
-      const { imageUrl: gcsImageUrl } = await uploadResponse.json();
-
-      // Step 2: Process with Gemini AI
-      const geminiFormData = new FormData();
-      geminiFormData.append('file', file);
-      geminiFormData.append('prompt', sanitizedPrompt);
-      geminiFormData.append('theme', theme);
+      // Step 1: Upload the first image to Google Cloud Storage - history shows it as the preview
+      const uploadedImage = await uploadImage(files[0]!);
 
-      const geminiResponse = await fetch('/api/gemini-vision', {
-        method: 'POST',
-        body: geminiFormData,
+      // Step 2: Analyze the image and build the presentation on the server
+      const { presentation: presentationData, analysis } = await createPresentation({
+        files,
+        ...(pages && { pages }),
+        prompt: sanitizedPrompt,
+        theme
       });
 
-      if (!geminiResponse.ok) {
-        const errorData = await geminiResponse.json();
-        throw new Error(errorData.error || 'AI processing failed');
-      }
-
-      const geminiResult = await geminiResponse.json();
-      const structuredContent = geminiResult.analysis; // Updated to match the API response structure
-
       let finalOutputLink = '';
 
-      // Step 3: Generate presentation
+      // Step 3: Generate the PowerPoint file if requested
       if (outputFormat === 'pptx') {
-        // Create the same presentation structure as the interactive version
-        const sections = structuredContent?.structuredContent?.sections || [];
-        const slides = sections.map((section: any, index: number) => {
-          const contents: any[] = [];
-          
-          // Add title content (API returns 'heading', not 'title')
-          contents.push({
-            id: `title-${index}`,
-            type: 'title',
-            content: section.heading || section.title || `Slide ${index + 1}`,
-            position: { x: 0, y: 0 },
-            style: { fontSize: '2rem', fontWeight: 'bold', alignment: 'center' }
-          });
-          
-          // Add main content if available
-          if (section.content) {
-            contents.push({
-              id: `content-${index}`,
-              type: 'text',
-              content: section.content,
-              position: { x: 0, y: 100 },
-              style: { fontSize: '1.2rem', alignment: 'left' }
-            });
-          }
-          
-          // Add bullet points if available (API returns 'bullets', not 'bulletPoints')
-          const bulletPoints = section.bullets || section.bulletPoints || [];
-          if (bulletPoints && bulletPoints.length > 0) {
-            bulletPoints.forEach((point: string, bulletIndex: number) => {
-              contents.push({
-                id: `bullet-${index}-${bulletIndex}`,
-                type: 'bullet',
-                content: point,
-                position: { x: 20, y: 200 + (bulletIndex * 40) },
-                style: { fontSize: '1rem', alignment: 'left' }
-              });
-            });
-          }
-          
-          return {
-            id: `slide-${index}`,
-            title: section.heading || section.title || `Slide ${index + 1}`,
-            contents: contents,
-            theme: {
-              id: theme || 'modern',
-              name: theme || 'modern',
-              colors: {
-                primary: '#3B82F6',
-                secondary: '#1E40AF',
-                accent: '#EF4444',
-                background: '#FFFFFF',
-                text: '#1F2937'
-              },
-              fonts: {
-                heading: 'Inter',
-                body: 'Inter'
-              },
-              layout: 'modern' as const
-            }
-          };
-        });
-
-        const presentationData = {
-          id: Date.now().toString(),
-          title: structuredContent?.structuredContent?.title || 'My Presentation',
-          slides: slides,
-          theme: {
-            id: theme || 'modern',
-            name: theme || 'modern',
-            colors: {
-              primary: '#3B82F6',
-              secondary: '#1E40AF',
-              accent: '#EF4444',
-              background: '#FFFFFF',
-              text: '#1F2937'
-            },
-            fonts: {
-              heading: 'Inter',
-              body: 'Inter'
-            },
-            layout: 'modern' as const
-          },
-          metadata: {
-            created: new Date(),
-            updated: new Date(),
-            author: 'Snap2Slides User',
-            description: structuredContent?.structuredContent?.introduction || 'Generated presentation'
-          },
-          settings: {
-            autoAdvance: false,
-            timing: 5000
-          }
-        };
-
         const pptxResponse = await fetch('/api/generate-pptx-slides', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
@@ -215,25 +104,25 @@ export const useSlideGeneration = () => {
         // Trigger download immediately
         const downloadLink = document.createElement('a');
         downloadLink.href = finalOutputLink;
-        downloadLink.download = `${presentationData.title}.pptx`;
+        downloadLink.download = toSafeFilename(presentationData.title, 'pptx');
         document.body.appendChild(downloadLink);
         downloadLink.click();
         document.body.removeChild(downloadLink);
         console.log('📥 Download triggered');
       }
 
-      // Step 4: Save to history
+      // Step 4: Save to the signed-in user's history - the session cookie says whose
       const historySaveResponse = await fetch('/api/history/save', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          inputImageUrl: gcsImageUrl,
+          inputImagePath: uploadedImage.path,
           generatedSlidesUrl: outputFormat === 'pptx' ? finalOutputLink : null,
-          summary: structuredContent?.structuredContent?.title || 'Generated Presentation',
+          summary: presentationData.title,
           themeUsed: theme,
-          slideContentDetails: structuredContent?.structuredContent || {},
+          slideContentDetails: analysis.structuredContent.sections,
+          presentation: presentationData,
           outputType: outputFormat,
-          userId: user?.sub,
         }),
       });
 
@@ -0,0 +1,77 @@
+// hooks/useThemes.ts
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_THEMES } from '@/lib/themes';
+import type { SlideTheme } from '@/types/slides';
+
+// What the theme editor sends - a theme without its ID, which the server assigns
+export type ThemeDraft = Omit<SlideTheme, 'id'>;
+
+export const useThemes = () => {
+  // Built-in themes ship with the app, so the picker has something to show before the fetch lands
+  const [builtIn, setBuiltIn] = useState<SlideTheme[]>(DEFAULT_THEMES);
+  const [custom, setCustom] = useState<SlideTheme[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/themes');
+      if (!response.ok) {
+        throw new Error('Failed to load themes');
+      }
+
+      const result = await response.json();
+      setBuiltIn(result.data.builtIn);
+      setCustom(result.data.custom);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load themes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Create a theme, or replace one of the user's own when given its ID
+  const saveTheme = useCallback(async (draft: ThemeDraft, id?: string) => {
+    const response = await fetch(id ? `/api/themes/${encodeURIComponent(id)}` : '/api/themes', {
+      method: id ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(draft)
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to save theme');
+    }
+
+    const saved = result.data as SlideTheme;
+    setCustom(current => id ? current.map(theme => theme.id === id ? saved : theme) : [...current, saved]);
+    return saved;
+  }, []);
+
+  const deleteTheme = useCallback(async (id: string) => {
+    const response = await fetch(`/api/themes/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to delete theme');
+    }
+    setCustom(current => current.filter(theme => theme.id !== id));
+  }, []);
+
+  return {
+    builtIn,
+    custom,
+    isLoading,
+    error,
+    saveTheme,
+    deleteTheme,
+    refresh
+  };
+};
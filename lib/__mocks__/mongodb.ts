@@ -0,0 +1,246 @@
+// In-memory stand-in for lib/mongodb.ts
+// Tests opt in with jest.mock('@/lib/mongodb') and get a real-feeling database with no server
+// Only the collection operations the app actually uses are implemented
+
+type Document = Record<string, unknown>;
+type SortSpec = Record<string, 1 | -1>;
+
+// Copy documents on the way in and out, like a real driver serializing to BSON
+const clone = <T,>(value: T): T => {
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, clone(entry)])
+    ) as T;
+  }
+  return value;
+};
+
+const getPath = (doc: Document, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (current, key) => (current && typeof current === 'object' ? (current as Document)[key] : undefined),
+    doc
+  );
+
+const setPath = (doc: Document, path: string, value: unknown): void => {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  let target = doc;
+  for (const key of keys) {
+    if (!target[key] || typeof target[key] !== 'object') target[key] = {};
+    target = target[key] as Document;
+  }
+  if (value === undefined) {
+    delete target[last];
+  } else {
+    target[last] = value;
+  }
+};
+
+const comparable = (value: unknown): unknown => (value instanceof Date ? value.getTime() : value);
+
+const isEqual = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(comparable(a)) === JSON.stringify(comparable(b));
+
+const matchesCondition = (actual: unknown, condition: unknown): boolean => {
+  const isOperatorObject = condition !== null &&
+    typeof condition === 'object' &&
+    !(condition instanceof Date) &&
+    !Array.isArray(condition) &&
+    Object.keys(condition).every(key => key.startsWith('$'));
+
+  if (!isOperatorObject) {
+    // Array fields match if any element matches, just like MongoDB
+    if (Array.isArray(actual) && !Array.isArray(condition)) {
+      return actual.some(item => isEqual(item, condition));
+    }
+    return isEqual(actual, condition);
+  }
+
+  return Object.entries(condition as Document).every(([operator, operand]) => {
+    const left = comparable(actual) as number;
+    const right = comparable(operand) as number;
+    switch (operator) {
+      case '$eq': return isEqual(actual, operand);
+      case '$ne': return !isEqual(actual, operand);
+      case '$in': return (operand as unknown[]).some(item => matchesCondition(actual, item));
+      case '$nin': return !(operand as unknown[]).some(item => matchesCondition(actual, item));
+      case '$exists': return (actual !== undefined) === Boolean(operand);
+      case '$lt': return actual !== undefined && actual !== null && left < right;
+      case '$lte': return actual !== undefined && actual !== null && left <= right;
+      case '$gt': return actual !== undefined && actual !== null && left > right;
+      case '$gte': return actual !== undefined && actual !== null && left >= right;
+      default: throw new Error(`In-memory MongoDB does not support ${operator}`);
+    }
+  });
+};
+
+const matches = (doc: Document, filter: Document): boolean =>
+  Object.entries(filter).every(([key, condition]) => {
+    if (key === '$or') return (condition as Document[]).some(sub => matches(doc, sub));
+    if (key === '$and') return (condition as Document[]).every(sub => matches(doc, sub));
+    return matchesCondition(getPath(doc, key), condition);
+  });
+
+const applyUpdate = (doc: Document, update: Document): void => {
+  for (const [operator, fields] of Object.entries(update)) {
+    for (const [path, value] of Object.entries(fields as Document)) {
+      switch (operator) {
+        case '$set':
+          setPath(doc, path, clone(value));
+          break;
+        case '$unset':
+          setPath(doc, path, undefined);
+          break;
+        case '$inc':
+          setPath(doc, path, ((getPath(doc, path) as number | undefined) ?? 0) + (value as number));
+          break;
+        case '$push':
+          setPath(doc, path, [...((getPath(doc, path) as unknown[] | undefined) ?? []), clone(value)]);
+          break;
+        default:
+          throw new Error(`In-memory MongoDB does not support ${operator}`);
+      }
+    }
+  }
+};
+
+class InMemoryCursor<T extends Document> {
+  private sortSpec: SortSpec | null = null;
+  private skipCount = 0;
+  private limitCount = 0;
+
+  constructor(private readonly docs: T[]) {}
+
+  sort(spec: SortSpec): this {
+    this.sortSpec = spec;
+    return this;
+  }
+
+  skip(count: number): this {
+    this.skipCount = count;
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  async toArray(): Promise<T[]> {
+    let results = [...this.docs];
+    const spec = this.sortSpec;
+    if (spec) {
+      results.sort((a, b) => {
+        for (const [path, direction] of Object.entries(spec)) {
+          const left = comparable(getPath(a, path)) as number | string;
+          const right = comparable(getPath(b, path)) as number | string;
+          if (left < right) return -direction;
+          if (left > right) return direction;
+        }
+        return 0;
+      });
+    }
+    results = results.slice(this.skipCount, this.limitCount ? this.skipCount + this.limitCount : undefined);
+    return results.map(clone);
+  }
+}
+
+class InMemoryCollection<T extends Document = Document> {
+  private docs: T[] = [];
+
+  async insertOne(doc: T) {
+    if (doc._id !== undefined && this.docs.some(existing => isEqual(existing._id, doc._id))) {
+      throw new Error(`E11000 duplicate key error: _id ${String(doc._id)}`);
+    }
+    this.docs.push(clone(doc));
+    return { acknowledged: true, insertedId: doc._id };
+  }
+
+  find(filter: Document = {}) {
+    return new InMemoryCursor(this.docs.filter(doc => matches(doc, filter)));
+  }
+
+  async findOne(filter: Document = {}): Promise<T | null> {
+    const doc = this.docs.find(candidate => matches(candidate, filter));
+    return doc ? clone(doc) : null;
+  }
+
+  async countDocuments(filter: Document = {}): Promise<number> {
+    return this.docs.filter(doc => matches(doc, filter)).length;
+  }
+
+  async updateOne(filter: Document, update: Document) {
+    const doc = this.docs.find(candidate => matches(candidate, filter));
+    if (doc) applyUpdate(doc, update);
+    return { acknowledged: true, matchedCount: doc ? 1 : 0, modifiedCount: doc ? 1 : 0 };
+  }
+
+  async updateMany(filter: Document, update: Document) {
+    const matched = this.docs.filter(doc => matches(doc, filter));
+    matched.forEach(doc => applyUpdate(doc, update));
+    return { acknowledged: true, matchedCount: matched.length, modifiedCount: matched.length };
+  }
+
+  async replaceOne(filter: Document, replacement: T) {
+    const index = this.docs.findIndex(doc => matches(doc, filter));
+    if (index !== -1) this.docs[index] = clone(replacement);
+    return { acknowledged: true, matchedCount: index === -1 ? 0 : 1, modifiedCount: index === -1 ? 0 : 1 };
+  }
+
+  async findOneAndUpdate(
+    filter: Document,
+    update: Document,
+    options: { returnDocument?: 'before' | 'after' } = {}
+  ): Promise<T | null> {
+    const doc = this.docs.find(candidate => matches(candidate, filter));
+    if (!doc) return null;
+    const before = clone(doc);
+    applyUpdate(doc, update);
+    return options.returnDocument === 'after' ? clone(doc) : before;
+  }
+
+  async deleteOne(filter: Document) {
+    const index = this.docs.findIndex(doc => matches(doc, filter));
+    if (index !== -1) this.docs.splice(index, 1);
+    return { acknowledged: true, deletedCount: index === -1 ? 0 : 1 };
+  }
+
+  async deleteMany(filter: Document = {}) {
+    const before = this.docs.length;
+    this.docs = this.docs.filter(doc => !matches(doc, filter));
+    return { acknowledged: true, deletedCount: before - this.docs.length };
+  }
+
+  async createIndex() {
+    return 'in-memory-index';
+  }
+}
+
+const collections = new Map<string, InMemoryCollection>();
+
+const db = {
+  databaseName: 'snap2slides_test',
+  collection<T extends Document = Document>(name: string): InMemoryCollection<T> {
+    if (!collections.has(name)) {
+      collections.set(name, new InMemoryCollection());
+    }
+    return collections.get(name) as unknown as InMemoryCollection<T>;
+  }
+};
+
+const client = {
+  close: async () => undefined
+};
+
+export async function connectToDatabase() {
+  return { client, db };
+}
+
+/**
+ * Drop every collection - call from beforeEach to isolate tests
+ */
+export function resetDatabase(): void {
+  collections.clear();
+}
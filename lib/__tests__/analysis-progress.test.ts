@@ -0,0 +1,53 @@
+/** @jest-environment node */
+import { createProgressTracker, formatEvent, readEventStream, type AnalysisStreamEvent } from '../analysis-progress';
+
+describe('createProgressTracker', () => {
+  it('weighs each page and counts it as a step', () => {
+    const track = createProgressTracker({ pages: 2, notes: false }, () => 0);
+
+    expect(track('uploading', 'Received', 1)).toMatchObject({ progress: 6, details: { totalSteps: 6, completedSteps: 1 } });
+    expect(track('analyzing', 'Page 2 of 2', 0.5)).toMatchObject({
+      stage: 'analyzing',
+      progress: 44,
+      details: { currentStep: 'Analyzing', completedSteps: 2 }
+    });
+    expect(track('complete', 'Done')).toMatchObject({ progress: 100, estimatedTimeRemaining: 0, details: { completedSteps: 6 } });
+  });
+
+  it('only counts the notes stage when notes are written', () => {
+    expect(createProgressTracker({ pages: 1, notes: true })('optimizing', '').details?.totalSteps).toBe(6);
+    expect(createProgressTracker({ pages: 1, notes: false })('optimizing', '').details?.totalSteps).toBe(5);
+  });
+
+  it('estimates the time left from the time taken so far', () => {
+    let now = 1_000;
+    const track = createProgressTracker({ pages: 1, notes: false }, () => now);
+
+    expect(track('uploading', 'Starting').estimatedTimeRemaining).toBeUndefined();
+    now += 10_000;
+    expect(track('theme', 'Theme').estimatedTimeRemaining).toBe(4); // 70% done after 10s
+  });
+});
+
+describe('readEventStream', () => {
+  const streamOf = (...chunks: string[]) => {
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      }
+    });
+  };
+
+  it('reads events split across chunks', async () => {
+    const progress: AnalysisStreamEvent = { event: 'progress', data: { stage: 'analyzing', progress: 40, message: 'Page 1 of 2' } };
+    const error: AnalysisStreamEvent = { event: 'error', data: { error: 'Quota', status: 429 } };
+    const text = formatEvent(progress) + ': keep-alive\n\n' + formatEvent(error);
+
+    const events: AnalysisStreamEvent[] = [];
+    await readEventStream(streamOf(text.slice(0, 20), text.slice(20, 70), text.slice(70)), event => events.push(event));
+
+    expect(events).toEqual([progress, error]);
+  });
+});
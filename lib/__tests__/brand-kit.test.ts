@@ -0,0 +1,100 @@
+/** @jest-environment node */
+import { pickBrandColors, quantizeColors, toBrandTheme } from '../brand-kit';
+import { getContrastRatio } from '../accessibility';
+import { getLogoBox } from '../slide-geometry';
+
+// RGBA pixel data: `count` pixels of each [r, g, b, a]
+const pixels = (...runs: [number[], number][]) =>
+  Uint8ClampedArray.from(runs.flatMap(([rgba, count]) => Array.from({ length: count }, () => rgba).flat()));
+
+describe('quantizeColors', () => {
+  it('finds the distinct colors, most common first', () => {
+    const data = pixels([[255, 255, 255, 255], 60], [[220, 38, 38, 255], 30], [[37, 99, 235, 255], 10]);
+
+    expect(quantizeColors(data)).toEqual([
+      { color: '#ffffff', population: 60 },
+      { color: '#dc2626', population: 30 },
+      { color: '#2563eb', population: 10 }
+    ]);
+  });
+
+  it('ignores transparent pixels', () => {
+    const data = pixels([[0, 0, 0, 0], 90], [[22, 163, 74, 255], 10]);
+    expect(quantizeColors(data)).toEqual([{ color: '#16a34a', population: 10 }]);
+  });
+
+  it('merges colors when asked for fewer', () => {
+    const data = pixels([[255, 0, 0, 255], 2], [[0, 0, 255, 255], 2]);
+    expect(quantizeColors(data, 1)).toEqual([{ color: '#800080', population: 4 }]);
+  });
+});
+
+describe('pickBrandColors', () => {
+  it('uses the brand colors, not the whites and grays around them', () => {
+    const colors = pickBrandColors([
+      { color: '#ffffff', population: 500 },
+      { color: '#dc2626', population: 200 },
+      { color: '#808080', population: 100 },
+      { color: '#1d4ed8', population: 50 },
+      { color: '#f59e0b', population: 20 }
+    ]);
+
+    expect(colors).toEqual({
+      primary: '#dc2626',
+      secondary: '#1d4ed8',
+      accent: '#f59e0b',
+      background: '#ffffff',
+      text: '#1e293b'
+    });
+  });
+
+  it('skips near-identical shades and darkens colors too light for titles', () => {
+    const colors = pickBrandColors([
+      { color: '#facc15', population: 300 },
+      { color: '#f5c518', population: 200 },
+      { color: '#22d3ee', population: 100 }
+    ]);
+
+    expect(colors.primary).not.toBe('#facc15');
+    expect(getContrastRatio(colors.primary, '#ffffff')).toBeGreaterThanOrEqual(3);
+    expect(getContrastRatio(colors.secondary, '#ffffff')).toBeGreaterThanOrEqual(3);
+    expect(colors.accent).toBe('#facc15');
+  });
+
+  it('falls back to default colors for a monochrome logo', () => {
+    const colors = pickBrandColors([{ color: '#000000', population: 10 }]);
+    expect(colors.primary).toBe('#2563eb');
+  });
+});
+
+describe('toBrandTheme', () => {
+  it('carries the logo only when the kit has one', () => {
+    const kit = {
+      name: 'Acme',
+      colors: pickBrandColors([]),
+      fonts: { heading: 'Georgia, serif', body: 'Inter, sans-serif' },
+      logo: null
+    };
+
+    expect(toBrandTheme(kit)).not.toHaveProperty('logo');
+    const logo = { src: 'data:image/png;base64,AAAA', placement: 'top-left' as const, aspectRatio: 1 };
+    expect(toBrandTheme({ ...kit, logo }).logo).toEqual(logo);
+  });
+});
+
+describe('getLogoBox', () => {
+  it('keeps the logo in its corner at its own aspect ratio', () => {
+    // 16:9 slide, so a 4:1 logo 14% wide is 14 * 16/9 / 4 = 6.2% tall
+    const box = getLogoBox({ placement: 'bottom-right', aspectRatio: 4 });
+    expect(box.width).toBeCloseTo(14);
+    expect(box.height).toBeCloseTo(6.22, 1);
+    expect(box.x + box.width).toBeCloseTo(97);
+    expect(box.y + box.height).toBeCloseTo(97);
+  });
+
+  it('limits tall logos by height', () => {
+    const box = getLogoBox({ placement: 'top-left', aspectRatio: 0.5 });
+    expect(box).toMatchObject({ x: 3, y: 3, height: 10 });
+    expect(box.width).toBeCloseTo(10 * 0.5 * 9 / 16);
+  });
+});
@@ -0,0 +1,94 @@
+/** @jest-environment node */
+import { analyzeImageWithGeminiPro, generateSmartTheme } from '../gemini-vision-enhanced';
+
+const mockGenerateContent = jest.fn();
+const mockGetGenerativeModel = jest.fn(() => ({ generateContent: mockGenerateContent }));
+
+jest.mock('@google/generative-ai', () => ({
+  GoogleGenerativeAI: jest.fn(() => ({ getGenerativeModel: mockGetGenerativeModel }))
+}));
+
+const reply = (text: string) => ({ response: { text: () => text } });
+
+const validAnalysis = {
+  structuredContent: {
+    title: 'Quarterly Review',
+    sections: [{ heading: 'Revenue', bullets: ['EMEA +12%'] }]
+  },
+  suggestedTheme: 'modern',
+  colorPalette: ['#2563eb', '#64748b', '#f59e0b'],
+  confidence: 0.9
+};
+
+describe('gemini-vision-enhanced', () => {
+  const originalKey = process.env.GEMINI_API_KEY;
+
+  beforeEach(() => {
+    process.env.GEMINI_API_KEY = 'test-key';
+    mockGenerateContent.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env.GEMINI_API_KEY = originalKey;
+  });
+
+  it('requests JSON output and returns the validated analysis', async () => {
+    mockGenerateContent.mockResolvedValue(reply(JSON.stringify(validAnalysis)));
+
+    const result = await analyzeImageWithGeminiPro(Buffer.from('image'), 'image/png');
+
+    expect(mockGetGenerativeModel).toHaveBeenCalledWith(expect.objectContaining({
+      generationConfig: expect.objectContaining({ responseMimeType: 'application/json' })
+    }));
+    expect(result.structuredContent.title).toBe('Quarterly Review');
+    expect(result.repairAttempts).toBe(0);
+    expect(result.processingTime).toEqual(expect.any(Number));
+  });
+
+  it('sends validation errors back to the model and records the repair', async () => {
+    mockGenerateContent
+      .mockResolvedValueOnce(reply(JSON.stringify({ structuredContent: { sections: [] } })))
+      .mockResolvedValueOnce(reply(JSON.stringify(validAnalysis)));
+
+    const result = await analyzeImageWithGeminiPro(Buffer.from('image'), 'image/png');
+
+    expect(result.repairAttempts).toBe(1);
+    const [{ contents }] = mockGenerateContent.mock.calls[1];
+    expect(contents.map((turn: { role: string }) => turn.role)).toEqual(['user', 'model', 'user']);
+    expect(contents[2].parts[0].text).toContain('structuredContent.title');
+  });
+
+  it('gives up with AI_RESPONSE_INVALID once the repair budget is spent', async () => {
+    mockGenerateContent.mockResolvedValue(reply('not json at all'));
+
+    await expect(analyzeImageWithGeminiPro(Buffer.from('image'), 'image/png'))
+      .rejects.toMatchObject({ code: 'AI_RESPONSE_INVALID', statusCode: 502 });
+    expect(mockGenerateContent).toHaveBeenCalledTimes(3);
+  });
+
+  it('validates generated themes against the theme schema', async () => {
+    mockGenerateContent
+      .mockResolvedValueOnce(reply(JSON.stringify({ id: 'smart', name: 'Smart', layout: 'fancy' })))
+      .mockResolvedValueOnce(reply(JSON.stringify({
+        id: 'smart',
+        name: 'Smart',
+        colors: { primary: '#111111', secondary: '#222222', accent: '#333333', background: '#ffffff', text: '#000000' },
+        fonts: { heading: 'Inter', body: 'Inter' },
+        layout: 'modern'
+      })));
+
+    const theme = await generateSmartTheme('Finance update');
+
+    expect(theme.id).toBe('smart');
+    expect(theme.metadata).toEqual({ processingTime: expect.any(Number), repairAttempts: 1 });
+    expect(theme).not.toHaveProperty('description');
+    expect(mockGenerateContent.mock.calls[1][0].contents[2].parts[0].text).toContain('layout');
+  });
+});
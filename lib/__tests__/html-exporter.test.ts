@@ -0,0 +1,163 @@
+/** @jest-environment node */
+import { exportPresentationToHtml } from '../html-exporter';
+import type { Slide, SlidePresentation, SlideTheme } from '@/types/slides';
+
+// The upload bucket's host resolves offline
+jest.mock('dns/promises', () => ({ lookup: jest.fn().mockResolvedValue([{ address: '142.250.180.27', family: 4 }]) }));
+
+const theme: SlideTheme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: {
+    primary: '#2563eb',
+    secondary: '#64748b',
+    accent: '#f59e0b',
+    background: '#ffffff',
+    text: '#1e293b'
+  },
+  fonts: {
+    heading: 'Georgia, serif',
+    body: 'Inter, sans-serif'
+  },
+  layout: 'modern'
+};
+
+const makeSlide = (index: number, overrides: Partial<Slide> = {}): Slide => ({
+  id: `slide-${index}`,
+  title: `Slide ${index}`,
+  theme,
+  contents: [
+    {
+      id: `title-${index}`,
+      type: 'title',
+      content: `Slide ${index}`,
+      position: { x: 50, y: 20 },
+      style: { alignment: 'center' }
+    }
+  ],
+  notes: `Notes for slide ${index}`,
+  ...overrides
+});
+
+const makePresentation = (slides: Slide[]): SlidePresentation => ({
+  id: 'presentation-1',
+  title: 'Quarterly Review',
+  slides,
+  theme,
+  metadata: { created: new Date(), updated: new Date() },
+  settings: {}
+});
+
+describe('exportPresentationToHtml', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('renders every slide with its theme and a navigation script', async () => {
+    const html = await exportPresentationToHtml(makePresentation([makeSlide(1), makeSlide(2)]));
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html.match(/<section class="slide"/g)).toHaveLength(2);
+    expect(html).toContain('--s2s-heading-font:Georgia, serif');
+    expect(html).toContain("case 'ArrowRight'");
+    // Center-anchored title at x: 50 spans 90% of the slide from 5%
+    expect(html).toContain('left:5%;top:12.5%;width:90%');
+  });
+
+  it('stays self-contained', async () => {
+    const html = await exportPresentationToHtml(makePresentation([makeSlide(1)]));
+
+    expect(html).not.toMatch(/<link|<script src|src="http/);
+  });
+
+  it('escapes slide content', async () => {
+    const slide = makeSlide(1, {
+      contents: [{ id: 'text-1', type: 'text', content: '<script>alert(1)</script>', position: { x: 10, y: 10 } }]
+    });
+    const html = await exportPresentationToHtml(makePresentation([slide]));
+
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>alert(1)');
+  });
+
+  it('carries slide and element animations', async () => {
+    const slide = makeSlide(1, {
+      transitions: {
+        enter: { type: 'slide', direction: 'up', duration: 0.4 },
+        exit: { type: 'none' }
+      },
+      contents: [{
+        id: 'bullet-1',
+        type: 'bullet',
+        content: 'Revenue up',
+        position: { x: 10, y: 40 },
+        style: { animation: { type: 'fade', delay: 0.2 } }
+      }]
+    });
+    const html = await exportPresentationToHtml(makePresentation([slide]));
+
+    expect(html).toMatch(/<section class="slide"[^>]*--s2s-duration:0.4s;[^>]*--s2s-from-y:100%[^>]*data-animate="slide"/);
+    expect(html).toMatch(/class="el el-bullet"[^>]*--s2s-delay:0.2s[^>]*data-animate="fade"/);
+  });
+
+  it('bundles speaker notes unless they are turned off', async () => {
+    const presentation = makePresentation([makeSlide(1)]);
+
+    expect(await exportPresentationToHtml(presentation)).toContain('Notes for slide 1');
+    expect(await exportPresentationToHtml(presentation, { quality: 'medium', includeNotes: false }))
+      .not.toContain('Notes for slide 1');
+  });
+
+  it('inlines uploaded images as data URLs', async () => {
+    global.fetch = jest.fn().mockResolvedValue(
+      new Response(new Uint8Array([137, 80, 78, 71]), { headers: { 'content-type': 'image/png' } })
+    );
+    const slide = makeSlide(1, {
+      contents: [{ id: 'image-1', type: 'image', content: 'https://storage.googleapis.com/snap2slides-uploads/photo.png', position: { x: 10, y: 10 } }]
+    });
+    const html = await exportPresentationToHtml(makePresentation([slide]));
+
+    expect(html).toContain('<img src="data:image/png;base64,iVBORw=="');
+    expect(html).not.toContain('storage.googleapis.com');
+  });
+
+  it('never fetches links outside the upload bucket', async () => {
+    global.fetch = jest.fn();
+    const slide = makeSlide(1, {
+      background: { type: 'image', value: 'http://169.254.169.254/latest/meta-data/' },
+      contents: [{ id: 'image-1', type: 'image', content: 'http://localhost:3000/api/health', position: { x: 10, y: 10 } }]
+    });
+    await exportPresentationToHtml(makePresentation([slide]));
+
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('keeps a background image inside its url()', async () => {
+    const breakout = 'data:image/png;base64,iVBORw==");position:absolute;z-index:99;background:url("https://example.com/x.png';
+    const html = await exportPresentationToHtml(makePresentation([
+      makeSlide(1, { background: { type: 'image', value: breakout } }),
+      makeSlide(2, { background: { type: 'image', value: 'data:image/png;base64,iVBORw==' } })
+    ]));
+
+    expect(html).not.toContain('z-index:99');
+    expect(html).toContain('background-image:url(&quot;data:image/png;base64,iVBORw==&quot;)');
+  });
+
+  it('draws chart content as inline SVG', async () => {
+    const slide = makeSlide(1, {
+      contents: [{
+        id: 'chart-1',
+        type: 'chart',
+        content: JSON.stringify({ type: 'pie', title: 'Share', labels: ['A', 'B'], series: [{ name: 'Share', values: [1, 3] }] }),
+        position: { x: 10, y: 10 },
+        size: { width: 50, height: 60 }
+      }]
+    });
+    const html = await exportPresentationToHtml(makePresentation([slide]));
+
+    expect(html).toContain('<svg class="chart"');
+    expect(html.match(/<polygon /g)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,85 @@
+/** @jest-environment node */
+import { lookup } from 'dns/promises';
+import { MAX_IMAGE_BYTES, loadImageAsDataUrl } from '../image-loader';
+import { isStorageImageUrl, toDisplayImageUrl } from '../image-source';
+
+// Host lookups stay offline - each test says where the storage host resolves
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+const resolvesTo = (address: string) =>
+  (jest.mocked(lookup) as jest.Mock).mockResolvedValue([{ address, family: address.includes(':') ? 6 : 4 }]);
+
+const SIGNED_URL = 'https://storage.googleapis.com/snap2slides-uploads/123-photo.png?X-Goog-Signature=abc';
+
+describe('isStorageImageUrl', () => {
+  it('accepts signed links into the upload bucket only', () => {
+    expect(isStorageImageUrl(SIGNED_URL)).toBe(true);
+    expect(isStorageImageUrl('https://snap2slides-uploads.storage.googleapis.com/123-photo.png')).toBe(true);
+
+    expect(isStorageImageUrl('https://storage.googleapis.com/someone-elses-bucket/photo.png')).toBe(false);
+    expect(isStorageImageUrl('http://storage.googleapis.com/snap2slides-uploads/photo.png')).toBe(false);
+    expect(isStorageImageUrl('https://storage.googleapis.com:8443/snap2slides-uploads/photo.png')).toBe(false);
+    expect(isStorageImageUrl('https://example.com/photo.png')).toBe(false);
+    expect(isStorageImageUrl('http://169.254.169.254/latest/meta-data/')).toBe(false);
+    expect(isStorageImageUrl('A chart of revenue')).toBe(false);
+  });
+});
+
+describe('toDisplayImageUrl', () => {
+  it('lets browsers load inline images and upload links only', () => {
+    expect(toDisplayImageUrl('data:image/png;base64,iVBORw==')).toBe('data:image/png;base64,iVBORw==');
+    expect(toDisplayImageUrl(SIGNED_URL)).toBe(SIGNED_URL);
+
+    expect(toDisplayImageUrl('https://tracker.example/pixel.png')).toBeNull();
+    expect(toDisplayImageUrl('data:image/png;base64,iVBORw==") , url("https://tracker.example/pixel.png')).toBeNull();
+    expect(toDisplayImageUrl('A chart of revenue')).toBeNull();
+  });
+
+  it('escapes quotes in upload links', () => {
+    expect(toDisplayImageUrl(`${SIGNED_URL}&x=")`)).not.toContain('"');
+  });
+});
+
+describe('loadImageAsDataUrl', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    resolvesTo('142.250.180.27');
+    global.fetch = jest.fn().mockResolvedValue(
+      new Response(new Uint8Array([137, 80, 78, 71]), { headers: { 'content-type': 'image/png' } })
+    );
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('inlines an uploaded image and passes data URLs through', async () => {
+    expect(await loadImageAsDataUrl(SIGNED_URL)).toBe('data:image/png;base64,iVBORw==');
+    expect(await loadImageAsDataUrl('data:image/png;base64,iVBORw==')).toBe('data:image/png;base64,iVBORw==');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('never fetches anything outside the upload bucket', async () => {
+    for (const url of ['http://localhost:3000/api/health', 'http://169.254.169.254/latest/meta-data/', 'https://example.com/a.png']) {
+      expect(await loadImageAsDataUrl(url)).toBeNull();
+    }
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('refuses a storage host that resolves to a private address', async () => {
+    for (const address of ['10.0.0.8', '127.0.0.1', '169.254.169.254', '::1', 'fe80::1', '::ffff:192.168.1.1']) {
+      resolvesTo(address);
+      expect(await loadImageAsDataUrl(SIGNED_URL)).toBeNull();
+    }
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('stops reading an image bigger than the upload limit', async () => {
+    global.fetch = jest.fn().mockResolvedValue(
+      new Response(new Uint8Array(MAX_IMAGE_BYTES + 1), { headers: { 'content-type': 'image/png' } })
+    );
+
+    expect(await loadImageAsDataUrl(SIGNED_URL)).toBeNull();
+  });
+});
@@ -0,0 +1,210 @@
+/** @jest-environment node */
+import {
+  JOB_LEASE_MS,
+  createMemoryJobQueue,
+  createMongoJobQueue,
+  getJob,
+  submitJob,
+  type JobQueue
+} from '../job-queue';
+import { PROVIDER_CALL_TIMEOUT_MS, processJob, processNextJob } from '../job-worker';
+import { mockVisionProvider } from '../mock-vision-provider';
+import type { PresentationInput } from '../presentation-pipeline';
+import { analyzeImageWithGeminiPro } from '@/lib/gemini-vision-enhanced';
+
+// The MongoDB backend runs against the in-memory stand-in (lib/__mocks__/mongodb.ts)
+jest.mock('@/lib/mongodb');
+const { resetDatabase } = jest.requireMock<typeof import('@/lib/__mocks__/mongodb')>('@/lib/mongodb');
+
+jest.mock('@/lib/gemini-vision-enhanced', () => ({
+  analyzeImageWithGeminiPro: jest.fn()
+}));
+
+// Job files go to the upload bucket - kept in a map here
+const mockObjects = new Map<string, Buffer>();
+jest.mock('@/lib/gcs', () => ({
+  uploadFile: jest.fn(async (file: Buffer, fileName: string) => {
+    mockObjects.set(fileName, file);
+    return fileName;
+  }),
+  downloadFile: jest.fn(async (path: string) => mockObjects.get(path))
+}));
+
+// The worker runs the slide generator, which needs nanoid
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
+const input = (userId: string | null = null): PresentationInput => ({
+  pages: [{ data: Buffer.from('image-bytes'), mimeType: 'image/png', image: 1, name: 'whiteboard.png' }],
+  fileNames: ['whiteboard.png'],
+  context: 'User prompt: Board update. Theme: professional',
+  userId
+});
+
+describe.each([
+  ['memory', createMemoryJobQueue],
+  ['mongodb', createMongoJobQueue]
+])('%s job queue', (_name, createQueue) => {
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    resetDatabase();
+    queue = createQueue();
+  });
+
+  it('keeps the uploads and hands each waiting job to one worker, oldest first', async () => {
+    const first = await submitJob(input(), 'interactive', queue);
+    const second = await submitJob(input(), 'pptx', queue);
+
+    expect((await queue.get(first.id))?.input.pages[0]?.data).toBe(Buffer.from('image-bytes').toString('base64'));
+    expect((await queue.claimNext())?.id).toBe(first.id);
+    expect((await queue.claimNext())?.id).toBe(second.id);
+    expect(await queue.claimNext()).toBeNull();
+    expect((await queue.get(first.id))?.status).toBe('processing');
+  });
+
+  it('only shows a job to the user who submitted it', async () => {
+    const job = await submitJob(input('local|me@example.com'), 'interactive', queue);
+
+    await expect(getJob(job.id, 'local|me@example.com', queue)).resolves.toMatchObject({ id: job.id, status: 'draft' });
+    await expect(getJob(job.id, null, queue)).rejects.toMatchObject({ statusCode: 403 });
+    await expect(getJob('missing', null, queue)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('hands a job to another worker once its lease runs out', async () => {
+    const job = await submitJob(input(), 'interactive', queue);
+    const claimedAt = Date.now();
+    expect((await queue.claimNext())?.id).toBe(job.id);
+
+    // A live worker renews the lease, so the job stays with it
+    await queue.update(job.id, { leaseExpiresAt: new Date(claimedAt + 2 * JOB_LEASE_MS) });
+    jest.useFakeTimers({ now: claimedAt + JOB_LEASE_MS + 1000 });
+    try {
+      expect(await queue.claimNext()).toBeNull();
+
+      // A crashed one doesn't
+      jest.setSystemTime(claimedAt + 2 * JOB_LEASE_MS + 1000);
+      const reclaimed = await queue.claimNext();
+      expect(reclaimed).toMatchObject({ id: job.id, status: 'processing' });
+      expect(reclaimed?.leaseExpiresAt?.getTime()).toBe(Date.now() + JOB_LEASE_MS);
+      expect(await queue.claimNext()).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('only lets the worker holding the latest claim change a job, which starts over', async () => {
+    const job = await submitJob(input(), 'interactive', queue);
+    const stalled = await queue.claimNext();
+    await queue.update(job.id, { progress: { stage: 'analyzing', progress: 40, message: 'Reading page 1' } }, stalled?.claimId);
+
+    jest.useFakeTimers({ now: Date.now() + JOB_LEASE_MS + 1000 });
+    try {
+      const reclaimed = await queue.claimNext();
+      expect(reclaimed?.claimId).not.toBe(stalled?.claimId);
+      expect((await queue.get(job.id))?.progress).toBeUndefined();
+
+      expect(await queue.update(job.id, { status: 'completed' }, stalled?.claimId)).toBe(false);
+      expect(await queue.update(job.id, { status: 'completed' }, reclaimed?.claimId)).toBe(true);
+      expect((await queue.get(job.id))?.status).toBe('completed');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('forgets jobs once they expire', async () => {
+    const job = await submitJob(input(), 'interactive', queue);
+    jest.useFakeTimers({ now: Date.now() + 25 * 60 * 60 * 1000 });
+    try {
+      expect(await queue.get(job.id)).toBeNull();
+      expect(await queue.claimNext()).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('processNextJob', () => {
+  const originalKey = process.env.GEMINI_API_KEY;
+
+  beforeEach(() => {
+    delete process.env.GEMINI_API_KEY;
+    process.env.VISION_PROVIDER = 'mock';
+  });
+
+  afterAll(() => {
+    process.env.GEMINI_API_KEY = originalKey;
+    delete process.env.VISION_PROVIDER;
+  });
+
+  it('builds the deck, keeps its progress and the PowerPoint file', async () => {
+    const queue = createMemoryJobQueue();
+    const job = await submitJob(input(), 'pptx', queue);
+
+    expect(await processNextJob(queue)).toBe(true);
+    const done = await queue.get(job.id);
+
+    expect(done?.status).toBe('completed');
+    expect(done?.progress).toMatchObject({ stage: 'complete', progress: 100 });
+    expect(done?.result?.presentation.slides.length).toBeGreaterThan(0);
+    expect(done?.artifacts.pptx?.fileName).toMatch(/\.pptx$/);
+    // The job only links to the file
+    const file = mockObjects.get(done!.artifacts.pptx!.path);
+    expect(file?.subarray(0, 2).toString()).toBe('PK');
+    expect(done?.artifacts.pptx?.size).toBe(file?.length);
+    expect(done?.completedAt).toBeInstanceOf(Date);
+    expect(await processNextJob(queue)).toBe(false);
+  });
+
+  it('saves a failure on the job with the status the API would answer', async () => {
+    const queue = createMemoryJobQueue();
+    const job = await submitJob(input(), 'interactive', queue);
+    process.env.VISION_PROVIDER = 'gemini';
+    process.env.GEMINI_API_KEY = 'test-key';
+    jest.mocked(analyzeImageWithGeminiPro).mockRejectedValue(new Error('You exceeded your current quota'));
+
+    await processNextJob(queue);
+
+    expect(await queue.get(job.id)).toMatchObject({
+      status: 'error',
+      error: { message: 'AI quota exceeded. Please try again later.', code: 'RATE_LIMIT_ERROR', status: 429 }
+    });
+  });
+
+  it('leaves a job alone once another worker has reclaimed it', async () => {
+    const queue = createMemoryJobQueue();
+    const job = await submitJob(input(), 'interactive', queue);
+    const stalled = (await queue.claimNext())!;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    jest.useFakeTimers({ now: Date.now() + JOB_LEASE_MS + 1000 });
+    const reclaimed = await queue.claimNext();
+    jest.useRealTimers();
+
+    await processJob(stalled, queue, mockVisionProvider);
+
+    const current = await queue.get(job.id);
+    expect(current).toMatchObject({ status: 'processing', claimId: reclaimed?.claimId });
+    expect(current?.result).toBeUndefined();
+    expect(current?.progress).toBeUndefined();
+  });
+
+  it('fails the job when the AI never answers', async () => {
+    const queue = createMemoryJobQueue();
+    const job = await submitJob(input(), 'interactive', queue);
+    const hung = { ...mockVisionProvider, analyzeImage: () => new Promise<never>(() => {}) };
+
+    jest.useFakeTimers();
+    try {
+      const running = processJob((await queue.claimNext())!, queue, hung);
+      await jest.advanceTimersByTimeAsync(PROVIDER_CALL_TIMEOUT_MS);
+      await running;
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(await queue.get(job.id)).toMatchObject({ status: 'error', error: { code: 'AI_TIMEOUT', status: 502 } });
+  });
+});
@@ -0,0 +1,55 @@
+/** @jest-environment node */
+import { mockVisionProvider, VISION_FIXTURES } from '../mock-vision-provider';
+import { getVisionProvider } from '../vision-provider';
+import { GeminiAnalysisSchema } from '@/utils/validation-schemas';
+
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
+describe('mockVisionProvider', () => {
+  const originalFixture = process.env.VISION_MOCK_FIXTURE;
+
+  afterEach(() => {
+    if (originalFixture === undefined) delete process.env.VISION_MOCK_FIXTURE;
+    else process.env.VISION_MOCK_FIXTURE = originalFixture;
+  });
+
+  it('returns the same valid analysis for the same image', async () => {
+    const image = Buffer.from('whiteboard photo');
+
+    const first = await mockVisionProvider.analyzeImage(image, 'image/png');
+    const second = await mockVisionProvider.analyzeImage(image, 'image/png');
+
+    expect(first).toEqual(second);
+    expect(GeminiAnalysisSchema.safeParse(first).success).toBe(true);
+    expect(first.repairAttempts).toBe(0);
+  });
+
+  it('uses the pinned fixture when VISION_MOCK_FIXTURE is set', async () => {
+    process.env.VISION_MOCK_FIXTURE = 'team-retrospective';
+
+    const analysis = await mockVisionProvider.analyzeImage(Buffer.from('anything'), 'image/png');
+
+    expect(analysis.structuredContent.title).toBe(VISION_FIXTURES['team-retrospective']?.structuredContent.title);
+
+    process.env.VISION_MOCK_FIXTURE = 'missing';
+    await expect(mockVisionProvider.analyzeImage(Buffer.from('anything'), 'image/png')).rejects.toThrow('Unknown mock vision fixture');
+  });
+
+  it('builds themes from brand colors without calling a model', async () => {
+    const theme = await mockVisionProvider.generateTheme('Finance', ['#111111', '#222222', '#333333']);
+
+    expect(theme.colors.primary).toBe('#111111');
+    expect(await mockVisionProvider.generateTheme('Finance')).toEqual(await mockVisionProvider.generateTheme('Finance'));
+  });
+});
+
+describe('getVisionProvider', () => {
+  it('selects providers by name and defaults to Gemini', () => {
+    expect(getVisionProvider(undefined).name).toBe('gemini');
+    expect(getVisionProvider('Mock').name).toBe('mock');
+    expect(() => getVisionProvider('openai')).toThrow('Unknown vision provider');
+  });
+});
@@ -0,0 +1,116 @@
+/** @jest-environment node */
+import { exportPresentationToPdf } from '../pdf-exporter';
+import type { Slide, SlidePresentation, SlideTheme } from '@/types/slides';
+
+const theme: SlideTheme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: {
+    primary: '#2563eb',
+    secondary: '#64748b',
+    accent: '#f59e0b',
+    background: '#ffffff',
+    text: '#1e293b'
+  },
+  fonts: {
+    heading: 'Georgia, serif',
+    body: 'Inter, sans-serif'
+  },
+  layout: 'modern'
+};
+
+const makeSlide = (index: number, overrides: Partial<Slide> = {}): Slide => ({
+  id: `slide-${index}`,
+  title: `Slide ${index}`,
+  theme,
+  contents: [
+    {
+      id: `title-${index}`,
+      type: 'title',
+      content: `Slide ${index}`,
+      position: { x: 50, y: 20 },
+      style: { alignment: 'center' }
+    },
+    {
+      id: `bullet-${index}`,
+      type: 'bullet',
+      content: 'Revenue up 20%',
+      position: { x: 10, y: 40 }
+    }
+  ],
+  notes: `Notes for slide ${index}`,
+  ...overrides
+});
+
+const makePresentation = (slides: Slide[]): SlidePresentation => ({
+  id: 'presentation-1',
+  title: 'Quarterly Review',
+  slides,
+  theme,
+  metadata: { created: new Date(), updated: new Date() },
+  settings: {}
+});
+
+// Uncompressed output keeps page dictionaries and text operators readable
+const render = async (slides: Slide[], options: Partial<Parameters<typeof exportPresentationToPdf>[1]> = {}) =>
+  (await exportPresentationToPdf(makePresentation(slides), { quality: 'medium', compression: false, ...options }))
+    .toString('latin1');
+
+const pageCount = (pdf: string) => pdf.match(/\/Type \/Page\b/g)?.length ?? 0;
+const mediaBoxes = (pdf: string) => pdf.match(/\/MediaBox \[[^\]]+\]/g) ?? [];
+
+describe('exportPresentationToPdf', () => {
+  it('renders one 16:9 page per slide', async () => {
+    const pdf = await render([makeSlide(1), makeSlide(2)]);
+
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pageCount(pdf)).toBe(2);
+    expect(mediaBoxes(pdf)[0]).toBe('/MediaBox [0 0 720. 405.]');
+    expect(pdf).toContain('(Slide 1) Tj');
+    expect(pdf).toContain('/BaseFont /Times-Bold');
+    expect(pdf).not.toContain('Notes for slide 1');
+  });
+
+  it('puts speaker notes under each slide on notes pages', async () => {
+    const pdf = await render([makeSlide(1), makeSlide(2)], { includeNotes: true });
+
+    expect(pageCount(pdf)).toBe(2);
+    expect(mediaBoxes(pdf)[0]).toMatch(/^\/MediaBox \[0 0 595\.2799\d* 841\.889\d*\]$/);
+    expect(pdf).toContain('(Notes for slide 2) Tj');
+  });
+
+  it('fits three slides on each handout page', async () => {
+    const slides = [1, 2, 3, 4].map(index => makeSlide(index));
+    const pdf = await render(slides, { includeNotes: true, notesLayout: 'handout' });
+
+    expect(pageCount(pdf)).toBe(2);
+    expect(pdf).toContain('(Notes for slide 4) Tj');
+  });
+
+  it('uses the custom theme over the slide theme', async () => {
+    const customTheme: SlideTheme = { ...theme, fonts: { heading: 'Courier New', body: 'Courier New' } };
+    const pdf = await render([makeSlide(1)], { customTheme });
+
+    expect(pdf).toContain('/BaseFont /Courier');
+    expect(pdf).not.toContain('/BaseFont /Times-Bold');
+  });
+
+  it('compresses streams unless high quality is requested', async () => {
+    const slides = [makeSlide(1, { background: { type: 'gradient', value: 'linear-gradient(90deg, #000000, #ffffff)' } })];
+    const low = await exportPresentationToPdf(makePresentation(slides), { quality: 'low' });
+    const high = await exportPresentationToPdf(makePresentation(slides), { quality: 'high' });
+
+    expect(low.toString('latin1')).toContain('/FlateDecode');
+    expect(high.toString('latin1')).not.toContain('/FlateDecode');
+    expect(high.length).toBeGreaterThan(low.length);
+  });
+
+  it('draws placeholders for images it cannot load', async () => {
+    const slide = makeSlide(1, {
+      contents: [{ id: 'image-1', type: 'image', content: 'A chart of quarterly revenue', position: { x: 10, y: 10 } }]
+    });
+    const pdf = await render([slide]);
+
+    expect(pdf).toContain('(A chart of quarterly revenue) Tj');
+  });
+});
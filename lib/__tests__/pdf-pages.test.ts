@@ -0,0 +1,50 @@
+/** @jest-environment node */
+import { PDFDocument } from 'pdf-lib';
+import { parsePageRange, splitPdfPages } from '../pdf-pages';
+import { ValidationError } from '@/lib/errors';
+
+const makePdf = async (pageCount: number) => {
+  const doc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    // Give each page its own width so the split pages can be told apart
+    doc.addPage([100 + i, 200]);
+  }
+  return Buffer.from(await doc.save());
+};
+
+describe('parsePageRange', () => {
+  it('expands ranges, single pages and open ends in order', () => {
+    expect(parsePageRange('5, 1-3, 8-', 9)).toEqual([1, 2, 3, 5, 8, 9]);
+    expect(parsePageRange(undefined, 3)).toEqual([1, 2, 3]);
+    expect(parsePageRange('2,2,1-2', 3)).toEqual([1, 2]);
+  });
+
+  it('rejects malformed or out-of-bounds ranges', () => {
+    expect(() => parsePageRange('1-x', 5)).toThrow(ValidationError);
+    expect(() => parsePageRange('4-2', 5)).toThrow(ValidationError);
+    expect(() => parsePageRange('6', 5)).toThrow('outside the document');
+  });
+});
+
+describe('splitPdfPages', () => {
+  it('creates one single-page PDF per selected page', async () => {
+    const pages = await splitPdfPages(await makePdf(4), { range: '2-3' });
+
+    expect(pages.map(page => page.page)).toEqual([2, 3]);
+    const widths = await Promise.all(pages.map(async ({ data }) => {
+      const doc = await PDFDocument.load(data);
+      expect(doc.getPageCount()).toBe(1);
+      return doc.getPage(0).getWidth();
+    }));
+    expect(widths).toEqual([101, 102]);
+  });
+
+  it('enforces the page cap', async () => {
+    await expect(splitPdfPages(await makePdf(5), { maxPages: 3 })).rejects.toThrow('at most 3');
+    await expect(splitPdfPages(await makePdf(5), { maxPages: 3, range: '1-3' })).resolves.toHaveLength(3);
+  });
+
+  it('reports unreadable files as validation errors', async () => {
+    await expect(splitPdfPages(Buffer.from('not a pdf'))).rejects.toThrow(ValidationError);
+  });
+});
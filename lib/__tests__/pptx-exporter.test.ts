@@ -0,0 +1,214 @@
+/** @jest-environment node */
+import { lookup } from 'dns/promises';
+import JSZip from 'jszip';
+import { BRAND_MASTER_PREFIX, buildPptx, exportPresentationToPptx, getTransitionXml } from '../pptx-exporter';
+import { arrangeSlide } from '../slide-layouts';
+import type { Slide, SlidePresentation, SlideTheme } from '@/types/slides';
+
+// Uploaded images are loaded through lib/image-loader - keep its host lookups offline
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+const theme: SlideTheme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: {
+    primary: '#2563eb',
+    secondary: '#64748b',
+    accent: '#f59e0b',
+    background: '#ffffff',
+    text: '#1e293b'
+  },
+  fonts: {
+    heading: 'Inter, sans-serif',
+    body: "'Open Sans', sans-serif"
+  },
+  layout: 'modern'
+};
+
+// A 1x1 transparent PNG
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const makeSlide = (overrides: Partial<Slide> = {}): Slide => ({
+  id: 'slide-1',
+  title: 'Quarterly Review',
+  theme,
+  contents: [
+    {
+      id: 'title-1',
+      type: 'title',
+      content: 'Quarterly Review',
+      position: { x: 50, y: 20 },
+      style: { fontSize: '2.5rem', alignment: 'center', color: '#ff0000' }
+    },
+    {
+      id: 'bullet-1',
+      type: 'bullet',
+      content: 'Revenue up 20%',
+      position: { x: 10, y: 40 }
+    }
+  ],
+  notes: 'Mention the new office',
+  ...overrides
+});
+
+const makePresentation = (slides: Slide[]): SlidePresentation => ({
+  id: 'presentation-1',
+  title: 'Quarterly Review',
+  slides,
+  theme,
+  metadata: { created: new Date(), updated: new Date() },
+  settings: {}
+});
+
+const unzip = async (presentation: SlidePresentation) =>
+  JSZip.loadAsync(await exportPresentationToPptx(presentation));
+
+describe('getTransitionXml', () => {
+  it('maps enter transitions to PresentationML', () => {
+    const slide = makeSlide({
+      transitions: {
+        enter: { type: 'slide', direction: 'right', duration: 0.3 },
+        exit: { type: 'none' }
+      }
+    });
+    expect(getTransitionXml(slide)).toBe('<p:transition spd="fast"><p:push dir="r"/></p:transition>');
+  });
+
+  it('falls back to the legacy transition field', () => {
+    expect(getTransitionXml(makeSlide({ transition: 'fade' }))).toContain('<p:fade/>');
+  });
+
+  it('returns null when the slide does not animate', () => {
+    expect(getTransitionXml(makeSlide())).toBeNull();
+  });
+});
+
+describe('buildPptx', () => {
+  it('uses the 16:9 layout and the theme fonts', () => {
+    const pptx = buildPptx(makePresentation([makeSlide()]));
+    expect(pptx.layout).toBe('LAYOUT_16x9');
+    expect(pptx.theme).toEqual({ headFontFace: 'Inter', bodyFontFace: 'Open Sans' });
+  });
+});
+
+describe('exportPresentationToPptx', () => {
+  it('places elements from their position, size and style', async () => {
+    const zip = await unzip(makePresentation([makeSlide()]));
+    const xml = await zip.file('ppt/slides/slide1.xml')!.async('string');
+
+    // Centered title at x: 50 spans 90% of a 10in slide starting at 0.5in (1in = 914400 EMU)
+    expect(xml).toContain('<a:off x="457200"');
+    expect(xml).toContain('<a:ext cx="8229600"');
+    expect(xml).toContain('typeface="Inter"');
+    expect(xml).toContain('FF0000');
+    // 2.5rem = 40px on a 960px slide = 30pt
+    expect(xml).toContain('sz="3000"');
+  });
+
+  it('writes speaker notes', async () => {
+    const zip = await unzip(makePresentation([makeSlide()]));
+    const notes = await zip.file('ppt/notesSlides/notesSlide1.xml')!.async('string');
+    expect(notes).toContain('Mention the new office');
+  });
+
+  it('injects transitions only into slides that have one', async () => {
+    const zip = await unzip(makePresentation([
+      makeSlide({ transition: 'zoom' }),
+      makeSlide({ id: 'slide-2' })
+    ]));
+
+    const first = await zip.file('ppt/slides/slide1.xml')!.async('string');
+    const second = await zip.file('ppt/slides/slide2.xml')!.async('string');
+    expect(first).toContain('<p:transition spd="med"><p:zoom/></p:transition>');
+    expect(second).not.toContain('<p:transition');
+  });
+
+  it('leaves links outside the upload bucket as placeholders instead of fetching them', async () => {
+    const slide = makeSlide({
+      contents: [{ id: 'image-1', type: 'image', content: 'http://169.254.169.254/latest/meta-data/', position: { x: 10, y: 30 } }],
+      background: { type: 'image', value: 'http://localhost:3000/internal.png' }
+    });
+
+    const zip = await unzip(makePresentation([slide]));
+    const xml = await zip.file('ppt/slides/slide1.xml')!.async('string');
+    const rels = await zip.file('ppt/slides/_rels/slide1.xml.rels')!.async('string');
+    expect(rels).not.toContain('relationships/image');
+    expect(xml).toContain('169.254.169.254');
+  });
+
+  it('embeds uploaded images it loaded itself rather than leaving links for PptxGenJS to fetch', async () => {
+    const originalFetch = global.fetch;
+    (jest.mocked(lookup) as jest.Mock).mockResolvedValue([{ address: '142.250.180.27', family: 4 }]);
+    global.fetch = jest.fn().mockResolvedValue(
+      new Response(Buffer.from(PIXEL_PNG, 'base64'), { headers: { 'content-type': 'image/png' } })
+    );
+    const url = 'https://storage.googleapis.com/snap2slides-uploads/123-photo.png?X-Goog-Signature=abc';
+
+    try {
+      const slide = makeSlide({ contents: [{ id: 'image-1', type: 'image', content: url, position: { x: 10, y: 30 } }] });
+      const zip = await unzip(makePresentation([slide]));
+      const rels = await zip.file('ppt/slides/_rels/slide1.xml.rels')!.async('string');
+
+      expect(rels).toContain('relationships/image');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(global.fetch).toHaveBeenCalledWith(url, expect.objectContaining({ redirect: 'error' }));
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+
+  it('draws a chart when chart content is valid JSON', async () => {
+    const slide = makeSlide({
+      contents: [{
+        id: 'chart-1',
+        type: 'chart',
+        content: JSON.stringify({ type: 'bar', labels: ['Q1', 'Q2'], series: [{ name: 'Sales', values: [1, 2] }] }),
+        position: { x: 10, y: 30 },
+        size: { width: 80, height: 60 }
+      }]
+    });
+
+    const zip = await unzip(makePresentation([slide]));
+    expect(Object.keys(zip.files).some(path => path.startsWith('ppt/charts/chart'))).toBe(true);
+  });
+
+  it('puts the brand logo on one slide master shared by every slide', async () => {
+    const logo = { src: `data:image/png;base64,${PIXEL_PNG}`, placement: 'top-right' as const, aspectRatio: 1 };
+    const brandTheme = { ...theme, logo };
+    const zip = await unzip(makePresentation([
+      makeSlide({ theme: brandTheme }),
+      makeSlide({ id: 'slide-2', theme: brandTheme })
+    ]));
+
+    const layouts = Object.keys(zip.files).filter(path => /^ppt\/slideLayouts\/slideLayout\d+\.xml$/.test(path));
+    const brandLayouts = [];
+    for (const path of layouts) {
+      const xml = await zip.file(path)!.async('string');
+      if (xml.includes(`<p:cSld name="${BRAND_MASTER_PREFIX} Blank"`)) brandLayouts.push(xml);
+    }
+    expect(brandLayouts).toHaveLength(1);
+    expect(brandLayouts[0]).toContain('descr="Modern logo"');
+
+    // The logo isn't repeated on the slides themselves
+    const slide = await zip.file('ppt/slides/slide1.xml')!.async('string');
+    expect(slide).not.toContain('Modern logo');
+  });
+
+  it('turns slide layouts into masters whose title placeholder the slide fills', async () => {
+    const slide = arrangeSlide(makeSlide(), 'two-column');
+    const zip = await unzip(makePresentation([slide, { ...slide, id: 'slide-2' }]));
+
+    const layouts = await Promise.all(Object.keys(zip.files)
+      .filter(path => /^ppt\/slideLayouts\/slideLayout\d+\.xml$/.test(path))
+      .map(path => zip.file(path)!.async('string')));
+    const twoColumn = layouts.filter(xml => xml.includes('<p:cSld name="Two Column"'));
+    expect(twoColumn).toHaveLength(1);
+    expect(twoColumn[0]!.match(/type="body"/g)).toHaveLength(3); // Subtitle and both columns
+
+    const xml = await zip.file('ppt/slides/slide1.xml')!.async('string');
+    expect(xml).toMatch(/<p:ph\s+idx="\d+"\s+type="title"/);
+    expect(xml).toContain('Quarterly Review');
+    // Regions the slide doesn't use leave no empty placeholders behind
+    expect(xml).not.toContain('type="body"');
+  });
+});
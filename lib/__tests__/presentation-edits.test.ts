@@ -0,0 +1,152 @@
+/** @jest-environment node */
+import { applyEdit } from '../presentation-edits';
+import type { Slide, SlidePresentation, SlideTheme } from '@/types/slides';
+
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
+const theme: SlideTheme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: { primary: '#2563eb', secondary: '#64748b', accent: '#f59e0b', background: '#ffffff', text: '#1e293b' },
+  fonts: { heading: 'Inter', body: 'Inter' },
+  layout: 'modern'
+};
+
+const makeSlide = (id: string, bullets: string[] = ['One', 'Two', 'Three']): Slide => ({
+  id,
+  title: `Slide ${id}`,
+  theme,
+  contents: [
+    { id: `${id}-title`, type: 'title', content: `Slide ${id}`, position: { x: 50, y: 20 }, style: { alignment: 'center' } },
+    ...bullets.map((text, index) => ({
+      id: `${id}-bullet-${index}`,
+      type: 'bullet' as const,
+      content: text,
+      position: { x: 20, y: 40 + index * 12 }
+    }))
+  ]
+});
+
+const makePresentation = (slides: Slide[] = [makeSlide('a'), makeSlide('b')]): SlidePresentation => ({
+  id: 'presentation-1',
+  title: 'Deck',
+  slides,
+  theme,
+  metadata: { created: new Date(0), updated: new Date(0), totalSlides: slides.length },
+  settings: {}
+});
+
+const bulletsOf = (slide: Slide | undefined) =>
+  slide?.contents.filter(content => content.type === 'bullet').map(content => [content.content, content.position.y]);
+
+describe('applyEdit', () => {
+  it('updates text without touching the original or other slides', () => {
+    const original = makePresentation();
+    const edited = applyEdit(original, { type: 'updateContent', slideId: 'a', contentId: 'a-title', content: 'Renamed' });
+
+    expect(edited.slides[0]?.title).toBe('Renamed');
+    expect(edited.slides[0]?.contents[0]?.content).toBe('Renamed');
+    expect(original.slides[0]?.title).toBe('Slide a');
+    expect(edited.slides[1]).toBe(original.slides[1]);
+    expect(edited.metadata.updated.getTime()).toBeGreaterThan(0);
+  });
+
+  it('adds, moves and removes bullets while keeping them stacked', () => {
+    let deck = makePresentation();
+    deck = applyEdit(deck, { type: 'addBullet', slideId: 'a', afterContentId: 'a-bullet-0', content: 'Inserted' });
+    expect(bulletsOf(deck.slides[0])).toEqual([['One', 40], ['Inserted', 52], ['Two', 64], ['Three', 76]]);
+
+    deck = applyEdit(deck, { type: 'moveContent', slideId: 'a', contentId: 'a-bullet-2', offset: -1 });
+    expect(bulletsOf(deck.slides[0])).toEqual([['One', 40], ['Inserted', 52], ['Three', 64], ['Two', 76]]);
+
+    deck = applyEdit(deck, { type: 'removeContent', slideId: 'a', contentId: 'a-bullet-0' });
+    expect(bulletsOf(deck.slides[0])).toEqual([['Inserted', 40], ['Three', 52], ['Two', 64]]);
+  });
+
+  it('never moves a bullet past the title', () => {
+    const deck = makePresentation();
+    expect(applyEdit(deck, { type: 'moveContent', slideId: 'a', contentId: 'a-bullet-0', offset: -1 })).toBe(deck);
+  });
+
+  it('adds, duplicates, reorders and removes slides', () => {
+    let deck = makePresentation();
+    deck = applyEdit(deck, { type: 'addSlide', afterSlideId: 'a' });
+    expect(deck.slides.map(slide => slide.title)).toEqual(['Slide a', 'New Slide', 'Slide b']);
+    expect(deck.metadata.totalSlides).toBe(3);
+
+    deck = applyEdit(deck, { type: 'duplicateSlide', slideId: 'b' });
+    const copy = deck.slides[3];
+    expect(copy?.title).toBe('Slide b');
+    expect(copy?.id).not.toBe('b');
+    expect(copy?.contents.map(content => content.id)).not.toContain('b-title');
+
+    deck = applyEdit(deck, { type: 'moveSlide', slideId: 'b', toIndex: 0 });
+    expect(deck.slides[0]?.id).toBe('b');
+
+    deck = applyEdit(deck, { type: 'removeSlide', slideId: 'a' });
+    expect(deck.slides.map(slide => slide.id)).not.toContain('a');
+  });
+
+  it("replaces a slide's speaker notes", () => {
+    const notes = { opening: 'Hello', mainPoints: ['One'], timing: 'Quick', transition: 'Next', questions: [] };
+    const deck = applyEdit(makePresentation(), { type: 'setNotes', slideId: 'b', notes });
+
+    expect(deck.slides[1]?.notes).toEqual(notes);
+    expect(deck.slides[0]?.notes).toBeUndefined();
+  });
+
+  it('applies a complete new slide order and ignores stale ones', () => {
+    const deck = makePresentation([makeSlide('a'), makeSlide('b'), makeSlide('c')]);
+
+    expect(applyEdit(deck, { type: 'reorderSlides', slideIds: ['c', 'a', 'b'] }).slides.map(slide => slide.id))
+      .toEqual(['c', 'a', 'b']);
+    expect(applyEdit(deck, { type: 'reorderSlides', slideIds: ['c', 'a'] })).toBe(deck);
+    expect(applyEdit(deck, { type: 'reorderSlides', slideIds: ['a', 'b', 'c'] })).toBe(deck);
+  });
+
+  it('rewrites elements in place when their shape is unchanged', () => {
+    const deck = applyEdit(makePresentation(), {
+      type: 'rewriteContent',
+      slideId: 'a',
+      contentIds: ['a-bullet-0'],
+      contents: [{ type: 'bullet', content: 'Shorter' }]
+    });
+
+    expect(deck.slides[0]?.contents[1]).toMatchObject({ id: 'a-bullet-0', content: 'Shorter', position: { y: 40 } });
+  });
+
+  it('replaces bullets with prose where they stood', () => {
+    const deck = applyEdit(makePresentation(), {
+      type: 'rewriteContent',
+      slideId: 'a',
+      contentIds: ['a-bullet-0', 'a-bullet-1', 'a-bullet-2'],
+      contents: [{ type: 'text', content: 'One, two and three.' }]
+    });
+    const slide = deck.slides[0]!;
+
+    expect(slide.contents.map(content => content.type)).toEqual(['title', 'text']);
+    expect(slide.contents[1]?.content).toBe('One, two and three.');
+    expect(slide.layout).toBe('content');
+  });
+
+  it('keeps the last slide', () => {
+    const deck = makePresentation([makeSlide('only')]);
+    expect(applyEdit(deck, { type: 'removeSlide', slideId: 'only' })).toBe(deck);
+  });
+
+  it('returns the same presentation for unknown slides', () => {
+    const deck = makePresentation();
+    expect(applyEdit(deck, { type: 'setLayout', slideId: 'missing', layout: 'title' })).toBe(deck);
+    expect(applyEdit(deck, { type: 'removeSlide', slideId: 'missing' })).toBe(deck);
+  });
+
+  it('returns the same presentation when an edit changes nothing', () => {
+    const deck = makePresentation();
+    expect(applyEdit(deck, { type: 'updateContent', slideId: 'a', contentId: 'a-title', content: 'Slide a' })).toBe(deck);
+    expect(applyEdit(deck, { type: 'updateContent', slideId: 'a', contentId: 'missing', content: 'Renamed' })).toBe(deck);
+    expect(applyEdit(deck, { type: 'removeContent', slideId: 'a', contentId: 'missing' })).toBe(deck);
+  });
+});
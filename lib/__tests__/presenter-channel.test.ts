@@ -0,0 +1,88 @@
+/** @jest-environment node */
+import {
+  formatClock,
+  getAutoAdvanceDelay,
+  getPresentationConfig,
+  openPresenterChannel,
+  type PresenterMessage
+} from '../presenter-channel';
+import type { Slide, SlidePresentation, SlideTheme } from '@/types/slides';
+
+const theme: SlideTheme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: { primary: '#2563eb', secondary: '#64748b', accent: '#f59e0b', background: '#ffffff', text: '#1e293b' },
+  fonts: { heading: 'Inter', body: 'Inter' },
+  layout: 'modern'
+};
+
+const makeSlide = (duration?: number): Slide => ({
+  id: 'slide-1',
+  title: 'Intro',
+  theme,
+  contents: [],
+  ...(duration !== undefined && { metadata: { order: 0, duration, created: new Date(0), updated: new Date(0) } })
+});
+
+const makePresentation = (settings: SlidePresentation['settings'] = {}): SlidePresentation => ({
+  id: 'deck-1',
+  title: 'Deck',
+  slides: [makeSlide()],
+  theme,
+  metadata: { created: new Date(0), updated: new Date(0) },
+  settings
+});
+
+describe('formatClock', () => {
+  it('formats minutes, hours and overtime', () => {
+    expect(formatClock(0)).toBe('0:00');
+    expect(formatClock(75.9)).toBe('1:15');
+    expect(formatClock(3725)).toBe('1:02:05');
+    expect(formatClock(-12)).toBe('-0:12');
+  });
+});
+
+describe('getPresentationConfig', () => {
+  it('defaults to a manual full-screen show with bottom controls', () => {
+    expect(getPresentationConfig(makePresentation())).toMatchObject({
+      autoAdvance: false,
+      fullscreenMode: true,
+      showProgress: true,
+      controlsPosition: 'bottom'
+    });
+  });
+
+  it('reads auto-advance and hides controls from the deck settings', () => {
+    const config = getPresentationConfig(makePresentation({ autoAdvance: true, timing: 20, showControls: false }));
+
+    expect(config).toMatchObject({ autoAdvance: true, autoAdvanceDelay: 20 });
+    expect(config.controlsPosition).toBeUndefined();
+  });
+});
+
+describe('getAutoAdvanceDelay', () => {
+  it('prefers the slide duration over the deck delay', () => {
+    const config = { autoAdvance: true, autoAdvanceDelay: 20 };
+
+    expect(getAutoAdvanceDelay(makeSlide(45), config)).toBe(45);
+    expect(getAutoAdvanceDelay(makeSlide(), config)).toBe(20);
+    expect(getAutoAdvanceDelay(makeSlide(45), { autoAdvance: false })).toBeNull();
+    expect(getAutoAdvanceDelay(makeSlide(), { autoAdvance: true })).toBeNull();
+  });
+});
+
+describe('openPresenterChannel', () => {
+  it('delivers messages between windows of the same presentation only', async () => {
+    const received: PresenterMessage[] = [];
+    const presenter = openPresenterChannel('deck-1', message => received.push(message))!;
+    const audience = openPresenterChannel('deck-1', () => undefined)!;
+    const otherDeck = openPresenterChannel('deck-2', () => undefined)!;
+
+    otherDeck.post({ type: 'goto', index: 9 });
+    audience.post({ type: 'goto', index: 2 });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(received).toEqual([{ type: 'goto', index: 2 }]);
+    [presenter, audience, otherDeck].forEach(channel => channel.close());
+  });
+});
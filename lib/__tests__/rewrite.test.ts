@@ -0,0 +1,64 @@
+/** @jest-environment node */
+import { diffWords, getRewriteSource, parseRewrite } from '../rewrite';
+import type { Slide, SlideTheme } from '@/types/slides';
+
+const theme: SlideTheme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: { primary: '#2563eb', secondary: '#64748b', accent: '#f59e0b', background: '#ffffff', text: '#1e293b' },
+  fonts: { heading: 'Inter', body: 'Inter' },
+  layout: 'modern'
+};
+
+const slide: Slide = {
+  id: 'slide-1',
+  title: 'Revenue',
+  theme,
+  contents: [
+    { id: 'title', type: 'title', content: 'Revenue', position: { x: 50, y: 15 } },
+    { id: 'text', type: 'text', content: 'Up across regions.', position: { x: 8, y: 30 } },
+    { id: 'b1', type: 'bullet', content: 'EMEA +12%', position: { x: 8, y: 45 } },
+    { id: 'chart', type: 'chart', content: '{}', position: { x: 54, y: 30 } }
+  ]
+};
+
+describe('getRewriteSource', () => {
+  it('sends the slide body as lines, bullets marked', () => {
+    expect(getRewriteSource(slide)).toEqual({ contentIds: ['text', 'b1'], text: 'Up across regions.\n- EMEA +12%' });
+  });
+
+  it('targets one element, but never charts or code', () => {
+    expect(getRewriteSource(slide, 'title')).toEqual({ contentIds: ['title'], text: 'Revenue' });
+    expect(getRewriteSource(slide, 'chart')).toBeNull();
+  });
+});
+
+describe('parseRewrite', () => {
+  it('turns lines into bullets and paragraphs', () => {
+    expect(parseRewrite('Intro line\n\n- First\n* Second\n• Third', slide, ['text', 'b1'])).toEqual([
+      { type: 'text', content: 'Intro line' },
+      { type: 'bullet', content: 'First' },
+      { type: 'bullet', content: 'Second' },
+      { type: 'bullet', content: 'Third' }
+    ]);
+  });
+
+  it('keeps a heading one line', () => {
+    expect(parseRewrite('- Revenue\n- by region', slide, ['title'])).toEqual([{ type: 'title', content: 'Revenue by region' }]);
+  });
+});
+
+describe('diffWords', () => {
+  it('marks removed and added words', () => {
+    expect(diffWords('Revenue grew fast this year', 'Revenue grew strongly this year')).toEqual([
+      { type: 'same', text: 'Revenue grew ' },
+      { type: 'removed', text: 'fast ' },
+      { type: 'added', text: 'strongly ' },
+      { type: 'same', text: 'this year' }
+    ]);
+  });
+
+  it('handles empty text', () => {
+    expect(diffWords('', 'New')).toEqual([{ type: 'added', text: 'New' }]);
+  });
+});
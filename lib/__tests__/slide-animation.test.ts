@@ -0,0 +1,75 @@
+/** @jest-environment node */
+import { getAnimationVariants, getContentAnimation, getSlideVariants } from '../slide-animation';
+import type { Slide, SlideContent, SlideTheme } from '@/types/slides';
+
+const theme: SlideTheme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: { primary: '#2563eb', secondary: '#64748b', accent: '#f59e0b', background: '#ffffff', text: '#1e293b' },
+  fonts: { heading: 'Inter', body: 'Inter' },
+  layout: 'modern'
+};
+
+const makeSlide = (overrides: Partial<Slide> = {}): Slide => ({
+  id: 'slide-1',
+  title: 'Intro',
+  theme,
+  contents: [],
+  ...overrides
+});
+
+describe('getAnimationVariants', () => {
+  it('enters from the side opposite its direction and leaves towards it', () => {
+    const variants = getAnimationVariants({ type: 'slide', direction: 'right', duration: 1, delay: 0.5, easing: 'ease-in' }, '40px');
+
+    expect(variants?.hidden).toEqual({ opacity: 0, x: '-40px', y: 0 });
+    expect(variants?.visible).toMatchObject({ x: 0, transition: { duration: 1, delay: 0.5, ease: 'easeIn' } });
+    expect(variants?.exit).toMatchObject({ x: '40px', transition: { delay: 0 } });
+  });
+
+  it('uses the export defaults and skips "none"', () => {
+    expect(getAnimationVariants({ type: 'slide' }, '40px')?.hidden).toEqual({ opacity: 0, x: '40px', y: 0 });
+    expect(getAnimationVariants({ type: 'zoom' }, '40px')?.visible).toMatchObject({ transition: { duration: 0.6, ease: 'easeOut' } });
+    expect(getAnimationVariants({ type: 'none' }, '40px')).toBeNull();
+    expect(getAnimationVariants(undefined, '40px')).toBeNull();
+  });
+});
+
+describe('getContentAnimation', () => {
+  it('fills delay and duration from element metadata', () => {
+    const content: SlideContent = {
+      id: 'bullet-1',
+      type: 'bullet',
+      content: 'Point',
+      position: { x: 10, y: 40 },
+      style: { animation: { type: 'fade', delay: 0.2 } },
+      metadata: { delay: 1, duration: 2 }
+    };
+
+    expect(getContentAnimation(content)).toEqual({ type: 'fade', delay: 0.2, duration: 2 });
+    expect(getContentAnimation({ ...content, style: {} })).toBeUndefined();
+  });
+});
+
+describe('getSlideVariants', () => {
+  it('plays the legacy transition in and out', () => {
+    const variants = getSlideVariants(makeSlide({ transition: 'fade' }));
+
+    expect(variants?.hidden).toEqual({ opacity: 0 });
+    expect(variants?.exit).toMatchObject({ opacity: 0 });
+  });
+
+  it('prefers explicit enter and exit animations', () => {
+    const variants = getSlideVariants(makeSlide({
+      transition: 'fade',
+      transitions: { enter: { type: 'zoom' }, exit: { type: 'slide', direction: 'left' } }
+    }));
+
+    expect(variants?.hidden).toEqual({ opacity: 0, scale: 0.85 });
+    expect(variants?.exit).toMatchObject({ x: '-100%' });
+  });
+
+  it('returns null for slides without transitions', () => {
+    expect(getSlideVariants(makeSlide())).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+/** @jest-environment node */
+import { getOrderChanges, resolveSlideOrder } from '../slide-flow';
+
+const slides = [
+  { id: 'cover', title: 'Launch', layout: 'title' as const },
+  { id: 'a', title: 'Results' },
+  { id: 'b', title: 'Problem' },
+  { id: 'c', title: 'Results' }
+];
+
+describe('resolveSlideOrder', () => {
+  it('uses a complete answer as it is', () => {
+    expect(resolveSlideOrder(slides, ['cover', 'b', 'c', 'a'])).toEqual({ order: ['cover', 'b', 'c', 'a'], source: 'ai' });
+  });
+
+  it('drops unknown and repeated ids and appends the slides it left out', () => {
+    expect(resolveSlideOrder(slides, ['b', 'Problem', 'b', 'a']).order).toEqual(['cover', 'b', 'a', 'c']);
+  });
+
+  it('keeps the title slide first', () => {
+    expect(resolveSlideOrder(slides, ['b', 'a', 'cover', 'c']).order).toEqual(['cover', 'b', 'a', 'c']);
+  });
+
+  it('falls back to the current order when the answer is unusable', () => {
+    const current = { order: ['cover', 'a', 'b', 'c'], source: 'fallback' };
+
+    expect(resolveSlideOrder(slides, null)).toEqual(current);
+    expect(resolveSlideOrder(slides, ['Results', 'Problem', 'Launch'])).toEqual(current);
+    expect(resolveSlideOrder(slides, ['b'])).toEqual(current);
+  });
+});
+
+describe('getOrderChanges', () => {
+  it('lists only the slides that move', () => {
+    expect(getOrderChanges(slides, ['cover', 'b', 'a', 'c'])).toEqual([
+      { slideId: 'b', title: 'Problem', from: 2, to: 1 },
+      { slideId: 'a', title: 'Results', from: 1, to: 2 }
+    ]);
+  });
+});
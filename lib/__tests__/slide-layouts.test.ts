@@ -0,0 +1,93 @@
+/** @jest-environment node */
+import { arrangeSlide, chooseLayout, getEmptyRegions, getLayoutRegions } from '../slide-layouts';
+import { getContentBox } from '../slide-geometry';
+import type { Slide, SlideContent, SlideTheme } from '@/types/slides';
+
+const theme: SlideTheme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: { primary: '#2563eb', secondary: '#64748b', accent: '#f59e0b', background: '#ffffff', text: '#1e293b' },
+  fonts: { heading: 'Inter', body: 'Inter' },
+  layout: 'modern'
+};
+
+const makeSlide = (id: string, bullets: string[] = ['One', 'Two', 'Three']): Slide => ({
+  id,
+  title: `Slide ${id}`,
+  theme,
+  contents: [
+    { id: `${id}-title`, type: 'title', content: `Slide ${id}`, position: { x: 50, y: 20 }, style: { alignment: 'center' } },
+    ...bullets.map((text, index) => ({
+      id: `${id}-bullet-${index}`,
+      type: 'bullet' as const,
+      content: text,
+      position: { x: 20, y: 40 + index * 12 }
+    }))
+  ]
+});
+
+const image: SlideContent = { id: 'img', type: 'image', content: 'https://example.com/a.png', position: { x: 70, y: 30 } };
+
+const withImage = (slide: Slide): Slide => ({ ...slide, contents: [...slide.contents, image] });
+
+describe('arrangeSlide', () => {
+  it('splits bullets into two columns', () => {
+    const slide = arrangeSlide(makeSlide('a', ['1', '2', '3', '4']), 'two-column');
+
+    expect(slide.layout).toBe('two-column');
+    expect(slide.contents.filter(content => content.type === 'bullet').map(content => content.position.x))
+      .toEqual([8, 8, 54, 54]);
+  });
+
+  it('gives images most of the slide in image-focus', () => {
+    const slide = arrangeSlide(withImage(makeSlide('a', ['Caption'])), 'image-focus');
+
+    expect(slide.contents.find(content => content.id === 'img')?.size).toEqual({ width: 80, height: 52 });
+  });
+
+  it('puts the title exactly in its region', () => {
+    const slide = arrangeSlide(makeSlide('a'), 'title');
+    expect(getContentBox(slide.contents[0]!)).toEqual(getLayoutRegions('title').title);
+  });
+
+  it('squeezes long lists to fit their column', () => {
+    const slide = arrangeSlide(makeSlide('a', Array.from({ length: 10 }, (_, index) => `Point ${index}`)), 'content');
+    const body = getLayoutRegions('content').body[0]!;
+    const last = getContentBox(slide.contents[slide.contents.length - 1]!);
+
+    expect(last.y + last.height).toBeCloseTo(body.y + body.height);
+  });
+
+  it('moves text beside the media on content slides', () => {
+    const slide = arrangeSlide(withImage(makeSlide('a')), 'content');
+
+    expect(slide.contents.find(content => content.type === 'bullet')?.size?.width).toBe(42);
+    expect(slide.contents.find(content => content.id === 'img')?.position.x).toBe(54);
+  });
+});
+
+describe('chooseLayout', () => {
+  it('matches the layout to what the slide holds', () => {
+    const heading = makeSlide('a', []).contents;
+
+    expect(chooseLayout(heading)).toBe('title');
+    expect(chooseLayout(makeSlide('a').contents)).toBe('content');
+    expect(chooseLayout(withImage(makeSlide('a', ['Caption'])).contents)).toBe('image-focus');
+    expect(chooseLayout(makeSlide('a', ['1', '2', '3', '4', '5', '6']).contents)).toBe('two-column');
+  });
+
+  it('keeps wordy image slides as content beside the image', () => {
+    expect(chooseLayout(withImage(makeSlide('a', ['1', '2', '3', '4'])).contents)).toBe('content');
+  });
+});
+
+describe('getEmptyRegions', () => {
+  it('outlines where an image-focus slide expects its image', () => {
+    const slide = arrangeSlide(makeSlide('a', ['Caption']), 'image-focus');
+    expect(getEmptyRegions(slide)).toEqual([getLayoutRegions('image-focus').media]);
+  });
+
+  it('has nothing to outline without a layout', () => {
+    expect(getEmptyRegions(makeSlide('a', []))).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+/** @jest-environment node */
+import { addSpeakerNotes, formatSpeakerNotes, getNotesText, mapWithConcurrency } from '../speaker-notes';
+import type { Slide, SlidePresentation, SlideTheme, SpeakerNotes } from '@/types/slides';
+
+const theme: SlideTheme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: { primary: '#2563eb', secondary: '#64748b', accent: '#f59e0b', background: '#ffffff', text: '#1e293b' },
+  fonts: { heading: 'Inter', body: 'Inter' },
+  layout: 'modern'
+};
+
+const notes: SpeakerNotes = {
+  opening: 'Start with the headline number',
+  mainPoints: ['EMEA led growth', 'APAC caught up'],
+  timing: 'Two minutes',
+  transition: 'Costs are next',
+  questions: ['Why did APAC lag?']
+};
+
+const makePresentation = (count: number): SlidePresentation => ({
+  id: 'deck',
+  title: 'Deck',
+  slides: Array.from({ length: count }, (_, index): Slide => ({
+    id: `slide-${index}`,
+    title: `Slide ${index}`,
+    theme,
+    contents: [{ id: `title-${index}`, type: 'title', content: `Slide ${index}`, position: { x: 50, y: 15 } }]
+  })),
+  theme,
+  metadata: { created: new Date(0), updated: new Date(0) },
+  settings: {}
+});
+
+describe('formatSpeakerNotes', () => {
+  it('lays the sections out as text for exporters', () => {
+    expect(formatSpeakerNotes(notes)).toBe([
+      'Opening: Start with the headline number',
+      'Main points:\n- EMEA led growth\n- APAC caught up',
+      'Timing: Two minutes',
+      'Transition: Costs are next',
+      'Q&A prep:\n- Why did APAC lag?'
+    ].join('\n\n'));
+  });
+
+  it('passes typed notes through', () => {
+    expect(formatSpeakerNotes('Just talk')).toBe('Just talk');
+  });
+});
+
+describe('getNotesText', () => {
+  it('falls back to legacy speakerNotes', () => {
+    expect(getNotesText({ speakerNotes: 'Old notes' })).toBe('Old notes');
+    expect(getNotesText({})).toBe('');
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('never runs more than the limit at once and keeps the order', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async item => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 8 - item));
+      running--;
+      return item * 10;
+    });
+
+    expect(peak).toBe(3);
+    expect(results).toEqual([10, 20, 30, 40, 50, 60, 70]);
+  });
+});
+
+describe('addSpeakerNotes', () => {
+  it('writes notes for every slide and leaves failed slides as they were', async () => {
+    const generateSpeakerNotes = jest.fn(async (slide: Pick<Slide, 'title'>) => {
+      if (slide.title === 'Slide 1') throw new Error('model overloaded');
+      return notes;
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const deck = makePresentation(3);
+    const result = await addSpeakerNotes(deck, { name: 'test', generateSpeakerNotes }, { presentationType: 'report' });
+
+    expect(generateSpeakerNotes).toHaveBeenCalledTimes(3);
+    expect(generateSpeakerNotes).toHaveBeenCalledWith(deck.slides[0], 'report');
+    expect(result.slides.map(slide => slide.notes)).toEqual([notes, undefined, notes]);
+    expect(result.slides[1]).toBe(deck.slides[1]);
+  });
+});
@@ -0,0 +1,131 @@
+/** @jest-environment node */
+import { countLines, fitContentText, fitSlideText, getMinFontSizePx, getQualityReport, getTextOverflowPx, MIN_FONT_SIZES_PX } from '../text-fit';
+import { createSlidesFromSection } from '../slide-generator';
+import { getFontSizePx } from '../slide-geometry';
+import type { Slide, SlideContent, SlideTheme } from '@/types/slides';
+
+jest.mock('nanoid', () => {
+  let counter = 0;
+  return { nanoid: () => `test-id-${++counter}` };
+});
+
+const theme: SlideTheme = {
+  id: 'modern',
+  name: 'Modern',
+  colors: { primary: '#2563eb', secondary: '#64748b', accent: '#f59e0b', background: '#ffffff', text: '#1e293b' },
+  fonts: { heading: 'Inter', body: 'Inter' },
+  layout: 'modern'
+};
+
+const longText = Array.from({ length: 60 }, () => 'overflowing').join(' ');
+
+const bullet = (content: string, height: number = 10): SlideContent => ({
+  id: 'b',
+  type: 'bullet',
+  content,
+  position: { x: 8, y: 30 },
+  size: { width: 84, height }
+});
+
+describe('countLines', () => {
+  it('wraps between words and keeps explicit line breaks', () => {
+    expect(countLines('short', 500, 20)).toBe(1);
+    expect(countLines('one two three four five six', 60, 20)).toBeGreaterThan(2);
+    expect(countLines('one\ntwo', 500, 20)).toBe(2);
+  });
+
+  it('breaks words wider than the line', () => {
+    expect(countLines('x'.repeat(100), 100, 20)).toBeGreaterThan(5);
+  });
+});
+
+describe('getTextOverflowPx', () => {
+  it('is 0 when the text fits and positive when it spills over', () => {
+    expect(getTextOverflowPx(bullet('A short point'))).toBe(0);
+    expect(getTextOverflowPx(bullet(longText))).toBeGreaterThan(0);
+  });
+
+  it('ignores elements without text', () => {
+    expect(getTextOverflowPx({ id: 'i', type: 'image', content: longText, position: { x: 0, y: 0 } })).toBe(0);
+  });
+});
+
+describe('fitContentText', () => {
+  it('leaves text that fits alone', () => {
+    const content = bullet('A short point');
+    expect(fitContentText(content)).toBe(content);
+  });
+
+  it('shrinks the font until the text fits', () => {
+    const content = bullet(Array.from({ length: 30 }, () => 'word').join(' '));
+    expect(getTextOverflowPx(content)).toBeGreaterThan(0);
+
+    const fitted = fitContentText(content);
+    expect(getFontSizePx(fitted)).toBeLessThan(getFontSizePx(content));
+    expect(getTextOverflowPx(fitted)).toBe(0);
+  });
+
+  it('stops at the smallest readable size', () => {
+    const fitted = fitContentText(bullet(longText));
+    expect(getFontSizePx(fitted)).toBe(MIN_FONT_SIZES_PX.bullet);
+  });
+
+  it("stops higher when the theme's body font is a serif", () => {
+    const serif = { ...theme, fonts: { heading: 'Inter, sans-serif', body: 'Georgia, serif' } };
+    const [fitted] = fitSlideText({ id: 's', title: 'Serif', theme: serif, contents: [bullet(longText)] }).contents;
+
+    expect(getFontSizePx(fitted!)).toBe(getMinFontSizePx('bullet', serif));
+    expect(getMinFontSizePx('bullet', serif)).toBeGreaterThan(MIN_FONT_SIZES_PX.bullet);
+  });
+});
+
+describe('getMinFontSizePx', () => {
+  it('keeps the sans-serif floors for sans-serif and monospace faces', () => {
+    expect(getMinFontSizePx('title', theme)).toBe(MIN_FONT_SIZES_PX.title);
+    expect(getMinFontSizePx('bullet', { fonts: { heading: 'Inter', body: 'system-ui, sans-serif' } })).toBe(MIN_FONT_SIZES_PX.bullet);
+    expect(getMinFontSizePx('code', theme)).toBe(MIN_FONT_SIZES_PX.code);
+    expect(getMinFontSizePx('text')).toBe(MIN_FONT_SIZES_PX.text);
+  });
+
+  it('raises the floor for serif faces, heading and body separately', () => {
+    const serifHeadings = { fonts: { heading: 'Merriweather, serif', body: 'Inter, sans-serif' } };
+
+    expect(getMinFontSizePx('title', serifHeadings)).toBe(32);
+    expect(getMinFontSizePx('subtitle', serifHeadings)).toBe(23);
+    expect(getMinFontSizePx('bullet', serifHeadings)).toBe(MIN_FONT_SIZES_PX.bullet);
+  });
+});
+
+describe('getQualityReport', () => {
+  it('lists the slides whose text still overflows', () => {
+    const slide = (id: string, contents: SlideContent[]): Slide => ({ id, title: `Slide ${id}`, theme, contents });
+    const report = getQualityReport({
+      slides: [slide('a', [bullet('Fine')]), slide('b', [{ ...bullet(longText), id: 'long' }])]
+    });
+
+    expect(report).toEqual({
+      overflowingSlides: [{ slideId: 'b', slideNumber: 2, title: 'Slide b', contentIds: ['long'] }]
+    });
+  });
+});
+
+describe('createSlidesFromSection', () => {
+  const sentence = 'A fairly long bullet point that explains one idea in some detail for the audience';
+
+  it('keeps a section that fits on one slide', () => {
+    const slides = createSlidesFromSection({ heading: 'Plan', bullets: ['One', 'Two'] }, theme, 1);
+    expect(slides).toHaveLength(1);
+  });
+
+  it('moves bullets that do not fit onto continuation slides', () => {
+    const bullets = Array.from({ length: 24 }, (_, index) => `${index + 1}. ${sentence}`);
+    const slides = createSlidesFromSection({ heading: 'Plan', bullets }, theme, 1);
+
+    expect(slides.length).toBeGreaterThan(1);
+    expect(slides.slice(1).every(slide => slide.title === 'Plan (cont.)')).toBe(true);
+    expect(getQualityReport({ slides }).overflowingSlides).toEqual([]);
+
+    const shown = slides.flatMap(slide => slide.contents.filter(content => content.type === 'bullet').map(content => content.content));
+    expect(shown).toEqual(bullets);
+  });
+});
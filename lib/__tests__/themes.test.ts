@@ -0,0 +1,37 @@
+/** @jest-environment node */
+import { DEFAULT_THEMES, assertReadableTheme, checkThemeContrast, getThemeById } from '../themes';
+
+describe('checkThemeContrast', () => {
+  it('passes every built-in theme', () => {
+    for (const theme of DEFAULT_THEMES) {
+      expect(checkThemeContrast(theme.colors).filter(check => !check.passes)).toEqual([]);
+    }
+  });
+
+  it('only checks optional colors the theme sets', () => {
+    const colors = { primary: '#2563eb', secondary: '#64748b', accent: '#06b6d4', background: '#ffffff', text: '#1e293b' };
+
+    expect(checkThemeContrast(colors).map(check => check.label)).toEqual(['Body text', 'Titles', 'Subtitles']);
+    expect(checkThemeContrast({ ...colors, surface: '#f1f5f9', muted: '#94a3b8' }).map(check => check.label))
+      .toEqual(['Body text', 'Titles', 'Subtitles', 'Captions', 'Code']);
+  });
+});
+
+describe('assertReadableTheme', () => {
+  it('names the color that needs to change', () => {
+    const colors = { primary: '#2563eb', secondary: '#64748b', accent: '#06b6d4', background: '#ffffff', text: '#1e293b', muted: '#cbd5e1' };
+
+    expect(() => assertReadableTheme({ colors })).toThrow(expect.objectContaining({
+      field: 'colors.muted',
+      code: 'THEME_CONTRAST_TOO_LOW'
+    }));
+  });
+});
+
+describe('getThemeById', () => {
+  it('accepts the names older upload forms sent', () => {
+    expect(getThemeById('corporate')?.id).toBe('modern');
+    expect(getThemeById('creative')?.id).toBe('creative');
+    expect(getThemeById('not-a-theme')).toBeUndefined();
+  });
+});
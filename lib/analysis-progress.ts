@@ -0,0 +1,133 @@
+// Live progress for building a presentation - the stages the pipeline goes through, how far
+// along it is, and the server-sent events that carry it to the browser.
+// Safe to import from client components.
+
+import type { AnalysisProgress, GeminiAnalysisResult } from '@/types/slides';
+
+export type PipelineStage = Exclude<AnalysisProgress['stage'], 'complete' | 'error'>;
+
+// In the order the route runs them
+const PIPELINE_STAGES: readonly PipelineStage[] = ['uploading', 'analyzing', 'theme', 'generating', 'notes', 'optimizing'];
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  uploading: 'Reading uploads',
+  analyzing: 'Analyzing',
+  theme: 'Choosing the theme',
+  generating: 'Building slides',
+  notes: 'Writing speaker notes',
+  optimizing: 'Checking text fits'
+};
+
+// Rough share of the total time - AI calls dominate, so each page and the notes weigh most
+const STAGE_WEIGHTS: Record<PipelineStage, number> = {
+  uploading: 1,
+  analyzing: 6, // Per page
+  theme: 1,
+  generating: 1,
+  notes: 4,
+  optimizing: 1
+};
+
+export interface ProgressPlan {
+  pages: number;
+  notes: boolean; // Speaker notes are optional, so their stage may be skipped
+}
+
+/**
+ * Track progress through the pipeline. Each call reports a stage and how much of it is
+ * done (0-1); the tracker works out the overall percentage, steps completed and, from the
+ * time taken so far, an estimate of the time left.
+ */
+export function createProgressTracker(plan: ProgressPlan, now: () => number = Date.now) {
+  const stages = PIPELINE_STAGES.filter(stage => stage !== 'notes' || plan.notes);
+  const weightOf = (stage: PipelineStage) => STAGE_WEIGHTS[stage] * (stage === 'analyzing' ? plan.pages : 1);
+  const stepsOf = (stage: PipelineStage) => (stage === 'analyzing' ? plan.pages : 1);
+  const sum = (list: readonly PipelineStage[], of: (stage: PipelineStage) => number) =>
+    list.reduce((total, stage) => total + of(stage), 0);
+
+  const totalWeight = sum(stages, weightOf);
+  const totalSteps = sum(stages, stepsOf);
+  const startedAt = now();
+
+  return (stage: PipelineStage | 'complete', message: string, fraction = 0): AnalysisProgress => {
+    if (stage === 'complete') {
+      return { stage, progress: 100, message, estimatedTimeRemaining: 0, details: { totalSteps, completedSteps: totalSteps } };
+    }
+
+    const done = Math.min(Math.max(fraction, 0), 1);
+    const before = stages.slice(0, Math.max(stages.indexOf(stage), 0));
+    const progress = Math.round((100 * (sum(before, weightOf) + weightOf(stage) * done)) / totalWeight);
+    const elapsed = (now() - startedAt) / 1000;
+
+    return {
+      stage,
+      progress,
+      message,
+      ...(progress > 0 && { estimatedTimeRemaining: Math.round((elapsed * (100 - progress)) / progress) }),
+      details: {
+        currentStep: STAGE_LABELS[stage],
+        totalSteps,
+        completedSteps: sum(before, stepsOf) + Math.floor(stepsOf(stage) * done)
+      }
+    };
+  };
+}
+
+/**
+ * Sections found on one page, sent as soon as that page is analyzed so the
+ * outline can fill in before the deck is ready
+ */
+export interface PartialSections {
+  image: number; // Position in upload order, starting at 1
+  page?: number; // Page number when the upload was a PDF
+  name: string;
+  title: string;
+  sections: GeminiAnalysisResult['structuredContent']['sections'];
+}
+
+export type AnalysisStreamEvent =
+  | { event: 'progress'; data: AnalysisProgress }
+  | { event: 'section'; data: PartialSections }
+  | { event: 'result'; data: { presentation: unknown; analysis: GeminiAnalysisResult; quality: unknown } }
+  | { event: 'error'; data: { error: string; code?: string; status: number } };
+
+export const formatEvent = ({ event, data }: AnalysisStreamEvent) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+// One "event:/data:" block - comments and unknown fields are ignored
+function parseEvent(block: string): AnalysisStreamEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+  if (data.length === 0) return null;
+  return { event, data: JSON.parse(data.join('\n')) } as AnalysisStreamEvent;
+}
+
+/**
+ * Read server-sent events from a fetch body. EventSource can't POST a form, so the
+ * events are split out of the stream by hand - they may arrive cut at any point.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AnalysisStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    let end = buffer.indexOf('\n\n');
+    while (end !== -1) {
+      const event = parseEvent(buffer.slice(0, end));
+      buffer = buffer.slice(end + 2);
+      if (event) onEvent(event);
+      end = buffer.indexOf('\n\n');
+    }
+    if (done) return;
+  }
+}
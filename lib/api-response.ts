@@ -0,0 +1,52 @@
+// Shared JSON responses for API routes
+// Keeps status codes and error shapes consistent between endpoints
+
+import { NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { AppError, logError } from '@/lib/errors';
+
+/**
+ * Turn anything thrown inside a route handler into a JSON error response
+ * AppErrors keep their status code, validation failures and unreadable JSON
+ * bodies become 400s, and everything else is logged and reported as a 500
+ */
+export function errorResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof ZodError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.issues[0]?.message ?? 'Invalid request',
+        code: 'VALIDATION_ERROR',
+        details: error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+      },
+      { status: 400 }
+    );
+  }
+
+  // What request.json() throws when the body isn't JSON - matched by name, as the
+  // runtime's fetch implementation may throw it from another realm
+  if ((error as { name?: unknown } | null)?.name === 'SyntaxError') {
+    return NextResponse.json(
+      { success: false, error: 'Request body must be valid JSON', code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof AppError) {
+    if (error.statusCode >= 500) logError(error);
+    return NextResponse.json(
+      { success: false, error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  logError(error instanceof Error ? error : new Error(String(error)));
+  return NextResponse.json(
+    {
+      success: false,
+      error: fallbackMessage,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    },
+    { status: 500 }
+  );
+}
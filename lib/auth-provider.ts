@@ -0,0 +1,97 @@
+// Auth providers - sign-in asks "who is this?" without caring which identity service
+// answers, so the app runs against Auth0 in production and local accounts offline
+
+import { AuthenticationError, ExternalServiceError } from '@/lib/errors';
+import { localAuthProvider } from '@/lib/local-auth-provider';
+
+/**
+ * The signed-in user, as stored in the session
+ * `sub` is the provider-qualified ID ("auth0|...", "local|...") records are owned by
+ */
+export interface AuthUser {
+  sub: string;
+  name: string;
+  email: string | null;
+  picture: string | null;
+}
+
+export interface AuthProvider {
+  readonly name: string;
+  // 'credentials' checks an email and password itself, 'redirect' sends the browser to a hosted login page
+  readonly type: 'credentials' | 'redirect';
+  // False when required configuration (client IDs, accounts) is missing
+  isConfigured(): boolean;
+  signInWithCredentials?(email: string, password: string): Promise<AuthUser>;
+  getAuthorizationUrl?(options: { state: string; redirectUri: string }): string;
+  handleCallback?(options: { code: string; redirectUri: string }): Promise<AuthUser>;
+}
+
+// Auth0 over plain OpenID Connect - authorization code flow, then the userinfo endpoint
+const auth0Issuer = () => process.env.AUTH0_ISSUER_BASE_URL?.replace(/\/+$/, '') ?? '';
+
+export const auth0AuthProvider: AuthProvider = {
+  name: 'auth0',
+  type: 'redirect',
+  isConfigured: () => Boolean(
+    process.env.AUTH0_ISSUER_BASE_URL && process.env.AUTH0_CLIENT_ID && process.env.AUTH0_CLIENT_SECRET
+  ),
+
+  getAuthorizationUrl({ state, redirectUri }) {
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: process.env.AUTH0_CLIENT_ID ?? '',
+      redirect_uri: redirectUri,
+      scope: 'openid profile email',
+      state
+    });
+    return `${auth0Issuer()}/authorize?${params}`;
+  },
+
+  async handleCallback({ code, redirectUri }) {
+    const tokenResponse = await fetch(`${auth0Issuer()}/oauth/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        grant_type: 'authorization_code',
+        client_id: process.env.AUTH0_CLIENT_ID,
+        client_secret: process.env.AUTH0_CLIENT_SECRET,
+        code,
+        redirect_uri: redirectUri
+      })
+    });
+    if (!tokenResponse.ok) {
+      throw new AuthenticationError('Sign-in was rejected by the identity provider', 'AUTH_CALLBACK_FAILED');
+    }
+    const { access_token: accessToken } = await tokenResponse.json();
+
+    const profileResponse = await fetch(`${auth0Issuer()}/userinfo`, {
+      headers: { Authorization: `Bearer ${accessToken}` }
+    });
+    if (!profileResponse.ok) {
+      throw new ExternalServiceError('Could not load the user profile', 'auth0');
+    }
+    const profile = await profileResponse.json();
+
+    return {
+      sub: profile.sub,
+      name: profile.name ?? profile.nickname ?? profile.email ?? 'User',
+      email: profile.email ?? null,
+      picture: profile.picture ?? null
+    };
+  }
+};
+
+const PROVIDERS: Record<string, AuthProvider> = {
+  auth0: auth0AuthProvider,
+  local: localAuthProvider,
+};
+
+// Pick the provider named by AUTH_PROVIDER (defaults to Auth0)
+export function getAuthProvider(name = process.env.AUTH_PROVIDER): AuthProvider {
+  const key = name?.trim().toLowerCase() || 'auth0';
+  const provider = PROVIDERS[key];
+  if (!provider) {
+    throw new Error(`Unknown auth provider "${name}". Use one of: ${Object.keys(PROVIDERS).join(', ')}`);
+  }
+  return provider;
+}
@@ -0,0 +1,72 @@
+// Brand kits - saved to MongoDB, one per user
+// Each kit is one document in the `brand_kits` collection, keyed by its owner
+
+import type { z } from 'zod';
+import { connectToDatabase } from '@/lib/mongodb';
+import { NotFoundError } from '@/lib/errors';
+import { assertReadableTheme } from '@/lib/themes';
+import { toBrandTheme, type BrandKit } from '@/lib/brand-kit';
+import type { BrandKitSchema } from '@/utils/validation-schemas';
+
+export type BrandKitInput = z.infer<typeof BrandKitSchema>;
+
+/**
+ * A saved brand kit, exactly as it lives in the database
+ */
+export interface BrandKitRecord extends BrandKit {
+  _id: string; // The owner's user ID - one kit each
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const COLLECTION_NAME = 'brand_kits';
+
+const getCollection = async () => {
+  const { db } = await connectToDatabase();
+  return db.collection<BrandKitRecord>(COLLECTION_NAME);
+};
+
+export const toBrandKit = ({ name, colors, fonts, logo }: BrandKitRecord): BrandKit => ({ name, colors, fonts, logo });
+
+/**
+ * The user's brand kit, or null if they haven't set one up
+ */
+export async function getBrandKit(userId: string): Promise<BrandKit | null> {
+  const collection = await getCollection();
+  const record = await collection.findOne({ _id: userId });
+  return record ? toBrandKit(record) : null;
+}
+
+/**
+ * Create or replace the user's brand kit - its colors must pass WCAG AA like any theme
+ */
+export async function saveBrandKit(userId: string, input: BrandKitInput): Promise<BrandKit> {
+  const kit: BrandKit = input;
+  assertReadableTheme(toBrandTheme(kit));
+  const collection = await getCollection();
+  const existing = await collection.findOne({ _id: userId });
+  const now = new Date();
+
+  const record: BrandKitRecord = {
+    ...kit,
+    _id: userId,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+
+  if (existing) {
+    await collection.replaceOne({ _id: userId }, record);
+  } else {
+    await collection.insertOne(record);
+  }
+  return toBrandKit(record);
+}
+
+export async function deleteBrandKit(userId: string): Promise<void> {
+  const collection = await getCollection();
+  const result = await collection.deleteOne({ _id: userId });
+
+  if (result.deletedCount === 0) {
+    throw new NotFoundError('No brand kit to delete');
+  }
+}
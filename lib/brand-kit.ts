@@ -0,0 +1,174 @@
+// Brand kits - a user's colors, fonts and logo, applied to every new deck
+// Colors come from the uploaded logo or brand guide by pixel quantization, run locally
+// (in the browser) rather than asking the AI to guess. Safe to import from client
+// components: saved kits live in lib/brand-kit-store.
+
+import { mixColors, parseColor, toHex, type RGBA } from '@/lib/colors';
+import { getContrastRatio } from '@/lib/accessibility';
+import { WCAG_AA_LARGE_TEXT } from '@/lib/themes';
+import type { LogoPlacement, SlideTheme } from '@/types/slides';
+
+export interface BrandKit {
+  name: string;
+  colors: Pick<SlideTheme['colors'], 'primary' | 'secondary' | 'accent' | 'background' | 'text'>;
+  fonts: Pick<SlideTheme['fonts'], 'heading' | 'body'>;
+  logo: NonNullable<SlideTheme['logo']> | null;
+}
+
+/**
+ * One color of an image's palette and how many sampled pixels it stands for
+ */
+export interface PaletteColor {
+  color: string;
+  population: number;
+}
+
+export const LOGO_PLACEMENTS: LogoPlacement[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+// Enough pixels for a stable palette - callers downscale the image before reading it
+const MAX_SAMPLES = 10000;
+
+type Pixel = [number, number, number];
+
+// '#rrggbb', the form color inputs use
+const toCssHex = (color: RGBA) => `#${toHex(color).toLowerCase()}`;
+
+const channelRange = (pixels: Pixel[], channel: number) => {
+  let min = 255;
+  let max = 0;
+  for (const pixel of pixels) {
+    min = Math.min(min, pixel[channel]!);
+    max = Math.max(max, pixel[channel]!);
+  }
+  return max - min;
+};
+
+// Cut a sorted box near its middle, but never between two pixels with the same value -
+// otherwise one flat color would end up split across both halves
+const splitAtMedian = (sorted: Pixel[], channel: number): [Pixel[], Pixel[]] => {
+  const sameAsPrevious = (index: number) => sorted[index]![channel] === sorted[index - 1]![channel];
+
+  let cut = Math.floor(sorted.length / 2);
+  while (cut < sorted.length && sameAsPrevious(cut)) cut++;
+  if (cut === sorted.length) {
+    cut = Math.floor(sorted.length / 2);
+    while (cut > 1 && sameAsPrevious(cut)) cut--;
+  }
+  return [sorted.slice(0, cut), sorted.slice(cut)];
+};
+
+/**
+ * Median-cut quantization of RGBA pixel data (as from canvas getImageData) into at most
+ * `maxColors` colors, most common first. Transparent pixels are ignored.
+ */
+export function quantizeColors(data: ArrayLike<number>, maxColors: number = 8): PaletteColor[] {
+  const pixelCount = Math.floor(data.length / 4);
+  const stride = Math.max(1, Math.floor(pixelCount / MAX_SAMPLES));
+
+  const pixels: Pixel[] = [];
+  for (let index = 0; index < pixelCount; index += stride) {
+    const offset = index * 4;
+    if ((data[offset + 3] ?? 255) < 128) continue;
+    pixels.push([data[offset]!, data[offset + 1]!, data[offset + 2]!]);
+  }
+  if (pixels.length === 0) return [];
+
+  // Keep splitting the biggest box along its widest channel until we have enough colors
+  const boxes: Pixel[][] = [pixels];
+  while (boxes.length < maxColors) {
+    const candidates = boxes
+      .map((box, index) => ({ box, index }))
+      .filter(({ box }) => box.length > 1 && [0, 1, 2].some(channel => channelRange(box, channel) > 0));
+    if (candidates.length === 0) break;
+
+    const { box, index } = candidates.reduce((largest, candidate) => candidate.box.length > largest.box.length ? candidate : largest);
+    const channel = [0, 1, 2].reduce((widest, current) => channelRange(box, current) > channelRange(box, widest) ? current : widest);
+    const sorted = [...box].sort((a, b) => a[channel]! - b[channel]!);
+    boxes.splice(index, 1, ...splitAtMedian(sorted, channel));
+  }
+
+  return boxes
+    .map(box => {
+      const sum = box.reduce((total, pixel) => [total[0] + pixel[0], total[1] + pixel[1], total[2] + pixel[2]], [0, 0, 0]);
+      return {
+        color: toCssHex({ r: sum[0] / box.length, g: sum[1] / box.length, b: sum[2] / box.length, a: 1 }),
+        population: box.length
+      };
+    })
+    .sort((a, b) => b.population - a.population);
+}
+
+// Whites, blacks and grays are usually backgrounds and outlines, not the brand
+const isNeutral = (color: RGBA) => {
+  const max = Math.max(color.r, color.g, color.b);
+  const min = Math.min(color.r, color.g, color.b);
+  return max - min < 40 || max < 30 || min > 235;
+};
+
+// Antialiased edges split one brand color into near-identical shades - keep just the first
+const MIN_COLOR_DISTANCE = 48;
+
+const colorDistance = (a: RGBA, b: RGBA) => Math.hypot(a.r - b.r, a.g - b.g, a.b - b.b);
+
+const BLACK: RGBA = { r: 0, g: 0, b: 0, a: 1 };
+
+/**
+ * Darken a color until it reaches the given contrast against the background
+ */
+export function ensureContrast(color: string, background: string, minimum: number): string {
+  const base = parseColor(color);
+  if (!base) return color;
+
+  for (let step = 0; step <= 10; step++) {
+    const candidate = toCssHex(mixColors(base, BLACK, step / 10));
+    if (getContrastRatio(candidate, background) >= minimum) return candidate;
+  }
+  return '#000000';
+}
+
+const FALLBACK_COLORS: BrandKit['colors'] = {
+  primary: '#2563eb',
+  secondary: '#64748b',
+  accent: '#06b6d4',
+  background: '#ffffff',
+  text: '#1e293b'
+};
+
+/**
+ * Turn an image's palette into theme colors - the most common brand colors become
+ * primary, secondary and accent, darkened where needed so titles stay readable on white
+ */
+export function pickBrandColors(palette: PaletteColor[]): BrandKit['colors'] {
+  const picked: RGBA[] = [];
+  for (const entry of palette) {
+    const color = parseColor(entry.color);
+    if (!color || isNeutral(color) || picked.some(other => colorDistance(color, other) < MIN_COLOR_DISTANCE)) continue;
+    picked.push(color);
+  }
+  const brand = picked.map(toCssHex);
+
+  const { background, text } = FALLBACK_COLORS;
+  return {
+    primary: ensureContrast(brand[0] ?? FALLBACK_COLORS.primary, background, WCAG_AA_LARGE_TEXT),
+    secondary: ensureContrast(brand[1] ?? FALLBACK_COLORS.secondary, background, WCAG_AA_LARGE_TEXT),
+    accent: brand[2] ?? brand[0] ?? FALLBACK_COLORS.accent,
+    background,
+    text
+  };
+}
+
+export const BRAND_THEME_ID = 'brand-kit';
+
+/**
+ * The theme a brand kit gives every new deck
+ */
+export function toBrandTheme(kit: BrandKit): SlideTheme {
+  return {
+    id: BRAND_THEME_ID,
+    name: kit.name,
+    colors: kit.colors,
+    fonts: kit.fonts,
+    layout: 'modern',
+    ...(kit.logo && { logo: kit.logo })
+  };
+}
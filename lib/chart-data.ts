@@ -0,0 +1,28 @@
+// Chart content - 'chart' elements keep their data as JSON in SlideContent.content
+// Parsed here so every renderer agrees on what a valid chart looks like
+
+import { z } from 'zod';
+import type { SlideChartData } from '@/types/slides';
+
+const ChartDataSchema = z.object({
+  type: z.enum(['bar', 'line', 'pie', 'doughnut', 'area']).default('bar'),
+  title: z.string().optional(),
+  labels: z.array(z.string()).min(1),
+  series: z.array(z.object({
+    name: z.string(),
+    values: z.array(z.number())
+  })).min(1)
+});
+
+/**
+ * Parse chart JSON, returning null when the content isn't usable chart data
+ * (older decks store a plain-text description here instead)
+ */
+export function parseChartData(content: string): SlideChartData | null {
+  try {
+    const result = ChartDataSchema.safeParse(JSON.parse(content));
+    return result.success ? (result.data as SlideChartData) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,166 @@
+// Chart layout - works out the shapes that make up a chart once, so the PDF writer
+// and the HTML export draw identical charts with their own primitives
+
+import type { SlideChartData, SlideTheme } from '@/types/slides';
+import { mixColors, parseColor, type RGBA } from '@/lib/colors';
+
+export type ChartPoint = [number, number];
+
+export interface ChartBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One drawable piece of a chart - `series` indexes into getSeriesColor
+ */
+export type ChartShape =
+  | { kind: 'rect'; box: ChartBox; series: number }
+  | { kind: 'polygon'; points: ChartPoint[]; series: number; faded: boolean }
+  | { kind: 'line'; points: ChartPoint[]; series: number; width: number }
+  | { kind: 'axis'; from: ChartPoint; to: ChartPoint; width: number }
+  | { kind: 'hole'; center: ChartPoint; radius: number }
+  | { kind: 'label'; text: string; box: ChartBox; fontSize: number; align: 'left' | 'center'; role: 'title' | 'legend' | 'category' };
+
+const WHITE: RGBA = { r: 255, g: 255, b: 255, a: 1 };
+const FALLBACK_SERIES: RGBA = { r: 37, g: 99, b: 235, a: 1 };
+
+/**
+ * Series colors: the theme's three colors, then lighter versions of them
+ */
+export function getSeriesColor(theme: SlideTheme, index: number): RGBA {
+  const palette = [theme.colors.primary, theme.colors.accent, theme.colors.secondary]
+    .map(color => parseColor(color) ?? FALLBACK_SERIES);
+  const base = palette[index % palette.length]!;
+  return mixColors(base, WHITE, Math.min(0.8, Math.floor(index / palette.length) * 0.35));
+}
+
+/**
+ * Lay a chart out inside a box
+ * `unit` is the size of one point at the reference 720pt slide width in the caller's
+ * coordinates; `curveSegments` controls how smooth pie slices are
+ */
+export function layoutChart(
+  chart: SlideChartData,
+  box: ChartBox,
+  options: { unit: number; curveSegments: number }
+): ChartShape[] {
+  const { unit } = options;
+  const shapes: ChartShape[] = [];
+  const labelSize = Math.max(6, 9 * unit);
+  let plot: ChartBox = { ...box };
+
+  if (chart.title) {
+    const titleHeight = 16 * unit;
+    shapes.push({ kind: 'label', text: chart.title, box: { ...plot, height: titleHeight }, fontSize: 11 * unit, align: 'center', role: 'title' });
+    plot = { ...plot, y: plot.y + titleHeight, height: plot.height - titleHeight };
+  }
+
+  // Legend along the bottom - pies list their labels, other charts their series
+  const isPie = chart.type === 'pie' || chart.type === 'doughnut';
+  const legend = isPie ? chart.labels : chart.series.length > 1 ? chart.series.map(series => series.name) : [];
+  if (legend.length > 0) {
+    const legendHeight = 14 * unit;
+    const itemWidth = plot.width / legend.length;
+    const y = plot.y + plot.height - legendHeight;
+    legend.forEach((name, index) => {
+      const x = plot.x + index * itemWidth;
+      shapes.push({ kind: 'rect', box: { x, y: y + legendHeight / 2 - 3 * unit, width: 6 * unit, height: 6 * unit }, series: index });
+      shapes.push({
+        kind: 'label',
+        text: name,
+        box: { x: x + 8 * unit, y, width: itemWidth - 8 * unit, height: legendHeight },
+        fontSize: labelSize,
+        align: 'left',
+        role: 'legend'
+      });
+    });
+    plot = { ...plot, height: plot.height - legendHeight - 4 * unit };
+  }
+
+  if (isPie) {
+    const values = chart.series[0]?.values ?? [];
+    const total = values.reduce((sum, value) => sum + Math.max(0, value), 0);
+    if (total <= 0) return shapes;
+
+    const radius = Math.min(plot.width, plot.height) / 2;
+    const center: ChartPoint = [plot.x + plot.width / 2, plot.y + plot.height / 2];
+    let angle = -Math.PI / 2; // Start at 12 o'clock like Chart.js
+
+    values.forEach((value, index) => {
+      const sweep = (Math.max(0, value) / total) * Math.PI * 2;
+      const steps = Math.max(2, Math.ceil((sweep / (Math.PI * 2)) * options.curveSegments));
+      const points: ChartPoint[] = [center];
+      for (let step = 0; step <= steps; step++) {
+        const a = angle + (sweep * step) / steps;
+        points.push([center[0] + radius * Math.cos(a), center[1] + radius * Math.sin(a)]);
+      }
+      shapes.push({ kind: 'polygon', points, series: index, faded: false });
+      angle += sweep;
+    });
+
+    if (chart.type === 'doughnut') {
+      shapes.push({ kind: 'hole', center, radius: radius * 0.55 });
+    }
+    return shapes;
+  }
+
+  // Bar, line and area charts share the axes
+  const labelHeight = 12 * unit;
+  const axis: ChartBox = { ...plot, height: plot.height - labelHeight };
+  const allValues = chart.series.flatMap(series => series.values);
+  const max = Math.max(0, ...allValues);
+  const min = Math.min(0, ...allValues);
+  const range = max - min || 1;
+  const toY = (value: number) => axis.y + axis.height - ((value - min) / range) * axis.height;
+  const slotWidth = axis.width / chart.labels.length;
+  const zero = toY(0);
+
+  shapes.push({ kind: 'axis', from: [axis.x, zero], to: [axis.x + axis.width, zero], width: 0.75 * unit });
+
+  chart.labels.forEach((label, index) => {
+    shapes.push({
+      kind: 'label',
+      text: label,
+      box: { x: axis.x + index * slotWidth, y: axis.y + axis.height, width: slotWidth, height: labelHeight },
+      fontSize: labelSize,
+      align: 'center',
+      role: 'category'
+    });
+  });
+
+  chart.series.forEach((series, seriesIndex) => {
+    const points = chart.labels.map((_, index): ChartPoint => [
+      axis.x + slotWidth * (index + 0.5),
+      toY(series.values[index] ?? 0)
+    ]);
+
+    if (chart.type === 'bar') {
+      const barWidth = (slotWidth * 0.7) / chart.series.length;
+      points.forEach(([x, y]) => {
+        shapes.push({
+          kind: 'rect',
+          box: {
+            x: x - (slotWidth * 0.7) / 2 + seriesIndex * barWidth,
+            y: Math.min(y, zero),
+            width: barWidth,
+            height: Math.abs(zero - y) || 0.5
+          },
+          series: seriesIndex
+        });
+      });
+      return;
+    }
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (chart.type === 'area' && first && last) {
+      shapes.push({ kind: 'polygon', points: [[first[0], zero], ...points, [last[0], zero]], series: seriesIndex, faded: true });
+    }
+    shapes.push({ kind: 'line', points, series: seriesIndex, width: 2 * unit });
+  });
+
+  return shapes;
+}
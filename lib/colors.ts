@@ -0,0 +1,203 @@
+// Color helpers shared by the exporters
+// Themes and backgrounds are stored as CSS strings; file formats want plain RGB
+
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number; // 0-1
+}
+
+export interface GradientStop {
+  color: RGBA;
+  position: number; // 0-1
+}
+
+export interface LinearGradient {
+  angle: number; // CSS degrees - 180 means top to bottom
+  stops: GradientStop[];
+}
+
+const clampByte = (value: number) => Math.min(255, Math.max(0, Math.round(value)));
+
+/**
+ * Parse '#rgb', '#rrggbb', '#rrggbbaa', 'rgb(...)' or 'rgba(...)'
+ * Returns null for anything we can't understand (named colors, var(...), etc.)
+ */
+export function parseColor(value: string | undefined): RGBA | null {
+  if (!value) return null;
+  const color = value.trim();
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i)?.[1];
+  if (hex) {
+    const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+    return {
+      r: parseInt(full.slice(0, 2), 16),
+      g: parseInt(full.slice(2, 4), 16),
+      b: parseInt(full.slice(4, 6), 16),
+      a: full.length === 8 ? parseInt(full.slice(6, 8), 16) / 255 : 1
+    };
+  }
+
+  const rgb = color.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/i);
+  if (rgb) {
+    const alpha = rgb[4];
+    return {
+      r: clampByte(Number(rgb[1])),
+      g: clampByte(Number(rgb[2])),
+      b: clampByte(Number(rgb[3])),
+      a: alpha === undefined ? 1 : alpha.endsWith('%') ? parseFloat(alpha) / 100 : Number(alpha)
+    };
+  }
+
+  return null;
+}
+
+/**
+ * 'RRGGBB' without the hash - the format PptxGenJS expects
+ */
+export function toHex(color: RGBA): string {
+  return [color.r, color.g, color.b]
+    .map(channel => clampByte(channel).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+}
+
+/**
+ * Normalize any supported CSS color to 'RRGGBB', or use the fallback
+ */
+export function toHexColor(value: string | undefined, fallback: string): string {
+  const parsed = parseColor(value);
+  return parsed ? toHex(parsed) : fallback.replace('#', '').toUpperCase();
+}
+
+/**
+ * Flatten a translucent color onto an opaque base (alpha compositing)
+ */
+export function composite(color: RGBA, base: RGBA): RGBA {
+  return {
+    r: color.r * color.a + base.r * (1 - color.a),
+    g: color.g * color.a + base.g * (1 - color.a),
+    b: color.b * color.a + base.b * (1 - color.a),
+    a: 1
+  };
+}
+
+/**
+ * Linear interpolation between two colors, t from 0 to 1
+ */
+export function mixColors(from: RGBA, to: RGBA, t: number): RGBA {
+  return {
+    r: from.r + (to.r - from.r) * t,
+    g: from.g + (to.g - from.g) * t,
+    b: from.b + (to.b - from.b) * t,
+    a: from.a + (to.a - from.a) * t
+  };
+}
+
+/**
+ * Parse a CSS linear-gradient() into an angle and color stops
+ * Supports angles in deg and 'to <side>' keywords; stops without positions are spread evenly
+ */
+export function parseLinearGradient(value: string | undefined): LinearGradient | null {
+  const body = value?.trim().match(/^linear-gradient\((.*)\)$/i)?.[1];
+  if (!body) return null;
+
+  // Split on commas that aren't inside rgb(...)
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+
+  let angle = 180;
+  const first = parts[0] ?? '';
+  const sideAngles: Record<string, number> = { top: 0, right: 90, bottom: 180, left: 270 };
+  if (/^-?[\d.]+deg$/i.test(first)) {
+    angle = parseFloat(first);
+    parts.shift();
+  } else if (/^to\s+/i.test(first)) {
+    const sides = first.replace(/^to\s+/i, '').split(/\s+/);
+    const angles = sides.map(side => sideAngles[side.toLowerCase()] ?? 180);
+    // 'to bottom right' and friends land halfway between the two sides
+    angle = angles.length === 2 && angles.includes(0) && angles.includes(270)
+      ? 315
+      : angles.reduce((sum, a) => sum + a, 0) / angles.length;
+    parts.shift();
+  }
+
+  const stops: GradientStop[] = [];
+  parts.forEach((part, index) => {
+    const match = part.match(/^(.*?)(?:\s+([\d.]+)%)?$/);
+    const color = parseColor(match?.[1]);
+    if (!color) return;
+    const position = match?.[2] !== undefined
+      ? parseFloat(match[2]) / 100
+      : parts.length > 1 ? index / (parts.length - 1) : 0;
+    stops.push({ color, position });
+  });
+
+  return stops.length >= 2 ? { angle: ((angle % 360) + 360) % 360, stops } : null;
+}
+
+/**
+ * Color of a gradient at position t (0-1)
+ */
+export function colorAt(gradient: LinearGradient, t: number): RGBA {
+  const { stops } = gradient;
+  const first = stops[0]!;
+  const last = stops[stops.length - 1]!;
+  if (t <= first.position) return first.color;
+  if (t >= last.position) return last.color;
+
+  for (let i = 1; i < stops.length; i++) {
+    const previous = stops[i - 1]!;
+    const next = stops[i]!;
+    if (t <= next.position) {
+      const span = next.position - previous.position || 1;
+      return mixColors(previous.color, next.color, (t - previous.position) / span);
+    }
+  }
+  return last.color;
+}
+
+export interface GradientBand {
+  offset: number; // 0-1 along the gradient's main axis
+  size: number;   // 0-1
+  color: RGBA;    // Opaque - already composited onto the base
+}
+
+/**
+ * Approximate a linear gradient with solid bands along its dominant axis
+ * Neither PowerPoint backgrounds nor our PDF writer take CSS gradients, so both paint these
+ */
+export function getGradientBands(
+  gradient: LinearGradient,
+  base: RGBA,
+  count: number
+): { horizontal: boolean; bands: GradientBand[] } {
+  const radians = (gradient.angle * Math.PI) / 180;
+  const horizontal = Math.abs(Math.sin(radians)) >= Math.abs(Math.cos(radians));
+  // 90deg runs left to right and 180deg top to bottom - the opposite angles run backwards
+  const reversed = horizontal ? Math.sin(radians) < 0 : Math.cos(radians) > 0;
+
+  const bands = Array.from({ length: count }, (_, band) => {
+    const t = (band + 0.5) / count;
+    return {
+      offset: band / count,
+      size: 1 / count,
+      color: composite(colorAt(gradient, reversed ? 1 - t : t), base)
+    };
+  });
+
+  return { horizontal, bands };
+}
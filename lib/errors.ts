@@ -79,6 +79,18 @@ export class AuthorizationError extends AppError {
   }
 }
 
+/**
+ * Missing resource errors
+ */
+export class NotFoundError extends AppError {
+  constructor(
+    message: string = 'Resource not found',
+    code: string = 'NOT_FOUND'
+  ) {
+    super(message, code, 404);
+  }
+}
+
 /**
  * Rate limiting errors
  */
@@ -21,7 +21,7 @@ export const bucket = storage.bucket(bucketName);
 
 /**
  * Upload a file to Google Cloud Storage
- * Returns the public URL where the file can be accessed
+ * Objects stay private - returns the object path, which getSignedReadUrl turns into a link
  */
 export async function uploadFile(
   file: Buffer, 
@@ -39,21 +39,41 @@ export async function uploadFile(
     await fileUpload.save(file, {
       metadata: {
         contentType,
-        cacheControl: 'public, max-age=31536000', // Cache for a year
+        cacheControl: 'private, max-age=3600', // Signed links expire - don't let shared caches outlive them
       },
     });
     
-    // Make the file publicly readable
-    await fileUpload.makePublic();
-    
-    // Return the public URL
-    return `https://storage.googleapis.com/${bucketName}/${uniqueFileName}`;
+    return uniqueFileName;
   } catch (error) {
     console.error('Error uploading file to GCS:', error);
-    throw new Error('Failed to upload image to cloud storage');
+    throw new Error('Failed to upload file to cloud storage');
   }
 }
 
+/**
+ * Read a private object back, e.g. a background job's file for its download route
+ */
+export async function downloadFile(path: string): Promise<Buffer> {
+  const [contents] = await bucket.file(path).download();
+  return contents;
+}
+
+// How long a signed link to an uploaded image keeps working
+export const SIGNED_URL_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Get a time-limited read link for a private object
+ * Anyone holding the link can read the object until it expires
+ */
+export async function getSignedReadUrl(path: string, ttlMs: number = SIGNED_URL_TTL_MS): Promise<string> {
+  const [url] = await bucket.file(path).getSignedUrl({
+    version: 'v4',
+    action: 'read',
+    expires: Date.now() + ttlMs,
+  });
+  return url;
+}
+
 /**
  * Delete a file from Google Cloud Storage
  * Cleanup when files are no longer needed
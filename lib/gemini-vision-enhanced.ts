@@ -3,8 +3,14 @@
 // and transform them into beautiful presentation slides
 // Fixed: Lazy initialization to prevent build-time errors
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { GeminiAnalysisResult, SlideTheme } from '@/types/slides';
+import { GoogleGenerativeAI, type GenerativeModel, type Part } from '@google/generative-ai';
+import type { z } from 'zod';
+import { ExternalServiceError } from '@/lib/errors';
+import { describeSlide } from '@/lib/speaker-notes';
+import { FLOW_MODE_GUIDANCE } from '@/lib/slide-flow';
+import { REWRITE_INSTRUCTIONS, type RewriteRequest } from '@/lib/rewrite';
+import { GeminiAnalysisSchema, SlideOrderSchema, SlideThemeSchema, SpeakerNotesSchema } from '@/utils/validation-schemas';
+import type { FlowMode, GeminiAnalysisResult, Slide, SlideTheme, SpeakerNotes } from '@/types/slides';
 
 // Initialize the AI client only when needed - this prevents build-time errors
 let genAI: GoogleGenerativeAI | null = null;
@@ -21,6 +27,16 @@ const getGenAI = () => {
   return genAI;
 };
 
+// Model names can be swapped per deployment without touching the code
+// Vision uses flash for lower quota usage - still excellent quality
+const DEFAULT_MODELS = {
+  vision: 'gemini-1.5-flash',
+  text: 'gemini-1.5-pro-latest'
+};
+
+const getModelName = (kind: keyof typeof DEFAULT_MODELS) =>
+  (kind === 'vision' ? process.env.GEMINI_VISION_MODEL : process.env.GEMINI_TEXT_MODEL) || DEFAULT_MODELS[kind];
+
 // Simple delay function - sometimes we need to wait before trying again
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -54,6 +70,68 @@ async function retryWithBackoff<T>(
   throw new Error('Max retries exceeded');
 }
 
+// How many times we send the model its own validation errors before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+// JSON mode should return bare JSON, but strip a markdown fence just in case
+const parseJson = (text: string): unknown =>
+  JSON.parse(text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, ''));
+
+// Ask for JSON and check it against a schema - when the answer doesn't fit, the
+// problems are sent back in the same conversation so the model can fix its own output
+async function generateValidatedJson<T extends z.ZodTypeAny>(
+  model: GenerativeModel,
+  prompt: Array<string | Part>,
+  schema: T,
+  label: string
+): Promise<{ data: z.output<T>; repairAttempts: number }> {
+  const contents = [{
+    role: 'user',
+    parts: prompt.map(part => (typeof part === 'string' ? { text: part } : part))
+  }];
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await model.generateContent({ contents });
+    const text = result.response.text();
+
+    let problems: string[];
+    try {
+      const parsed = schema.safeParse(parseJson(text));
+      if (parsed.success) {
+        return { data: parsed.data, repairAttempts: attempt };
+      }
+      problems = formatIssues(parsed.error);
+    } catch {
+      problems = ['- (root): response was not valid JSON'];
+    }
+
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      console.error(`${label} response still invalid after ${attempt} repair attempts:`, problems);
+      throw new ExternalServiceError(
+        `AI response was not in the expected format: ${problems[0]?.slice(2)}`,
+        'gemini',
+        undefined,
+        'AI_RESPONSE_INVALID'
+      );
+    }
+
+    console.warn(`🔧 ${label} response failed validation, asking for a repair (${attempt + 1}/${MAX_REPAIR_ATTEMPTS})`, problems);
+    contents.push(
+      { role: 'model', parts: [{ text }] },
+      {
+        role: 'user',
+        parts: [{
+          text: `That JSON doesn't match the format I asked for:\n${problems.join('\n')}\n\n` +
+            'Reply with the complete corrected JSON only - same format, every problem fixed.'
+        }]
+      }
+    );
+  }
+}
+
 // Main function - this analyzes an uploaded image and extracts meaningful content
 // It's like having a really smart human look at your image and describe everything
 export async function analyzeImageWithGeminiPro(
@@ -62,14 +140,16 @@ export async function analyzeImageWithGeminiPro(
   userPrompt?: string
 ): Promise<GeminiAnalysisResult> {
   return retryWithBackoff(async () => {
-    // Use gemini-1.5-flash for lower quota usage - still excellent quality
+    const startTime = Date.now();
+
     const model = getGenAI().getGenerativeModel({ 
-      model: 'gemini-1.5-flash',
+      model: getModelName('vision'),
       generationConfig: {
         temperature: 0.3, // Keep responses focused and consistent
         topK: 40,
         topP: 0.95,
-        maxOutputTokens: 4096 // Reduced to save quota
+        maxOutputTokens: 4096, // Reduced to save quota
+        responseMimeType: 'application/json'
       }
     });
 
@@ -106,7 +186,7 @@ Keep it simple but smart. Make sure everything flows naturally.
 
 ${userPrompt ? `\nExtra context from user: ${userPrompt}\n\nUse this to make the slides even better.` : ''}
 
-Important: Make sure the JSON is perfect - no extra commas or broken quotes.
+Use real hex codes in colorPalette and a confidence between 0 and 1.
 `;
 
     // Prepare the image for the AI to analyze
@@ -118,118 +198,82 @@ Important: Make sure the JSON is perfect - no extra commas or broken quotes.
     };
 
     // Send the image and our instructions to the AI
-    const result = await model.generateContent([enhancedSystemPrompt, imagePart]);
-    const response = await result.response;
-    const text = response.text();
-    
-    console.log('🤖 AI finished analyzing the image');
-
-    // Extract the JSON response - sometimes AI wraps it in markdown code blocks
-    let jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      // Try to find JSON wrapped in code blocks
-      const codeBlockMatch = text.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-      if (codeBlockMatch && codeBlockMatch[1]) {
-        jsonMatch = [codeBlockMatch[1]]; // Create a new match array with the captured group
-      }
-    }
-    
-    if (!jsonMatch) {
-      console.error('Could not find JSON in AI response:', text);
-      throw new Error('AI response was not in the expected format');
-    }
-
-    // Parse the JSON response and validate it
-    let analysisResult: GeminiAnalysisResult;
-    try {
-      analysisResult = JSON.parse(jsonMatch[0]);
-    } catch (parseError) {
-      console.error('JSON parsing failed:', parseError);
-      console.error('Raw response:', jsonMatch[0]);
-      throw new Error('AI response contained invalid JSON');
-    }
-    
-    // Make sure we got all the required fields
-    const validationErrors: string[] = [];
-    
-    if (!analysisResult.structuredContent) {
-      validationErrors.push('Missing structuredContent');
-    } else {
-      if (!analysisResult.structuredContent.title) validationErrors.push('Missing title');
-      if (!Array.isArray(analysisResult.structuredContent.sections)) validationErrors.push('Invalid sections array');
-    }
-    
-    if (!analysisResult.suggestedTheme) validationErrors.push('Missing suggestedTheme');
-    if (!Array.isArray(analysisResult.colorPalette)) validationErrors.push('Missing colorPalette');
-    
-    if (validationErrors.length > 0) {
-      console.error('Response validation failed:', validationErrors);
-      throw new Error(`AI response missing required fields: ${validationErrors.join(', ')}`);
-    }
+    const { data, repairAttempts } = await generateValidatedJson(
+      model,
+      [enhancedSystemPrompt, imagePart],
+      GeminiAnalysisSchema,
+      'Image analysis'
+    );
+
+    const analysisResult = {
+      ...data,
+      processingTime: Date.now() - startTime,
+      repairAttempts
+    } as GeminiAnalysisResult;
 
     console.log('✅ Image analysis completed successfully');
     return analysisResult;
   }, 3, 2000); // Try up to 3 times with 2-second delays if needed
 }
 
-// Function to make slide content more engaging and professional
-export async function enhanceSlideContentPro(
-  slideContent: string,
-  theme: string,
-  targetAudience?: string
-): Promise<string> {
-  return retryWithBackoff(async () => {
-    const model = getGenAI().getGenerativeModel({ 
-      model: 'gemini-1.5-pro-latest',
-      generationConfig: {
-        temperature: 0.4, // Allow some creativity but keep it professional
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 1536 // Keep responses concise
-      }
-    });
+// Function to rewrite slide text - shorter, longer, another tone or language, bullets or prose
+// Streams the answer as it's written so the editor can show it coming in
+export async function* rewriteSlideContent(request: RewriteRequest): AsyncGenerator<string> {
+  const model = getGenAI().getGenerativeModel({ 
+    model: getModelName('text'),
+    generationConfig: {
+      temperature: 0.4, // Allow some creativity but keep it professional
+      topK: 40,
+      topP: 0.95,
+      maxOutputTokens: 1536 // Keep responses concise
+    }
+  });
+
+  const instruction = request.action === 'translate'
+    ? `${REWRITE_INSTRUCTIONS.translate} into ${request.language || 'English'}`
+    : REWRITE_INSTRUCTIONS[request.action];
 
-    // Simple, clear instructions for content improvement
-    const enhancedPrompt = `
-You're a presentation expert. Take this slide content and make it better.
+  // Simple, clear instructions for content improvement
+  const rewritePrompt = `
+You're a presentation expert. Rewrite this slide content.
 
-Original content: "${slideContent}"
-Theme: ${theme}
-${targetAudience ? `Audience: ${targetAudience}` : ''}
+${request.slideTitle ? `Slide: ${request.slideTitle}` : ''}
+Original content:
+${request.text}
+${request.audience ? `Audience: ${request.audience}` : ''}
 
-What to do:
-- Make the language more engaging and clear
-- Remove unnecessary words and fluff
-- Add specific details that matter
-- Make sure it flows well when spoken
-- Keep it professional but not boring
+What to do: ${instruction}.
 
-Just give me the improved text - no explanations needed.
+Write one line per item: start bullet points with "- " and write paragraphs as plain lines.
+Just give me the rewritten text - no explanations, no markdown beyond the "- " bullets.
 `;
 
-    const result = await model.generateContent(enhancedPrompt);
-    const response = await result.response;
-    const enhancedText = response.text().trim();
-    
-    console.log('✨ Content enhanced with professional polish');
-    return enhancedText;
-  }, 2, 1500); // Try twice if needed
+  // Only starting the stream is retried - once text has gone out, a retry would repeat it
+  const result = await retryWithBackoff(() => model.generateContentStream(rewritePrompt), 2, 1500);
+  for await (const chunk of result.stream) {
+    yield chunk.text();
+  }
+  console.log('✨ Content rewritten with professional polish');
 }
 
 // Function to create smart color themes based on content
+// The theme's metadata says how long it took and how many repairs it needed
 export async function generateSmartTheme(
   contentAnalysis: string,
   brandColors?: string[],
   industry?: string
 ): Promise<SlideTheme> {
   return retryWithBackoff(async () => {
+    const startTime = Date.now();
+
     const model = getGenAI().getGenerativeModel({ 
-      model: 'gemini-1.5-pro-latest',
+      model: getModelName('text'),
       generationConfig: {
         temperature: 0.6,
         topK: 50,
         topP: 0.9,
-        maxOutputTokens: 1024
+        maxOutputTokens: 1024,
+        responseMimeType: 'application/json'
       }
     });
 
@@ -261,24 +305,31 @@ Give me JSON only:
     "heading": "font-family",
     "body": "font-family"
   },
-  "layout": "modern"
+  "layout": "classic|modern|minimal|creative"
 }
 
 Keep it clean and professional.
 `;
 
     try {
-      const result = await model.generateContent(themePrompt);
-      const response = await result.response;
-      const text = response.text().trim();
-
-      // Extract JSON from the response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('Could not find JSON in theme response');
-      }
-
-      const smartTheme = JSON.parse(jsonMatch[0]) as SlideTheme;
+      const { data, repairAttempts } = await generateValidatedJson(
+        model,
+        [themePrompt],
+        SlideThemeSchema,
+        'Smart theme'
+      );
+
+      // Zod spells the fields the model left out as `undefined` - SlideTheme omits them
+      const { description, spacing, logo, colors: { surface, muted, ...colors }, fonts: { code, ...fonts }, ...theme } = data;
+      const smartTheme: SlideTheme = {
+        ...theme,
+        colors: { ...colors, ...(surface && { surface }), ...(muted && { muted }) },
+        fonts: { ...fonts, ...(code && { code }) },
+        ...(description && { description }),
+        ...(spacing && { spacing }),
+        ...(logo && { logo }),
+        metadata: { processingTime: Date.now() - startTime, repairAttempts }
+      };
       console.log('🎨 Smart theme created successfully');
       return smartTheme;
     } catch (error) {
@@ -305,81 +356,80 @@ Keep it clean and professional.
 }
 
 // Function to optimize the order of slides for better storytelling
+// Slides are named by id, not title - titles repeat and the model paraphrases them.
+// Returns the proposed ids; lib/slide-flow checks them against the deck.
 export async function optimizeSlideFlow(
-  slides: any[],
-  presentationType: 'pitch' | 'training' | 'report' | 'sales' = 'pitch'
+  slides: readonly Pick<Slide, 'id' | 'title' | 'contents'>[],
+  presentationType: FlowMode = 'pitch'
 ): Promise<string[]> {
   return retryWithBackoff(async () => {
     const model = getGenAI().getGenerativeModel({ 
-      model: 'gemini-1.5-pro-latest',
+      model: getModelName('text'),
       generationConfig: {
         temperature: 0.3, // Keep suggestions logical and consistent
         topK: 30,
         topP: 0.9,
-        maxOutputTokens: 1024 // Keep responses focused
+        maxOutputTokens: 1024, // Keep responses focused
+        responseMimeType: 'application/json'
+      }
+    });
+
+    const ids = slides.map(slide => slide.id);
+    // Every id exactly once - when the answer misses, the repair loop tells the model which
+    const schema = SlideOrderSchema.superRefine(({ order }, ctx) => {
+      const missing = ids.filter(id => !order.includes(id));
+      const unknown = order.filter(id => !ids.includes(id));
+      if (missing.length > 0 || unknown.length > 0 || new Set(order).size !== order.length) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['order'],
+          message: `must list every slide id exactly once (missing: ${missing.join(', ') || 'none'}; unknown: ${unknown.join(', ') || 'none'})`
+        });
       }
     });
 
     const optimizationPrompt = `
 You're a presentation expert. Help me organize these slides in the best order.
 
-Current slides: ${JSON.stringify(slides.map(s => ({ title: s.title, elements: s.contents?.length || 0 })))}
+Current slides: ${JSON.stringify(slides.map(slide => ({ id: slide.id, ...describeSlide(slide) })))}
 Presentation type: ${presentationType}
 
 Consider what works best for ${presentationType} presentations:
-${presentationType === 'pitch' ? '- Start strong, build credibility, show the problem, present solution, prove value, call to action' : ''}
-${presentationType === 'training' ? '- Set objectives, start simple, build complexity, include practice, wrap up' : ''}
-${presentationType === 'report' ? '- Executive summary first, show how you got data, present findings, what it means, what to do' : ''}
-${presentationType === 'sales' ? '- Identify pain points, show solution, provide proof, handle objections, close the deal' : ''}
+- ${FLOW_MODE_GUIDANCE[presentationType]}
 
-Just give me a JSON array of slide titles in the best order:
-["slide title 1", "slide title 2", "slide title 3"]
+Just give me JSON with every slide id exactly once, in the best order:
+{ "order": ["slide id", "slide id", "slide id"] }
 `;
 
-    const result = await model.generateContent(optimizationPrompt);
-    const response = await result.response;
-    const text = response.text();
-
-    // Find the JSON array in the response
-    const jsonMatch = text.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      // Return original order if optimization fails
-      console.log('Could not parse flow optimization, using original order');
-      return slides.map(s => s.title);
-    }
-
-    try {
-      const optimizedOrder = JSON.parse(jsonMatch[0]) as string[];
-      console.log('🔄 Slide flow optimized for better storytelling');
-      return optimizedOrder;
-    } catch (error) {
-      console.error('Error parsing optimized order:', error);
-      return slides.map(s => s.title); // Return original order as fallback
-    }
+    const { data } = await generateValidatedJson(model, [optimizationPrompt], schema, 'Slide flow');
+    console.log('🔄 Slide flow optimized for better storytelling');
+    return data.order;
   }, 2, 1000);
 }
 
 // Function to generate helpful speaker notes for each slide
+// Notes come back as structured sections so the editor and exporters can lay them out;
+// failures throw - callers decide whether a slide can go without notes
 export async function generateSpeakerNotes(
-  slideContent: any,
+  slide: Pick<Slide, 'title' | 'contents'>,
   presentationType: string = 'general'
-): Promise<string> {
-  try {
-    const result = await retryWithBackoff(async () => {
-      const model = getGenAI().getGenerativeModel({ 
-        model: 'gemini-1.5-pro-latest',
-        generationConfig: {
-          temperature: 0.4, // Allow some personality in the notes
-          topK: 40,
-          topP: 0.9,
-          maxOutputTokens: 1024 // Keep notes concise but helpful
-        }
-      });
-
-      const notesPrompt = `
+): Promise<SpeakerNotes> {
+  return retryWithBackoff(async () => {
+    const model = getGenAI().getGenerativeModel({ 
+      model: getModelName('text'),
+      generationConfig: {
+        temperature: 0.4, // Allow some personality in the notes
+        topK: 40,
+        topP: 0.9,
+        maxOutputTokens: 1024, // Keep notes concise but helpful
+        responseMimeType: 'application/json'
+      }
+    });
+
+    const notesPrompt = `
 You're a presentation coach. Help me create speaker notes for this slide.
 
-Slide content: ${JSON.stringify(slideContent)}
+Slide content: ${JSON.stringify(describeSlide(slide))}
 Presentation type: ${presentationType}
 
 I need notes that help me:
@@ -389,28 +439,20 @@ I need notes that help me:
 - Transition smoothly to the next slide
 - Handle questions that might come up
 
-Give me practical speaking notes in this format:
-- Opening (how to start this slide)
-- Main points (what to emphasize)
-- Timing tips (where to pause, slow down)
-- Transition (how to move to next slide)
-- Q&A prep (likely questions)
+Just give me clean JSON in this format:
+{
+  "opening": "How to start this slide, in a sentence or two",
+  "mainPoints": ["What to emphasize", "One point per item"],
+  "timing": "Where to pause or slow down, and roughly how long to spend",
+  "transition": "How to move to the next slide",
+  "questions": ["Likely questions from the audience"]
+}
 
 Keep it conversational and natural - like a coach talking to me.
 `;
 
-      const result = await model.generateContent(notesPrompt);
-      const response = await result.response;
-      const speakerNotes = response.text().trim();
-      
-      console.log('🎤 Speaker notes created to help with presentation delivery');
-      return speakerNotes;
-    }, 2, 1500); // 2 retries with 1.5s base delay
-    
-    return result;
-  } catch (error) {
-    console.error('Speaker notes generation failed after retries:', error);
-    console.log('🎤 Using fallback speaker notes due to retry exhaustion');
-    return 'Key points: Review slide content, engage with audience, transition smoothly to next topic.';
-  }
+    const { data } = await generateValidatedJson(model, [notesPrompt], SpeakerNotesSchema, 'Speaker notes');
+    console.log('🎤 Speaker notes created to help with presentation delivery');
+    return data;
+  }, 2, 1500); // 2 retries with 1.5s base delay
 }
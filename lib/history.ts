@@ -0,0 +1,394 @@
+// Presentation history - saves generated decks to MongoDB so users can come back to them
+// Each saved presentation is one document in the `history` collection
+
+import { nanoid } from 'nanoid';
+import type { z } from 'zod';
+import { connectToDatabase } from '@/lib/mongodb';
+import { AuthorizationError, NotFoundError } from '@/lib/errors';
+import {
+  DEFAULT_SHARE_SETTINGS,
+  SHARE_LINK_NOT_FOUND,
+  assertShareAccess,
+  createShareToken,
+  getShareUrl,
+  hashSharePassword,
+  toShareSummary,
+  type ShareSettings,
+  type ShareSummary,
+  type ShareVisibility
+} from '@/lib/sharing';
+import type { HistorySaveSchema, HistoryUpdateSchema, ShareUpdateSchema } from '@/utils/validation-schemas';
+import type { SlidePresentation } from '@/types/slides';
+
+/**
+ * A stored presentation, exactly as it lives in the database
+ */
+export interface HistoryRecord {
+  _id: string;
+  summary: string;
+  themeUsed: string;
+  outputType: 'pptx' | 'interactive';
+  presentation: SlidePresentation;
+  inputImageUrl: string | null;
+  inputImagePath?: string | null; // Private object in our bucket - missing on older records
+  generatedSlidesUrl: string | null;
+  slideContentDetails: unknown[] | null;
+  userId: string | null;
+  sharing?: ShareSettings; // Missing on records saved before share links - those are private
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A record as the API returns it to its owner - share secrets stripped,
+ * and the input image as a fresh signed link
+ */
+export type HistoryView = Omit<HistoryRecord, 'sharing'> & { sharing: ShareSummary };
+
+/**
+ * What a visitor with a share link gets - nothing that points back at the owner's record
+ */
+export interface SharedPresentation {
+  presentation: SlidePresentation;
+  summary: string;
+  themeUsed: string;
+  inputImageUrl: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Entry in the public gallery
+ */
+export interface SharedPresentationSummary {
+  url: string;
+  title: string;
+  summary: string;
+  themeUsed: string;
+  slideCount: number;
+  inputImageUrl: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Lightweight version of a record for list views - no slide data
+ */
+export interface HistorySummary {
+  _id: string;
+  title: string;
+  summary: string;
+  themeUsed: string;
+  outputType: 'pptx' | 'interactive';
+  slideCount: number;
+  inputImageUrl: string | null;
+  generatedSlidesUrl: string | null;
+  visibility: ShareVisibility;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface HistoryPage {
+  items: HistorySummary[];
+  pagination: Pagination;
+}
+
+export interface SharedPresentationPage {
+  items: SharedPresentationSummary[];
+  pagination: Pagination;
+}
+
+export type HistorySaveInput = z.infer<typeof HistorySaveSchema>;
+export type HistoryUpdateInput = z.infer<typeof HistoryUpdateSchema>;
+export type ShareUpdateInput = z.infer<typeof ShareUpdateSchema>;
+
+const COLLECTION_NAME = 'history';
+
+const getCollection = async () => {
+  const { db } = await connectToDatabase();
+  return db.collection<HistoryRecord>(COLLECTION_NAME);
+};
+
+// Zod gives us `undefined` for fields the client left out - MongoDB would store those as null
+const withoutUndefined = <T extends object>(value: T) =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as {
+    [K in keyof T]?: Exclude<T[K], undefined>;
+  };
+
+const getSharing = (record: HistoryRecord) => record.sharing ?? DEFAULT_SHARE_SETTINGS;
+
+const paginate = (page: number, limit: number, total: number): Pagination => ({
+  page,
+  limit,
+  total,
+  totalPages: Math.ceil(total / limit)
+});
+
+/**
+ * Link to the record's input image - uploads are private objects, so each read gets
+ * its own signed link; older records kept a permanent URL instead
+ */
+async function resolveInputImageUrl(record: HistoryRecord): Promise<string | null> {
+  if (!record.inputImagePath) return record.inputImageUrl;
+
+  try {
+    // Loaded on demand - the storage client needs credentials that tests and builds don't have
+    const { getSignedReadUrl } = await import('@/lib/gcs');
+    return await getSignedReadUrl(record.inputImagePath);
+  } catch (error) {
+    console.error('Failed to sign input image URL:', error);
+    return null;
+  }
+}
+
+export async function toHistorySummary(record: HistoryRecord): Promise<HistorySummary> {
+  return {
+    _id: record._id,
+    title: record.presentation.title,
+    summary: record.summary,
+    themeUsed: record.themeUsed,
+    outputType: record.outputType,
+    slideCount: record.presentation.slides.length,
+    inputImageUrl: await resolveInputImageUrl(record),
+    generatedSlidesUrl: record.generatedSlidesUrl,
+    visibility: getSharing(record).visibility,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt
+  };
+}
+
+export async function toHistoryView(record: HistoryRecord): Promise<HistoryView> {
+  return {
+    ...record,
+    inputImageUrl: await resolveInputImageUrl(record),
+    sharing: toShareSummary(getSharing(record))
+  };
+}
+
+/**
+ * Save a new presentation to history, owned by the signed-in user
+ */
+export async function savePresentation(input: HistorySaveInput, userId: string): Promise<HistoryRecord> {
+  const collection = await getCollection();
+  const now = new Date();
+
+  const record: HistoryRecord = {
+    _id: nanoid(),
+    summary: input.summary,
+    themeUsed: input.themeUsed,
+    outputType: input.outputType,
+    presentation: input.presentation as SlidePresentation,
+    inputImageUrl: input.inputImageUrl ?? null,
+    inputImagePath: input.inputImagePath ?? null,
+    generatedSlidesUrl: input.generatedSlidesUrl ?? null,
+    slideContentDetails: input.slideContentDetails ?? null,
+    userId,
+    sharing: DEFAULT_SHARE_SETTINGS,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await collection.insertOne(record);
+  return record;
+}
+
+/**
+ * List one user's saved presentations, newest first
+ */
+export async function listPresentations(options: {
+  page: number;
+  limit: number;
+  userId: string;
+}): Promise<HistoryPage> {
+  const collection = await getCollection();
+  const filter = { userId: options.userId };
+
+  const [records, total] = await Promise.all([
+    collection
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .skip((options.page - 1) * options.limit)
+      .limit(options.limit)
+      .toArray(),
+    collection.countDocuments(filter)
+  ]);
+
+  return {
+    items: await Promise.all(records.map(toHistorySummary)),
+    pagination: paginate(options.page, options.limit, total)
+  };
+}
+
+/**
+ * Fetch one saved presentation with all of its slides
+ * Only its owner gets it - everyone else opens it through a share link
+ */
+export async function getPresentation(id: string, ownerId: string): Promise<HistoryRecord> {
+  const collection = await getCollection();
+  const record = await collection.findOne({ _id: id });
+
+  if (!record) {
+    throw new NotFoundError(`Presentation ${id} not found`);
+  }
+  if (record.userId !== ownerId) {
+    throw new AuthorizationError('You do not have access to this presentation');
+  }
+
+  return record;
+}
+
+/**
+ * Update fields on a saved presentation
+ */
+export async function updatePresentation(id: string, ownerId: string, update: HistoryUpdateInput): Promise<HistoryRecord> {
+  const collection = await getCollection();
+  await getPresentation(id, ownerId);
+  const changes = withoutUndefined({
+    ...update,
+    presentation: update.presentation as SlidePresentation | undefined
+  });
+
+  const record = await collection.findOneAndUpdate(
+    { _id: id, userId: ownerId },
+    { $set: { ...changes, updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  );
+
+  if (!record) {
+    throw new NotFoundError(`Presentation ${id} not found`);
+  }
+
+  return record;
+}
+
+/**
+ * Permanently remove a saved presentation
+ */
+export async function deletePresentation(id: string, ownerId: string): Promise<void> {
+  const collection = await getCollection();
+  await getPresentation(id, ownerId);
+  const result = await collection.deleteOne({ _id: id, userId: ownerId });
+
+  if (result.deletedCount === 0) {
+    throw new NotFoundError(`Presentation ${id} not found`);
+  }
+}
+
+/**
+ * Change how a presentation is shared
+ * Going private only pauses the link - sharing again brings the same link back.
+ * Use revokeSharing to kill a link for good.
+ */
+export async function updateSharing(id: string, ownerId: string, update: ShareUpdateInput): Promise<HistoryRecord> {
+  const collection = await getCollection();
+  const current = getSharing(await getPresentation(id, ownerId));
+  const visibility = update.visibility ?? current.visibility;
+  const passwordHash = update.password ? hashSharePassword(update.password) : null;
+
+  const sharing: ShareSettings = {
+    visibility,
+    token: visibility === 'private' ? current.token : current.token ?? createShareToken(),
+    passwordHash: update.password === undefined ? current.passwordHash : passwordHash,
+    expiresAt: update.expiresAt === undefined ? current.expiresAt : update.expiresAt,
+    revokedAt: current.revokedAt
+  };
+
+  const record = await collection.findOneAndUpdate(
+    { _id: id, userId: ownerId },
+    { $set: { sharing } },
+    { returnDocument: 'after' }
+  );
+
+  if (!record) {
+    throw new NotFoundError(`Presentation ${id} not found`);
+  }
+
+  return record;
+}
+
+/**
+ * Turn sharing off and throw the link away - sharing again issues a new one
+ */
+export async function revokeSharing(id: string, ownerId: string): Promise<HistoryRecord> {
+  const collection = await getCollection();
+  await getPresentation(id, ownerId);
+  const sharing: ShareSettings = { ...DEFAULT_SHARE_SETTINGS, revokedAt: new Date() };
+
+  const record = await collection.findOneAndUpdate(
+    { _id: id, userId: ownerId },
+    { $set: { sharing } },
+    { returnDocument: 'after' }
+  );
+
+  if (!record) {
+    throw new NotFoundError(`Presentation ${id} not found`);
+  }
+
+  return record;
+}
+
+/**
+ * Open a presentation through its share link
+ */
+export async function getSharedPresentation(token: string, password: string | null): Promise<SharedPresentation> {
+  const collection = await getCollection();
+  const record = await collection.findOne({ 'sharing.token': token });
+
+  if (!record) {
+    throw new NotFoundError(SHARE_LINK_NOT_FOUND);
+  }
+
+  assertShareAccess(getSharing(record), password);
+
+  return {
+    presentation: record.presentation,
+    summary: record.summary,
+    themeUsed: record.themeUsed,
+    inputImageUrl: await resolveInputImageUrl(record),
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt
+  };
+}
+
+/**
+ * Public gallery, newest first - only links that open without a password
+ */
+export async function listPublicPresentations(options: {
+  page: number;
+  limit: number;
+}): Promise<SharedPresentationPage> {
+  const collection = await getCollection();
+  const filter = {
+    'sharing.visibility': 'public',
+    'sharing.passwordHash': null,
+    $or: [{ 'sharing.expiresAt': null }, { 'sharing.expiresAt': { $gt: new Date() } }]
+  };
+
+  const [records, total] = await Promise.all([
+    collection
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .skip((options.page - 1) * options.limit)
+      .limit(options.limit)
+      .toArray(),
+    collection.countDocuments(filter)
+  ]);
+
+  const items = await Promise.all(records.map(async record => ({
+    url: getShareUrl(getSharing(record).token!),
+    title: record.presentation.title,
+    summary: record.summary,
+    themeUsed: record.themeUsed,
+    slideCount: record.presentation.slides.length,
+    inputImageUrl: await resolveInputImageUrl(record),
+    createdAt: record.createdAt
+  })));
+
+  return { items, pagination: paginate(options.page, options.limit, total) };
+}
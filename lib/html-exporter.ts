@@ -0,0 +1,408 @@
+// HTML exporter - bundles a SlidePresentation into one self-contained HTML file
+// Styles, slides, images (as data URLs), charts (as inline SVG) and the navigation
+// script are all inlined, so the file works offline and on any static host
+
+import type { ExportOptions, Slide, SlideAnimation, SlideContent, SlidePresentation, SlideTheme } from '@/types/slides';
+import {
+  REFERENCE_SLIDE_HEIGHT_PX,
+  REFERENCE_SLIDE_WIDTH_PX,
+  getContentBox,
+  getDefaultTextColor,
+  getFontSizePx,
+  getLogoBox,
+  isBoldWeight
+} from '@/lib/slide-geometry';
+import { mixColors, parseColor, type RGBA } from '@/lib/colors';
+import { parseChartData } from '@/lib/chart-data';
+import { getSeriesColor, layoutChart } from '@/lib/chart-layout';
+import { loadSlideImages } from '@/lib/image-loader';
+import { getNotesText } from '@/lib/speaker-notes';
+
+export type HtmlExportOptions = Omit<ExportOptions, 'format' | 'filename' | 'notesLayout'>;
+
+// Smoother pie slices at higher quality - everything else is vector or inlined as-is
+const CURVE_SEGMENTS: Record<ExportOptions['quality'], number> = {
+  low: 24,
+  medium: 48,
+  high: 96
+};
+
+// Chart layout units are points on a 720pt-wide slide; the HTML stage is 960px wide
+const CHART_UNIT = REFERENCE_SLIDE_WIDTH_PX / 720;
+
+const WHITE: RGBA = { r: 255, g: 255, b: 255, a: 1 };
+
+interface RenderContext {
+  images: Map<string, string | null>;
+  curveSegments: number;
+}
+
+// ===================
+// ESCAPING
+// ===================
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Theme and style values end up inside style="" - keep them to plain CSS values
+const cssValue = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const cleaned = value.replace(/[;{}<>\\]/g, '').trim();
+  return /url\s*\(|expression\s*\(|@import/i.test(cleaned) ? undefined : cleaned || undefined;
+};
+
+// Background images are inlined data URLs - cssValue would strip their ';', so check the whole
+// value is base64 instead, leaving nothing that could close the url("...") around it
+const cssImage = (value: string | null | undefined): string | undefined =>
+  value && /^data:image\/[\w.+-]+;base64,[a-z0-9+/]+=*$/i.test(value) ? `url("${value}")` : undefined;
+
+const styleAttribute = (styles: Record<string, string | number | undefined>) =>
+  Object.entries(styles)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([property, value]) => `${property}:${value}`)
+    .join(';');
+
+const rgb = (color: RGBA) => `rgb(${Math.round(color.r)},${Math.round(color.g)},${Math.round(color.b)})`;
+
+const percent = (value: number) => `${Math.round(value * 1000) / 1000}%`;
+
+// ===================
+// ANIMATIONS
+// ===================
+
+// CSS custom properties that drive the keyframes in BASE_STYLES
+function animationAttributes(animation: SlideAnimation | undefined, distance: string): { attribute: string; styles: Record<string, string> } {
+  if (!animation || animation.type === 'none') return { attribute: '', styles: {} };
+
+  const direction = animation.direction ?? (animation.type === 'slide' ? 'left' : 'up');
+  // The element moves in `direction`, so it starts offset the opposite way
+  const offsets: Record<NonNullable<SlideAnimation['direction']>, [string, string]> = {
+    left: [distance, '0'],
+    right: [`-${distance}`, '0'],
+    up: ['0', distance],
+    down: ['0', `-${distance}`]
+  };
+  const [fromX, fromY] = offsets[direction];
+
+  return {
+    attribute: ` data-animate="${animation.type}"`,
+    styles: {
+      '--s2s-duration': `${animation.duration ?? 0.6}s`,
+      '--s2s-delay': `${animation.delay ?? 0}s`,
+      '--s2s-easing': animation.easing ?? 'ease-out',
+      '--s2s-from-x': fromX,
+      '--s2s-from-y': fromY
+    }
+  };
+}
+
+const slideEnterAnimation = (slide: Slide): SlideAnimation | undefined =>
+  slide.transitions?.enter ?? (slide.transition ? { type: slide.transition } : undefined);
+
+// ===================
+// SLIDE CONTENT
+// ===================
+
+function renderChart(ctx: RenderContext, content: SlideContent, theme: SlideTheme, slideBackground: RGBA): string | null {
+  const chart = parseChartData(content.content);
+  if (!chart) return null;
+
+  const box = getContentBox(content);
+  const width = (box.width / 100) * REFERENCE_SLIDE_WIDTH_PX;
+  const height = (box.height / 100) * REFERENCE_SLIDE_HEIGHT_PX;
+  const textColor = parseColor(theme.colors.text) ?? { r: 30, g: 41, b: 59, a: 1 };
+  const shapes = layoutChart(chart, { x: 0, y: 0, width, height }, { unit: CHART_UNIT, curveSegments: ctx.curveSegments });
+  const points = (list: readonly [number, number][]) => list.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+
+  const body = shapes.map(shape => {
+    switch (shape.kind) {
+      case 'rect':
+        return `<rect x="${shape.box.x.toFixed(1)}" y="${shape.box.y.toFixed(1)}" width="${shape.box.width.toFixed(1)}" height="${shape.box.height.toFixed(1)}" fill="${rgb(getSeriesColor(theme, shape.series))}"/>`;
+      case 'polygon': {
+        const color = getSeriesColor(theme, shape.series);
+        return `<polygon points="${points(shape.points)}" fill="${rgb(shape.faded ? mixColors(color, slideBackground, 0.5) : color)}"/>`;
+      }
+      case 'line':
+        return `<polyline points="${points(shape.points)}" fill="none" stroke="${rgb(getSeriesColor(theme, shape.series))}" stroke-width="${shape.width.toFixed(1)}" stroke-linejoin="round"/>`;
+      case 'axis':
+        return `<line x1="${shape.from[0].toFixed(1)}" y1="${shape.from[1].toFixed(1)}" x2="${shape.to[0].toFixed(1)}" y2="${shape.to[1].toFixed(1)}" stroke="${rgb(mixColors(textColor, slideBackground, 0.6))}" stroke-width="${shape.width.toFixed(1)}"/>`;
+      case 'hole':
+        return `<circle cx="${shape.center[0].toFixed(1)}" cy="${shape.center[1].toFixed(1)}" r="${shape.radius.toFixed(1)}" fill="${rgb(slideBackground)}"/>`;
+      case 'label': {
+        const x = shape.align === 'center' ? shape.box.x + shape.box.width / 2 : shape.box.x;
+        return `<text x="${x.toFixed(1)}" y="${(shape.box.y + shape.box.height / 2).toFixed(1)}" text-anchor="${shape.align === 'center' ? 'middle' : 'start'}" dominant-baseline="central" font-size="${shape.fontSize.toFixed(1)}"${shape.role === 'title' ? ' font-weight="bold"' : ''} fill="${rgb(textColor)}">${escapeHtml(shape.text)}</text>`;
+      }
+    }
+  }).join('');
+
+  const label = chart.title ?? `${chart.type} chart`;
+  return `<svg class="chart" viewBox="0 0 ${width.toFixed(1)} ${height.toFixed(1)}" role="img" aria-label="${escapeHtml(label)}">${body}</svg>`;
+}
+
+function renderContent(ctx: RenderContext, content: SlideContent, theme: SlideTheme, slideBackground: RGBA): string {
+  const box = getContentBox(content);
+  const style = content.style;
+  const animation = animationAttributes(style?.animation, '40px');
+  const isHeading = content.type === 'title' || content.type === 'subtitle';
+
+  const styles = styleAttribute({
+    left: percent(box.x),
+    top: percent(box.y),
+    width: percent(box.width),
+    height: percent(box.height),
+    'font-size': `${getFontSizePx(content)}px`,
+    'font-weight': isBoldWeight(style?.fontWeight) || content.type === 'title' ? 'bold' : undefined,
+    color: cssValue(style?.color) ?? cssValue(getDefaultTextColor(content, theme)),
+    'background-color': cssValue(style?.backgroundColor),
+    'text-align': style?.alignment ?? (content.type === 'title' ? 'center' : 'left'),
+    'justify-content': isHeading ? 'center' : undefined,
+    padding: cssValue(style?.padding),
+    'border-radius': cssValue(style?.borderRadius),
+    'z-index': content.metadata?.order,
+    ...animation.styles
+  });
+  const open = `<div class="el el-${content.type}" style="${escapeHtml(styles)}"${animation.attribute}>`;
+
+  switch (content.type) {
+    case 'image': {
+      const image = ctx.images.get(content.content);
+      return image
+        ? `${open}<img src="${escapeHtml(image)}" alt=""></div>`
+        : `${open}<div class="placeholder">${escapeHtml(content.content)}</div></div>`;
+    }
+    case 'chart': {
+      const chart = renderChart(ctx, content, theme, slideBackground);
+      return chart
+        ? `${open}${chart}</div>`
+        : `${open}<div class="placeholder">${escapeHtml(content.content)}</div></div>`;
+    }
+    case 'code':
+      return `${open}<pre><code>${escapeHtml(content.content)}</code></pre></div>`;
+    default:
+      return `${open}<div class="text">${escapeHtml(content.content)}</div></div>`;
+  }
+}
+
+// The brand kit logo, in the same corner box the editor uses
+function renderLogo(ctx: RenderContext, theme: SlideTheme): string {
+  const image = theme.logo && ctx.images.get(theme.logo.src);
+  if (!theme.logo || !image) return '';
+
+  const box = getLogoBox(theme.logo);
+  const styles = styleAttribute({
+    left: percent(box.x),
+    top: percent(box.y),
+    width: percent(box.width),
+    height: percent(box.height)
+  });
+  return `\n<img class="logo" src="${escapeHtml(image)}" alt="" style="${escapeHtml(styles)}">`;
+}
+
+function renderSlide(ctx: RenderContext, slide: Slide, theme: SlideTheme, index: number, total: number): string {
+  const base = parseColor(theme.colors.background) ?? WHITE;
+  const background = slide.background;
+  const image = background?.type === 'image' ? cssImage(ctx.images.get(background.value)) : undefined;
+
+  // Charts need a solid color for doughnut holes and faded areas
+  const slideBackground = background?.type === 'color' ? parseColor(background.value) ?? base : base;
+  const animation = animationAttributes(slideEnterAnimation(slide), '100%');
+
+  const styles = styleAttribute({
+    'background-color': cssValue(theme.colors.background),
+    ...(background?.type === 'color' && { 'background-color': cssValue(background.value) }),
+    ...(background?.type === 'gradient' && { 'background-image': cssValue(background.value) }),
+    ...(image && { 'background-image': image, 'background-size': 'cover', 'background-position': 'center' }),
+    color: cssValue(theme.colors.text),
+    '--s2s-heading-font': cssValue(theme.fonts.heading),
+    '--s2s-body-font': cssValue(theme.fonts.body),
+    '--s2s-code-font': cssValue(theme.fonts.code),
+    '--s2s-surface': cssValue(theme.colors.surface),
+    '--s2s-muted': cssValue(theme.colors.muted ?? theme.colors.secondary),
+    ...animation.styles
+  });
+
+  // Draw in the order the editor stacks them
+  const contents = [...slide.contents]
+    .sort((a, b) => (a.metadata?.order ?? 0) - (b.metadata?.order ?? 0))
+    .map(content => renderContent(ctx, content, theme, slideBackground))
+    .join('\n');
+
+  const label = `Slide ${index + 1} of ${total}: ${slide.title}`;
+  return `<section class="slide" data-index="${index}" aria-label="${escapeHtml(label)}" style="${escapeHtml(styles)}"${animation.attribute}>\n${contents}${renderLogo(ctx, theme)}\n</section>`;
+}
+
+// ===================
+// DOCUMENT
+// ===================
+
+const BASE_STYLES = `
+*{box-sizing:border-box;margin:0;padding:0}
+html,body{height:100%;background:#0f172a;overflow:hidden;font-family:system-ui,-apple-system,'Segoe UI',Roboto,sans-serif}
+.viewport{position:fixed;inset:0;display:flex;align-items:center;justify-content:center}
+.stage{position:relative;width:${REFERENCE_SLIDE_WIDTH_PX}px;height:${REFERENCE_SLIDE_HEIGHT_PX}px;flex:none;transform-origin:center;overflow:hidden;box-shadow:0 20px 60px rgba(0,0,0,.45)}
+.slide{position:absolute;inset:0;display:none;font-family:var(--s2s-body-font,sans-serif)}
+.slide.is-active{display:block}
+.el{position:absolute;display:flex;flex-direction:column;overflow:hidden;line-height:1.25;white-space:pre-wrap;word-wrap:break-word}
+.el-title,.el-subtitle{font-family:var(--s2s-heading-font,inherit)}
+.el-bullet .text{padding-left:1.2em;position:relative}
+.el-bullet .text::before{content:'•';position:absolute;left:0}
+.el-code{background:var(--s2s-surface,#f3f4f6);border-radius:6px;padding:10px}
+.el-code pre{font-family:var(--s2s-code-font,ui-monospace,monospace);white-space:pre-wrap}
+.el img,.el .chart{width:100%;height:100%;object-fit:contain}
+.logo{position:absolute;pointer-events:none}
+.placeholder{flex:1;display:flex;align-items:center;justify-content:center;text-align:center;font-style:italic;color:var(--s2s-muted,#64748b);background:var(--s2s-surface,#f3f4f6);border:1px dashed currentColor;padding:8px}
+.is-active[data-animate],.is-active [data-animate]{animation-duration:var(--s2s-duration);animation-delay:var(--s2s-delay);animation-timing-function:var(--s2s-easing);animation-fill-mode:both}
+.is-active[data-animate=fade],.is-active [data-animate=fade]{animation-name:s2s-fade}
+.is-active[data-animate=slide],.is-active [data-animate=slide]{animation-name:s2s-slide}
+.is-active[data-animate=zoom],.is-active [data-animate=zoom]{animation-name:s2s-zoom}
+.is-active[data-animate=bounce],.is-active [data-animate=bounce]{animation-name:s2s-bounce}
+@keyframes s2s-fade{from{opacity:0}}
+@keyframes s2s-slide{from{opacity:0;transform:translate(var(--s2s-from-x),var(--s2s-from-y))}}
+@keyframes s2s-zoom{from{opacity:0;transform:scale(.85)}}
+@keyframes s2s-bounce{0%{opacity:0;transform:scale(.3)}50%{opacity:1;transform:scale(1.05)}70%{transform:scale(.95)}100%{transform:scale(1)}}
+@media (prefers-reduced-motion:reduce){[data-animate]{animation:none!important}}
+.controls{position:fixed;bottom:16px;left:50%;transform:translateX(-50%);display:flex;align-items:center;gap:12px;padding:6px 12px;border-radius:999px;background:rgba(15,23,42,.7);color:#fff;font-size:14px;z-index:10}
+.controls button{background:none;border:0;color:inherit;font-size:18px;cursor:pointer;padding:4px 8px}
+.controls button:disabled{opacity:.3;cursor:default}
+.progress{position:fixed;top:0;left:0;height:3px;background:#3b82f6;transition:width .3s;z-index:10}
+.notes{position:fixed;left:0;right:0;bottom:0;max-height:35vh;overflow:auto;padding:20px 24px 64px;background:rgba(15,23,42,.95);color:#e2e8f0;font-size:16px;line-height:1.5;white-space:pre-wrap;z-index:9}
+.notes[hidden],.notes-item[hidden]{display:none}
+.hint{position:fixed;top:12px;right:16px;color:rgba(255,255,255,.5);font-size:12px;z-index:10}
+`;
+
+// Plain ES5 so the file runs in any browser without a build step
+const NAVIGATION_SCRIPT = `
+(function () {
+  var slides = document.querySelectorAll('.slide');
+  var notesPanel = document.querySelector('.notes');
+  var notes = document.querySelectorAll('.notes-item');
+  var stage = document.querySelector('.stage');
+  var counter = document.querySelector('.counter');
+  var progress = document.querySelector('.progress');
+  var prev = document.querySelector('[data-action=prev]');
+  var next = document.querySelector('[data-action=next]');
+  var current = -1;
+
+  function show(index) {
+    index = Math.max(0, Math.min(slides.length - 1, index));
+    if (index === current) return;
+    for (var i = 0; i < slides.length; i++) {
+      slides[i].classList.toggle('is-active', i === index);
+      slides[i].setAttribute('aria-hidden', i === index ? 'false' : 'true');
+      if (notes[i]) notes[i].hidden = i !== index;
+    }
+    current = index;
+    counter.textContent = (index + 1) + ' / ' + slides.length;
+    progress.style.width = ((index + 1) / slides.length * 100) + '%';
+    prev.disabled = index === 0;
+    next.disabled = index === slides.length - 1;
+    if (history.replaceState) history.replaceState(null, '', '#' + (index + 1));
+  }
+
+  function fit() {
+    var scale = Math.min(window.innerWidth / ${REFERENCE_SLIDE_WIDTH_PX}, window.innerHeight / ${REFERENCE_SLIDE_HEIGHT_PX});
+    stage.style.transform = 'scale(' + scale + ')';
+  }
+
+  function toggleNotes() {
+    if (notesPanel) notesPanel.hidden = !notesPanel.hidden;
+  }
+
+  function toggleFullscreen() {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else if (document.documentElement.requestFullscreen) document.documentElement.requestFullscreen();
+  }
+
+  document.addEventListener('keydown', function (event) {
+    if (event.altKey || event.ctrlKey || event.metaKey) return;
+    switch (event.key) {
+      case 'ArrowRight': case 'ArrowDown': case 'PageDown': case ' ': case 'Enter':
+        show(current + 1); break;
+      case 'ArrowLeft': case 'ArrowUp': case 'PageUp': case 'Backspace':
+        show(current - 1); break;
+      case 'Home':
+        show(0); break;
+      case 'End':
+        show(slides.length - 1); break;
+      case 'n': case 'N': case 's': case 'S':
+        toggleNotes(); break;
+      case 'f': case 'F':
+        toggleFullscreen(); break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  });
+
+  prev.addEventListener('click', function () { show(current - 1); });
+  next.addEventListener('click', function () { show(current + 1); });
+  window.addEventListener('resize', fit);
+  window.addEventListener('hashchange', function () { show(parseInt(location.hash.slice(1), 10) - 1 || 0); });
+
+  fit();
+  show(parseInt(location.hash.slice(1), 10) - 1 || 0);
+})();
+`;
+
+/**
+ * Export a presentation to a single offline HTML file
+ * Speaker notes are bundled unless includeNotes is false, and toggled with N (or S)
+ */
+export async function exportPresentationToHtml(
+  presentation: SlidePresentation,
+  options: HtmlExportOptions = { quality: 'medium' }
+): Promise<string> {
+  const ctx: RenderContext = {
+    images: await loadSlideImages(presentation.slides),
+    curveSegments: CURVE_SEGMENTS[options.quality]
+  };
+  const includeNotes = options.includeNotes ?? true;
+  const total = presentation.slides.length;
+  const title = presentation.title || 'AI Generated Presentation';
+
+  const slides = presentation.slides
+    .map((slide, index) => renderSlide(ctx, slide, options.customTheme ?? slide.theme ?? presentation.theme, index, total))
+    .join('\n');
+
+  const notes = includeNotes
+    ? `<aside class="notes" aria-label="Speaker notes" hidden>\n${presentation.slides
+      .map((slide, index) => `<div class="notes-item" data-index="${index}" hidden>${escapeHtml(getNotesText(slide))}</div>`)
+      .join('\n')}\n</aside>`
+    : '';
+
+  const hint = includeNotes ? '← → navigate · N notes · F fullscreen' : '← → navigate · F fullscreen';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="Snap2Slides">
+${presentation.metadata.author ? `<meta name="author" content="${escapeHtml(presentation.metadata.author)}">\n` : ''}${presentation.metadata.description ? `<meta name="description" content="${escapeHtml(presentation.metadata.description)}">\n` : ''}<title>${escapeHtml(title)}</title>
+<style>${BASE_STYLES}</style>
+</head>
+<body>
+<main class="viewport" aria-roledescription="presentation" aria-label="${escapeHtml(title)}">
+<div class="stage">
+${slides}
+</div>
+</main>
+${notes}
+<div class="progress"></div>
+<div class="hint">${hint}</div>
+<nav class="controls" aria-label="Slide navigation">
+<button type="button" data-action="prev" aria-label="Previous slide">‹</button>
+<span class="counter" aria-live="polite"></span>
+<button type="button" data-action="next" aria-label="Next slide">›</button>
+</nav>
+<script>${NAVIGATION_SCRIPT}</script>
+</body>
+</html>
+`;
+}
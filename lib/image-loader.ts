@@ -0,0 +1,96 @@
+// Image loading for server-side exports
+// Exported files have to stand on their own, so every image a deck references is
+// fetched up front and inlined as a data URL. Decks come from the client, so only
+// links into the app's own upload bucket are fetched, and never from a private address.
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { isDataImageUrl, isStorageImageUrl } from '@/lib/image-source';
+import type { Slide } from '@/types/slides';
+
+const IMAGE_FETCH_TIMEOUT_MS = 10000;
+
+// Same as the upload limit - nothing bigger was ever put in the bucket
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Loopback, private, carrier-grade NAT and link-local ranges (IPv4-mapped IPv6 addresses are checked against the IPv4 ones)
+const BLOCKED_ADDRESSES = new BlockList();
+BLOCKED_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+BLOCKED_ADDRESSES.addAddress('::', 'ipv6');
+BLOCKED_ADDRESSES.addAddress('::1', 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+const isPrivateAddress = (address: string) =>
+  BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// Read the body up to `limit` bytes - null as soon as it turns out to be bigger
+async function readLimited(response: Response, limit: number): Promise<Buffer | null> {
+  if (Number(response.headers.get('content-length')) > limit || !response.body) return null;
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Resolve an image to a data URL - null when it's a description, isn't one of our
+ * uploads, or can't be fetched
+ */
+export async function loadImageAsDataUrl(source: string): Promise<string | null> {
+  if (isDataImageUrl(source)) return source;
+  if (!isStorageImageUrl(source)) return null;
+
+  try {
+    const addresses = await lookup(new URL(source).hostname, { all: true });
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) return null;
+
+    // Signed links never redirect - following one could leave the bucket
+    const response = await fetch(source, { redirect: 'error', signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS) });
+    const contentType = response.headers.get('content-type')?.split(';')[0]?.trim();
+    if (!response.ok || !contentType?.startsWith('image/')) return null;
+
+    const data = await readLimited(response, MAX_IMAGE_BYTES);
+    return data && `data:${contentType};base64,${data.toString('base64')}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load every image used by the given slides (image elements, image backgrounds and logos),
+ * keyed by the original source string
+ */
+export async function loadSlideImages(slides: readonly Slide[]): Promise<Map<string, string | null>> {
+  const sources = new Set<string>();
+  slides.forEach(slide => {
+    if (slide.background?.type === 'image') sources.add(slide.background.value);
+    if (slide.theme?.logo) sources.add(slide.theme.logo.src);
+    slide.contents.forEach(content => {
+      if (content.type === 'image') sources.add(content.content);
+    });
+  });
+
+  const images = new Map<string, string | null>();
+  await Promise.all([...sources].map(async source => {
+    images.set(source, await loadImageAsDataUrl(source));
+  }));
+  return images;
+}
@@ -0,0 +1,41 @@
+// Image sources - which strings in a deck are images, and which of them the server may fetch
+// Client-safe: the canvas uses toDisplayImageUrl too
+
+const DATA_URL_PATTERN = /^data:image\/[\w.+-]+;base64,/i;
+// Base64 through to the end, so nothing can follow it out of a url("...")
+const DATA_URL_BODY_PATTERN = /^data:image\/[\w.+-]+;base64,[a-z0-9+/]+=*$/i;
+
+// Signed upload links (lib/gcs.ts) point here
+const STORAGE_HOST = 'storage.googleapis.com';
+
+export const isDataImageUrl = (value: string): boolean => DATA_URL_PATTERN.test(value);
+
+/**
+ * Whether a URL is a link into the app's own upload bucket - the only remote images
+ * exports fetch, so a deck can't point the server at anything else
+ * Both URL styles GCS signs are accepted: storage.googleapis.com/<bucket>/... and <bucket>.storage.googleapis.com/...
+ */
+export function isStorageImageUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.port || url.username || url.password) return false;
+
+  const bucket = process.env.GOOGLE_CLOUD_STORAGE_BUCKET || 'snap2slides-uploads';
+  return (url.hostname === STORAGE_HOST && url.pathname.startsWith(`/${bucket}/`))
+    || url.hostname === `${bucket}.${STORAGE_HOST}`;
+}
+
+/**
+ * The URL a browser may load for a deck image - an inline data URL or a link into the upload
+ * bucket - or null when the string is a description or points anywhere else, so opening a
+ * shared deck never sends viewers' requests to a host the author chose
+ */
+export function toDisplayImageUrl(value: string): string | null {
+  if (DATA_URL_BODY_PATTERN.test(value)) return value;
+  // Serializing through URL percent-encodes quotes, so the link is safe inside url("...") too
+  return isStorageImageUrl(value) ? new URL(value).href : null;
+}
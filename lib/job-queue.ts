@@ -0,0 +1,274 @@
+// Background jobs - presentations built outside the request that asked for them
+// A job is submitted, picked up by the worker (lib/job-worker.ts) and kept, with its result
+// and links to its files, until it expires. Where jobs are kept is pluggable, like vision providers:
+// in memory (the default, fine for one server and for tests) or in MongoDB.
+
+import { nanoid } from 'nanoid';
+import { connectToDatabase } from '@/lib/mongodb';
+import { AuthorizationError, NotFoundError } from '@/lib/errors';
+import type { PresentationInput, PresentationResult } from '@/lib/presentation-pipeline';
+import type { UploadPage } from '@/lib/pdf-pages';
+import type { AnalysisProgress, PresentationSession } from '@/types/slides';
+
+// Results and files stay this long after a job is submitted
+export const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// A claimed job belongs to its worker this long; the worker renews it while it runs,
+// so a job whose worker crashed goes back to the queue once the lease runs out
+export const JOB_LEASE_MS = 5 * 60 * 1000;
+
+// 'draft' is a job still waiting for the worker
+export type JobStatus = PresentationSession['status'];
+
+export type JobOutput = 'interactive' | 'pptx';
+
+// Upload pages as stored with the job - base64, so any backend can keep them
+export interface StoredPage extends Omit<UploadPage, 'data'> {
+  data: string;
+}
+
+export interface JobInput extends Omit<PresentationInput, 'pages'> {
+  pages: StoredPage[];
+  output: JobOutput; // 'pptx' also keeps the PowerPoint file as an artifact
+}
+
+/**
+ * A file made by a job, kept for download until the job expires
+ * The file itself is in the upload bucket (lib/gcs.ts) - a deck's PowerPoint can be larger
+ * than a MongoDB document may be
+ */
+export interface JobArtifact {
+  fileName: string;
+  contentType: string;
+  path: string; // Object path in the bucket
+  size: number; // Bytes
+}
+
+export interface PresentationJob {
+  id: string;
+  status: JobStatus;
+  userId: string | null; // Only this user can see the job; anyone with the id when null
+  input: JobInput;
+  progress?: AnalysisProgress;
+  result?: PresentationResult;
+  artifacts: Record<string, JobArtifact>;
+  error?: { message: string; code?: string; status: number };
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  claimId?: string; // Which claim holds the lease - only that worker may change the job
+  leaseExpiresAt?: Date; // While processing
+  completedAt?: Date;
+  expiresAt: Date;
+}
+
+export type JobUpdate = Partial<Pick<PresentationJob,
+  'status' | 'progress' | 'result' | 'artifacts' | 'error' | 'startedAt' | 'leaseExpiresAt' | 'completedAt'>>;
+
+/**
+ * Where jobs are kept. claimNext hands the oldest waiting job - or one whose worker's
+ * lease ran out - to exactly one worker. Given a claimId, update only changes the job
+ * while that claim still holds it, and says whether it did.
+ */
+export interface JobQueue {
+  readonly name: string;
+  add(job: PresentationJob): Promise<void>;
+  claimNext(): Promise<PresentationJob | null>;
+  update(id: string, changes: JobUpdate, claimId?: string): Promise<boolean>;
+  get(id: string): Promise<PresentationJob | null>;
+}
+
+const isExpired = (job: Pick<PresentationJob, 'expiresAt'>, now = Date.now()) => job.expiresAt.getTime() <= now;
+
+const isClaimable = (job: PresentationJob, now: number) =>
+  !isExpired(job, now) && (job.status === 'draft'
+    || (job.status === 'processing' && job.leaseExpiresAt !== undefined && job.leaseExpiresAt.getTime() <= now));
+
+// What claiming a job changes - a reclaimed job starts over, so its progress is dropped too
+const claimChanges = (now: Date) => ({
+  status: 'processing' as const,
+  startedAt: now,
+  claimId: nanoid(),
+  leaseExpiresAt: new Date(now.getTime() + JOB_LEASE_MS),
+  updatedAt: now
+});
+
+/**
+ * Jobs in this process's memory - nothing to set up, but they're lost on restart
+ * and only the worker in the same process sees them
+ */
+export function createMemoryJobQueue(): JobQueue {
+  const jobs = new Map<string, PresentationJob>();
+
+  return {
+    name: 'memory',
+    async add(job) {
+      // Expired jobs are dropped as new ones arrive, so memory doesn't grow forever
+      jobs.forEach((existing, id) => isExpired(existing) && jobs.delete(id));
+      jobs.set(job.id, job);
+    },
+    async claimNext() {
+      const now = new Date();
+      const next = [...jobs.values()]
+        .filter(job => isClaimable(job, now.getTime()))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0];
+      if (!next) return null;
+      const { progress: _progress, ...job } = next;
+      const claimed: PresentationJob = { ...job, ...claimChanges(now) };
+      jobs.set(claimed.id, claimed);
+      return claimed;
+    },
+    async update(id, changes, claimId) {
+      const job = jobs.get(id);
+      if (!job || (claimId !== undefined && job.claimId !== claimId)) return false;
+      jobs.set(id, { ...job, ...changes, updatedAt: new Date() });
+      return true;
+    },
+    async get(id) {
+      const job = jobs.get(id);
+      return job && !isExpired(job) ? job : null;
+    }
+  };
+}
+
+type JobRecord = Omit<PresentationJob, 'id'> & { _id: string };
+
+const toJob = ({ _id, ...record }: JobRecord): PresentationJob => ({ id: _id, ...record });
+
+/**
+ * Jobs in the `jobs` collection - shared by every server, so a worker anywhere can
+ * pick them up. MongoDB removes them once they expire.
+ */
+export function createMongoJobQueue(): JobQueue {
+  let indexed = false;
+  const getCollection = async () => {
+    const { db } = await connectToDatabase();
+    const collection = db.collection<JobRecord>('jobs');
+    if (!indexed) {
+      await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+      indexed = true;
+    }
+    return collection;
+  };
+
+  return {
+    name: 'mongodb',
+    async add({ id, ...job }) {
+      const collection = await getCollection();
+      await collection.insertOne({ _id: id, ...job });
+    },
+    async claimNext() {
+      const collection = await getCollection();
+      const now = new Date();
+      const record = await collection.findOneAndUpdate(
+        {
+          expiresAt: { $gt: now },
+          $or: [{ status: 'draft' }, { status: 'processing', leaseExpiresAt: { $lte: now } }]
+        },
+        { $set: claimChanges(now), $unset: { progress: '' } },
+        { sort: { createdAt: 1 }, returnDocument: 'after' }
+      );
+      return record ? toJob(record) : null;
+    },
+    async update(id, changes, claimId) {
+      const collection = await getCollection();
+      const { matchedCount } = await collection.updateOne(
+        { _id: id, ...(claimId !== undefined && { claimId }) },
+        { $set: { ...changes, updatedAt: new Date() } }
+      );
+      return matchedCount > 0;
+    },
+    async get(id) {
+      const collection = await getCollection();
+      const record = await collection.findOne({ _id: id });
+      // The TTL monitor only runs every minute or so
+      return record && !isExpired(record) ? toJob(record) : null;
+    }
+  };
+}
+
+const QUEUES: Record<string, () => JobQueue> = {
+  memory: createMemoryJobQueue,
+  mongodb: createMongoJobQueue,
+};
+
+const queues = new Map<string, JobQueue>();
+
+// Pick the backend named by JOB_QUEUE (defaults to memory) - one instance per process
+export function getJobQueue(name = process.env.JOB_QUEUE): JobQueue {
+  const key = name?.trim().toLowerCase() || 'memory';
+  const create = QUEUES[key];
+  if (!create) {
+    throw new Error(`Unknown job queue "${name}". Use one of: ${Object.keys(QUEUES).join(', ')}`);
+  }
+  if (!queues.has(key)) queues.set(key, create());
+  return queues.get(key)!;
+}
+
+export const toStoredPages = (pages: readonly UploadPage[]): StoredPage[] =>
+  pages.map(page => ({ ...page, data: page.data.toString('base64') }));
+
+export const toUploadPages = (pages: readonly StoredPage[]): UploadPage[] =>
+  pages.map(page => ({ ...page, data: Buffer.from(page.data, 'base64') }));
+
+/**
+ * Queue a new job - it waits as a draft until the worker claims it
+ */
+export async function submitJob(
+  input: PresentationInput,
+  output: JobOutput,
+  queue: JobQueue = getJobQueue()
+): Promise<PresentationJob> {
+  const now = new Date();
+  const job: PresentationJob = {
+    id: nanoid(),
+    status: 'draft',
+    userId: input.userId,
+    input: { ...input, pages: toStoredPages(input.pages), output },
+    artifacts: {},
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: new Date(now.getTime() + JOB_RETENTION_MS)
+  };
+  await queue.add(job);
+  return job;
+}
+
+/**
+ * One job, for the user who submitted it
+ */
+export async function getJob(id: string, userId: string | null, queue: JobQueue = getJobQueue()): Promise<PresentationJob> {
+  const job = await queue.get(id);
+  if (!job) {
+    throw new NotFoundError(`Job ${id} not found`);
+  }
+  if (job.userId && job.userId !== userId) {
+    throw new AuthorizationError('You do not have access to this job');
+  }
+  return job;
+}
+
+/**
+ * A job as the API reports it - the uploads stay on the server and files are links
+ */
+export function toJobView(job: PresentationJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    ...(job.progress && { progress: job.progress }),
+    ...(job.status === 'completed' && job.result && { result: job.result }),
+    artifacts: Object.entries(job.artifacts).map(([name, artifact]) => ({
+      name,
+      fileName: artifact.fileName,
+      contentType: artifact.contentType,
+      size: artifact.size,
+      url: `/api/jobs/${job.id}/artifacts/${name}`
+    })),
+    ...(job.error && { error: job.error }),
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    ...(job.startedAt && { startedAt: job.startedAt }),
+    ...(job.completedAt && { completedAt: job.completedAt }),
+    expiresAt: job.expiresAt
+  };
+}
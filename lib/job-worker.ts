@@ -0,0 +1,163 @@
+// In-process job worker - builds queued presentations one at a time, after the
+// request that submitted them has returned. Suits a long-running server (`next start`);
+// elsewhere, anything that can import this module can call processNextJob on a schedule.
+
+import { getVisionProvider, type VisionProvider } from '@/lib/vision-provider';
+import { buildPresentation } from '@/lib/presentation-pipeline';
+import { exportPresentationToPptx } from '@/lib/pptx-exporter';
+import { errorResponse } from '@/lib/api-response';
+import { toSafeFilename } from '@/lib/utils';
+import { ExternalServiceError } from '@/lib/errors';
+import {
+  JOB_LEASE_MS,
+  getJobQueue,
+  toUploadPages,
+  type JobArtifact,
+  type JobQueue,
+  type JobUpdate,
+  type PresentationJob
+} from '@/lib/job-queue';
+
+const PPTX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+// The worker renews its lease while it waits on the AI, so a call that never answers would
+// hold the job forever - each one gets this long (retries included) before the job fails
+export const PROVIDER_CALL_TIMEOUT_MS = 3 * 60 * 1000;
+
+function withTimeout<T>(call: Promise<T>, provider: VisionProvider): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ExternalServiceError(
+      `${provider.name} took too long to answer`,
+      provider.name,
+      undefined,
+      'AI_TIMEOUT'
+    )), PROVIDER_CALL_TIMEOUT_MS);
+  });
+  return Promise.race([call, timeout]).finally(() => clearTimeout(timer));
+}
+
+// The provider with a time limit on every call the pipeline makes
+const withCallTimeouts = (provider: VisionProvider): VisionProvider => ({
+  ...provider,
+  analyzeImage: (...args) => withTimeout(provider.analyzeImage(...args), provider),
+  generateTheme: (...args) => withTimeout(provider.generateTheme(...args), provider),
+  generateSpeakerNotes: (...args) => withTimeout(provider.generateSpeakerNotes(...args), provider),
+  optimizeSlideFlow: (...args) => withTimeout(provider.optimizeSlideFlow(...args), provider)
+});
+
+/**
+ * Run one claimed job to the end. Progress is saved as it comes in; failures are
+ * saved on the job (with the status the API would have answered) rather than thrown.
+ * The job's lease is renewed while it runs, so no other worker reclaims it - and once
+ * another worker has (this one stalled past its lease), nothing more is written.
+ */
+export async function processJob(
+  job: PresentationJob,
+  queue: JobQueue,
+  provider: VisionProvider = getVisionProvider()
+): Promise<void> {
+  // Progress updates go out in order, and all land before the final one
+  let saved: Promise<void> = Promise.resolve();
+  let lost = false;
+  const save = (changes: JobUpdate) => {
+    saved = saved.then(async () => {
+      if (lost) return;
+      if (!await queue.update(job.id, changes, job.claimId)) {
+        lost = true;
+        clearInterval(heartbeat);
+        console.warn(`Job ${job.id} was reclaimed by another worker - leaving it to them`);
+      }
+    }).catch(error => {
+      console.error(`Saving job ${job.id} failed:`, error);
+    });
+  };
+
+  const heartbeat = setInterval(
+    () => save({ leaseExpiresAt: new Date(Date.now() + JOB_LEASE_MS) }),
+    JOB_LEASE_MS / 3
+  );
+  heartbeat.unref?.();
+
+  try {
+    if (!provider.isConfigured()) {
+      throw new Error(`Vision provider "${provider.name}" is not configured`);
+    }
+
+    const { pages, output, ...input } = job.input;
+    const result = await buildPresentation(withCallTimeouts(provider), { ...input, pages: toUploadPages(pages) }, {
+      onProgress: progress => save({ progress })
+    });
+
+    const artifacts: Record<string, JobArtifact> = {};
+    if (output === 'pptx') {
+      const file = await exportPresentationToPptx(result.presentation);
+      const fileName = toSafeFilename(result.presentation.title, 'pptx');
+      // Loaded on demand - the storage client needs credentials that tests and builds don't have
+      const { uploadFile } = await import('@/lib/gcs');
+      artifacts.pptx = {
+        fileName,
+        contentType: PPTX_CONTENT_TYPE,
+        path: await uploadFile(file, `${job.id}-${fileName}`, PPTX_CONTENT_TYPE),
+        size: file.length
+      };
+    }
+
+    save({ status: 'completed', result, artifacts, completedAt: new Date() });
+    await saved;
+  } catch (error) {
+    const response = errorResponse(error, 'Failed to create presentation');
+    const body = await response.json();
+    save({
+      status: 'error',
+      error: { message: body.error, ...(body.code && { code: body.code }), status: response.status },
+      completedAt: new Date()
+    });
+    await saved;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Claim and run the oldest waiting job. False when there was nothing to do.
+ */
+export async function processNextJob(queue: JobQueue = getJobQueue()): Promise<boolean> {
+  const job = await queue.claimNext();
+  if (!job) return false;
+  await processJob(job, queue);
+  return true;
+}
+
+// One drain loop per queue - jobs run one at a time, which keeps the AI quota happy
+const draining = new Map<JobQueue, { promise: Promise<void>; again: boolean }>();
+
+/**
+ * Work through the queue until it's empty. Calling it while the worker is already
+ * busy just makes sure the newest job gets picked up too.
+ */
+export function startJobWorker(queue: JobQueue = getJobQueue()): Promise<void> {
+  const running = draining.get(queue);
+  if (running) {
+    running.again = true;
+    return running.promise;
+  }
+
+  const state = { promise: Promise.resolve(), again: false };
+  state.promise = (async () => {
+    try {
+      do {
+        state.again = false;
+        while (await processNextJob(queue)) {
+          // Keep going until nothing is waiting
+        }
+      } while (state.again);
+    } catch (error) {
+      console.error(`Job worker stopped (${queue.name}):`, error);
+    } finally {
+      draining.delete(queue);
+    }
+  })();
+  draining.set(queue, state);
+  return state.promise;
+}
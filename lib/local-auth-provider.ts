@@ -0,0 +1,50 @@
+// Offline auth provider backed by accounts from the environment
+// For local development, tests and CI - no identity service or network needed.
+// LOCAL_AUTH_USERS lists accounts as `email:password[:name]`, separated by commas.
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { AuthenticationError } from '@/lib/errors';
+import type { AuthProvider, AuthUser } from '@/lib/auth-provider';
+
+interface LocalAccount {
+  email: string;
+  password: string;
+  name: string;
+}
+
+export function parseLocalAccounts(value = process.env.LOCAL_AUTH_USERS): LocalAccount[] {
+  if (!value) return [];
+
+  return value.split(',').flatMap(entry => {
+    const [email, password, ...name] = entry.trim().split(':');
+    if (!email || !password) return [];
+    return [{ email: email.toLowerCase(), password, name: name.join(':') || email }];
+  });
+}
+
+// Compare digests so the comparison takes the same time whatever the password length
+const sameSecret = (a: string, b: string) =>
+  timingSafeEqual(createHash('sha256').update(a).digest(), createHash('sha256').update(b).digest());
+
+export const localAuthProvider: AuthProvider = {
+  name: 'local',
+  type: 'credentials',
+  isConfigured: () => parseLocalAccounts().length > 0,
+
+  async signInWithCredentials(email, password): Promise<AuthUser> {
+    const account = parseLocalAccounts().find(candidate => candidate.email === email.trim().toLowerCase());
+
+    // Check a password even for unknown emails, so timing doesn't reveal which accounts exist
+    const passwordMatches = sameSecret(password, account?.password ?? '');
+    if (!account || !passwordMatches) {
+      throw new AuthenticationError('Invalid email or password', 'INVALID_CREDENTIALS');
+    }
+
+    return {
+      sub: `local|${account.email}`,
+      name: account.name,
+      email: account.email,
+      picture: null
+    };
+  },
+};
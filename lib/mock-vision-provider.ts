@@ -0,0 +1,113 @@
+// Offline vision provider backed by fixture analyses
+// The same image always gets the same fixture, so tests, demos and CI get stable
+// results without an API key. Set VISION_MOCK_FIXTURE to pin a specific fixture.
+
+import { createHash } from 'crypto';
+import { generateThemeFromColors } from '@/lib/slide-generator';
+import { DEFAULT_THEMES } from '@/lib/themes';
+import { describeSlide } from '@/lib/speaker-notes';
+import type { RewriteRequest } from '@/lib/rewrite';
+import { GeminiAnalysisSchema } from '@/utils/validation-schemas';
+import type { VisionProvider } from '@/lib/vision-provider';
+import type { GeminiAnalysisResult } from '@/types/slides';
+import productLaunch from '@/lib/fixtures/vision/product-launch.json';
+import quarterlyReview from '@/lib/fixtures/vision/quarterly-review.json';
+import teamRetrospective from '@/lib/fixtures/vision/team-retrospective.json';
+
+// Parsed up front - a broken fixture should fail loudly, not produce a bad deck
+export const VISION_FIXTURES: Record<string, GeminiAnalysisResult> = Object.fromEntries(
+  Object.entries({
+    'product-launch': productLaunch,
+    'quarterly-review': quarterlyReview,
+    'team-retrospective': teamRetrospective,
+  }).map(([name, fixture]) => [name, GeminiAnalysisSchema.parse(fixture) as GeminiAnalysisResult])
+);
+
+const FIXTURE_NAMES = Object.keys(VISION_FIXTURES).sort();
+
+// Stable index from arbitrary input
+const pickIndex = (input: Buffer | string, count: number) =>
+  createHash('sha256').update(input).digest().readUInt32BE(0) % count;
+
+function selectFixture(image: Buffer): GeminiAnalysisResult {
+  const pinned = process.env.VISION_MOCK_FIXTURE;
+  if (pinned) {
+    const fixture = VISION_FIXTURES[pinned];
+    if (!fixture) {
+      throw new Error(`Unknown mock vision fixture "${pinned}". Use one of: ${FIXTURE_NAMES.join(', ')}`);
+    }
+    return fixture;
+  }
+  return VISION_FIXTURES[FIXTURE_NAMES[pickIndex(image, FIXTURE_NAMES.length)]!]!;
+}
+
+// A predictable stand-in for each rewrite action - enough to see the editor's diff at work
+function mockRewrite({ text, action, language }: RewriteRequest): string {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const plain = lines.map(line => line.replace(/^[-*•]\s+/, ''));
+  const perLine = (change: (line: string) => string) =>
+    lines.map(line => {
+      const marker = line.match(/^[-*•]\s+/)?.[0] ?? '';
+      return marker + change(line.slice(marker.length));
+    }).join('\n');
+
+  switch (action) {
+    case 'shorten':
+      return perLine(line => line.split(/\s+/).slice(0, Math.max(3, Math.ceil(line.split(/\s+/).length / 2))).join(' '));
+    case 'expand':
+      return perLine(line => `${line.replace(/[.!]$/, '')}, explained step by step.`);
+    case 'formal':
+      return perLine(line => `${line.charAt(0).toUpperCase()}${line.slice(1).replace(/[.!]?$/, '.')}`);
+    case 'casual':
+      return perLine(line => `${line.replace(/[.]$/, '')}!`);
+    case 'translate':
+      return perLine(line => `[${language || 'English'}] ${line}`);
+    case 'bullets':
+      return plain.flatMap(line => line.split(/(?<=[.!?])\s+/)).map(sentence => `- ${sentence}`).join('\n');
+    case 'prose':
+      return plain.map(line => line.replace(/[.!?]?$/, '.')).join(' ');
+  }
+}
+
+export const mockVisionProvider: VisionProvider = {
+  name: 'mock',
+  isConfigured: () => true,
+
+  async analyzeImage(image) {
+    // Copy so callers can't mutate the shared fixture
+    const fixture = structuredClone(selectFixture(image));
+    return { ...fixture, processingTime: 0, repairAttempts: 0 };
+  },
+
+  async generateTheme(contentSummary, brandColors) {
+    if (brandColors && brandColors.length >= 3) {
+      return generateThemeFromColors(brandColors);
+    }
+    return DEFAULT_THEMES[pickIndex(contentSummary, DEFAULT_THEMES.length)]!;
+  },
+
+  // Built from the slide itself, so the notes always match what's on screen
+  async generateSpeakerNotes(slide) {
+    const { title, points } = describeSlide(slide);
+    const minutes = Math.max(1, Math.round(points.length / 2));
+    return {
+      opening: `Introduce "${title}" and say why it matters to this audience.`,
+      mainPoints: points.length > 0 ? points.slice(0, 5) : [title],
+      timing: `About ${minutes} minute${minutes > 1 ? 's' : ''} - pause after each point.`,
+      transition: 'Sum up in one sentence, then move on to the next slide.',
+      questions: points.length > 0 ? [`Can you say more about "${points[0]}"?`] : []
+    };
+  },
+
+  // Fixture decks are already in story order
+  async optimizeSlideFlow(slides) {
+    return slides.map(slide => slide.id);
+  },
+
+  // Word by word, like a streamed model answer
+  async *rewriteContent(request) {
+    for (const word of mockRewrite(request).match(/\S+\s*/g) ?? []) {
+      yield word;
+    }
+  },
+};
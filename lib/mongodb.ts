@@ -1,38 +1,43 @@
 // MongoDB database connection - handles all our data storage
 // This connects to MongoDB Atlas (cloud database) to store user presentations and history
+// Lazy initialization so importing this module never fails at build time
 
-import { MongoClient, ServerApiVersion } from 'mongodb';
+import { MongoClient, ServerApiVersion, type Db } from 'mongodb';
 
-// Get the database connection string from environment variables
-const uri = process.env.MONGODB_URI;
-
-// Make sure we have a database URL - can't work without it
-if (!uri) {
-  throw new Error('MONGODB_URI environment variable is not defined.');
-}
+// Cache the database connection so we don't reconnect every time
+// This is important for serverless functions that run frequently
+let cachedClient: MongoClient | null = null;
+let cachedDb: Db | null = null;
 
 // Create a MongoDB client with modern settings
 // These settings ensure we're using the latest, most stable version
-const client = new MongoClient(uri as string, {
-  serverApi: {
-    version: ServerApiVersion.v1,  // Use the stable API version
-    strict: true,                  // Strict mode prevents deprecated features
-    deprecationErrors: true,       // Show warnings about old code
+const createClient = (): MongoClient => {
+  // Get the database connection string from environment variables
+  const uri = process.env.MONGODB_URI;
+
+  // Make sure we have a database URL - can't work without it
+  if (!uri) {
+    throw new Error('MONGODB_URI environment variable is not defined.');
   }
-});
 
-// Cache the database connection so we don't reconnect every time
-// This is important for serverless functions that run frequently
-let cachedClient: MongoClient | null = null;
-let cachedDb: any = null;
+  return new MongoClient(uri, {
+    serverApi: {
+      version: ServerApiVersion.v1,  // Use the stable API version
+      strict: true,                  // Strict mode prevents deprecated features
+      deprecationErrors: true,       // Show warnings about old code
+    }
+  });
+};
 
 // Connect to the database - reuses existing connection if available
-export async function connectToDatabase() {
+export async function connectToDatabase(): Promise<{ client: MongoClient; db: Db }> {
   // If a cached client already exists, return it immediately.
   if (cachedClient && cachedDb) {
     return { client: cachedClient, db: cachedDb };
   }
 
+  const client = createClient();
+
   // If no client is cached, establish a new connection.
   try {
     await client.connect(); // Establish the connection to the MongoDB cluster.
@@ -47,4 +52,4 @@ export async function connectToDatabase() {
     console.error('Failed to connect to MongoDB Atlas:', error);
     throw new Error('Database connection failed. Check MongoDB URI and network access configuration.');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,570 @@
+// PDF exporter - renders a SlidePresentation to a multi-page PDF on the server
+// Uses jsPDF's drawing API directly, so there's no headless browser involved; layout
+// comes from the same slide geometry as the editor and the PPTX export
+
+import { jsPDF } from 'jspdf';
+import type { ExportOptions, Slide, SlideContent, SlidePresentation, SlideTheme } from '@/types/slides';
+import {
+  REFERENCE_SLIDE_HEIGHT_PX,
+  REFERENCE_SLIDE_WIDTH_PX,
+  getContentBox,
+  getDefaultTextColor,
+  getFontSizePx,
+  getLogoBox,
+  isBoldWeight,
+  pxToPoints,
+  type ContentBox
+} from '@/lib/slide-geometry';
+import {
+  composite,
+  getGradientBands,
+  mixColors,
+  parseColor,
+  parseLinearGradient,
+  type RGBA
+} from '@/lib/colors';
+import { parseChartData } from '@/lib/chart-data';
+import { getSeriesColor, layoutChart, type ChartPoint } from '@/lib/chart-layout';
+import { loadSlideImages } from '@/lib/image-loader';
+import { getNotesText } from '@/lib/speaker-notes';
+
+// Slide pages match the PPTX export: 10in x 5.625in
+export const PDF_SLIDE_WIDTH_PT = 720;
+export const PDF_SLIDE_HEIGHT_PT = (PDF_SLIDE_WIDTH_PT * REFERENCE_SLIDE_HEIGHT_PX) / REFERENCE_SLIDE_WIDTH_PX;
+
+// Notes and handout pages are portrait A4
+const A4_WIDTH_PT = 595.28;
+const A4_HEIGHT_PT = 841.89;
+const PAGE_MARGIN_PT = 48;
+
+const LINE_HEIGHT = 1.2;
+const MIN_FONT_SIZE_PT = 6;
+
+const WHITE: RGBA = { r: 255, g: 255, b: 255, a: 1 };
+const NOTES_TEXT: RGBA = { r: 30, g: 41, b: 59, a: 1 };
+const FRAME_BORDER: RGBA = { r: 203, g: 213, b: 225, a: 1 };
+
+export type PdfExportOptions = Omit<ExportOptions, 'format' | 'filename'>;
+
+// Higher quality means smoother gradients and curves and no stream compression
+const QUALITY_SETTINGS: Record<ExportOptions['quality'], {
+  gradientBands: number;
+  curveSegments: number;
+  compress: boolean;
+}> = {
+  low: { gradientBands: 16, curveSegments: 24, compress: true },
+  medium: { gradientBands: 32, curveSegments: 48, compress: true },
+  high: { gradientBands: 64, curveSegments: 96, compress: false }
+};
+
+interface RenderContext {
+  doc: jsPDF;
+  images: Map<string, string | null>; // Data URLs, null when unusable
+  gradientBands: number;
+  curveSegments: number;
+  compress: boolean;
+}
+
+/**
+ * Where a slide is drawn on the page, in points
+ */
+interface Frame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ===================
+// DRAWING HELPERS
+// ===================
+
+const setFill = (doc: jsPDF, color: RGBA) => doc.setFillColor(Math.round(color.r), Math.round(color.g), Math.round(color.b));
+const setStroke = (doc: jsPDF, color: RGBA) => doc.setDrawColor(Math.round(color.r), Math.round(color.g), Math.round(color.b));
+const setText = (doc: jsPDF, color: RGBA) => doc.setTextColor(Math.round(color.r), Math.round(color.g), Math.round(color.b));
+
+const themeColor = (value: string | undefined, fallback: RGBA): RGBA => parseColor(value) ?? fallback;
+
+// jsPDF only ships the 14 standard PDF fonts, so pick the closest one to the CSS stack
+function pdfFontFamily(stack: string | undefined): 'helvetica' | 'times' | 'courier' {
+  const value = stack?.toLowerCase() ?? '';
+  if (/mono|courier|consolas|menlo|code/.test(value)) return 'courier';
+  if (/georgia|times|garamond|playfair|merriweather|(^|[\s,'"])serif/.test(value)) return 'times';
+  return 'helvetica';
+}
+
+// Fill a closed polygon given absolute points
+function fillPolygon(doc: jsPDF, points: readonly ChartPoint[]) {
+  const [start, ...rest] = points;
+  if (!start || rest.length < 2) return;
+
+  let previous = start;
+  const deltas = rest.map(point => {
+    const delta = [point[0] - previous[0], point[1] - previous[1]];
+    previous = point;
+    return delta;
+  });
+  doc.lines(deltas, start[0], start[1], [1, 1], 'F', true);
+}
+
+/**
+ * Write wrapped text into a box, shrinking the font until it fits (like PowerPoint's shrink-on-overflow)
+ */
+function drawTextBox(
+  doc: jsPDF,
+  text: string,
+  box: Frame,
+  options: {
+    fontSize: number;
+    family: 'helvetica' | 'times' | 'courier';
+    bold?: boolean;
+    italic?: boolean;
+    color: RGBA;
+    align: 'left' | 'center' | 'right' | 'justify';
+    valign: 'top' | 'middle';
+    padding: number;
+  }
+) {
+  const style = options.bold && options.italic ? 'bolditalic' : options.bold ? 'bold' : options.italic ? 'italic' : 'normal';
+  doc.setFont(options.family, style);
+  setText(doc, options.color);
+
+  const innerWidth = Math.max(1, box.width - options.padding * 2);
+  const innerHeight = Math.max(1, box.height - options.padding * 2);
+
+  let fontSize = options.fontSize;
+  let lines: string[];
+  for (;;) {
+    doc.setFontSize(fontSize);
+    lines = doc.splitTextToSize(text, innerWidth) as string[];
+    if (lines.length * fontSize * LINE_HEIGHT <= innerHeight || fontSize <= MIN_FONT_SIZE_PT) break;
+    fontSize = Math.max(MIN_FONT_SIZE_PT, fontSize * 0.9);
+  }
+
+  const blockHeight = lines.length * fontSize * LINE_HEIGHT;
+  const top = options.valign === 'middle'
+    ? box.y + (box.height - blockHeight) / 2
+    : box.y + options.padding;
+  const x = options.align === 'center'
+    ? box.x + box.width / 2
+    : options.align === 'right' ? box.x + box.width - options.padding : box.x + options.padding;
+
+  doc.text(lines, x, top, {
+    align: options.align,
+    baseline: 'top',
+    lineHeightFactor: LINE_HEIGHT,
+    ...(options.align === 'justify' && { maxWidth: innerWidth })
+  });
+}
+
+// ===================
+// SLIDE CONTENT
+// ===================
+
+// Percent of the slide to points inside the frame
+const toFrame = (content: SlideContent, frame: Frame): Frame => boxToFrame(getContentBox(content), frame);
+
+const boxToFrame = (box: ContentBox, frame: Frame): Frame => {
+  return {
+    x: frame.x + (box.x / 100) * frame.width,
+    y: frame.y + (box.y / 100) * frame.height,
+    width: (box.width / 100) * frame.width,
+    height: (box.height / 100) * frame.height
+  };
+};
+
+const fontFamilyFor = (content: SlideContent, theme: SlideTheme) => {
+  if (content.type === 'code') return 'courier';
+  if (content.type === 'title' || content.type === 'subtitle') return pdfFontFamily(theme.fonts.heading);
+  return pdfFontFamily(theme.fonts.body);
+};
+
+function drawTextContent(ctx: RenderContext, content: SlideContent, theme: SlideTheme, frame: Frame, slideBackground: RGBA) {
+  const { doc } = ctx;
+  const box = toFrame(content, frame);
+  const scale = frame.width / PDF_SLIDE_WIDTH_PT;
+
+  const background = parseColor(content.style?.backgroundColor) ??
+    (content.type === 'code' ? themeColor(theme.colors.surface, { r: 243, g: 244, b: 246, a: 1 }) : null);
+  if (background && background.a > 0) {
+    setFill(doc, composite(background, slideBackground));
+    if (content.style?.borderRadius) {
+      doc.roundedRect(box.x, box.y, box.width, box.height, 7 * scale, 7 * scale, 'F');
+    } else {
+      doc.rect(box.x, box.y, box.width, box.height, 'F');
+    }
+  }
+
+  const color = composite(themeColor(content.style?.color ?? getDefaultTextColor(content, theme), NOTES_TEXT), slideBackground);
+
+  drawTextBox(doc, content.type === 'bullet' ? `• ${content.content}` : content.content, box, {
+    fontSize: pxToPoints(getFontSizePx(content), frame.width),
+    family: fontFamilyFor(content, theme),
+    bold: isBoldWeight(content.style?.fontWeight) || content.type === 'title',
+    color,
+    align: content.style?.alignment ?? (content.type === 'title' ? 'center' : 'left'),
+    valign: content.type === 'title' || content.type === 'subtitle' ? 'middle' : 'top',
+    padding: 7 * scale
+  });
+}
+
+// Descriptions the AI suggested instead of real images become a labeled placeholder box
+function drawPlaceholder(ctx: RenderContext, content: SlideContent, theme: SlideTheme, frame: Frame, slideBackground: RGBA) {
+  const { doc } = ctx;
+  const box = toFrame(content, frame);
+  const secondary = themeColor(theme.colors.secondary, { r: 100, g: 116, b: 139, a: 1 });
+
+  setFill(doc, composite(themeColor(theme.colors.surface, { r: 243, g: 244, b: 246, a: 1 }), slideBackground));
+  setStroke(doc, secondary);
+  doc.setLineWidth(1);
+  doc.setLineDashPattern([4, 3], 0);
+  doc.rect(box.x, box.y, box.width, box.height, 'FD');
+  doc.setLineDashPattern([], 0);
+
+  drawTextBox(doc, content.content, box, {
+    fontSize: pxToPoints(getFontSizePx(content), frame.width),
+    family: pdfFontFamily(theme.fonts.body),
+    italic: true,
+    color: themeColor(theme.colors.muted, secondary),
+    align: 'center',
+    valign: 'middle',
+    padding: 7 * (frame.width / PDF_SLIDE_WIDTH_PT)
+  });
+}
+
+function drawImageContent(ctx: RenderContext, content: SlideContent, theme: SlideTheme, frame: Frame, slideBackground: RGBA) {
+  const image = ctx.images.get(content.content);
+  if (!image) {
+    drawPlaceholder(ctx, content, theme, frame, slideBackground);
+    return;
+  }
+
+  // Letterbox inside the box like object-fit: contain
+  const box = toFrame(content, frame);
+  const { width, height, fileType } = ctx.doc.getImageProperties(image);
+  const scale = Math.min(box.width / width, box.height / height);
+  const drawWidth = width * scale;
+  const drawHeight = height * scale;
+
+  ctx.doc.addImage(
+    image,
+    fileType,
+    box.x + (box.width - drawWidth) / 2,
+    box.y + (box.height - drawHeight) / 2,
+    drawWidth,
+    drawHeight,
+    undefined,
+    ctx.compress ? 'MEDIUM' : 'NONE'
+  );
+}
+
+function drawChartContent(ctx: RenderContext, content: SlideContent, theme: SlideTheme, frame: Frame, slideBackground: RGBA) {
+  const chart = parseChartData(content.content);
+  if (!chart) {
+    drawPlaceholder(ctx, content, theme, frame, slideBackground);
+    return;
+  }
+
+  const { doc } = ctx;
+  const textColor = composite(themeColor(theme.colors.text, NOTES_TEXT), slideBackground);
+  const shapes = layoutChart(chart, toFrame(content, frame), {
+    unit: frame.width / PDF_SLIDE_WIDTH_PT,
+    curveSegments: ctx.curveSegments
+  });
+
+  shapes.forEach(shape => {
+    switch (shape.kind) {
+      case 'rect':
+        setFill(doc, getSeriesColor(theme, shape.series));
+        doc.rect(shape.box.x, shape.box.y, shape.box.width, shape.box.height, 'F');
+        break;
+      case 'polygon': {
+        const color = getSeriesColor(theme, shape.series);
+        setFill(doc, shape.faded ? mixColors(color, slideBackground, 0.5) : color);
+        fillPolygon(doc, shape.points);
+        break;
+      }
+      case 'line':
+        setStroke(doc, getSeriesColor(theme, shape.series));
+        doc.setLineWidth(shape.width);
+        shape.points.slice(1).forEach(([x, y], index) => {
+          const [px, py] = shape.points[index]!;
+          doc.line(px, py, x, y);
+        });
+        break;
+      case 'axis':
+        setStroke(doc, mixColors(textColor, slideBackground, 0.6));
+        doc.setLineWidth(shape.width);
+        doc.line(shape.from[0], shape.from[1], shape.to[0], shape.to[1]);
+        break;
+      case 'hole':
+        setFill(doc, slideBackground);
+        doc.circle(shape.center[0], shape.center[1], shape.radius, 'F');
+        break;
+      case 'label':
+        drawTextBox(doc, shape.text, shape.box, {
+          fontSize: shape.fontSize,
+          family: pdfFontFamily(shape.role === 'title' ? theme.fonts.heading : theme.fonts.body),
+          bold: shape.role === 'title',
+          color: textColor,
+          align: shape.align,
+          valign: 'middle',
+          padding: 0
+        });
+        break;
+    }
+  });
+}
+
+function drawContent(ctx: RenderContext, content: SlideContent, theme: SlideTheme, frame: Frame, slideBackground: RGBA) {
+  switch (content.type) {
+    case 'image':
+      drawImageContent(ctx, content, theme, frame, slideBackground);
+      break;
+    case 'chart':
+      drawChartContent(ctx, content, theme, frame, slideBackground);
+      break;
+    default:
+      drawTextContent(ctx, content, theme, frame, slideBackground);
+  }
+}
+
+/**
+ * Paint the slide background and return the color text should be composited onto
+ */
+function drawBackground(ctx: RenderContext, slide: Slide, theme: SlideTheme, frame: Frame): RGBA {
+  const { doc } = ctx;
+  const base = themeColor(theme.colors.background, WHITE);
+  const background = slide.background;
+
+  if (background?.type === 'gradient') {
+    const gradient = parseLinearGradient(background.value);
+    if (gradient) {
+      const { horizontal, bands } = getGradientBands(gradient, base, ctx.gradientBands);
+      bands.forEach(band => {
+        setFill(doc, band.color);
+        // Overlap bands slightly so no hairline gaps show between them
+        if (horizontal) {
+          doc.rect(frame.x + band.offset * frame.width, frame.y, band.size * frame.width + 0.5, frame.height, 'F');
+        } else {
+          doc.rect(frame.x, frame.y + band.offset * frame.height, frame.width, band.size * frame.height + 0.5, 'F');
+        }
+      });
+      // Text sits on the middle of the gradient on average
+      return bands[Math.floor(bands.length / 2)]?.color ?? base;
+    }
+  }
+
+  const color = background?.type === 'color' ? composite(themeColor(background.value, base), base) : base;
+  setFill(doc, color);
+  doc.rect(frame.x, frame.y, frame.width, frame.height, 'F');
+
+  const image = background?.type === 'image' ? ctx.images.get(background.value) : null;
+  if (image) {
+    // Cover the frame like background-size: cover, clipped to the slide
+    const { width, height, fileType } = doc.getImageProperties(image);
+    const scale = Math.max(frame.width / width, frame.height / height);
+    doc.saveGraphicsState();
+    doc.rect(frame.x, frame.y, frame.width, frame.height, null);
+    doc.clip();
+    doc.discardPath();
+    doc.addImage(
+      image,
+      fileType,
+      frame.x + (frame.width - width * scale) / 2,
+      frame.y + (frame.height - height * scale) / 2,
+      width * scale,
+      height * scale,
+      undefined,
+      ctx.compress ? 'MEDIUM' : 'NONE'
+    );
+    doc.restoreGraphicsState();
+  }
+
+  return color;
+}
+
+// The brand kit logo, in the same corner box the editor uses
+function drawLogo(ctx: RenderContext, theme: SlideTheme, frame: Frame) {
+  const image = theme.logo && ctx.images.get(theme.logo.src);
+  if (!theme.logo || !image) return;
+
+  const box = boxToFrame(getLogoBox(theme.logo), frame);
+  const { fileType } = ctx.doc.getImageProperties(image);
+  ctx.doc.addImage(image, fileType, box.x, box.y, box.width, box.height, undefined, ctx.compress ? 'MEDIUM' : 'NONE');
+}
+
+function drawSlide(ctx: RenderContext, slide: Slide, theme: SlideTheme, frame: Frame) {
+  const slideBackground = drawBackground(ctx, slide, theme, frame);
+
+  // Draw in the order the editor stacks them
+  const contents = [...slide.contents].sort(
+    (a, b) => (a.metadata?.order ?? 0) - (b.metadata?.order ?? 0)
+  );
+  contents.forEach(content => drawContent(ctx, content, theme, frame, slideBackground));
+  drawLogo(ctx, theme, frame);
+}
+
+// ===================
+// PAGE LAYOUTS
+// ===================
+
+function drawFrameBorder(doc: jsPDF, frame: Frame) {
+  setStroke(doc, FRAME_BORDER);
+  doc.setLineWidth(0.75);
+  doc.rect(frame.x, frame.y, frame.width, frame.height, 'S');
+}
+
+// One slide per page with its speaker notes underneath, continuing onto extra pages if needed
+function drawNotesPage(ctx: RenderContext, slide: Slide, theme: SlideTheme, isFirstPage: boolean) {
+  const { doc } = ctx;
+  if (!isFirstPage) doc.addPage('a4', 'portrait');
+
+  const width = A4_WIDTH_PT - PAGE_MARGIN_PT * 2;
+  const frame: Frame = {
+    x: PAGE_MARGIN_PT,
+    y: PAGE_MARGIN_PT,
+    width,
+    height: (width * REFERENCE_SLIDE_HEIGHT_PX) / REFERENCE_SLIDE_WIDTH_PX
+  };
+  drawSlide(ctx, slide, theme, frame);
+  drawFrameBorder(doc, frame);
+
+  const notes = getNotesText(slide);
+  if (!notes) return;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  setText(doc, NOTES_TEXT);
+
+  const lineHeight = 12 * LINE_HEIGHT;
+  const lines = doc.splitTextToSize(notes, width) as string[];
+  let y = frame.y + frame.height + 32;
+
+  lines.forEach(line => {
+    if (y + lineHeight > A4_HEIGHT_PT - PAGE_MARGIN_PT) {
+      doc.addPage('a4', 'portrait');
+      y = PAGE_MARGIN_PT;
+    }
+    doc.text(line, PAGE_MARGIN_PT, y, { baseline: 'top' });
+    y += lineHeight;
+  });
+}
+
+const HANDOUT_SLIDES_PER_PAGE = 3;
+
+// Three slides per page with their notes alongside - or ruled lines to write on
+function drawHandoutPage(ctx: RenderContext, slides: readonly { slide: Slide; theme: SlideTheme }[], isFirstPage: boolean) {
+  const { doc } = ctx;
+  if (!isFirstPage) doc.addPage('a4', 'portrait');
+
+  const gutter = 24;
+  const rowHeight = (A4_HEIGHT_PT - PAGE_MARGIN_PT * 2) / HANDOUT_SLIDES_PER_PAGE;
+  const slideWidth = (A4_WIDTH_PT - PAGE_MARGIN_PT * 2 - gutter) * 0.55;
+  const slideHeight = (slideWidth * REFERENCE_SLIDE_HEIGHT_PX) / REFERENCE_SLIDE_WIDTH_PX;
+  const notesX = PAGE_MARGIN_PT + slideWidth + gutter;
+  const notesWidth = A4_WIDTH_PT - PAGE_MARGIN_PT - notesX;
+
+  slides.forEach(({ slide, theme }, index) => {
+    const frame: Frame = {
+      x: PAGE_MARGIN_PT,
+      y: PAGE_MARGIN_PT + index * rowHeight + (rowHeight - slideHeight) / 2,
+      width: slideWidth,
+      height: slideHeight
+    };
+    drawSlide(ctx, slide, theme, frame);
+    drawFrameBorder(doc, frame);
+
+    const notes = getNotesText(slide);
+    if (notes) {
+      drawTextBox(doc, notes, { x: notesX, y: frame.y, width: notesWidth, height: frame.height }, {
+        fontSize: 10,
+        family: 'helvetica',
+        color: NOTES_TEXT,
+        align: 'left',
+        valign: 'top',
+        padding: 0
+      });
+      return;
+    }
+
+    setStroke(doc, FRAME_BORDER);
+    doc.setLineWidth(0.5);
+    for (let y = frame.y + 18; y <= frame.y + frame.height; y += 18) {
+      doc.line(notesX, y, notesX + notesWidth, y);
+    }
+  });
+}
+
+// Reject anything jsPDF can't decode now, rather than failing halfway through a page
+function validateImages(doc: jsPDF, images: Map<string, string | null>) {
+  images.forEach((image, source) => {
+    if (!image) return;
+    try {
+      doc.getImageProperties(image);
+    } catch {
+      images.set(source, null);
+    }
+  });
+}
+
+/**
+ * Export a presentation to a PDF file
+ */
+export async function exportPresentationToPdf(
+  presentation: SlidePresentation,
+  options: PdfExportOptions = { quality: 'medium' }
+): Promise<Buffer> {
+  const quality = QUALITY_SETTINGS[options.quality];
+  const compress = options.compression ?? quality.compress;
+  const layout = options.includeNotes ? options.notesLayout ?? 'notes' : 'slides';
+
+  const doc = new jsPDF({
+    unit: 'pt',
+    compress,
+    putOnlyUsedFonts: true,
+    ...(layout === 'slides'
+      ? { orientation: 'landscape', format: [PDF_SLIDE_WIDTH_PT, PDF_SLIDE_HEIGHT_PT] }
+      : { orientation: 'portrait', format: 'a4' })
+  });
+
+  doc.setProperties({
+    title: presentation.title || 'AI Generated Presentation',
+    subject: presentation.metadata.description ?? 'Generated from image analysis',
+    author: presentation.metadata.author ?? 'Snap2Slides',
+    creator: 'Snap2Slides AI'
+  });
+
+  const images = await loadSlideImages(presentation.slides);
+  validateImages(doc, images);
+
+  const ctx: RenderContext = {
+    doc,
+    images,
+    gradientBands: quality.gradientBands,
+    curveSegments: quality.curveSegments,
+    compress
+  };
+
+  const slides = presentation.slides.map(slide => ({
+    slide,
+    theme: options.customTheme ?? slide.theme ?? presentation.theme
+  }));
+
+  if (layout === 'handout') {
+    for (let start = 0; start < slides.length; start += HANDOUT_SLIDES_PER_PAGE) {
+      drawHandoutPage(ctx, slides.slice(start, start + HANDOUT_SLIDES_PER_PAGE), start === 0);
+    }
+  } else {
+    slides.forEach(({ slide, theme }, index) => {
+      if (layout === 'notes') {
+        drawNotesPage(ctx, slide, theme, index === 0);
+        return;
+      }
+      if (index > 0) doc.addPage([PDF_SLIDE_WIDTH_PT, PDF_SLIDE_HEIGHT_PT], 'landscape');
+      drawSlide(ctx, slide, theme, { x: 0, y: 0, width: PDF_SLIDE_WIDTH_PT, height: PDF_SLIDE_HEIGHT_PT });
+    });
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
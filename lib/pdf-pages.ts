@@ -0,0 +1,112 @@
+// PDF input - split uploaded documents into single-page PDFs so each page goes
+// through the vision pipeline on its own, just like one photographed page would
+
+import { PDFDocument } from 'pdf-lib';
+import { ValidationError } from '@/lib/errors';
+import { MAX_PDF_PAGES } from '@/utils/validation-schemas';
+
+export interface PdfPage {
+  page: number; // 1-based page number in the original document
+  data: Buffer; // Single-page PDF
+}
+
+/**
+ * Turn a page range like "1-3, 5, 8-" into sorted page numbers.
+ * An open end ("8-") runs to the last page; no range means every page.
+ */
+export function parsePageRange(range: string | undefined, pageCount: number): number[] {
+  if (!range?.trim()) {
+    return Array.from({ length: pageCount }, (_, index) => index + 1);
+  }
+
+  const pages = new Set<number>();
+  for (const part of range.split(',')) {
+    const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d*))?$/);
+    if (!match) {
+      throw new ValidationError(`Invalid page range "${part.trim()}". Use something like "1-3,5".`, 'pages');
+    }
+
+    const start = Number(match[1]);
+    const end = match[2] === undefined ? start : match[2] === '' ? pageCount : Number(match[2]);
+    if (start < 1 || end < start || end > pageCount) {
+      throw new ValidationError(`Page range "${part.trim()}" is outside the document (1-${pageCount}).`, 'pages');
+    }
+    for (let page = start; page <= end; page++) pages.add(page);
+  }
+
+  return [...pages].sort((a, b) => a - b);
+}
+
+/**
+ * Split a PDF into single-page documents for the selected pages.
+ * The cap is enforced here, on the server, whatever the client sends.
+ */
+export async function splitPdfPages(
+  pdf: Buffer | Uint8Array,
+  options: { range?: string; maxPages?: number } = {}
+): Promise<PdfPage[]> {
+  const { range, maxPages = MAX_PDF_PAGES } = options;
+
+  let source: PDFDocument;
+  try {
+    source = await PDFDocument.load(pdf, { ignoreEncryption: true });
+  } catch {
+    throw new ValidationError('Could not read the PDF. Make sure the file is not damaged.', 'images');
+  }
+
+  const pageNumbers = parsePageRange(range, source.getPageCount());
+  if (pageNumbers.length > maxPages) {
+    throw new ValidationError(
+      `That selects ${pageNumbers.length} pages - choose at most ${maxPages} with the page range option.`,
+      'pages'
+    );
+  }
+
+  return Promise.all(pageNumbers.map(async (page) => {
+    const single = await PDFDocument.create();
+    const [copied] = await single.copyPages(source, [page - 1]);
+    single.addPage(copied!);
+    return { page, data: Buffer.from(await single.save()) };
+  }));
+}
+
+export interface UploadPage {
+  data: Buffer;
+  mimeType: string;
+  image: number; // Position of the uploaded file, starting at 1
+  name: string;
+  page?: number; // Set for pages split out of a PDF
+}
+
+/**
+ * Expand an ordered upload list into the pages to analyze: images pass through,
+ * PDFs become one entry per selected page. The page cap covers all PDFs together.
+ */
+export async function getUploadPages(
+  files: File[],
+  options: { range?: string; maxPages?: number } = {}
+): Promise<UploadPage[]> {
+  const { range, maxPages = MAX_PDF_PAGES } = options;
+  const pages: UploadPage[] = [];
+  let pdfPageCount = 0;
+
+  for (const [index, file] of files.entries()) {
+    const data = Buffer.from(await file.arrayBuffer());
+    if (file.type !== 'application/pdf') {
+      pages.push({ data, mimeType: file.type, image: index + 1, name: file.name });
+      continue;
+    }
+
+    const split = await splitPdfPages(data, { ...(range && { range }), maxPages: maxPages - pdfPageCount });
+    pdfPageCount += split.length;
+    pages.push(...split.map(({ page, data }) => ({
+      data,
+      mimeType: 'application/pdf',
+      image: index + 1,
+      name: file.name,
+      page
+    })));
+  }
+
+  return pages;
+}
@@ -0,0 +1,390 @@
+// PowerPoint exporter - turns a SlidePresentation into a .pptx that matches the editor
+// Every element keeps its position, size, fonts, colors and alignment, and slide
+// backgrounds, speaker notes and transitions come along too
+
+import PptxGenJS from 'pptxgenjs';
+import JSZip from 'jszip';
+import type { Slide, SlideAnimation, SlideContent, SlidePresentation, SlideTheme } from '@/types/slides';
+import {
+  type ContentBox,
+  getContentBox,
+  getDefaultTextColor,
+  getFontSizePx,
+  getLogoBox,
+  isBoldWeight,
+  primaryFontFamily,
+  pxToPoints
+} from '@/lib/slide-geometry';
+import { getGradientBands, parseColor, parseLinearGradient, toHex, toHexColor } from '@/lib/colors';
+import { parseChartData } from '@/lib/chart-data';
+import { LAYOUT_NAMES, getLayoutRegions, isMediaContent, type LayoutRegions } from '@/lib/slide-layouts';
+import { getNotesText } from '@/lib/speaker-notes';
+import { isDataImageUrl } from '@/lib/image-source';
+import { loadSlideImages } from '@/lib/image-loader';
+
+// 16:9 widescreen - PptxGenJS' default LAYOUT_16x9
+export const PPTX_SLIDE_WIDTH_IN = 10;
+export const PPTX_SLIDE_HEIGHT_IN = 5.625;
+
+// Gradients aren't supported as PowerPoint backgrounds, so we paint them as thin bands
+const GRADIENT_BANDS = 32;
+
+const WHITE = { r: 255, g: 255, b: 255, a: 1 };
+
+type PptxSlide = ReturnType<PptxGenJS['addSlide']>;
+
+// Percent of the slide to inches
+const boxToInches = (box: ContentBox) => ({
+  x: (box.x / 100) * PPTX_SLIDE_WIDTH_IN,
+  y: (box.y / 100) * PPTX_SLIDE_HEIGHT_IN,
+  w: (box.width / 100) * PPTX_SLIDE_WIDTH_IN,
+  h: (box.height / 100) * PPTX_SLIDE_HEIGHT_IN
+});
+
+const toInches = (content: SlideContent) => boxToInches(getContentBox(content));
+
+const toPoints = (content: SlideContent) => pxToPoints(getFontSizePx(content), PPTX_SLIDE_WIDTH_IN * 72);
+
+const fontFaceFor = (content: SlideContent, theme: SlideTheme): string => {
+  if (content.type === 'code') return primaryFontFamily(theme.fonts.code, 'Courier New');
+  if (content.type === 'title' || content.type === 'subtitle') return primaryFontFamily(theme.fonts.heading);
+  return primaryFontFamily(theme.fonts.body);
+};
+
+// Preloaded images, keyed by the source string on the slide - see loadSlideImages
+type SlideImages = ReadonlyMap<string, string | null>;
+
+// PptxGenJS wants 'image/png;base64,...'. Links are never handed to it as a path, since it
+// would fetch them itself with no size or time limit - they are preloaded through
+// lib/image-loader instead, and anything that didn't load becomes a placeholder
+const imageSource = (source: string, images: SlideImages): { data: string } | null => {
+  const dataUrl = images.get(source) ?? (isDataImageUrl(source) ? source : null);
+  return dataUrl ? { data: dataUrl.replace(/^data:/i, '') } : null;
+};
+
+function addTextContent(pptxSlide: PptxSlide, content: SlideContent, theme: SlideTheme, placeholder?: string) {
+  const background = parseColor(content.style?.backgroundColor);
+  const isCode = content.type === 'code';
+
+  pptxSlide.addText(content.content, {
+    ...toInches(content),
+    ...(placeholder && { placeholder }),
+    fontSize: toPoints(content),
+    fontFace: fontFaceFor(content, theme),
+    color: toHexColor(content.style?.color, getDefaultTextColor(content, theme)),
+    bold: isBoldWeight(content.style?.fontWeight) || content.type === 'title',
+    align: content.style?.alignment ?? (content.type === 'title' ? 'center' : 'left'),
+    valign: content.type === 'title' || content.type === 'subtitle' ? 'middle' : 'top',
+    ...(content.type === 'bullet' && { bullet: true }),
+    ...(background && { fill: { color: toHex(background), transparency: Math.round((1 - background.a) * 100) } }),
+    ...(isCode && !background && { fill: { color: toHexColor(theme.colors.surface, 'F3F4F6') } }),
+    ...(content.style?.borderRadius && { rectRadius: 0.1 }),
+    fit: 'shrink'
+  });
+}
+
+// Descriptions the AI suggested instead of real images become a labeled placeholder box
+function addPlaceholder(pptxSlide: PptxSlide, content: SlideContent, theme: SlideTheme, label: string) {
+  pptxSlide.addText(label, {
+    ...toInches(content),
+    fontSize: toPoints(content),
+    fontFace: primaryFontFamily(theme.fonts.body),
+    color: toHexColor(theme.colors.muted, toHexColor(theme.colors.secondary, '64748B')),
+    italic: true,
+    align: 'center',
+    valign: 'middle',
+    fill: { color: toHexColor(theme.colors.surface, 'F3F4F6') },
+    line: { color: toHexColor(theme.colors.secondary, '64748B'), width: 1, dashType: 'dash' },
+    fit: 'shrink'
+  });
+}
+
+function addImageContent(pptxSlide: PptxSlide, content: SlideContent, theme: SlideTheme, images: SlideImages) {
+  const source = imageSource(content.content, images);
+  if (!source) {
+    addPlaceholder(pptxSlide, content, theme, content.content);
+    return;
+  }
+  pptxSlide.addImage({ ...toInches(content), ...source, altText: content.content.slice(0, 200) });
+}
+
+function addChartContent(pptxSlide: PptxSlide, content: SlideContent, theme: SlideTheme) {
+  const chart = parseChartData(content.content);
+  if (!chart) {
+    addPlaceholder(pptxSlide, content, theme, content.content);
+    return;
+  }
+
+  const data = chart.series.map(series => ({
+    name: series.name,
+    labels: [...chart.labels],
+    values: [...series.values]
+  }));
+
+  pptxSlide.addChart(chart.type, data, {
+    ...toInches(content),
+    chartColors: [theme.colors.primary, theme.colors.accent, theme.colors.secondary].map(color => toHexColor(color, '2563EB')),
+    showLegend: chart.series.length > 1 || chart.type === 'pie' || chart.type === 'doughnut',
+    legendFontFace: primaryFontFamily(theme.fonts.body),
+    ...(chart.title && {
+      showTitle: true,
+      title: chart.title,
+      titleFontFace: primaryFontFamily(theme.fonts.heading),
+      titleColor: toHexColor(theme.colors.text, '1E293B')
+    })
+  });
+}
+
+function addContent(pptxSlide: PptxSlide, content: SlideContent, theme: SlideTheme, images: SlideImages, placeholder?: string) {
+  switch (content.type) {
+    case 'image':
+      addImageContent(pptxSlide, content, theme, images);
+      break;
+    case 'chart':
+      addChartContent(pptxSlide, content, theme);
+      break;
+    default:
+      addTextContent(pptxSlide, content, theme, placeholder);
+  }
+}
+
+// Paint a CSS linear-gradient as bands of solid color along its main axis
+function paintGradient(pptx: PptxGenJS, pptxSlide: PptxSlide, css: string, theme: SlideTheme): boolean {
+  const gradient = parseLinearGradient(css);
+  if (!gradient) return false;
+
+  const base = parseColor(theme.colors.background) ?? WHITE;
+  const { horizontal, bands } = getGradientBands(gradient, base, GRADIENT_BANDS);
+
+  pptxSlide.background = { color: toHex(bands[0]?.color ?? base) };
+
+  bands.forEach(band => {
+    // Overlap bands slightly so no hairline gaps show between them
+    const position = horizontal
+      ? { x: band.offset * PPTX_SLIDE_WIDTH_IN, y: 0, w: band.size * PPTX_SLIDE_WIDTH_IN + 0.01, h: PPTX_SLIDE_HEIGHT_IN }
+      : { x: 0, y: band.offset * PPTX_SLIDE_HEIGHT_IN, w: PPTX_SLIDE_WIDTH_IN, h: band.size * PPTX_SLIDE_HEIGHT_IN + 0.01 };
+
+    pptxSlide.addShape(pptx.ShapeType.rect, {
+      ...position,
+      fill: { color: toHex(band.color) },
+      line: { type: 'none' }
+    });
+  });
+  return true;
+}
+
+function applyBackground(pptx: PptxGenJS, pptxSlide: PptxSlide, slide: Slide, theme: SlideTheme, images: SlideImages) {
+  const fallback = toHexColor(theme.colors.background, 'FFFFFF');
+  const background = slide.background;
+
+  if (background?.type === 'gradient' && paintGradient(pptx, pptxSlide, background.value, theme)) return;
+
+  if (background?.type === 'image') {
+    const source = imageSource(background.value, images);
+    if (source) {
+      pptxSlide.background = source;
+      return;
+    }
+  }
+
+  pptxSlide.background = {
+    color: background?.type === 'color' ? toHexColor(background.value, fallback) : fallback
+  };
+}
+
+// ===================
+// SLIDE MASTERS
+// ===================
+// Each layout becomes a slide master with a placeholder per region, so PowerPoint knows
+// the slide titles and "New Slide" offers the same layouts. Brand logos go on the master
+// too, so they sit behind the content and slides added later in PowerPoint get them.
+
+export const BRAND_MASTER_PREFIX = 'Brand';
+
+// Placeholder names - titles and subtitles on our slides fill the matching one
+const TITLE_PLACEHOLDER = 'title';
+const SUBTITLE_PLACEHOLDER = 'subtitle';
+
+type MasterObject = NonNullable<Parameters<PptxGenJS['defineSlideMaster']>[0]['objects']>[number];
+
+function layoutPlaceholders(regions: LayoutRegions): MasterObject[] {
+  return [
+    { placeholder: { options: { name: TITLE_PLACEHOLDER, type: 'title', ...boxToInches(regions.title) } } },
+    { placeholder: { options: { name: SUBTITLE_PLACEHOLDER, type: 'body', ...boxToInches(regions.subtitle) } } },
+    ...regions.body.map((box, index): MasterObject => (
+      { placeholder: { options: { name: `body-${index + 1}`, type: 'body', ...boxToInches(box) } } }
+    )),
+    // PptxGenJS writes 'pic' as a generic content placeholder, which takes pictures, charts and tables
+    ...(regions.media ? [{ placeholder: { options: { name: 'media', type: 'pic' as const, ...boxToInches(regions.media) } } }] : [])
+  ];
+}
+
+/**
+ * The master a slide goes on - one per layout and brand logo, shared by every slide using them
+ */
+function getSlideMaster(
+  pptx: PptxGenJS,
+  masters: Map<string, string>,
+  slide: Slide,
+  theme: SlideTheme,
+  images: SlideImages
+): string | undefined {
+  const logoSource = theme.logo && imageSource(theme.logo.src, images);
+  const logo = logoSource && theme.logo;
+  if (!slide.layout && !logo) return undefined;
+
+  const regions = slide.layout && getLayoutRegions(slide.layout, slide.contents.some(isMediaContent));
+  const key = JSON.stringify([slide.layout, regions, logo && [logo.placement, logo.aspectRatio, logo.src]]);
+  const existing = masters.get(key);
+  if (existing) return existing;
+
+  // Master names must be unique, and a deck can mix logos or media variants of a layout
+  const baseName = [logo && BRAND_MASTER_PREFIX, slide.layout ? LAYOUT_NAMES[slide.layout] : 'Blank'].filter(Boolean).join(' ');
+  const taken = new Set(masters.values());
+  let title = baseName;
+  for (let suffix = 2; taken.has(title); suffix++) title = `${baseName} ${suffix}`;
+
+  pptx.defineSlideMaster({
+    title,
+    background: { color: toHexColor(theme.colors.background, 'FFFFFF') },
+    objects: [
+      ...(logo && logoSource ? [{ image: { ...logoSource, ...boxToInches(getLogoBox(logo)), altText: `${theme.name} logo` } }] : []),
+      ...(regions ? layoutPlaceholders(regions) : [])
+    ]
+  });
+  masters.set(key, title);
+  return title;
+}
+
+// Titles fill their master's placeholder when they sit exactly in its region
+const samePlace = (a: ContentBox, b: ContentBox) =>
+  Math.abs(a.x - b.x) < 0.01 && Math.abs(a.y - b.y) < 0.01 &&
+  Math.abs(a.width - b.width) < 0.01 && Math.abs(a.height - b.height) < 0.01;
+
+function placeholderFor(content: SlideContent, regions: LayoutRegions | undefined): string | undefined {
+  if (!regions) return undefined;
+  if (content.type === 'title' && samePlace(getContentBox(content), regions.title)) return TITLE_PLACEHOLDER;
+  if (content.type === 'subtitle' && samePlace(getContentBox(content), regions.subtitle)) return SUBTITLE_PLACEHOLDER;
+  return undefined;
+}
+
+/**
+ * Build the PptxGenJS document - exposed separately so callers can add to it before writing
+ * Only inline images and the preloaded `images` are embedded
+ */
+export function buildPptx(presentation: SlidePresentation, images: SlideImages = new Map()): PptxGenJS {
+  const pptx = new PptxGenJS();
+
+  pptx.layout = 'LAYOUT_16x9';
+  pptx.author = presentation.metadata.author ?? 'Snap2Slides';
+  pptx.company = 'Snap2Slides AI';
+  pptx.title = presentation.title || 'AI Generated Presentation';
+  pptx.subject = presentation.metadata.description ?? 'Generated from image analysis';
+  pptx.theme = {
+    headFontFace: primaryFontFamily(presentation.theme.fonts.heading),
+    bodyFontFace: primaryFontFamily(presentation.theme.fonts.body)
+  };
+
+  const masters = new Map<string, string>();
+
+  presentation.slides.forEach(slide => {
+    const theme = slide.theme ?? presentation.theme;
+    const masterName = getSlideMaster(pptx, masters, slide, theme, images);
+    const pptxSlide = pptx.addSlide(masterName ? { masterName } : undefined);
+    const regions = slide.layout && getLayoutRegions(slide.layout, slide.contents.some(isMediaContent));
+
+    applyBackground(pptx, pptxSlide, slide, theme, images);
+
+    // Draw in the order the editor stacks them
+    const contents = [...slide.contents].sort(
+      (a, b) => (a.metadata?.order ?? 0) - (b.metadata?.order ?? 0)
+    );
+    contents.forEach(content => addContent(pptxSlide, content, theme, images, placeholderFor(content, regions)));
+
+    const notes = getNotesText(slide);
+    if (notes) {
+      pptxSlide.addNotes(notes);
+    }
+  });
+
+  return pptx;
+}
+
+// ===================
+// SLIDE TRANSITIONS
+// ===================
+// PptxGenJS has no transition API, so we write <p:transition> into each slide's XML ourselves
+
+const SPEEDS = (duration: number | undefined): 'fast' | 'med' | 'slow' => {
+  if (duration === undefined) return 'med';
+  if (duration <= 0.5) return 'fast';
+  if (duration <= 1) return 'med';
+  return 'slow';
+};
+
+const DIRECTIONS: Record<NonNullable<SlideAnimation['direction']>, string> = {
+  up: 'u',
+  down: 'd',
+  left: 'l',
+  right: 'r'
+};
+
+/**
+ * The PresentationML transition for a slide, or null when it shouldn't animate
+ */
+export function getTransitionXml(slide: Slide): string | null {
+  const enter: SlideAnimation | undefined = slide.transitions?.enter ??
+    (slide.transition ? { type: slide.transition } : undefined);
+
+  if (!enter || enter.type === 'none') return null;
+
+  const speed = SPEEDS(enter.duration);
+  switch (enter.type) {
+    case 'fade':
+      return `<p:transition spd="${speed}"><p:fade/></p:transition>`;
+    case 'slide':
+      return `<p:transition spd="${speed}"><p:push dir="${DIRECTIONS[enter.direction ?? 'left']}"/></p:transition>`;
+    case 'zoom':
+    case 'bounce': // PowerPoint has no bounce - zoom is the closest match
+      return `<p:transition spd="${speed}"><p:zoom/></p:transition>`;
+  }
+}
+
+// PptxGenJS copies every master placeholder onto the slide, even ones we put nothing in.
+// Left in, PowerPoint shows "Click to add text" prompts over our own text boxes.
+const removeEmptyPlaceholders = (xml: string) =>
+  xml.replace(/<p:sp>[\s\S]*?<\/p:sp>/g, shape => shape.includes('<p:ph') && !shape.includes('<a:t>') ? '' : shape);
+
+async function finishSlides(file: Buffer, slides: readonly Slide[]): Promise<Buffer> {
+  const transitions = slides.map(getTransitionXml);
+  const usesLayouts = slides.some(slide => slide.layout);
+  if (!usesLayouts && transitions.every(transition => transition === null)) return file;
+
+  const zip = await JSZip.loadAsync(file);
+
+  await Promise.all(transitions.map(async (transition, index) => {
+    const path = `ppt/slides/slide${index + 1}.xml`;
+    const xml = await zip.file(path)?.async('string');
+    if (!xml) return;
+
+    let updated = usesLayouts ? removeEmptyPlaceholders(xml) : xml;
+    if (transition) {
+      // Transitions must come right after the color map override (or close the slide)
+      updated = updated.includes('</p:clrMapOvr>')
+        ? updated.replace('</p:clrMapOvr>', `</p:clrMapOvr>${transition}`)
+        : updated.replace('</p:sld>', `${transition}</p:sld>`);
+    }
+    zip.file(path, updated);
+  }));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * Export a presentation to a .pptx file
+ */
+export async function exportPresentationToPptx(presentation: SlidePresentation): Promise<Buffer> {
+  const pptx = buildPptx(presentation, await loadSlideImages(presentation.slides));
+  const file = await pptx.write({ outputType: 'nodebuffer' }) as Buffer;
+  return finishSlides(file, presentation.slides);
+}
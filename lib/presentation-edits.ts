@@ -0,0 +1,263 @@
+// Presentation edits - every change the editor can make, as plain data
+// applyEdit never mutates: it returns a new SlidePresentation that shares untouched
+// slides with the old one, so the readonly types hold and React sees what changed
+
+import { nanoid } from 'nanoid';
+import { arrangeSlide, chooseLayout, type SlideLayout } from '@/lib/slide-layouts';
+import type { RewrittenContent } from '@/lib/rewrite';
+import type { Slide, SlideContent, SlidePresentation, SpeakerNotes } from '@/types/slides';
+
+export type { SlideLayout };
+
+export type PresentationEdit =
+  | { type: 'updateContent'; slideId: string; contentId: string; content: string }
+  | { type: 'addBullet'; slideId: string; afterContentId?: string; content?: string }
+  | { type: 'removeContent'; slideId: string; contentId: string }
+  | { type: 'moveContent'; slideId: string; contentId: string; offset: -1 | 1 }
+  | { type: 'addSlide'; afterSlideId?: string; layout?: SlideLayout }
+  | { type: 'removeSlide'; slideId: string }
+  | { type: 'moveSlide'; slideId: string; toIndex: number }
+  | { type: 'duplicateSlide'; slideId: string }
+  | { type: 'setLayout'; slideId: string; layout: SlideLayout }
+  | { type: 'setNotes'; slideId: string; notes: string | SpeakerNotes }
+  | { type: 'reorderSlides'; slideIds: string[] }
+  | { type: 'rewriteContent'; slideId: string; contentIds: string[]; contents: RewrittenContent[] };
+
+// Vertical gap between stacked bullets, in percent of slide height
+const BULLET_SPACING = 12;
+
+// Text elements that can be edited inline
+export const EDITABLE_CONTENT_TYPES: ReadonlySet<SlideContent['type']> = new Set(['title', 'subtitle', 'text', 'bullet', 'code']);
+
+const moveItem = <T>(items: readonly T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  if (item !== undefined) next.splice(to, 0, item);
+  return next;
+};
+
+/**
+ * Re-stack bullets in array order, starting at the row the slide's bullets started at
+ * before the edit (`previous`), so removing the top bullet doesn't shift the list down
+ */
+function restackBullets(
+  contents: readonly SlideContent[],
+  previous: readonly SlideContent[] = contents,
+  fallbackTop = 40
+): SlideContent[] {
+  const bullets = previous.filter(content => content.type === 'bullet');
+  const first = bullets[0];
+  const top = first ? Math.min(...bullets.map(bullet => bullet.position.y)) : fallbackTop;
+  const spacing = bullets.length > 1
+    ? Math.abs(bullets[1]!.position.y - first!.position.y) || BULLET_SPACING
+    : BULLET_SPACING;
+
+  let row = 0;
+  return contents.map(content => {
+    if (content.type !== 'bullet') return content;
+    const y = top + spacing * row++;
+    return content.position.y === y ? content : { ...content, position: { ...content.position, y } };
+  });
+}
+
+// New bullets and paragraphs look like the slide's existing ones
+function createBodyContent(slide: Slide, type: 'bullet' | 'text', text: string): SlideContent {
+  const template = slide.contents.find(content => content.type === type);
+  return {
+    id: nanoid(),
+    type,
+    content: text,
+    position: template ? { ...template.position } : { x: 20, y: 40 },
+    style: template?.style ?? {
+      fontSize: type === 'bullet' ? '1.25rem' : '1.125rem',
+      color: slide.theme.colors.text,
+      alignment: 'left'
+    }
+  };
+}
+
+/**
+ * Swap elements for rewritten ones. When the shape is unchanged (same count and types)
+ * each element keeps its id, place and style; otherwise the new elements go where the
+ * first old one was and the slide is laid out again.
+ */
+function rewriteContents(slide: Slide, contentIds: readonly string[], rewritten: readonly RewrittenContent[]): Slide {
+  const targets = slide.contents.filter(content => contentIds.includes(content.id));
+  if (targets.length === 0 || rewritten.length === 0) return slide;
+
+  if (targets.length === rewritten.length && targets.every((target, index) => target.type === rewritten[index]!.type)) {
+    const texts = new Map(targets.map((target, index) => [target.id, rewritten[index]!.content]));
+    const title = targets.find(target => target.type === 'title');
+    return {
+      ...slide,
+      ...(title && { title: texts.get(title.id)! }),
+      contents: slide.contents.map(content => texts.has(content.id) ? { ...content, content: texts.get(content.id)! } : content)
+    };
+  }
+
+  // Headings are always rewritten one for one, so only body elements get here
+  const created = rewritten.map(item => createBodyContent(slide, item.type === 'bullet' ? 'bullet' : 'text', item.content));
+  // Everything before the first target is kept, so it's also the insertion point
+  const at = slide.contents.findIndex(content => content.id === targets[0]!.id);
+  const kept = slide.contents.filter(content => !contentIds.includes(content.id));
+  const contents = [...kept.slice(0, at), ...created, ...kept.slice(at)];
+  return arrangeSlide({ ...slide, contents }, slide.layout ?? chooseLayout(contents));
+}
+
+function createBlankSlide(presentation: SlidePresentation, layout: SlideLayout): Slide {
+  const theme = presentation.theme;
+  return arrangeSlide({
+    id: nanoid(),
+    title: 'New Slide',
+    theme,
+    layout,
+    transition: 'fade',
+    background: { type: 'color', value: theme.colors.background },
+    contents: [
+      {
+        id: nanoid(),
+        type: 'title',
+        content: 'New Slide',
+        position: { x: 50, y: 20 },
+        style: { fontSize: '2.5rem', fontWeight: 'bold', color: theme.colors.primary, alignment: 'center' }
+      },
+      ...(layout === 'title' ? [] : [{
+        id: nanoid(),
+        type: 'bullet' as const,
+        content: 'New point',
+        position: { x: 20, y: 40 },
+        style: { fontSize: '1.25rem', color: theme.colors.text, alignment: 'left' as const }
+      }])
+    ]
+  }, layout);
+}
+
+function updateSlide(
+  presentation: SlidePresentation,
+  slideId: string,
+  update: (slide: Slide) => Slide
+): readonly Slide[] {
+  let changed = false;
+  const slides = presentation.slides.map(slide => {
+    if (slide.id !== slideId) return slide;
+    const updated = update(slide);
+    changed ||= updated !== slide;
+    return updated;
+  });
+  return changed ? slides : presentation.slides;
+}
+
+function editSlides(presentation: SlidePresentation, edit: PresentationEdit): readonly Slide[] {
+  switch (edit.type) {
+    case 'updateContent':
+      return updateSlide(presentation, edit.slideId, slide => {
+        const target = slide.contents.find(content => content.id === edit.contentId);
+        if (!target || target.content === edit.content) return slide;
+        return {
+          ...slide,
+          // The slide title follows its title element, so thumbnails and exports agree
+          ...(target.type === 'title' && { title: edit.content }),
+          contents: slide.contents.map(content => content === target ? { ...content, content: edit.content } : content)
+        };
+      });
+
+    case 'addBullet':
+      return updateSlide(presentation, edit.slideId, slide => {
+        const bullet = createBodyContent(slide, 'bullet', edit.content ?? 'New point');
+        const afterIndex = edit.afterContentId
+          ? slide.contents.findIndex(content => content.id === edit.afterContentId)
+          : slide.contents.map(content => content.type).lastIndexOf('bullet');
+        const insertAt = afterIndex === -1 ? slide.contents.length : afterIndex + 1;
+        const contents = [...slide.contents.slice(0, insertAt), bullet, ...slide.contents.slice(insertAt)];
+        const hasText = slide.contents.some(content => content.type === 'text');
+        return { ...slide, contents: restackBullets(contents, slide.contents, hasText ? 55 : 40) };
+      });
+
+    case 'removeContent':
+      return updateSlide(presentation, edit.slideId, slide =>
+        slide.contents.some(content => content.id === edit.contentId)
+          ? { ...slide, contents: restackBullets(slide.contents.filter(content => content.id !== edit.contentId), slide.contents) }
+          : slide
+      );
+
+    case 'moveContent':
+      return updateSlide(presentation, edit.slideId, slide => {
+        // Bullets move past neighbouring bullets; other elements keep their place
+        const from = slide.contents.findIndex(content => content.id === edit.contentId);
+        const moving = slide.contents[from];
+        if (!moving) return slide;
+        let to = from + edit.offset;
+        while (slide.contents[to] && slide.contents[to]!.type !== moving.type) to += edit.offset;
+        if (!slide.contents[to]) return slide;
+        return { ...slide, contents: restackBullets(moveItem(slide.contents, from, to)) };
+      });
+
+    case 'addSlide': {
+      const slide = createBlankSlide(presentation, edit.layout ?? 'content');
+      const afterIndex = presentation.slides.findIndex(existing => existing.id === edit.afterSlideId);
+      const insertAt = afterIndex === -1 ? presentation.slides.length : afterIndex + 1;
+      return [...presentation.slides.slice(0, insertAt), slide, ...presentation.slides.slice(insertAt)];
+    }
+
+    case 'removeSlide':
+      // A presentation always keeps at least one slide
+      return presentation.slides.length > 1 && presentation.slides.some(slide => slide.id === edit.slideId)
+        ? presentation.slides.filter(slide => slide.id !== edit.slideId)
+        : presentation.slides;
+
+    case 'moveSlide': {
+      const from = presentation.slides.findIndex(slide => slide.id === edit.slideId);
+      const to = Math.max(0, Math.min(presentation.slides.length - 1, edit.toIndex));
+      return from === -1 || from === to ? presentation.slides : moveItem(presentation.slides, from, to);
+    }
+
+    case 'duplicateSlide': {
+      const index = presentation.slides.findIndex(slide => slide.id === edit.slideId);
+      const original = presentation.slides[index];
+      if (!original) return presentation.slides;
+      const copy: Slide = {
+        ...original,
+        id: nanoid(),
+        contents: original.contents.map(content => ({ ...content, id: nanoid() })),
+        ...(original.metadata && { metadata: { ...original.metadata, created: new Date(), updated: new Date() } })
+      };
+      return [...presentation.slides.slice(0, index + 1), copy, ...presentation.slides.slice(index + 1)];
+    }
+
+    case 'setLayout':
+      return updateSlide(presentation, edit.slideId, slide => arrangeSlide(slide, edit.layout));
+
+    case 'setNotes':
+      return updateSlide(presentation, edit.slideId, slide => ({ ...slide, notes: edit.notes }));
+
+    case 'rewriteContent':
+      return updateSlide(presentation, edit.slideId, slide => rewriteContents(slide, edit.contentIds, edit.contents));
+
+    case 'reorderSlides': {
+      // Only a complete reordering of the current slides - anything else is stale
+      const byId = new Map(presentation.slides.map(slide => [slide.id, slide]));
+      const slides = edit.slideIds.flatMap(id => byId.get(id) ?? []);
+      const complete = slides.length === presentation.slides.length && new Set(edit.slideIds).size === slides.length;
+      return complete && slides.some((slide, index) => slide !== presentation.slides[index]) ? slides : presentation.slides;
+    }
+  }
+}
+
+/**
+ * Apply one edit and return the updated presentation
+ * Returns the same object when the edit changes nothing (unknown IDs, no-op moves)
+ */
+export function applyEdit(presentation: SlidePresentation, edit: PresentationEdit): SlidePresentation {
+  const slides = editSlides(presentation, edit);
+  if (slides === presentation.slides) return presentation;
+
+  return {
+    ...presentation,
+    slides,
+    metadata: {
+      ...presentation.metadata,
+      updated: new Date(),
+      totalSlides: slides.length
+    }
+  };
+}
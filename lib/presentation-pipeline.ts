@@ -0,0 +1,152 @@
+// Building a presentation from uploads - analysis, theme, slides and optional notes
+// The presentations route runs it while the client waits; the job worker runs it in the
+// background. Either way every client gets the same SlidePresentation.
+
+import { getImageContext, toProviderError, type VisionProvider } from '@/lib/vision-provider';
+import { getUploadPages, type UploadPage } from '@/lib/pdf-pages';
+import { generatePresentationFromAnalysis, mergeAnalyses } from '@/lib/slide-generator';
+import { getQualityReport, type QualityReport } from '@/lib/text-fit';
+import { addSpeakerNotes } from '@/lib/speaker-notes';
+import { createProgressTracker, type PartialSections } from '@/lib/analysis-progress';
+import { resolveTheme } from '@/lib/theme-store';
+import { getBrandKit } from '@/lib/brand-kit-store';
+import { toBrandTheme } from '@/lib/brand-kit';
+import { ExternalServiceError } from '@/lib/errors';
+import { GeminiAnalysisSchema, GeminiInputSchema, getImageEntries } from '@/utils/validation-schemas';
+import type { AnalysisProgress, GeminiAnalysisResult, SlidePresentation } from '@/types/slides';
+
+/**
+ * Everything the pipeline needs from the upload form, already checked
+ */
+export interface PresentationInput {
+  pages: UploadPage[];
+  fileNames: string[];
+  context: string; // Prompt and theme, passed to every analysis
+  theme?: string;
+  brandKitSetting?: 'on' | 'off';
+  speakerNotes?: 'on' | 'off';
+  userId: string | null;
+}
+
+export interface PresentationResult {
+  presentation: SlidePresentation;
+  analysis: GeminiAnalysisResult;
+  quality: QualityReport; // Slides whose text still overflows after fitting
+}
+
+// Optional hooks for callers that follow along - the JSON response just waits for the result
+export interface PipelineHooks {
+  onProgress?: (progress: AnalysisProgress) => void;
+  onSection?: (sections: PartialSections) => void;
+  signal?: AbortSignal;
+}
+
+const formValue = (formData: FormData, key: string) => {
+  const value = formData.get(key);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+/**
+ * Validate the upload form and split PDFs into pages, so the page range and cap
+ * apply before any AI call is made
+ */
+export async function readPresentationForm(formData: FormData, userId: string | null): Promise<PresentationInput> {
+  const { images, prompt, theme, brandKit, speakerNotes, pages: pageRange } = GeminiInputSchema.parse({
+    images: getImageEntries(formData),
+    prompt: formValue(formData, 'prompt'),
+    theme: formValue(formData, 'theme'),
+    brandKit: formValue(formData, 'brandKit'),
+    speakerNotes: formValue(formData, 'speakerNotes'),
+    pages: formValue(formData, 'pages'),
+  });
+
+  return {
+    pages: await getUploadPages(images, { ...(pageRange && { range: pageRange }) }),
+    fileNames: images.map(image => image.name),
+    context: `User prompt: ${prompt || 'Generate presentation slides'}. Theme: ${theme || 'professional'}`,
+    ...(theme && { theme }),
+    ...(brandKit && { brandKitSetting: brandKit }),
+    ...(speakerNotes && { speakerNotes }),
+    userId
+  };
+}
+
+// Analyze one image (or PDF page) and check the result before it reaches the slide generator
+async function analyzePage(provider: VisionProvider, page: UploadPage, context: string) {
+  let rawAnalysis: unknown;
+  try {
+    rawAnalysis = await provider.analyzeImage(page.data, page.mimeType, context);
+  } catch (error) {
+    // AppErrors are already classified, e.g. output that stayed invalid after repair attempts
+    throw toProviderError(error, provider, 'Failed to analyze image');
+  }
+
+  const parsed = GeminiAnalysisSchema.safeParse(rawAnalysis);
+  if (!parsed.success) {
+    throw new ExternalServiceError(
+      `AI response was not in the expected format: ${parsed.error.issues[0]?.message ?? 'unknown issue'}`,
+      provider.name,
+      undefined,
+      'AI_RESPONSE_INVALID'
+    );
+  }
+  return parsed.data as GeminiAnalysisResult;
+}
+
+/**
+ * Run every step for one upload, reporting progress as it goes. Aborting the
+ * signal stops before the next AI call.
+ */
+export async function buildPresentation(
+  provider: VisionProvider,
+  input: PresentationInput,
+  { onProgress, onSection, signal }: PipelineHooks = {}
+): Promise<PresentationResult> {
+  const { pages } = input;
+  const writeNotes = input.speakerNotes === 'on';
+  const track = createProgressTracker({ pages: pages.length, notes: writeNotes });
+  const report = (...args: Parameters<typeof track>) => onProgress?.(track(...args));
+
+  report('uploading', `Received ${pages.length} page${pages.length === 1 ? '' : 's'}`, 1);
+
+  // One page at a time, in upload order - easier on the AI quota than firing them all at once
+  const parts: { analysis: GeminiAnalysisResult; image: number; name: string; page?: number }[] = [];
+  for (const [index, page] of pages.entries()) {
+    signal?.throwIfAborted();
+    report('analyzing', `Analyzing page ${index + 1} of ${pages.length}`, index / pages.length);
+    const analysis = await analyzePage(provider, page, getImageContext(input.context, index, pages.length));
+    const source = { image: page.image, name: page.name, ...(page.page && { page: page.page }) };
+    parts.push({ analysis, ...source });
+    onSection?.({ ...source, title: analysis.structuredContent.title, sections: analysis.structuredContent.sections });
+  }
+
+  signal?.throwIfAborted();
+  report('theme', 'Choosing the theme');
+  const analysis = mergeAnalyses(parts);
+  // A signed-in user's brand kit styles every new deck; otherwise they can pick
+  // one of their own themes as well as a built-in one
+  const brandKit = input.userId && input.brandKitSetting !== 'off' ? await getBrandKit(input.userId) : null;
+  const customTheme = brandKit ? toBrandTheme(brandKit) : await resolveTheme(input.theme, input.userId);
+
+  report('generating', 'Building slides');
+  const generated = generatePresentationFromAnalysis(analysis, customTheme, {
+    originalImageName: input.fileNames.join(', '),
+  });
+
+  let presentation = generated;
+  if (writeNotes) {
+    signal?.throwIfAborted();
+    report('notes', 'Writing speaker notes');
+    presentation = await addSpeakerNotes(generated, provider, {
+      ...(signal && { signal }),
+      onSlideDone: (completed, total) => report('notes', `Speaker notes for ${completed} of ${total} slides`, completed / total)
+    });
+  }
+
+  signal?.throwIfAborted();
+  report('optimizing', 'Checking text fits');
+  const quality = getQualityReport(presentation);
+  report('complete', 'Presentation ready');
+
+  return { presentation, analysis, quality };
+}
@@ -0,0 +1,81 @@
+// Presenter channel - keeps the audience window and the presenter window on the same
+// slide. Both windows belong to the same origin, so a BroadcastChannel is enough:
+// no server round trip, and the deck itself travels in the first message
+
+import type { PresentationConfig, SlidePresentation } from '@/types/slides';
+
+export type PresenterMessage =
+  | { type: 'hello' }                                       // Presenter window opened, asks for the deck
+  | { type: 'state'; presentation: SlidePresentation; index: number; startedAt: number }
+  | { type: 'goto'; index: number }                         // Either window moved to a slide
+  | { type: 'end' };                                        // Audience window stopped presenting
+
+export interface PresenterChannel {
+  post(message: PresenterMessage): void;
+  close(): void;
+}
+
+const CHANNEL_PREFIX = 's2s-presenter:';
+
+/**
+ * Open the channel for one presentation
+ * Returns null where BroadcastChannel isn't available (old browsers, server render)
+ */
+export function openPresenterChannel(
+  presentationId: string,
+  onMessage: (message: PresenterMessage) => void
+): PresenterChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  const channel = new BroadcastChannel(`${CHANNEL_PREFIX}${presentationId}`);
+  channel.onmessage = (event: MessageEvent<PresenterMessage>) => onMessage(event.data);
+
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close()
+  };
+}
+
+// Presenter view lives at its own route so it can be opened as a second window
+export const getPresenterUrl = (presentationId: string) => `/presenter/${encodeURIComponent(presentationId)}`;
+
+/**
+ * How the deck should be presented, read from its settings
+ * Anything not set falls back to a manual, full-screen show with controls at the bottom
+ */
+export function getPresentationConfig(presentation: SlidePresentation): PresentationConfig {
+  const { settings } = presentation;
+  return {
+    autoAdvance: settings.autoAdvance ?? false,
+    ...(settings.timing !== undefined && { autoAdvanceDelay: settings.timing }),
+    theme: presentation.theme,
+    showProgress: settings.showProgress ?? true,
+    enableKeyboardShortcuts: settings.enableKeyboardShortcuts ?? true,
+    fullscreenMode: settings.fullscreenMode ?? true,
+    ...(settings.showControls !== false && { controlsPosition: 'bottom' as const })
+  };
+}
+
+/**
+ * Seconds a slide stays up before auto-advancing: its own duration, else the deck delay
+ */
+export function getAutoAdvanceDelay(
+  slide: SlidePresentation['slides'][number] | undefined,
+  config: PresentationConfig
+): number | null {
+  if (!config.autoAdvance) return null;
+  const seconds = slide?.metadata?.duration ?? config.autoAdvanceDelay;
+  return seconds && seconds > 0 ? seconds : null;
+}
+
+/**
+ * Format seconds as m:ss (or h:mm:ss); negative values get a leading minus
+ */
+export function formatClock(totalSeconds: number): string {
+  const sign = totalSeconds < 0 ? '-' : '';
+  const seconds = Math.floor(Math.abs(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h > 0 ? `${sign}${h}:${String(m).padStart(2, '0')}:${s}` : `${sign}${m}:${s}`;
+}
@@ -0,0 +1,131 @@
+// AI rewrites - shorten, expand, change tone, translate, or switch between bullets and prose
+// Text goes to the model as lines ("- " for bullets, plain for paragraphs) and comes back
+// the same way, so a rewrite can stream in and still map onto slide elements.
+// Safe to import from client components.
+
+import type { Slide, SlideContent } from '@/types/slides';
+
+export type RewriteAction = 'shorten' | 'expand' | 'formal' | 'casual' | 'translate' | 'bullets' | 'prose';
+
+export const REWRITE_ACTION_LABELS: Record<RewriteAction, string> = {
+  shorten: 'Shorten',
+  expand: 'Expand',
+  formal: 'More formal',
+  casual: 'More casual',
+  translate: 'Translate',
+  bullets: 'Turn into bullets',
+  prose: 'Turn into prose'
+};
+
+// What the model is asked to do, for the prompt
+export const REWRITE_INSTRUCTIONS: Record<RewriteAction, string> = {
+  shorten: 'Make it shorter and punchier - cut filler, keep every key fact',
+  expand: 'Expand it with a little more detail and explanation, without padding',
+  formal: 'Make the tone more formal and professional',
+  casual: 'Make the tone more casual and conversational',
+  translate: 'Translate it, keeping the meaning and the tone',
+  bullets: 'Turn it into concise bullet points, one idea each',
+  prose: 'Turn it into flowing prose - one short paragraph'
+};
+
+/**
+ * One rewrite, as the route and the vision providers see it
+ */
+export interface RewriteRequest {
+  text: string; // Lines: "- " for bullets, plain for paragraphs
+  action: RewriteAction;
+  audience?: string;
+  language?: string; // Target language for 'translate'
+  slideTitle?: string; // Context, so the rewrite stays on topic
+}
+
+// Elements a rewrite can target - code and media are left alone
+const REWRITABLE_TYPES: ReadonlySet<SlideContent['type']> = new Set(['title', 'subtitle', 'text', 'bullet']);
+
+export const isRewritable = (content: SlideContent) => REWRITABLE_TYPES.has(content.type);
+
+// Headings stay a single element whatever the action - only body text changes shape
+const isHeading = (content: SlideContent) => content.type === 'title' || content.type === 'subtitle';
+
+export interface RewrittenContent {
+  type: 'title' | 'subtitle' | 'text' | 'bullet';
+  content: string;
+}
+
+/**
+ * What a rewrite works on: one element, or the body (bullets and paragraphs) of a whole slide
+ */
+export function getRewriteSource(slide: Slide, contentId?: string): { contentIds: string[]; text: string } | null {
+  const targets = contentId
+    ? slide.contents.filter(content => content.id === contentId && isRewritable(content))
+    : slide.contents.filter(content => isRewritable(content) && !isHeading(content));
+  if (targets.length === 0) return null;
+
+  return {
+    contentIds: targets.map(content => content.id),
+    text: targets.map(content => content.type === 'bullet' ? `- ${content.content}` : content.content).join('\n')
+  };
+}
+
+/**
+ * Map the model's lines back onto elements. A heading stays one heading; body lines
+ * become bullets ("- ", "* " or "• ") or paragraphs.
+ */
+export function parseRewrite(text: string, slide: Slide, contentIds: readonly string[]): RewrittenContent[] {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const first = slide.contents.find(content => content.id === contentIds[0]);
+
+  if (first && contentIds.length === 1 && isHeading(first)) {
+    const heading = lines.map(line => line.replace(/^[-*•]\s+/, '')).join(' ');
+    return heading ? [{ type: first.type as RewrittenContent['type'], content: heading }] : [];
+  }
+  return lines.map(line => {
+    const bullet = line.match(/^[-*•]\s+(.*)$/);
+    return bullet ? { type: 'bullet' as const, content: bullet[1]! } : { type: 'text' as const, content: line };
+  });
+}
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Word-level diff of two texts (longest common subsequence), for the preview before
+ * a rewrite is applied. Whitespace is kept with the word before it.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.match(/\S+\s*/g) ?? [];
+  const b = after.match(/\S+\s*/g) ?? [];
+  const same = (i: number, j: number) => a[i]!.trim() === b[j]!.trim();
+
+  // lengths[i][j] = LCS of a[i:] and b[j:]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i]![j] = same(i, j) ? lengths[i + 1]![j + 1]! + 1 : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && same(i, j)) {
+      push('same', b[j++]!);
+      i++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1]![j]! >= lengths[i]![j + 1]!)) {
+      // Removals before additions, so a replaced word reads old then new
+      push('removed', a[i++]!);
+    } else {
+      push('added', b[j++]!);
+    }
+  }
+  return parts;
+}
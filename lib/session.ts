@@ -0,0 +1,115 @@
+// Sessions - who is signed in, kept in a signed cookie so no session store is needed
+// The cookie holds the user and an expiry, with an HMAC so it can't be edited client-side
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { AppError, AuthenticationError } from '@/lib/errors';
+import { toSafeReturnPath } from '@/lib/utils';
+import type { AuthUser } from '@/lib/auth-provider';
+
+export const SESSION_COOKIE = 's2s_session';
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+interface SessionPayload {
+  user: AuthUser;
+  exp: number; // Seconds since the epoch
+}
+
+// Development and tests get a fixed secret so sessions survive restarts; production must set one
+const DEV_SECRET = 'snap2slides-development-session-secret';
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new AppError('AUTH_SECRET is not configured', 'AUTH_NOT_CONFIGURED', 500);
+  }
+  return DEV_SECRET;
+}
+
+const sign = (value: string) => createHmac('sha256', getSecret()).update(value).digest('base64url');
+
+/**
+ * Encode a session for the cookie - `<payload>.<signature>`, both base64url
+ */
+export function createSessionToken(user: AuthUser, ttlSeconds: number = SESSION_TTL_SECONDS): string {
+  const payload: SessionPayload = { user, exp: Math.floor(Date.now() / 1000) + ttlSeconds };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Decode a session cookie - null when it is missing, tampered with or expired
+ */
+export function readSessionToken(token: string | undefined): AuthUser | null {
+  if (!token) return null;
+
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as SessionPayload;
+    return payload.exp > Date.now() / 1000 ? payload.user : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getSessionUser(request: NextRequest): AuthUser | null {
+  return readSessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * The signed-in user, or a 401 for routes that need one
+ */
+export function requireUser(request: NextRequest): AuthUser {
+  const user = getSessionUser(request);
+  if (!user) {
+    throw new AuthenticationError('Sign in to continue');
+  }
+  return user;
+}
+
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/'
+};
+
+export function setSessionCookie(response: NextResponse, user: AuthUser): void {
+  response.cookies.set(SESSION_COOKIE, createSessionToken(user), { ...cookieOptions, maxAge: SESSION_TTL_SECONDS });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+}
+
+// Redirect sign-in round trip: the state we sent and where to go afterwards
+export const AUTH_STATE_COOKIE = 's2s_auth_state';
+const AUTH_STATE_TTL_SECONDS = 10 * 60;
+
+export const createAuthState = () => randomBytes(16).toString('base64url');
+
+export function setAuthStateCookie(response: NextResponse, state: string, returnTo: string): void {
+  response.cookies.set(AUTH_STATE_COOKIE, `${state}:${returnTo}`, { ...cookieOptions, maxAge: AUTH_STATE_TTL_SECONDS });
+}
+
+/**
+ * Check the state a provider sent back against the cookie - returns where to go next
+ */
+export function readAuthState(request: NextRequest, state: string | null): string {
+  const [expected, ...returnTo] = request.cookies.get(AUTH_STATE_COOKIE)?.value.split(':') ?? [];
+  if (!state || !expected || state !== expected) {
+    throw new AuthenticationError('Sign-in expired or was tampered with - please try again', 'AUTH_STATE_MISMATCH');
+  }
+  return toSafeReturnPath(returnTo.join(':'));
+}
+
+export function clearAuthStateCookie(response: NextResponse): void {
+  response.cookies.set(AUTH_STATE_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+}
@@ -0,0 +1,108 @@
+// Share links - lets the owner of a saved presentation hand it to other people
+// A share link carries its own random token, never the record id, so handing out a
+// link can't be turned into access to the owner routes (edit, delete) for that record
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { AuthenticationError, AuthorizationError, NotFoundError } from '@/lib/errors';
+
+/**
+ * private  - only the owner; share links are off
+ * unlisted - anyone with the link
+ * public   - anyone with the link, and listed in the public gallery
+ */
+export type ShareVisibility = 'private' | 'unlisted' | 'public';
+
+/**
+ * Share settings as they live on a history record
+ */
+export interface ShareSettings {
+  visibility: ShareVisibility;
+  token: string | null;
+  passwordHash: string | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+}
+
+/**
+ * Share settings as the owner sees them - the password hash never leaves the server
+ */
+export interface ShareSummary {
+  visibility: ShareVisibility;
+  url: string | null;
+  hasPassword: boolean;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export const DEFAULT_SHARE_SETTINGS: ShareSettings = {
+  visibility: 'private',
+  token: null,
+  passwordHash: null,
+  expiresAt: null,
+  revokedAt: null
+};
+
+const SCRYPT_KEY_LENGTH = 32;
+
+export const SHARE_LINK_NOT_FOUND = 'This share link does not exist or is no longer active';
+
+export const createShareToken = () => randomBytes(18).toString('base64url');
+
+export const getShareUrl = (token: string) => `/viewer/share/${token}`;
+
+/**
+ * Hash a share password as `salt:hash` (hex), scrypt with a random salt
+ */
+export function hashSharePassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export function verifySharePassword(password: string, passwordHash: string): boolean {
+  const [salt, hash] = passwordHash.split(':');
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function toShareSummary(sharing: ShareSettings): ShareSummary {
+  return {
+    visibility: sharing.visibility,
+    url: sharing.visibility !== 'private' && sharing.token ? getShareUrl(sharing.token) : null,
+    hasPassword: sharing.passwordHash !== null,
+    expiresAt: sharing.expiresAt,
+    revokedAt: sharing.revokedAt
+  };
+}
+
+/**
+ * Throw unless a visitor holding the share link may see the presentation
+ * Private, revoked and expired links all look like a missing presentation, so a link
+ * gives nothing away once it stops working. A missing password is a 401 (the viewer
+ * asks for one), a wrong password a 403.
+ */
+export function assertShareAccess(
+  sharing: ShareSettings,
+  password: string | null,
+  now: Date = new Date()
+): void {
+  const isOpen = sharing.visibility !== 'private' &&
+    sharing.token !== null &&
+    (sharing.expiresAt === null || sharing.expiresAt > now);
+
+  if (!isOpen) {
+    throw new NotFoundError(SHARE_LINK_NOT_FOUND);
+  }
+
+  if (sharing.passwordHash === null) return;
+
+  if (!password) {
+    throw new AuthenticationError('This presentation is password protected', 'SHARE_PASSWORD_REQUIRED');
+  }
+  if (!verifySharePassword(password, sharing.passwordHash)) {
+    throw new AuthorizationError('Incorrect password', 'SHARE_PASSWORD_INCORRECT');
+  }
+}
@@ -0,0 +1,128 @@
+// Slide animation - turns the SlideAnimation model into framer-motion variants
+// Same defaults as the HTML export (0.6s, ease-out, slide from the left, others from
+// below), so a deck moves the same in the app as in the exported file
+
+import type { Easing, Transition, Variants } from 'framer-motion';
+import type { Slide, SlideAnimation, SlideContent } from '@/types/slides';
+
+export const DEFAULT_ANIMATION_DURATION = 0.6;
+
+// Distance a moving element travels - element builds move a little, slides move a full width
+export const ELEMENT_DISTANCE = '40px';
+export const SLIDE_DISTANCE = '100%';
+
+type Direction = NonNullable<SlideAnimation['direction']>;
+
+const EASINGS: Record<NonNullable<SlideAnimation['easing']>, Easing> = {
+  ease: [0.25, 0.1, 0.25, 1],
+  'ease-in': 'easeIn',
+  'ease-out': 'easeOut',
+  'ease-in-out': 'easeInOut'
+};
+
+// Offset of a point `distance` away in `direction`
+const offsetTowards = (direction: Direction, distance: string) => {
+  const negative = `-${distance}`;
+  switch (direction) {
+    case 'left': return { x: negative, y: 0 };
+    case 'right': return { x: distance, y: 0 };
+    case 'up': return { x: 0, y: negative };
+    case 'down': return { x: 0, y: distance };
+  }
+};
+
+const opposite: Record<Direction, Direction> = { left: 'right', right: 'left', up: 'down', down: 'up' };
+
+const getTransition = (animation: SlideAnimation): Transition => ({
+  duration: animation.duration ?? DEFAULT_ANIMATION_DURATION,
+  delay: animation.delay ?? 0,
+  ease: EASINGS[animation.easing ?? 'ease-out']
+});
+
+/**
+ * Variants for one animation: `hidden` -> `visible` plays it in, `exit` plays it out
+ * The element moves in `direction`, so it enters from the opposite side and leaves
+ * towards `direction`. Returns null for 'none' or a missing animation.
+ */
+export function getAnimationVariants(animation: SlideAnimation | undefined, distance: string): Variants | null {
+  if (!animation || animation.type === 'none') return null;
+
+  const transition = getTransition(animation);
+  const direction = animation.direction ?? (animation.type === 'slide' ? 'left' : 'up');
+  const visible = { opacity: 1, x: 0, y: 0, scale: 1 };
+
+  switch (animation.type) {
+    case 'fade':
+      return {
+        hidden: { opacity: 0 },
+        visible: { opacity: 1, transition },
+        exit: { opacity: 0, transition: { ...transition, delay: 0 } }
+      };
+    case 'slide':
+      return {
+        hidden: { opacity: 0, ...offsetTowards(opposite[direction], distance) },
+        visible: { ...visible, transition },
+        exit: { opacity: 0, ...offsetTowards(direction, distance), transition: { ...transition, delay: 0 } }
+      };
+    case 'zoom':
+      return {
+        hidden: { opacity: 0, scale: 0.85 },
+        visible: { ...visible, transition },
+        exit: { opacity: 0, scale: 0.85, transition: { ...transition, delay: 0 } }
+      };
+    case 'bounce':
+      return {
+        hidden: { opacity: 0, scale: 0.3 },
+        visible: {
+          opacity: [0, 1, 1, 1],
+          scale: [0.3, 1.05, 0.95, 1],
+          transition: { ...transition, times: [0, 0.5, 0.7, 1] }
+        },
+        exit: { opacity: 0, scale: 0.3, transition: { ...transition, delay: 0 } }
+      };
+  }
+}
+
+/**
+ * Build animation for one element: its style.animation, with metadata.delay and
+ * metadata.duration filling in whatever the animation leaves out
+ */
+export function getContentAnimation(content: SlideContent): SlideAnimation | undefined {
+  const animation = content.style?.animation;
+  if (!animation) return undefined;
+
+  const delay = animation.delay ?? content.metadata?.delay;
+  const duration = animation.duration ?? content.metadata?.duration;
+  return {
+    ...animation,
+    ...(delay !== undefined && { delay }),
+    ...(duration !== undefined && { duration })
+  };
+}
+
+/**
+ * Enter and exit animations for a slide - `transitions` wins over the legacy
+ * `transition` name, which plays the same way in and out
+ */
+export function getSlideTransitions(slide: Slide): { enter?: SlideAnimation; exit?: SlideAnimation } {
+  if (slide.transitions) return slide.transitions;
+  if (!slide.transition) return {};
+  const legacy: SlideAnimation = { type: slide.transition, duration: 0.4 };
+  return { enter: legacy, exit: legacy };
+}
+
+/**
+ * Variants for a slide as a whole: enter plays its enter animation, exit its exit one
+ */
+export function getSlideVariants(slide: Slide): Variants | null {
+  const { enter, exit } = getSlideTransitions(slide);
+  const entering = getAnimationVariants(enter, SLIDE_DISTANCE);
+  const leaving = getAnimationVariants(exit, SLIDE_DISTANCE);
+  if (!entering && !leaving) return null;
+
+  return {
+    hidden: entering?.hidden ?? {},
+    visible: entering?.visible ?? {},
+    exit: leaving?.exit ?? { opacity: 1 }
+  };
+}
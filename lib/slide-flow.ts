@@ -0,0 +1,82 @@
+// Slide flow - reordering a deck for the story it needs to tell
+// The AI proposes an order of slide ids; everything here checks that proposal against
+// the deck, so a paraphrased, partial or duplicated answer can never lose a slide.
+// Safe to import from client components.
+
+import type { FlowMode, Slide } from '@/types/slides';
+
+export const FLOW_MODE_LABELS: Record<FlowMode, string> = {
+  pitch: 'Pitch',
+  training: 'Training',
+  report: 'Report',
+  sales: 'Sales'
+};
+
+// What each kind of deck should build towards, for the prompt
+export const FLOW_MODE_GUIDANCE: Record<FlowMode, string> = {
+  pitch: 'Start strong, build credibility, show the problem, present the solution, prove value, end with a call to action',
+  training: 'Set objectives, start simple, build complexity, include practice, wrap up',
+  report: 'Executive summary first, then how the data was gathered, the findings, what they mean, what to do',
+  sales: 'Identify pain points, show the solution, provide proof, handle objections, close'
+};
+
+// Below this share of usable ids the answer is treated as noise rather than patched up
+const MIN_USABLE_SHARE = 0.5;
+
+export interface SlideOrder {
+  order: string[]; // Every slide id, once, in the proposed order
+  source: 'ai' | 'fallback'; // 'fallback' means the AI's answer was unusable and the order is unchanged
+}
+
+// A deck that opens with a title slide keeps it there, whatever the story
+const pinnedFirst = (slides: readonly Pick<Slide, 'id' | 'layout'>[]) =>
+  slides[0]?.layout === 'title' ? slides[0].id : null;
+
+/**
+ * Turn the AI's proposed order into a complete order of the deck's slide ids.
+ * Unknown and repeated ids are dropped, slides it left out keep their relative order
+ * at the end, and a title slide stays first. Answers that are mostly unusable - or
+ * missing - fall back to the current order.
+ */
+export function resolveSlideOrder(
+  slides: readonly Pick<Slide, 'id' | 'layout'>[],
+  proposed: readonly string[] | null
+): SlideOrder {
+  const current = slides.map(slide => slide.id);
+  const known = new Set(current);
+
+  const seen = new Set<string>();
+  const usable = (proposed ?? []).filter(id => {
+    if (!known.has(id) || seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+  if (usable.length === 0 || usable.length < current.length * MIN_USABLE_SHARE) {
+    return { order: current, source: 'fallback' };
+  }
+
+  const order = [...usable, ...current.filter(id => !seen.has(id))];
+  const first = pinnedFirst(slides);
+  return {
+    order: first ? [first, ...order.filter(id => id !== first)] : order,
+    source: 'ai'
+  };
+}
+
+/**
+ * Where each slide moves - the editor shows this before the user accepts a new order
+ */
+export interface OrderChange {
+  slideId: string;
+  title: string;
+  from: number; // 0-based positions
+  to: number;
+}
+
+export function getOrderChanges(slides: readonly Pick<Slide, 'id' | 'title'>[], order: readonly string[]): OrderChange[] {
+  const byId = new Map(slides.map((slide, index) => [slide.id, { slide, index }]));
+  return order.flatMap((id, to) => {
+    const entry = byId.get(id);
+    return entry && entry.index !== to ? [{ slideId: id, title: entry.slide.title, from: entry.index, to }] : [];
+  });
+}
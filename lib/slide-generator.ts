@@ -3,75 +3,9 @@
 
 import type { Slide, SlideContent, SlideTheme, SlidePresentation, GeminiAnalysisResult } from '@/types/slides';
 import { nanoid } from 'nanoid';
-
-// Predefined themes that look great and work in any business setting
-// These are carefully designed with good contrast and professional appeal
-export const DEFAULT_THEMES: SlideTheme[] = [
-  {
-    id: 'modern',
-    name: 'Modern Professional',
-    colors: {
-      primary: '#2563eb',    // Clean blue
-      secondary: '#64748b',  // Subtle gray
-      accent: '#06b6d4',     // Bright cyan
-      background: '#ffffff', // Pure white
-      text: '#1e293b'        // Dark gray for readability
-    },
-    fonts: {
-      heading: 'Inter, sans-serif', // Clean, modern font
-      body: 'Inter, sans-serif'
-    },
-    layout: 'modern'
-  },
-  {
-    id: 'minimal',
-    name: 'Clean Minimal',
-    colors: {
-      primary: '#000000',    // Pure black
-      secondary: '#6b7280',  // Medium gray
-      accent: '#f59e0b',     // Warm amber
-      background: '#f9fafb', // Off-white
-      text: '#111827'        // Almost black
-    },
-    fonts: {
-      heading: 'SF Pro Display, sans-serif', // Apple's font - clean and elegant
-      body: 'SF Pro Text, sans-serif'
-    },
-    layout: 'minimal'
-  },
-  {
-    id: 'creative',
-    name: 'Creative Bold',
-    colors: {
-      primary: '#7c3aed',    // Rich purple
-      secondary: '#ec4899',  // Bright pink
-      accent: '#f97316',     // Orange pop
-      background: '#1e1b4b', // Dark navy
-      text: '#f8fafc'        // Light text for contrast
-    },
-    fonts: {
-      heading: 'Space Grotesk, sans-serif', // Modern geometric font
-      body: 'Inter, sans-serif'
-    },
-    layout: 'creative'
-  },
-  {
-    id: 'classic',
-    name: 'Business Classic',
-    colors: {
-      primary: '#1f2937',
-      secondary: '#4b5563',
-      accent: '#dc2626',
-      background: '#ffffff',
-      text: '#374151'
-    },
-    fonts: {
-      heading: 'Georgia, serif',
-      body: 'system-ui, sans-serif'
-    },
-    layout: 'classic'
-  }
-];
+import { DEFAULT_THEMES } from '@/lib/themes';
+import { arrangeSlide, chooseLayout } from '@/lib/slide-layouts';
+import { fitSlideText, getOverflowingContent } from '@/lib/text-fit';
 
 export function generateThemeFromColors(colorPalette: string[]): SlideTheme {
   const [primary, secondary, accent, background = '#ffffff', text = '#1e293b'] = colorPalette;
@@ -94,18 +28,30 @@ export function generateThemeFromColors(colorPalette: string[]): SlideTheme {
   };
 }
 
+/**
+ * Provenance tags for a slide built from one of several uploaded images
+ */
+export function getSourceTags(source: { image: number; name?: string; page?: number }): string[] {
+  return [
+    `image:${source.image}`,
+    ...(source.name ? [`image-name:${source.name}`] : []),
+    ...(source.page ? [`page:${source.page}`] : [])
+  ];
+}
+
 export function createSlideFromContent(
-  content: { heading: string; bullets: string[]; images?: string[] },
+  content: GeminiAnalysisResult['structuredContent']['sections'][number],
   theme: SlideTheme,
   index: number
 ): Slide {
   const slideContents: SlideContent[] = [];
+  const heading = content.heading || `Slide ${index}`;
 
   // Add title
   slideContents.push({
     id: nanoid(),
     type: 'title',
-    content: content.heading,
+    content: heading,
     position: { x: 50, y: 20 },
     style: {
       fontSize: '2.5rem',
@@ -115,13 +61,31 @@ export function createSlideFromContent(
     }
   });
 
+  // Add the section's paragraph, pushing the bullets down below it
+  let bulletTop = 40;
+  if (content.content) {
+    slideContents.push({
+      id: nanoid(),
+      type: 'text',
+      content: content.content,
+      position: { x: 15, y: 35 },
+      size: { width: 70, height: 15 },
+      style: {
+        fontSize: '1.125rem',
+        color: theme.colors.text,
+        alignment: 'left'
+      }
+    });
+    bulletTop = 55;
+  }
+
   // Add bullet points
   content.bullets.forEach((bullet, bulletIndex) => {
     slideContents.push({
       id: nanoid(),
       type: 'bullet',
       content: bullet,
-      position: { x: 20, y: 40 + (bulletIndex * 12) },
+      position: { x: 20, y: bulletTop + (bulletIndex * 12) },
       style: {
         fontSize: '1.25rem',
         color: theme.colors.text,
@@ -143,22 +107,119 @@ export function createSlideFromContent(
     });
   }
 
-  return {
+  const slide: Slide = {
     id: nanoid(),
-    title: content.heading,
+    title: heading,
     contents: slideContents,
     theme,
     transition: 'fade',
     background: {
       type: 'color',
       value: theme.colors.background
+    },
+    ...(content.source && {
+      metadata: {
+        order: index,
+        tags: getSourceTags(content.source),
+        created: new Date(),
+        updated: new Date()
+      }
+    })
+  };
+
+  // Image descriptions get an image-focus slide, long bullet lists two columns
+  return arrangeSlide(slide, chooseLayout(slideContents));
+}
+
+type Section = GeminiAnalysisResult['structuredContent']['sections'][number];
+
+/**
+ * Turn one section into as many slides as it needs - fonts shrink to fit first, and
+ * bullets that still don't fit move on to "(cont.)" slides. Slides that overflow however
+ * they're split (a very long title or paragraph) are kept whole for the quality report.
+ */
+export function createSlidesFromSection(section: Section, theme: SlideTheme, index: number): Slide[] {
+  const heading = section.heading || `Slide ${index}`;
+  const build = (part: Section) => fitSlideText(createSlideFromContent(part, theme, index));
+  const bodyOverflows = (slide: Slide) =>
+    getOverflowingContent(slide).some(content => content.type === 'bullet' || content.type === 'text');
+
+  const slides: Slide[] = [];
+  let part = section;
+  for (;;) {
+    const slide = build(part);
+    if (part.bullets.length <= 1 || !bodyOverflows(slide)) return [...slides, slide];
+
+    // Keep as many bullets here as fit - the first part can give all of them up to its paragraph or images
+    const fewest = part.content || part.images?.length ? 0 : 1;
+    let kept = part.bullets.length - 1;
+    let fitted: Slide | undefined;
+    while (kept >= fewest) {
+      const candidate = build({ ...part, bullets: part.bullets.slice(0, kept) });
+      if (!bodyOverflows(candidate)) {
+        fitted = candidate;
+        break;
+      }
+      kept--;
     }
+    if (!fitted) return [...slides, slide];
+
+    slides.push(fitted);
+    part = {
+      heading: `${heading} (cont.)`,
+      bullets: part.bullets.slice(kept),
+      ...(part.source && { source: part.source })
+    };
+  }
+}
+
+/**
+ * Fold per-image analyses (in upload order) into one, so several photos of the same
+ * whiteboard produce a single deck. Every section remembers which image it came from.
+ */
+export function mergeAnalyses(
+  parts: { analysis: GeminiAnalysisResult; image?: number; name?: string; page?: number }[]
+): GeminiAnalysisResult {
+  const [first] = parts;
+  if (!first) {
+    throw new Error('At least one analysis is required');
+  }
+
+  const contents = parts.map(part => part.analysis.structuredContent);
+  const introduction = contents.find(content => content.introduction)?.introduction;
+  const conclusion = [...contents].reverse().find(content => content.conclusion)?.conclusion;
+
+  const sumOf = (key: 'processingTime' | 'repairAttempts') =>
+    parts.some(part => part.analysis[key] !== undefined)
+      ? { [key]: parts.reduce((total, part) => total + (part.analysis[key] ?? 0), 0) }
+      : {};
+
+  return {
+    structuredContent: {
+      title: first.analysis.structuredContent.title,
+      ...(introduction && { introduction }),
+      // `image` defaults to the part's position; PDF pages share their file's number
+      sections: parts.flatMap(({ analysis, image, name, page }, index) =>
+        analysis.structuredContent.sections.map(section => ({
+          ...section,
+          source: { image: image ?? index + 1, ...(name && { name }), ...(page && { page }) }
+        }))
+      ),
+      ...(conclusion && { conclusion })
+    },
+    suggestedTheme: first.analysis.suggestedTheme,
+    colorPalette: parts.find(part => part.analysis.colorPalette.length >= 3)?.analysis.colorPalette
+      ?? first.analysis.colorPalette,
+    confidence: parts.reduce((total, part) => total + part.analysis.confidence, 0) / parts.length,
+    ...sumOf('processingTime'),
+    ...sumOf('repairAttempts')
   };
 }
 
 export function generatePresentationFromAnalysis(
   analysis: GeminiAnalysisResult,
-  customTheme?: SlideTheme
+  customTheme?: SlideTheme,
+  details: { originalImageName?: string } = {}
 ): SlidePresentation {
   // Select or generate theme with proper fallback
   const fallbackTheme = DEFAULT_THEMES[0]!; // Non-null assertion since we know it exists
@@ -173,7 +234,7 @@ export function generatePresentationFromAnalysis(
   }
 
   // Create title slide
-  const titleSlide: Slide = {
+  const titleSlide: Slide = fitSlideText(arrangeSlide({
     id: nanoid(),
     title: analysis.structuredContent.title,
     contents: [
@@ -188,7 +249,18 @@ export function generatePresentationFromAnalysis(
           color: selectedTheme.colors.primary,
           alignment: 'center'
         }
-      }
+      },
+      ...(analysis.structuredContent.introduction ? [{
+        id: nanoid(),
+        type: 'subtitle' as const,
+        content: analysis.structuredContent.introduction,
+        position: { x: 50, y: 68 },
+        style: {
+          fontSize: '1.5rem',
+          color: selectedTheme.colors.secondary,
+          alignment: 'center' as const
+        }
+      }] : [])
     ],
     theme: selectedTheme,
     transition: 'fade',
@@ -196,22 +268,28 @@ export function generatePresentationFromAnalysis(
       type: 'gradient',
       value: `linear-gradient(135deg, ${selectedTheme.colors.background} 0%, ${selectedTheme.colors.primary}10 100%)`
     }
-  };
+  }, 'title'));
 
   // Create content slides
-  const contentSlides = analysis.structuredContent.sections.map((section, index) =>
-    createSlideFromContent(section, selectedTheme, index + 1)
+  const contentSlides = analysis.structuredContent.sections.flatMap((section, index) =>
+    createSlidesFromSection(section, selectedTheme, index + 1)
   );
 
+  const slides = [titleSlide, ...contentSlides];
+
   return {
     id: nanoid(),
     title: analysis.structuredContent.title,
-    slides: [titleSlide, ...contentSlides],
+    slides,
     theme: selectedTheme,
     metadata: {
       created: new Date(),
       updated: new Date(),
-      description: `AI-generated presentation from uploaded content`
+      description: analysis.structuredContent.introduction ?? `AI-generated presentation from uploaded content`,
+      totalSlides: slides.length,
+      ...(details.originalImageName && { originalImageName: details.originalImageName }),
+      ...(analysis.processingTime !== undefined && { processingTime: analysis.processingTime }),
+      ...(analysis.repairAttempts !== undefined && { repairAttempts: analysis.repairAttempts })
     },
     settings: {
       autoAdvance: false,
@@ -220,60 +298,9 @@ export function generatePresentationFromAnalysis(
   };
 }
 
+/**
+ * Re-lay a slide out in its layout's regions, picking a layout from its elements if it has none
+ */
 export function optimizeSlideLayout(slide: Slide): Slide {
-  // Auto-arrange content based on type and priority
-  const optimizedContents = [...slide.contents];
-  
-  // Sort by type priority (title > subtitle > bullet > text > image > code > chart)
-  const typePriority: Record<string, number> = { 
-    title: 1, 
-    subtitle: 2, 
-    bullet: 3, 
-    text: 4, 
-    image: 5, 
-    code: 6, 
-    chart: 7 
-  };
-  optimizedContents.sort((a, b) => (typePriority[a.type] || 10) - (typePriority[b.type] || 10));
-
-  // Reposition elements for better layout
-  let currentY = 15;
-  const repositionedContents = optimizedContents.map((content, index) => {
-    let newPosition = { ...content.position };
-    
-    switch (content.type) {
-      case 'title':
-        newPosition = { x: 50, y: currentY };
-        currentY += 20;
-        break;
-      case 'subtitle':
-        newPosition = { x: 50, y: currentY };
-        currentY += 15;
-        break;
-      case 'bullet':
-        newPosition = { x: 15, y: currentY };
-        currentY += 12;
-        break;
-      case 'text':
-        newPosition = { x: 15, y: currentY };
-        currentY += 15;
-        break;
-      case 'image':
-        newPosition = { x: 70, y: 25 };
-        break;
-      default:
-        // Keep original position for unknown types
-        break;
-    }
-    
-    return {
-      ...content,
-      position: newPosition
-    };
-  });
-
-  return {
-    ...slide,
-    contents: repositionedContents
-  };
+  return arrangeSlide(slide, slide.layout ?? chooseLayout(slide.contents));
 }
@@ -0,0 +1,169 @@
+// Slide geometry - decides where each SlideContent element sits on the slide
+// Positions and sizes are stored as percentages of the slide, so every renderer
+// (web editor, PPTX, PDF, HTML) converts from the same box and the outputs line up
+
+import type { LogoPlacement, SlideContent, SlideTheme } from '@/types/slides';
+
+// Font sizes in the editor are authored against a 960x540 (16:9) slide
+export const REFERENCE_SLIDE_WIDTH_PX = 960;
+export const REFERENCE_SLIDE_HEIGHT_PX = 540;
+
+/**
+ * Where an element sits, in percent of slide width/height, measured from the top-left corner
+ */
+export interface ContentBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type ContentType = SlideContent['type'];
+
+// How tall an element is when the generator didn't give it a size
+const DEFAULT_HEIGHTS: Record<ContentType, number> = {
+  title: 15,
+  subtitle: 10,
+  bullet: 8,
+  text: 20,
+  code: 30,
+  chart: 40,
+  image: 30
+};
+
+// Default font sizes in reference pixels, per content type
+export const DEFAULT_FONT_SIZES_PX: Record<ContentType, number> = {
+  title: 40,
+  subtitle: 28,
+  bullet: 20,
+  text: 18,
+  code: 14,
+  chart: 14,
+  image: 14
+};
+
+// Keep text away from the slide edge when it has no explicit width
+const SIDE_MARGIN = 5;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Resolve an element's bounding box on the slide
+ * Center-aligned elements are anchored at their center point (the generator places
+ * titles at x: 50 meaning "middle of the slide"); everything else at its top-left corner
+ */
+export function getContentBox(content: SlideContent): ContentBox {
+  const centered = content.style?.alignment === 'center';
+  const { x, y } = content.position;
+
+  const width = content.size?.width ??
+    (centered ? 2 * Math.min(x, 100 - x) - 2 * SIDE_MARGIN : 100 - x - SIDE_MARGIN);
+  const height = content.size?.height ?? DEFAULT_HEIGHTS[content.type];
+
+  const safeWidth = clamp(width, 5, 100);
+  const safeHeight = clamp(height, 2, 100);
+  const left = centered ? x - safeWidth / 2 : x;
+  const top = centered ? y - safeHeight / 2 : y;
+
+  return {
+    x: clamp(left, 0, 100 - safeWidth),
+    y: clamp(top, 0, 100 - safeHeight),
+    width: safeWidth,
+    height: safeHeight
+  };
+}
+
+// Brand logos fit inside a corner box of this size (percent of the slide), keeping their shape
+const LOGO_MAX_WIDTH = 14;
+const LOGO_MAX_HEIGHT = 10;
+const LOGO_MARGIN = 3;
+
+/**
+ * Where a brand logo is drawn - as large as fits the corner box without distorting it
+ */
+export function getLogoBox(logo: { placement: LogoPlacement; aspectRatio: number }): ContentBox {
+  const maxWidthPx = (LOGO_MAX_WIDTH / 100) * REFERENCE_SLIDE_WIDTH_PX;
+  const maxHeightPx = (LOGO_MAX_HEIGHT / 100) * REFERENCE_SLIDE_HEIGHT_PX;
+  const widthPx = Math.min(maxWidthPx, maxHeightPx * logo.aspectRatio);
+  const width = (widthPx / REFERENCE_SLIDE_WIDTH_PX) * 100;
+  const height = (widthPx / logo.aspectRatio / REFERENCE_SLIDE_HEIGHT_PX) * 100;
+
+  const [vertical, horizontal] = logo.placement.split('-');
+  return {
+    x: horizontal === 'left' ? LOGO_MARGIN : 100 - LOGO_MARGIN - width,
+    y: vertical === 'top' ? LOGO_MARGIN : 100 - LOGO_MARGIN - height,
+    width,
+    height
+  };
+}
+
+/**
+ * Convert a CSS font size ('2.5rem', '24px', '18pt', '1.2em') to reference pixels
+ */
+export function fontSizeToPx(fontSize: string | undefined, fallbackPx: number): number {
+  if (!fontSize) return fallbackPx;
+
+  const match = fontSize.trim().match(/^(\d*\.?\d+)\s*(rem|em|px|pt)?$/i);
+  if (!match?.[1]) return fallbackPx;
+
+  const value = parseFloat(match[1]);
+  switch (match[2]?.toLowerCase()) {
+    case 'rem':
+    case 'em':
+      return value * 16;
+    case 'pt':
+      return value * (4 / 3);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Font size of an element in reference pixels, falling back to the per-type default
+ */
+export function getFontSizePx(content: SlideContent): number {
+  return fontSizeToPx(content.style?.fontSize, DEFAULT_FONT_SIZES_PX[content.type]);
+}
+
+/**
+ * Scale reference pixels to points on an output page of the given width
+ */
+export function pxToPoints(px: number, pageWidthPt: number): number {
+  return Math.round(px * (pageWidthPt / REFERENCE_SLIDE_WIDTH_PX) * 10) / 10;
+}
+
+/**
+ * First family from a CSS font stack - 'Inter, sans-serif' becomes 'Inter'
+ * Office apps and PDF writers want one concrete face, not a stack
+ */
+export function primaryFontFamily(stack: string | undefined, fallback: string = 'Arial'): string {
+  const first = stack?.split(',')[0]?.trim().replace(/^['"]|['"]$/g, '');
+  return first || fallback;
+}
+
+/**
+ * Whether a CSS font-weight should be rendered bold
+ */
+export function isBoldWeight(fontWeight: string | undefined): boolean {
+  if (!fontWeight) return false;
+  if (fontWeight === 'bold' || fontWeight === 'bolder') return true;
+  const numeric = parseInt(fontWeight, 10);
+  return !Number.isNaN(numeric) && numeric >= 600;
+}
+
+/**
+ * Which theme color an element uses when it doesn't set its own
+ */
+export function getDefaultTextColor(content: SlideContent, theme: SlideTheme): string {
+  switch (content.type) {
+    case 'title':
+      return theme.colors.primary;
+    case 'subtitle':
+      return theme.colors.secondary;
+    case 'image':
+    case 'chart':
+      return theme.colors.muted ?? theme.colors.secondary;
+    default:
+      return theme.colors.text;
+  }
+}
@@ -0,0 +1,168 @@
+// Slide layouts - the placeholder regions behind each Slide.layout template
+// The generator and the editor pour a slide's elements into these regions and the PPTX
+// exporter turns them into slide masters, so every renderer shows the same layout
+
+import type { Slide, SlideContent } from '@/types/slides';
+import type { ContentBox } from '@/lib/slide-geometry';
+
+export type SlideLayout = NonNullable<Slide['layout']>;
+
+/**
+ * Where each kind of element goes on a layout, in percent of the slide
+ */
+export interface LayoutRegions {
+  title: ContentBox;
+  subtitle: ContentBox;
+  body: ContentBox[]; // Text and bullets, one region per column
+  media: ContentBox | null; // Images, charts and code
+}
+
+// Display names, also used for the PPTX slide masters
+export const LAYOUT_NAMES: Record<SlideLayout, string> = {
+  title: 'Title Slide',
+  content: 'Title and Content',
+  'two-column': 'Two Column',
+  'image-focus': 'Image Focus'
+};
+
+const HEADING: Pick<LayoutRegions, 'title' | 'subtitle'> = {
+  title: { x: 5, y: 7.5, width: 90, height: 15 },
+  subtitle: { x: 5, y: 21, width: 90, height: 10 }
+};
+
+const FULL_BODY: ContentBox = { x: 8, y: 30, width: 84, height: 62 };
+const LEFT_COLUMN: ContentBox = { x: 8, y: 30, width: 42, height: 62 };
+const RIGHT_COLUMN: ContentBox = { x: 54, y: 30, width: 42, height: 62 };
+const SIDE_MEDIA: ContentBox = { x: 54, y: 28, width: 40, height: 64 };
+
+// A text column next to the media, whichever text layout was picked
+const WITH_MEDIA: LayoutRegions = { ...HEADING, body: [LEFT_COLUMN], media: SIDE_MEDIA };
+
+/**
+ * The regions of a layout - content and two-column slides make room beside any media
+ */
+export function getLayoutRegions(layout: SlideLayout, hasMedia: boolean = false): LayoutRegions {
+  switch (layout) {
+    case 'title':
+      return {
+        title: { x: 10, y: 30, width: 80, height: 20 },
+        subtitle: { x: 10, y: 54, width: 80, height: 12 },
+        body: [{ x: 10, y: 70, width: 80, height: 22 }],
+        media: null
+      };
+    case 'content':
+      return hasMedia ? WITH_MEDIA : { ...HEADING, body: [FULL_BODY], media: null };
+    case 'two-column':
+      return hasMedia ? WITH_MEDIA : { ...HEADING, body: [LEFT_COLUMN, RIGHT_COLUMN], media: null };
+    case 'image-focus':
+      return {
+        ...HEADING,
+        body: [{ x: 8, y: 80, width: 84, height: 14 }],
+        media: { x: 10, y: 24, width: 80, height: 52 }
+      };
+  }
+}
+
+export const isMediaContent = (content: SlideContent) =>
+  content.type === 'image' || content.type === 'chart' || content.type === 'code';
+
+const isBodyContent = (content: SlideContent) => content.type === 'text' || content.type === 'bullet';
+
+// Bullet lists this long read better split over two columns
+const TWO_COLUMN_MIN_BULLETS = 6;
+
+/**
+ * Pick the layout that suits a slide's elements - a heading alone is a title slide,
+ * images (even ones the AI only described) get the stage, and long lists split in two
+ */
+export function chooseLayout(contents: readonly SlideContent[]): SlideLayout {
+  const body = contents.filter(isBodyContent);
+  const media = contents.filter(isMediaContent);
+
+  if (media.length === 0 && body.length === 0) return 'title';
+  if (contents.some(content => content.type === 'image') && body.length <= 3) return 'image-focus';
+  if (media.length === 0 && body.every(content => content.type === 'bullet') && body.length >= TWO_COLUMN_MIN_BULLETS) {
+    return 'two-column';
+  }
+  return 'content';
+}
+
+// Row height a body element would like, before it's squeezed to fit its column
+const preferredRowHeight = (content: SlideContent) => content.type === 'text' ? 18 : 10;
+
+// Space between media sharing one region
+const MEDIA_GAP = 2;
+
+const centerOf = (box: ContentBox) => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
+
+const place = (content: SlideContent, box: ContentBox, alignment?: 'left' | 'center'): SlideContent => ({
+  ...content,
+  // Centered elements are anchored at their center (see getContentBox)
+  position: alignment === 'center' ? centerOf(box) : { x: box.x, y: box.y },
+  size: { width: box.width, height: box.height },
+  ...(alignment && { style: { ...content.style, alignment } })
+});
+
+/**
+ * Lay a slide's elements out in the regions of one of the layout templates.
+ * Title layouts have no media region, so their images stay where they are.
+ */
+export function arrangeSlide(slide: Slide, layout: SlideLayout): Slide {
+  const media = slide.contents.filter(isMediaContent);
+  const body = slide.contents.filter(isBodyContent);
+  const regions = getLayoutRegions(layout, media.length > 0);
+
+  const arranged = new Map<string, SlideContent>();
+
+  for (const content of slide.contents) {
+    if (content.type === 'title') arranged.set(content.id, place(content, regions.title, 'center'));
+    if (content.type === 'subtitle') arranged.set(content.id, place(content, regions.subtitle, 'center'));
+  }
+
+  // Fill the columns in order, each row as tall as it likes unless the column runs out of room
+  const perColumn = Math.ceil(body.length / regions.body.length);
+  regions.body.forEach((column, columnIndex) => {
+    const rows = body.slice(columnIndex * perColumn, (columnIndex + 1) * perColumn);
+    const preferred = rows.reduce((total, content) => total + preferredRowHeight(content), 0);
+    const scale = Math.min(1, column.height / (preferred || 1));
+
+    let y = column.y;
+    rows.forEach(content => {
+      const height = preferredRowHeight(content) * scale;
+      arranged.set(content.id, place(content, { x: column.x, y, width: column.width, height }, 'left'));
+      y += height;
+    });
+  });
+
+  const mediaRegion = regions.media;
+  if (mediaRegion) {
+    const share = mediaRegion.height / media.length;
+    media.forEach((content, index) => {
+      const gap = media.length > 1 ? MEDIA_GAP : 0;
+      arranged.set(content.id, place(content, { ...mediaRegion, y: mediaRegion.y + index * share, height: share - gap }));
+    });
+  }
+
+  return {
+    ...slide,
+    layout,
+    contents: slide.contents.map(content => arranged.get(content.id) ?? content)
+  };
+}
+
+/**
+ * The layout regions a slide leaves empty - the editor outlines these so a new
+ * image-focus slide shows where its image goes
+ */
+export function getEmptyRegions(slide: Slide): ContentBox[] {
+  if (!slide.layout) return [];
+
+  const has = (match: (content: SlideContent) => boolean) => slide.contents.some(match);
+  const regions = getLayoutRegions(slide.layout, has(isMediaContent));
+
+  return [
+    ...(has(content => content.type === 'title') ? [] : [regions.title]),
+    ...(has(isBodyContent) || slide.layout === 'title' ? [] : regions.body),
+    ...(regions.media && !has(isMediaContent) ? [regions.media] : [])
+  ];
+}
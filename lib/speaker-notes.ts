@@ -0,0 +1,94 @@
+// Speaker notes - structured AI notes for every slide, and the plain text exporters show
+// Notes are written by the vision provider one slide at a time, a few slides at once,
+// so a long deck doesn't burst through the AI quota. Safe to import from client components.
+
+import type { VisionProvider } from '@/lib/vision-provider';
+import type { Slide, SlidePresentation, SpeakerNotes } from '@/types/slides';
+
+// Slides written at the same time - each is one AI call
+export const NOTES_CONCURRENCY = 3;
+
+/**
+ * What a slide says, as the notes prompt (and the mock provider) sees it
+ */
+export function describeSlide(slide: Pick<Slide, 'title' | 'contents'>): { title: string; points: string[] } {
+  return {
+    title: slide.title,
+    points: slide.contents
+      .filter(content => content.type !== 'title' && content.content.trim())
+      .map(content => content.type === 'image' ? `[Image: ${content.content}]` : content.content)
+  };
+}
+
+/**
+ * Notes as plain text - PowerPoint's notes pane, PDF notes pages and presenter view
+ */
+export function formatSpeakerNotes(notes: string | SpeakerNotes): string {
+  if (typeof notes === 'string') return notes;
+
+  const list = (items: readonly string[]) => items.map(item => `- ${item}`).join('\n');
+  return [
+    `Opening: ${notes.opening}`,
+    `Main points:\n${list(notes.mainPoints)}`,
+    `Timing: ${notes.timing}`,
+    `Transition: ${notes.transition}`,
+    ...(notes.questions.length > 0 ? [`Q&A prep:\n${list(notes.questions)}`] : [])
+  ].join('\n\n');
+}
+
+// Older decks keep their notes in speakerNotes
+export const getNotesText = (slide: Pick<Slide, 'notes' | 'speakerNotes'>): string =>
+  slide.notes ? formatSpeakerNotes(slide.notes) : slide.speakerNotes ?? '';
+
+/**
+ * Run `task` over every item with at most `limit` running at once; results keep the input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]!, index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Write notes for every slide. A slide whose notes fail keeps the notes it had,
+ * so one bad answer doesn't cost the whole deck. Once the signal aborts, the
+ * slides not started yet are left as they are.
+ */
+export async function addSpeakerNotes(
+  presentation: SlidePresentation,
+  provider: Pick<VisionProvider, 'name' | 'generateSpeakerNotes'>,
+  options: {
+    presentationType?: string;
+    concurrency?: number;
+    signal?: AbortSignal;
+    onSlideDone?: (completed: number, total: number) => void;
+  } = {}
+): Promise<SlidePresentation> {
+  const total = presentation.slides.length;
+  let completed = 0;
+  const slides = await mapWithConcurrency(presentation.slides, options.concurrency ?? NOTES_CONCURRENCY, async slide => {
+    if (options.signal?.aborted) return slide;
+    try {
+      const notes = await provider.generateSpeakerNotes(slide, options.presentationType);
+      return { ...slide, notes };
+    } catch (error) {
+      console.error(`Speaker notes failed for slide "${slide.title}" (${provider.name}):`, error);
+      return slide;
+    } finally {
+      options.onSlideDone?.(++completed, total);
+    }
+  });
+  return { ...presentation, slides };
+}
@@ -0,0 +1,186 @@
+// Text fitting - checks whether an element's text fits its box and shrinks it when not
+// There's no DOM on the server, so text is measured from per-character width estimates
+// for a typical sans-serif face; good enough to catch runaway bullet lists and titles.
+
+import type { Slide, SlideContent, SlidePresentation, SlideTheme } from '@/types/slides';
+import {
+  REFERENCE_SLIDE_HEIGHT_PX,
+  REFERENCE_SLIDE_WIDTH_PX,
+  getContentBox,
+  getFontSizePx,
+  isBoldWeight
+} from '@/lib/slide-geometry';
+
+// Matches the leading the slide renderer uses (leading-tight)
+const LINE_HEIGHT = 1.25;
+
+// Text boxes keep a little room at their edges (PowerPoint's default inset is 0.1in)
+const INSET_X_PX = 10;
+const INSET_Y_PX = 4;
+
+// Bullets are indented to make room for the marker
+const BULLET_INDENT_EM = 1.2;
+
+// The smallest each kind of text may shrink to and still read from the back of the room,
+// in a sans-serif face - getMinFontSizePx adjusts them for the theme's fonts
+export const MIN_FONT_SIZES_PX: Record<SlideContent['type'], number> = {
+  title: 28,
+  subtitle: 20,
+  bullet: 16,
+  text: 14,
+  code: 11,
+  chart: 11,
+  image: 11
+};
+
+// Typical lowercase height (x-height, in em) by generic family - how well small text reads
+// at a distance follows it, so faces with shorter lowercase get a bigger floor
+const X_HEIGHT_EM = { 'sans-serif': 0.52, serif: 0.46, monospace: 0.52 } as const;
+
+const genericFamily = (stack: string | undefined): keyof typeof X_HEIGHT_EM => {
+  const families = stack?.toLowerCase().split(',').map(family => family.trim()) ?? [];
+  if (families.includes('monospace')) return 'monospace';
+  return families.includes('serif') ? 'serif' : 'sans-serif';
+};
+
+/**
+ * The smallest size an element may shrink to in the theme's fonts
+ * Theme spacing doesn't come into it - text boxes keep the same inset whatever the theme
+ */
+export function getMinFontSizePx(type: SlideContent['type'], theme?: Pick<SlideTheme, 'fonts'>): number {
+  const font = type === 'title' || type === 'subtitle'
+    ? theme?.fonts.heading
+    : type === 'code' ? theme?.fonts.code ?? 'monospace' : theme?.fonts.body;
+  return Math.round(MIN_FONT_SIZES_PX[type] * (X_HEIGHT_EM['sans-serif'] / X_HEIGHT_EM[genericFamily(font)]));
+}
+
+const FONT_STEP_PX = 1;
+
+const TEXT_TYPES: ReadonlySet<SlideContent['type']> = new Set(['title', 'subtitle', 'bullet', 'text', 'code']);
+
+// Average advance widths in em, by character class
+const charWidth = (char: string): number => {
+  if (char === ' ') return 0.28;
+  if (/[iljI.,:;'|!`]/.test(char)) return 0.28;
+  if (/[frt()[\]{}\-]/.test(char)) return 0.36;
+  if (/[mwMW@%]/.test(char)) return 0.86;
+  if (/[A-Z]/.test(char)) return 0.66;
+  if (/[0-9]/.test(char)) return 0.56;
+  if (/[a-z]/.test(char)) return 0.52;
+  return 0.6;
+};
+
+/**
+ * Estimated width of a run of text in pixels
+ */
+export function measureTextWidth(text: string, fontSizePx: number, options: { bold?: boolean; monospace?: boolean } = {}): number {
+  const ems = options.monospace
+    ? text.length * 0.6
+    : [...text].reduce((total, char) => total + charWidth(char), 0) * (options.bold ? 1.06 : 1);
+  return ems * fontSizePx;
+}
+
+/**
+ * How many lines text wraps to in the given width - breaks between words, and inside
+ * words only when one is wider than the whole line
+ */
+export function countLines(text: string, widthPx: number, fontSizePx: number, options: { bold?: boolean; monospace?: boolean } = {}): number {
+  const space = measureTextWidth(' ', fontSizePx, options);
+
+  return text.split('\n').reduce((lines, paragraph) => {
+    let count = 1;
+    let lineWidth = 0;
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const width = measureTextWidth(word, fontSizePx, options);
+      if (width > widthPx) {
+        // Overlong words wrap mid-word across as many lines as they need
+        const extra = lineWidth > 0 ? 1 : 0;
+        count += extra + Math.ceil(width / widthPx) - 1;
+        lineWidth = width % widthPx;
+      } else if (lineWidth === 0) {
+        lineWidth = width;
+      } else if (lineWidth + space + width <= widthPx) {
+        lineWidth += space + width;
+      } else {
+        count++;
+        lineWidth = width;
+      }
+    }
+    return lines + count;
+  }, 0);
+}
+
+/**
+ * How many pixels of an element's text spill out of the bottom of its box - 0 when it fits
+ */
+export function getTextOverflowPx(content: SlideContent, fontSizePx: number = getFontSizePx(content)): number {
+  if (!TEXT_TYPES.has(content.type)) return 0;
+
+  const box = getContentBox(content);
+  const options = {
+    bold: isBoldWeight(content.style?.fontWeight) || content.type === 'title',
+    monospace: content.type === 'code'
+  };
+  const indent = content.type === 'bullet' ? BULLET_INDENT_EM * fontSizePx : 0;
+  const width = (box.width / 100) * REFERENCE_SLIDE_WIDTH_PX - 2 * INSET_X_PX - indent;
+  const height = (box.height / 100) * REFERENCE_SLIDE_HEIGHT_PX - 2 * INSET_Y_PX;
+
+  const needed = countLines(content.content, Math.max(width, fontSizePx), fontSizePx, options) * fontSizePx * LINE_HEIGHT;
+  return Math.max(0, needed - height);
+}
+
+const toRem = (px: number) => `${Math.round((px / 16) * 1000) / 1000}rem`;
+
+/**
+ * Shrink an element's font, one pixel at a time, until its text fits or it reaches the
+ * smallest size for its type in the theme's fonts. Returns the element untouched when it already fits.
+ */
+export function fitContentText(content: SlideContent, theme?: Pick<SlideTheme, 'fonts'>): SlideContent {
+  const original = getFontSizePx(content);
+  const minimum = Math.min(original, getMinFontSizePx(content.type, theme));
+
+  let size = original;
+  while (size > minimum && getTextOverflowPx(content, size) > 0) {
+    size = Math.max(minimum, size - FONT_STEP_PX);
+  }
+  return size === original ? content : { ...content, style: { ...content.style, fontSize: toRem(size) } };
+}
+
+/**
+ * Shrink every element on the slide whose text doesn't fit its box
+ */
+export function fitSlideText(slide: Slide): Slide {
+  let changed = false;
+  const contents = slide.contents.map(content => {
+    const fitted = fitContentText(content, slide.theme);
+    changed ||= fitted !== content;
+    return fitted;
+  });
+  return changed ? { ...slide, contents } : slide;
+}
+
+export const getOverflowingContent = (slide: Slide): SlideContent[] =>
+  slide.contents.filter(content => getTextOverflowPx(content) > 0);
+
+/**
+ * Slides whose text still runs out of its box, even at the smallest font sizes
+ */
+export interface QualityReport {
+  overflowingSlides: {
+    slideId: string;
+    slideNumber: number; // 1-based, as shown in the editor
+    title: string;
+    contentIds: string[];
+  }[];
+}
+
+export function getQualityReport(presentation: Pick<SlidePresentation, 'slides'>): QualityReport {
+  return {
+    overflowingSlides: presentation.slides.flatMap((slide, index) => {
+      const overflowing = getOverflowingContent(slide);
+      return overflowing.length > 0
+        ? [{ slideId: slide.id, slideNumber: index + 1, title: slide.title, contentIds: overflowing.map(content => content.id) }]
+        : [];
+    })
+  };
+}
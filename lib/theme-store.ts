@@ -0,0 +1,143 @@
+// Custom themes - the ones users build in the theme editor, saved to MongoDB
+// Each theme is one document in the `themes` collection, owned by the user who made it
+
+import { nanoid } from 'nanoid';
+import type { z } from 'zod';
+import { connectToDatabase } from '@/lib/mongodb';
+import { AuthorizationError, NotFoundError } from '@/lib/errors';
+import { assertReadableTheme, getThemeById } from '@/lib/themes';
+import type { ThemeInputSchema } from '@/utils/validation-schemas';
+import type { SlideTheme } from '@/types/slides';
+
+export type ThemeInput = z.infer<typeof ThemeInputSchema>;
+
+/**
+ * A saved theme, exactly as it lives in the database
+ */
+export interface ThemeRecord extends Omit<SlideTheme, 'id'> {
+  _id: string;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Everything the theme picker offers one user
+ */
+export interface ThemeCatalog {
+  builtIn: SlideTheme[];
+  custom: SlideTheme[];
+}
+
+const COLLECTION_NAME = 'themes';
+
+const getCollection = async () => {
+  const { db } = await connectToDatabase();
+  return db.collection<ThemeRecord>(COLLECTION_NAME);
+};
+
+export function toSlideTheme(record: ThemeRecord): SlideTheme {
+  return {
+    id: record._id,
+    name: record.name,
+    ...(record.description && { description: record.description }),
+    colors: record.colors,
+    fonts: record.fonts,
+    layout: record.layout,
+    ...(record.spacing && { spacing: record.spacing })
+  };
+}
+
+/**
+ * One user's saved themes, oldest first so the picker order stays put
+ */
+export async function listThemes(userId: string): Promise<SlideTheme[]> {
+  const collection = await getCollection();
+  const records = await collection.find({ userId }).sort({ createdAt: 1 }).toArray();
+  return records.map(toSlideTheme);
+}
+
+export async function getTheme(id: string, ownerId: string): Promise<ThemeRecord> {
+  const collection = await getCollection();
+  const record = await collection.findOne({ _id: id });
+
+  if (!record) {
+    throw new NotFoundError(`Theme ${id} not found`);
+  }
+  if (record.userId !== ownerId) {
+    throw new AuthorizationError('You do not have access to this theme');
+  }
+
+  return record;
+}
+
+/**
+ * Save a new theme - refused if any of its text would fail WCAG AA contrast
+ */
+export async function createTheme(input: ThemeInput, userId: string): Promise<ThemeRecord> {
+  const theme = input as Omit<SlideTheme, 'id'>;
+  assertReadableTheme(theme);
+  const collection = await getCollection();
+  const now = new Date();
+
+  const record: ThemeRecord = {
+    ...theme,
+    _id: nanoid(),
+    userId,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await collection.insertOne(record);
+  return record;
+}
+
+/**
+ * Replace a saved theme with the editor's current version
+ * Presentations already made with it keep the copy of the theme they were built with.
+ */
+export async function updateTheme(id: string, ownerId: string, input: ThemeInput): Promise<ThemeRecord> {
+  const theme = input as Omit<SlideTheme, 'id'>;
+  assertReadableTheme(theme);
+  const collection = await getCollection();
+  const current = await getTheme(id, ownerId);
+
+  const record: ThemeRecord = {
+    ...theme,
+    _id: id,
+    userId: ownerId,
+    createdAt: current.createdAt,
+    updatedAt: new Date()
+  };
+
+  const result = await collection.replaceOne({ _id: id, userId: ownerId }, record);
+  if (result.matchedCount === 0) {
+    throw new NotFoundError(`Theme ${id} not found`);
+  }
+
+  return record;
+}
+
+export async function deleteTheme(id: string, ownerId: string): Promise<void> {
+  const collection = await getCollection();
+  await getTheme(id, ownerId);
+  const result = await collection.deleteOne({ _id: id, userId: ownerId });
+
+  if (result.deletedCount === 0) {
+    throw new NotFoundError(`Theme ${id} not found`);
+  }
+}
+
+/**
+ * Turn the theme ID a client sent into a theme - built-in themes first, then the
+ * user's own. Unknown IDs and other people's themes resolve to nothing, so the
+ * slide generator falls back to the AI's suggestion.
+ */
+export async function resolveTheme(themeId: string | undefined, userId: string | null): Promise<SlideTheme | undefined> {
+  const builtIn = getThemeById(themeId);
+  if (builtIn || !themeId || !userId) return builtIn;
+
+  const collection = await getCollection();
+  const record = await collection.findOne({ _id: themeId, userId });
+  return record ? toSlideTheme(record) : undefined;
+}
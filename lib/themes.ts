@@ -0,0 +1,168 @@
+// Theme registry - the built-in themes plus the rules every theme has to follow
+// Safe to import from client components: saved custom themes live in lib/theme-store.
+
+import { getContrastRatio } from '@/lib/accessibility';
+import { ValidationError } from '@/lib/errors';
+import type { SlideTheme } from '@/types/slides';
+
+// Predefined themes that look great and work in any business setting
+// These are carefully designed with good contrast and professional appeal
+export const DEFAULT_THEMES: SlideTheme[] = [
+  {
+    id: 'modern',
+    name: 'Modern Professional',
+    colors: {
+      primary: '#2563eb',    // Clean blue
+      secondary: '#64748b',  // Subtle gray
+      accent: '#06b6d4',     // Bright cyan
+      background: '#ffffff', // Pure white
+      text: '#1e293b'        // Dark gray for readability
+    },
+    fonts: {
+      heading: 'Inter, sans-serif', // Clean, modern font
+      body: 'Inter, sans-serif'
+    },
+    layout: 'modern'
+  },
+  {
+    id: 'minimal',
+    name: 'Clean Minimal',
+    colors: {
+      primary: '#000000',    // Pure black
+      secondary: '#6b7280',  // Medium gray
+      accent: '#f59e0b',     // Warm amber
+      background: '#f9fafb', // Off-white
+      text: '#111827'        // Almost black
+    },
+    fonts: {
+      heading: 'SF Pro Display, sans-serif', // Apple's font - clean and elegant
+      body: 'SF Pro Text, sans-serif'
+    },
+    layout: 'minimal'
+  },
+  {
+    id: 'creative',
+    name: 'Creative Bold',
+    colors: {
+      primary: '#7c3aed',    // Rich purple
+      secondary: '#ec4899',  // Bright pink
+      accent: '#f97316',     // Orange pop
+      background: '#13112e', // Deep navy - dark enough for purple titles to pass AA
+      text: '#f8fafc'        // Light text for contrast
+    },
+    fonts: {
+      heading: 'Space Grotesk, sans-serif', // Modern geometric font
+      body: 'Inter, sans-serif'
+    },
+    layout: 'creative'
+  },
+  {
+    id: 'classic',
+    name: 'Business Classic',
+    colors: {
+      primary: '#1f2937',
+      secondary: '#4b5563',
+      accent: '#dc2626',
+      background: '#ffffff',
+      text: '#374151'
+    },
+    fonts: {
+      heading: 'Georgia, serif',
+      body: 'system-ui, sans-serif'
+    },
+    layout: 'classic'
+  }
+];
+
+// Older upload forms sent their own theme names - map them onto the themes above
+const THEME_ALIASES: Record<string, string> = {
+  minimalist: 'minimal',
+  corporate: 'modern',
+  professional: 'modern'
+};
+
+/**
+ * Look up a built-in theme by ID or by one of the upload form's theme names
+ */
+export function getThemeById(themeId: string | undefined): SlideTheme | undefined {
+  if (!themeId) return undefined;
+  const id = THEME_ALIASES[themeId] ?? themeId;
+  return DEFAULT_THEMES.find(theme => theme.id === id);
+}
+
+export const DEFAULT_THEME_SPACING: NonNullable<SlideTheme['spacing']> = {
+  small: '0.5rem',
+  medium: '1rem',
+  large: '2rem'
+};
+
+// Fonts offered in the theme editor - all have sensible fallbacks when not installed
+export const THEME_FONT_OPTIONS = [
+  'Inter, sans-serif',
+  'system-ui, sans-serif',
+  'Space Grotesk, sans-serif',
+  'SF Pro Display, sans-serif',
+  'SF Pro Text, sans-serif',
+  'Georgia, serif',
+  'Merriweather, serif',
+  'JetBrains Mono, monospace'
+];
+
+export const THEME_LAYOUTS: SlideTheme['layout'][] = ['modern', 'minimal', 'creative', 'classic'];
+
+// WCAG AA minimums - titles and subtitles are large text, everything else is normal text
+export const WCAG_AA_NORMAL_TEXT = 4.5;
+export const WCAG_AA_LARGE_TEXT = 3;
+
+type ThemeColor = keyof SlideTheme['colors'];
+
+/**
+ * One text/background pair of a theme and whether it is readable
+ */
+export interface ContrastCheck {
+  label: string;
+  foreground: ThemeColor;
+  background: ThemeColor;
+  ratio: number;
+  minimum: number;
+  passes: boolean;
+}
+
+// The pairs slides actually draw - see getDefaultTextColor in lib/slide-geometry
+const CONTRAST_PAIRS: { label: string; foreground: ThemeColor; background: ThemeColor; minimum: number }[] = [
+  { label: 'Body text', foreground: 'text', background: 'background', minimum: WCAG_AA_NORMAL_TEXT },
+  { label: 'Titles', foreground: 'primary', background: 'background', minimum: WCAG_AA_LARGE_TEXT },
+  { label: 'Subtitles', foreground: 'secondary', background: 'background', minimum: WCAG_AA_LARGE_TEXT },
+  { label: 'Captions', foreground: 'muted', background: 'background', minimum: WCAG_AA_NORMAL_TEXT },
+  { label: 'Code', foreground: 'text', background: 'surface', minimum: WCAG_AA_NORMAL_TEXT }
+];
+
+/**
+ * Contrast of every text/background pair the theme defines (optional colors are skipped when unset)
+ */
+export function checkThemeContrast(colors: SlideTheme['colors']): ContrastCheck[] {
+  return CONTRAST_PAIRS.flatMap(pair => {
+    const foreground = colors[pair.foreground];
+    const background = colors[pair.background];
+    if (!foreground || !background) return [];
+
+    const ratio = getContrastRatio(foreground, background);
+    return [{ ...pair, ratio, passes: ratio >= pair.minimum }];
+  });
+}
+
+export const formatContrastRatio = (ratio: number) => `${(Math.floor(ratio * 100) / 100).toFixed(2)}:1`;
+
+/**
+ * Refuse a theme whose text would be hard to read - checked on every save
+ */
+export function assertReadableTheme(theme: Pick<SlideTheme, 'colors'>): void {
+  const failure = checkThemeContrast(theme.colors).find(check => !check.passes);
+  if (failure) {
+    throw new ValidationError(
+      `${failure.label} contrast is ${formatContrastRatio(failure.ratio)} - WCAG AA needs at least ${failure.minimum}:1`,
+      `colors.${failure.foreground}`,
+      'THEME_CONTRAST_TOO_LOW'
+    );
+  }
+}
@@ -36,3 +36,18 @@ export function sanitizeInput(input: string): string {
     .replace(/javascript:/gi, '')
     .substring(0, 1000);
 }
+
+export function toSafeFilename(title: string | undefined, extension: string): string {
+  const base = (title || 'presentation')
+    .replace(/[^\w\s.-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .substring(0, 100);
+
+  return `${base || 'presentation'}.${extension}`;
+}
+
+// Only same-site paths are allowed as a place to go after signing in - anything else goes home
+export function toSafeReturnPath(value: string | null | undefined): string {
+  return value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\') ? value : '/';
+}
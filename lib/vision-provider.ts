@@ -0,0 +1,84 @@
+// Vision providers - the routes ask for "an analysis of this image" without caring
+// which model (or fixture) answers, so the pipeline runs with or without an API key
+
+import {
+  analyzeImageWithGeminiPro,
+  generateSmartTheme,
+  generateSpeakerNotes,
+  optimizeSlideFlow,
+  rewriteSlideContent
+} from '@/lib/gemini-vision-enhanced';
+import { mockVisionProvider } from '@/lib/mock-vision-provider';
+import { AppError, ExternalServiceError, RateLimitError } from '@/lib/errors';
+import type { RewriteRequest } from '@/lib/rewrite';
+import type { FlowMode, GeminiAnalysisResult, Slide, SlideTheme, SpeakerNotes } from '@/types/slides';
+
+export interface VisionProvider {
+  readonly name: string;
+  // False when required configuration (API keys) is missing
+  isConfigured(): boolean;
+  analyzeImage(image: Buffer, mimeType: string, context?: string): Promise<GeminiAnalysisResult>;
+  generateTheme(contentSummary: string, brandColors?: string[], industry?: string): Promise<SlideTheme>;
+  generateSpeakerNotes(slide: Pick<Slide, 'title' | 'contents'>, presentationType?: string): Promise<SpeakerNotes>;
+  // Slide ids in the proposed order - may be incomplete; see resolveSlideOrder
+  optimizeSlideFlow(slides: readonly Pick<Slide, 'id' | 'title' | 'contents'>[], mode: FlowMode): Promise<string[]>;
+  // The rewritten text, in pieces as it's generated
+  rewriteContent(request: RewriteRequest): AsyncIterable<string>;
+}
+
+export const geminiVisionProvider: VisionProvider = {
+  name: 'gemini',
+  isConfigured: () => Boolean(process.env.GEMINI_API_KEY),
+  analyzeImage: (image, mimeType, context) => analyzeImageWithGeminiPro(image, mimeType, context),
+  generateTheme: (contentSummary, brandColors, industry) => generateSmartTheme(contentSummary, brandColors, industry),
+  generateSpeakerNotes: (slide, presentationType) => generateSpeakerNotes(slide, presentationType),
+  optimizeSlideFlow: (slides, mode) => optimizeSlideFlow(slides, mode),
+  rewriteContent: request => rewriteSlideContent(request),
+};
+
+const PROVIDERS: Record<string, VisionProvider> = {
+  gemini: geminiVisionProvider,
+  mock: mockVisionProvider,
+};
+
+// Context for one image of a multi-image upload, so each analysis sticks to its own shot
+export function getImageContext(context: string, index: number, total: number): string {
+  return total > 1
+    ? `${context}. This is image ${index + 1} of ${total} from the same session - cover only what this image shows.`
+    : context;
+}
+
+// Pick the provider named by VISION_PROVIDER (defaults to Gemini)
+export function getVisionProvider(name = process.env.VISION_PROVIDER): VisionProvider {
+  const key = name?.trim().toLowerCase() || 'gemini';
+  const provider = PROVIDERS[key];
+  if (!provider) {
+    throw new Error(`Unknown vision provider "${name}". Use one of: ${Object.keys(PROVIDERS).join(', ')}`);
+  }
+  return provider;
+}
+
+/**
+ * The provider from VISION_PROVIDER, or a 500 for routes that need one when it's missing its API key
+ */
+export function getConfiguredVisionProvider(): VisionProvider {
+  const provider = getVisionProvider();
+  if (!provider.isConfigured()) {
+    throw new AppError(`Vision provider "${provider.name}" is not configured`, 'PROVIDER_NOT_CONFIGURED', 500);
+  }
+  return provider;
+}
+
+// How the providers' SDKs word running out of quota
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof Error && /quota|rate limit/i.test(error.message);
+
+/**
+ * Classify a failed provider call - quota errors become 429s, and anything not already an
+ * AppError becomes an upstream failure with `message`
+ */
+export function toProviderError(error: unknown, provider: VisionProvider, message: string): AppError {
+  if (error instanceof AppError) return error;
+  if (isQuotaError(error)) return new RateLimitError('AI quota exceeded. Please try again later.');
+  return new ExternalServiceError(message, provider.name, error instanceof Error ? error : undefined);
+}
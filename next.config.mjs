@@ -17,7 +17,7 @@ const nextConfig = {
         },
       },
     },
-    serverComponentsExternalPackages: ['@google/generative-ai'],
+    serverComponentsExternalPackages: ['@google/generative-ai', 'jspdf'],
     typedRoutes: true,
   },
 
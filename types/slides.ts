@@ -28,6 +28,11 @@ export interface GeminiAnalysisResult {
       content?: string;      // Main content text
       bullets: string[];     // List of bullet points
       images?: string[];     // Optional image descriptions
+      source?: {             // Uploaded image the section came from
+        image: number;       // Position in upload order, starting at 1
+        name?: string;       // Original file name
+        page?: number;       // Page number when the upload was a PDF
+      };
     }[];
     conclusion?: string;     // Optional conclusion
   };
@@ -35,6 +40,7 @@ export interface GeminiAnalysisResult {
   colorPalette: string[];    // Suggested colors as hex codes
   confidence: number;        // How confident the AI is (0-1)
   processingTime?: number;   // Time taken for analysis in ms
+  repairAttempts?: number;   // Times the model was asked to fix invalid output
 }
 
 // ===================
@@ -68,8 +74,19 @@ export interface SlideTheme {
     readonly medium: string;
     readonly large: string;
   };
+  readonly logo?: {                    // Brand kit logo, drawn on every slide (and the PPTX master)
+    readonly src: string;             // Data URL, so exports never depend on a fetch
+    readonly placement: LogoPlacement;
+    readonly aspectRatio: number;     // Width / height of the image
+  };
+  readonly metadata?: {                // How an AI-generated theme was made
+    readonly processingTime?: number;  // Time taken to generate it in ms
+    readonly repairAttempts?: number;  // Times the model was asked to fix invalid output
+  };
 }
 
+export type LogoPlacement = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
 /**
  * Individual content element on a slide (text, image, etc.)
  */
@@ -97,17 +114,41 @@ export interface SlideContent {
   };
 }
 
+/**
+ * Data behind a 'chart' content element - stored as JSON in SlideContent.content
+ */
+export interface SlideChartData {
+  readonly type: 'bar' | 'line' | 'pie' | 'doughnut' | 'area';
+  readonly title?: string;
+  readonly labels: readonly string[];
+  readonly series: readonly {
+    readonly name: string;
+    readonly values: readonly number[];
+  }[];
+}
+
 /**
  * Animation configuration for slide content
  */
 export interface SlideAnimation {
   readonly type: 'fade' | 'slide' | 'zoom' | 'bounce' | 'none';
   readonly direction?: 'up' | 'down' | 'left' | 'right';
-  readonly duration?: number;
-  readonly delay?: number;
+  readonly duration?: number;                    // In seconds
+  readonly delay?: number;                       // In seconds
   readonly easing?: 'ease' | 'ease-in' | 'ease-out' | 'ease-in-out';
 }
 
+/**
+ * AI-written speaker notes, one field per part of the talk track
+ */
+export interface SpeakerNotes {
+  readonly opening: string;               // How to start the slide
+  readonly mainPoints: readonly string[]; // What to emphasize
+  readonly timing: string;                // Pace, pauses and roughly how long to spend
+  readonly transition: string;            // How to lead into the next slide
+  readonly questions: readonly string[];  // Likely audience questions to prepare for
+}
+
 /**
  * Individual slide in a presentation
  */
@@ -117,7 +158,7 @@ export interface Slide {
   readonly contents: readonly SlideContent[];      // All content elements on this slide
   readonly theme: SlideTheme;             // Visual theme for this slide
   readonly layout?: 'title' | 'content' | 'two-column' | 'image-focus'; // Slide layout template
-  readonly notes?: string;                // Speaker notes
+  readonly notes?: string | SpeakerNotes; // Speaker notes - typed by the user or generated
   readonly metadata?: {
     readonly order: number;               // Position in presentation
     readonly duration?: number;           // How long to display (for auto-advance)
@@ -154,6 +195,8 @@ export interface SlidePresentation {
     readonly totalSlides?: number;
     readonly estimatedDuration?: number;
     readonly originalImageName?: string;
+    readonly processingTime?: number;
+    readonly repairAttempts?: number;
   };
   readonly settings: {
     readonly autoAdvance?: boolean;
@@ -176,6 +219,7 @@ export interface ExportOptions {
   readonly format: 'pdf' | 'html' | 'pptx' | 'interactive';
   readonly quality: 'low' | 'medium' | 'high';
   readonly includeNotes?: boolean;
+  readonly notesLayout?: 'notes' | 'handout';   // One slide per page with notes below, or three per page
   readonly customTheme?: SlideTheme;
   readonly filename?: string;
   readonly compression?: boolean;
@@ -206,7 +250,7 @@ export interface PresentationSession {
  * Analysis progress tracking
  */
 export interface AnalysisProgress {
-  readonly stage: 'uploading' | 'analyzing' | 'generating' | 'optimizing' | 'complete' | 'error';
+  readonly stage: 'uploading' | 'analyzing' | 'theme' | 'generating' | 'notes' | 'optimizing' | 'complete' | 'error';
   readonly progress: number; // 0-100
   readonly message: string;
   readonly error?: string;
@@ -271,6 +315,11 @@ export type ThemeVariant =
  */
 export type PresentationFormat = 'interactive' | 'pptx' | 'pdf' | 'html';
 
+/**
+ * The stories a deck can be reordered for
+ */
+export type FlowMode = 'pitch' | 'training' | 'report' | 'sales';
+
 /**
  * Content alignment options
  */
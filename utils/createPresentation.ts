@@ -0,0 +1,67 @@
+import type { AnalysisProgress, GeminiAnalysisResult, SlidePresentation } from '@/types/slides';
+import { SlidePresentationSchema } from '@/utils/validation-schemas';
+import type { QualityReport } from '@/lib/text-fit';
+import { readEventStream, type PartialSections } from '@/lib/analysis-progress';
+
+export interface CreatedPresentation {
+  presentation: SlidePresentation;
+  analysis: GeminiAnalysisResult;
+  quality: QualityReport; // Slides whose text still overflows after fitting
+}
+
+const toCreated = (data: { presentation: unknown; analysis: GeminiAnalysisResult; quality: unknown }): CreatedPresentation => ({
+  presentation: SlidePresentationSchema.parse(data.presentation) as SlidePresentation,
+  analysis: data.analysis,
+  quality: data.quality as QualityReport,
+});
+
+// Turn one or more images or PDFs (in order) into a single presentation via /api/presentations
+// Parsing with the schema revives the dates that JSON turned into strings.
+// With onProgress the server streams its stages as it goes; aborting the signal cancels the rest.
+export async function createPresentation(options: {
+  files: File[];
+  prompt?: string;
+  theme?: string;
+  useBrandKit?: boolean; // Defaults to on - the server applies the signed-in user's brand kit
+  speakerNotes?: boolean; // Have the AI write notes for every slide
+  pages?: string; // PDF page range, e.g. "1-3,5"
+  onProgress?: (progress: AnalysisProgress) => void;
+  onSection?: (sections: PartialSections) => void; // Each page's sections, as soon as it's analyzed
+  signal?: AbortSignal;
+}): Promise<CreatedPresentation> {
+  const formData = new FormData();
+  options.files.forEach(file => formData.append('images', file));
+  if (options.pages) formData.append('pages', options.pages);
+  if (options.prompt) formData.append('prompt', options.prompt);
+  if (options.theme) formData.append('theme', options.theme);
+  if (options.useBrandKit === false) formData.append('brandKit', 'off');
+  if (options.speakerNotes) formData.append('speakerNotes', 'on');
+
+  const { onProgress, onSection } = options;
+  const res = await fetch('/api/presentations', {
+    method: 'POST',
+    body: formData,
+    ...(onProgress && { headers: { Accept: 'text/event-stream' } }),
+    ...(options.signal && { signal: options.signal }),
+  });
+
+  // Bad input is still rejected with a JSON error before any streaming starts
+  if (!onProgress || !res.ok || !res.body || !res.headers.get('content-type')?.includes('text/event-stream')) {
+    const data = await res.json();
+    if (!data.success) throw new Error(data.error || 'Presentation generation failed');
+    return toCreated(data.data);
+  }
+
+  let created: CreatedPresentation | null = null;
+  let failure: string | null = null;
+  await readEventStream(res.body, event => {
+    if (event.event === 'progress') onProgress(event.data);
+    else if (event.event === 'section') onSection?.(event.data);
+    else if (event.event === 'result') created = toCreated(event.data);
+    else failure = event.data.error;
+  });
+
+  if (failure) throw new Error(failure);
+  if (!created) throw new Error('Presentation generation stopped before it finished');
+  return created;
+}
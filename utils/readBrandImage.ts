@@ -0,0 +1,56 @@
+import { quantizeColors, type PaletteColor } from '@/lib/brand-kit';
+
+export interface BrandImage {
+  palette: PaletteColor[];
+  logo: { src: string; aspectRatio: number };
+}
+
+// Small enough to quantize instantly, big enough that thin logo strokes still count
+const PALETTE_SAMPLE_SIZE = 96;
+// Logos are shown at most ~135px wide on a slide - this leaves room for high-DPI screens
+const LOGO_MAX_SIZE = 320;
+
+const loadImage = (file: File) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(image);
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Could not read that image. Try a PNG, JPEG or WebP file.'));
+  };
+  image.src = url;
+});
+
+// Draw the image onto a canvas no bigger than maxSize on its longest side
+const drawScaled = (image: HTMLImageElement, maxSize: number) => {
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Your browser cannot read images here.');
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { canvas, context };
+};
+
+// Read a logo or brand guide in the browser: its palette for the brand kit, and a small
+// PNG copy to use as the logo. The image never goes to the AI.
+export async function readBrandImage(file: File): Promise<BrandImage> {
+  const image = await loadImage(file);
+
+  const sample = drawScaled(image, PALETTE_SAMPLE_SIZE);
+  const { data } = sample.context.getImageData(0, 0, sample.canvas.width, sample.canvas.height);
+  const logo = drawScaled(image, LOGO_MAX_SIZE);
+
+  return {
+    palette: quantizeColors(data),
+    logo: {
+      src: logo.canvas.toDataURL('image/png'),
+      aspectRatio: image.naturalWidth / image.naturalHeight
+    }
+  };
+}
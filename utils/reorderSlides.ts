@@ -0,0 +1,15 @@
+import type { FlowMode, SlidePresentation } from '@/types/slides';
+import type { SlideOrder } from '@/lib/slide-flow';
+
+// Ask /api/presentations/<id>/reorder for a better slide order - nothing changes until the user accepts it
+export async function reorderSlides(presentation: SlidePresentation, mode: FlowMode): Promise<SlideOrder> {
+  const res = await fetch(`/api/presentations/${encodeURIComponent(presentation.id)}/reorder`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ presentation, mode }),
+  });
+  const data = await res.json();
+  if (!data.success) throw new Error(data.error || 'Could not reorder the slides');
+
+  return { order: data.data.order, source: data.data.source };
+}
@@ -0,0 +1,33 @@
+import type { RewriteRequest } from '@/lib/rewrite';
+
+// Stream a rewrite from /api/rewrite, calling onText with everything received so far
+// Resolves with the full text; rejects if the request fails or the stream breaks off
+export async function rewriteWithAI(
+  request: RewriteRequest,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const res = await fetch('/api/rewrite', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    ...(signal && { signal }),
+  });
+  if (!res.ok || !res.body) {
+    const data = await res.json().catch(() => null);
+    throw new Error(data?.error || 'Could not rewrite the text');
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+    onText(text);
+  }
+  text += decoder.decode();
+  onText(text);
+  return text.trim();
+}
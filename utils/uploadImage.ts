@@ -1,8 +1,13 @@
-export async function uploadImage(file: File): Promise<string> {
+export interface UploadedImage {
+  path: string; // Object path in the bucket - store this, not the URL
+  url: string;  // Signed link that expires after an hour
+}
+
+export async function uploadImage(file: File): Promise<UploadedImage> {
   const formData = new FormData();
   formData.append('image', file);
   const res = await fetch('/api/upload-image', { method: 'POST', body: formData });
   const data = await res.json();
   if (!data.success) throw new Error(data.error || 'Upload failed');
-  return data.url;
+  return { path: data.path, url: data.url };
 }
@@ -13,26 +13,6 @@ export const ImageUploadSchema = z.object({
   // description: z.string().max(500, "Description too long.").optional(),
 });
 
-// Schema for the Gemini API route's payload.
-// Represents the expected data for AI processing.
-// Note: 'File' is a browser API that's also available in Node.js FormData.
-export const GeminiInputSchema = z.object({
-  // For browser File objects from FormData
-  file: z.instanceof(File, {
-    message: 'File data is missing or malformed for Gemini processing.',
-  }).refine(
-    (file) => file.type.startsWith('image/'),
-    { message: 'File must be an image type.' }
-  ).refine(
-    (file) => file.size > 0,
-    { message: 'File size must be positive.' }
-  ),
-  prompt: z.string().max(1000, 'Prompt must be 1000 characters or less.').optional(), // Optional prompt text, with max length.
-  theme: z.enum(['minimalist', 'dark', 'colorful'], { // Theme must be one of these specific predefined values.
-    errorMap: (issue, ctx) => ({ message: 'Invalid theme selected.' }), // Custom error message.
-  }),
-});
-
 // Schema for PPTX generation API route's payload.
 // Validates the structured content from Gemini and the selected theme.
 export const PptxGenerationSchema = z.object({
@@ -48,20 +28,392 @@ export const PptxGenerationSchema = z.object({
   }),
 });
 
+// ===================
+// PRESENTATION SCHEMAS
+// ===================
+// Mirror the interfaces in types/slides.ts so full presentations can be
+// validated when they cross an API boundary (history, exports).
+// Dates are coerced because they arrive as ISO strings in JSON bodies.
+
+const SlideAnimationSchema = z.object({
+  type: z.enum(['fade', 'slide', 'zoom', 'bounce', 'none']),
+  direction: z.enum(['up', 'down', 'left', 'right']).optional(),
+  duration: z.number().nonnegative().optional(),
+  delay: z.number().nonnegative().optional(),
+  easing: z.enum(['ease', 'ease-in', 'ease-out', 'ease-in-out']).optional(),
+});
+
+// Logos are downscaled data URLs, so every export can embed them without a fetch.
+// Brand kits and the themes built from them share this rule.
+export const MAX_LOGO_SIZE = 512 * 1024;
+
+const LogoSourceSchema = z.string()
+  .max(MAX_LOGO_SIZE, 'Logo too large. Use an image under 384KB.')
+  .regex(/^data:image\/(png|jpeg|webp);base64,[a-z0-9+/]+={0,2}$/i, 'Logo must be a PNG, JPEG or WebP image.');
+
+export const SlideThemeSchema = z.object({
+  id: z.string().min(1, 'Theme ID is required.'),
+  name: z.string().min(1, 'Theme name is required.'),
+  description: z.string().optional(),
+  colors: z.object({
+    primary: z.string(),
+    secondary: z.string(),
+    accent: z.string(),
+    background: z.string(),
+    text: z.string(),
+    surface: z.string().optional(),
+    muted: z.string().optional(),
+  }),
+  fonts: z.object({
+    heading: z.string(),
+    body: z.string(),
+    code: z.string().optional(),
+  }),
+  layout: z.enum(['classic', 'modern', 'minimal', 'creative']),
+  spacing: z.object({
+    small: z.string(),
+    medium: z.string(),
+    large: z.string(),
+  }).optional(),
+  logo: z.object({
+    src: LogoSourceSchema,
+    placement: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right']),
+    aspectRatio: z.number().positive(),
+  }).optional(),
+});
+
+export const SlideContentSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['title', 'subtitle', 'bullet', 'image', 'text', 'code', 'chart']),
+  content: z.string().max(20000, 'Slide content too long.'),
+  position: z.object({ x: z.number(), y: z.number() }),
+  size: z.object({ width: z.number(), height: z.number() }).optional(),
+  style: z.object({
+    fontSize: z.string().optional(),
+    fontWeight: z.string().optional(),
+    color: z.string().optional(),
+    backgroundColor: z.string().optional(),
+    alignment: z.enum(['left', 'center', 'right', 'justify']).optional(),
+    padding: z.string().optional(),
+    margin: z.string().optional(),
+    borderRadius: z.string().optional(),
+    animation: SlideAnimationSchema.optional(),
+  }).optional(),
+  metadata: z.object({
+    order: z.number().optional(),
+    duration: z.number().optional(),
+    delay: z.number().optional(),
+  }).optional(),
+});
+
+export const SpeakerNotesSchema = z.object({
+  opening: z.string().min(1).max(1000),
+  mainPoints: z.array(z.string().min(1).max(500)).min(1).max(8),
+  timing: z.string().min(1).max(500),
+  transition: z.string().min(1).max(500),
+  questions: z.array(z.string().min(1).max(500)).max(6),
+});
+
+export const SlideSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().max(500, 'Slide title too long.'),
+  contents: z.array(SlideContentSchema).max(100, 'Too many elements on one slide.'),
+  theme: SlideThemeSchema,
+  layout: z.enum(['title', 'content', 'two-column', 'image-focus']).optional(),
+  notes: z.union([z.string(), SpeakerNotesSchema]).optional(),
+  metadata: z.object({
+    order: z.number(),
+    duration: z.number().optional(),
+    tags: z.array(z.string()).optional(),
+    created: z.coerce.date(),
+    updated: z.coerce.date(),
+  }).optional(),
+  transitions: z.object({
+    enter: SlideAnimationSchema,
+    exit: SlideAnimationSchema,
+  }).optional(),
+  transition: z.enum(['fade', 'slide', 'zoom']).optional(),
+  background: z.object({
+    type: z.enum(['color', 'gradient', 'image']),
+    value: z.string(),
+  }).optional(),
+  speakerNotes: z.string().optional(),
+});
+
+export const SlidePresentationSchema = z.object({
+  id: z.string().min(1, 'Presentation ID is required.'),
+  title: z.string().min(1, 'Presentation title is required.').max(500, 'Presentation title too long.'),
+  slides: z.array(SlideSchema).min(1, 'At least one slide is required.').max(200, 'Too many slides.'),
+  theme: SlideThemeSchema,
+  metadata: z.object({
+    created: z.coerce.date(),
+    updated: z.coerce.date(),
+    author: z.string().optional(),
+    description: z.string().optional(),
+    version: z.string().optional(),
+    totalSlides: z.number().optional(),
+    estimatedDuration: z.number().optional(),
+    originalImageName: z.string().optional(),
+    processingTime: z.number().optional(),
+    repairAttempts: z.number().optional(),
+  }),
+  settings: z.object({
+    autoAdvance: z.boolean().optional(),
+    timing: z.number().optional(),
+    showControls: z.boolean().optional(),
+    enableKeyboardShortcuts: z.boolean().optional(),
+    fullscreenMode: z.boolean().optional(),
+    showProgress: z.boolean().optional(),
+  }),
+});
+
+// ===================
+// AI ANALYSIS SCHEMAS
+// ===================
+// The model doesn't always use the field names we ask for - older prompts and the
+// quota fallback say `title`/`bulletPoints` where the generator expects `heading`/`bullets`.
+// Normalizing here means the slide generator only ever sees one shape.
+
+const AnalysisSectionSchema = z.object({
+  heading: z.string().optional(),
+  title: z.string().optional(),
+  content: z.string().optional(),
+  bullets: z.array(z.string()).optional(),
+  bulletPoints: z.array(z.string()).optional(),
+  images: z.array(z.string()).optional(),
+  source: z.object({
+    image: z.number().int().positive(),
+    name: z.string().optional(),
+    page: z.number().int().positive().optional(),
+  }).optional(),
+}).transform((section) => ({
+  heading: section.heading || section.title || '',
+  bullets: section.bullets ?? section.bulletPoints ?? [],
+  ...(section.content && { content: section.content }),
+  ...(section.images && { images: section.images }),
+  ...(section.source && { source: section.source }),
+}));
+
+export const GeminiAnalysisSchema = z.object({
+  structuredContent: z.object({
+    title: z.string().min(1, 'Analysis title is required.'),
+    introduction: z.string().optional(),
+    sections: z.array(AnalysisSectionSchema),
+    conclusion: z.string().optional(),
+  }),
+  suggestedTheme: z.string().default('modern'),
+  colorPalette: z.array(z.string()).default([]),
+  confidence: z.number().min(0).max(1).default(0.5),
+  processingTime: z.number().optional(),
+  repairAttempts: z.number().int().nonnegative().optional(),
+});
+
+// Schema for the presentation generation route's form fields.
+export const PresentationRequestSchema = z.object({
+  prompt: z.string().max(1000, 'Prompt too long.').optional(),
+  theme: z.string().max(100, 'Theme name too long.').optional(),
+  brandKit: z.enum(['on', 'off']).optional(), // Signed-in users' brand kit applies unless turned off
+  speakerNotes: z.enum(['on', 'off']).optional(), // AI speaker notes cost one call per slide, so they're opt-in
+  // Which PDF pages to use, e.g. "1-3,5" - checked against the document when it's split
+  pages: z.string().max(100, 'Page range too long.').optional(),
+});
+
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const ALLOWED_DOCUMENT_TYPES = ['application/pdf'];
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+export const MAX_DOCUMENT_SIZE = 20 * 1024 * 1024;
+export const MAX_IMAGES = 10;
+// Analysis runs one page at a time, so this bounds how long a request can take
+export const MAX_PDF_PAGES = 20;
+
+export const isDocumentType = (type: string) => ALLOWED_DOCUMENT_TYPES.includes(type);
+
+// Size limit for an upload of the given type - documents hold many pages, so they get more room
+export const getMaxUploadSize = (type: string) => (isDocumentType(type) ? MAX_DOCUMENT_SIZE : MAX_IMAGE_SIZE);
+
+// A single uploaded image or PDF. Checked as a Blob with a name rather than `instanceof File`,
+// which fails when the File class comes from a different realm (e.g. undici in tests).
+const UploadFileSchema = z.custom<File>(
+  (value) => value instanceof Blob && typeof (value as File).name === 'string',
+  { message: 'Image file is required.' }
+).refine(
+  (file) => ALLOWED_IMAGE_TYPES.includes(file.type) || isDocumentType(file.type),
+  { message: 'Invalid file type. Use JPEG, PNG, WebP or PDF.' }
+).refine(
+  (file) => file.size > 0 && file.size <= getMaxUploadSize(file.type),
+  { message: 'File too large or empty. Maximum size is 5MB for images and 20MB for PDFs.' }
+);
+
+// Schema for the vision analysis routes' multipart payload.
+// `images` keeps upload order - several shots of one whiteboard (or a PDF's pages) become one deck.
+export const GeminiInputSchema = PresentationRequestSchema.extend({
+  images: z.array(UploadFileSchema)
+    .min(1, 'At least one image is required.')
+    .max(MAX_IMAGES, `Upload at most ${MAX_IMAGES} files at once.`),
+});
+
+// Read the ordered image list from a form, accepting the older single `image` field too
+export const getImageEntries = (formData: FormData) => {
+  const images = formData.getAll('images');
+  return images.length > 0 ? images : formData.getAll('image');
+};
+
+// What a background job makes besides the deck itself - 'pptx' keeps a PowerPoint file to download
+export const JobOutputSchema = z.enum(['interactive', 'pptx']).default('interactive');
+
+// Schema for regenerating one slide's speaker notes from the editor
+export const SpeakerNotesRequestSchema = z.object({
+  slide: SlideSchema,
+  presentationType: z.string().max(100, 'Presentation type too long.').optional(),
+});
+
+export const FlowModeSchema = z.enum(['pitch', 'training', 'report', 'sales']);
+
+// Schema for reordering a deck - the editor sends the deck it is showing
+export const ReorderRequestSchema = z.object({
+  presentation: SlidePresentationSchema,
+  mode: FlowModeSchema.default('pitch'),
+});
+
+// What the AI answers when asked for a better slide order
+export const SlideOrderSchema = z.object({
+  order: z.array(z.string().min(1)).min(1).max(200),
+});
+
+// Schema for one AI rewrite from the editor
+export const RewriteRequestSchema = z.object({
+  text: z.string().trim().min(1, 'Nothing to rewrite.').max(5000, 'Text too long to rewrite.'),
+  action: z.enum(['shorten', 'expand', 'formal', 'casual', 'translate', 'bullets', 'prose']),
+  audience: z.string().trim().max(200, 'Audience too long.').optional(),
+  language: z.string().trim().max(50, 'Language name too long.').optional(),
+  slideTitle: z.string().max(500, 'Slide title too long.').optional(),
+}).refine(request => request.action !== 'translate' || Boolean(request.language), {
+  message: 'Choose a language to translate into.',
+  path: ['language'],
+});
+
+// Schema for export routes (PDF, HTML).
+// Mirrors ExportOptions - the format comes from the route, so it isn't part of the body.
+export const ExportOptionsSchema = z.object({
+  quality: z.enum(['low', 'medium', 'high']).default('medium'),
+  includeNotes: z.boolean().optional(), // Each format picks its own default
+  notesLayout: z.enum(['notes', 'handout']).default('notes'),
+  customTheme: SlideThemeSchema.optional(),
+  filename: z.string().max(200, 'Filename too long.').optional(),
+  compression: z.boolean().optional(),
+});
+
+// Export either a deck sent in the request or one of the signed-in user's saved presentations.
+export const ExportRequestSchema = z.object({
+  presentation: SlidePresentationSchema.optional(),
+  historyId: z.string().min(1).optional(),
+  options: ExportOptionsSchema.default({}),
+}).refine((request) => Boolean(request.presentation) !== Boolean(request.historyId), {
+  message: 'Provide either a presentation or a historyId.',
+});
+
+
 // Schema for saving history records to MongoDB.
 // Validates the data before insertion into the database.
+// The owner comes from the session, never from the request body.
 export const HistorySaveSchema = z.object({
-  inputImageUrl: z.string().url('Input image URL must be a valid URL.').optional().nullable(), // Permanent URL of the original image from GCS.
+  inputImageUrl: z.string().url('Input image URL must be a valid URL.').optional().nullable(), // Permanent URL of an original image kept outside our bucket.
+  inputImagePath: z.string().min(1).max(500, 'Image path too long.').optional().nullable(), // Object path of the original image in GCS - signed on every read.
   generatedSlidesUrl: z.string().url('Generated slides URL must be valid.').optional().nullable(), // URL of the generated PPTX (Blob URL) or interactive presentation link.
   summary: z.string().min(1, 'Summary is required.').max(500, 'Summary too long.'),
-  themeUsed: z.enum(['minimalist', 'dark', 'colorful'], {
-    errorMap: (issue, ctx) => ({ message: 'Invalid theme used for history.' }),
-  }),
+  themeUsed: z.string().min(1, 'Theme is required.').max(100, 'Theme name too long.'), // Theme ID - built-in or AI generated, so not a fixed enum.
   // Refined from z.array(z.any()) to z.array(z.unknown()) for better type safety.
   // If the structure of slideContentDetails is known, define a more specific schema.
   slideContentDetails: z.array(z.unknown()).optional().nullable(), // Full structured content, primarily for interactive viewer.
+  presentation: SlidePresentationSchema, // The complete deck, so it can be reopened and edited later.
   outputType: z.enum(['pptx', 'interactive'], {
     errorMap: (issue, ctx) => ({ message: 'Invalid output type for history.' }),
   }),
-  userId: z.string().optional().nullable(), // Auth0 user ID for personalized history.
-});
\ No newline at end of file
+});
+
+// Schema for updating an existing history record.
+// Every field is optional, but an update must change something.
+export const HistoryUpdateSchema = HistorySaveSchema
+  .partial()
+  .refine((update) => Object.keys(update).length > 0, {
+    message: 'At least one field must be provided.',
+  });
+
+// Schema for paginated history listing query parameters.
+export const HistoryListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be 1 or greater.').default(1),
+  limit: z.coerce.number().int().min(1).max(100, 'Limit cannot exceed 100.').default(20),
+});
+
+// Schema for changing how a saved presentation is shared.
+// Leave a field out to keep it as it is; `null` clears a password or an expiry date.
+export const ShareUpdateSchema = z.object({
+  visibility: z.enum(['private', 'unlisted', 'public'], {
+    errorMap: () => ({ message: 'Visibility must be private, unlisted or public.' }),
+  }).optional(),
+  password: z.string().min(4, 'Password must be at least 4 characters.').max(128, 'Password too long.').optional().nullable(),
+  expiresAt: z.coerce.date()
+    .refine((date) => date.getTime() > Date.now(), { message: 'Expiry date must be in the future.' })
+    .optional()
+    .nullable(),
+}).refine((update) => Object.keys(update).length > 0, {
+  message: 'At least one field must be provided.',
+});
+
+// Schema for signing in with a credentials provider.
+export const CredentialsSchema = z.object({
+  email: z.string().trim().email('Enter a valid email address.').max(320),
+  password: z.string().min(1, 'Password is required.').max(128, 'Password too long.'),
+});
+
+// Schema for a custom theme saved from the theme editor.
+// Colors must be six-digit hex so their contrast can be checked; the ID comes from the server.
+const HexColorSchema = z.string().regex(/^#[0-9a-f]{6}$/i, 'Colors must be six-digit hex values, e.g. #1e293b.');
+const FontSchema = z.string().trim().min(1, 'Font is required.').max(100, 'Font name too long.');
+const SpacingSchema = z.string().regex(/^\d+(\.\d+)?(rem|em|px)$/, 'Spacing must be a length in rem, em or px.');
+
+export const ThemeInputSchema = z.object({
+  name: z.string().trim().min(1, 'Theme name is required.').max(60, 'Theme name too long.'),
+  description: z.string().trim().max(200, 'Description too long.').optional(),
+  colors: z.object({
+    primary: HexColorSchema,
+    secondary: HexColorSchema,
+    accent: HexColorSchema,
+    background: HexColorSchema,
+    text: HexColorSchema,
+    surface: HexColorSchema.optional(),
+    muted: HexColorSchema.optional(),
+  }),
+  fonts: z.object({
+    heading: FontSchema,
+    body: FontSchema,
+    code: FontSchema.optional(),
+  }),
+  layout: SlideThemeSchema.shape.layout,
+  spacing: z.object({
+    small: SpacingSchema,
+    medium: SpacingSchema,
+    large: SpacingSchema,
+  }).optional(),
+});
+
+// Schema for a user's brand kit.
+export const BrandKitSchema = z.object({
+  name: z.string().trim().min(1, 'Brand kit name is required.').max(60, 'Brand kit name too long.'),
+  colors: z.object({
+    primary: HexColorSchema,
+    secondary: HexColorSchema,
+    accent: HexColorSchema,
+    background: HexColorSchema,
+    text: HexColorSchema,
+  }),
+  fonts: z.object({
+    heading: FontSchema,
+    body: FontSchema,
+  }),
+  logo: z.object({
+    src: LogoSourceSchema,
+    placement: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right']),
+    aspectRatio: z.number().min(0.1, 'Logo is too narrow.').max(10, 'Logo is too wide.'),
+  }).nullable(),
+});
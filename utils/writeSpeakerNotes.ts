@@ -0,0 +1,15 @@
+import type { Slide, SpeakerNotes } from '@/types/slides';
+import { SpeakerNotesSchema } from '@/utils/validation-schemas';
+
+// Ask /api/speaker-notes for fresh notes on one slide - the editor's "Regenerate notes"
+export async function writeSpeakerNotes(slide: Slide, presentationType?: string): Promise<SpeakerNotes> {
+  const res = await fetch('/api/speaker-notes', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ slide, ...(presentationType && { presentationType }) }),
+  });
+  const data = await res.json();
+  if (!data.success) throw new Error(data.error || 'Could not write speaker notes');
+
+  return SpeakerNotesSchema.parse(data.data.notes);
+}